@@ -12,9 +12,13 @@ import { AboutPage } from './pages/AboutPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
 import { TrendingPage } from './pages/TrendingPage';
 import { SearchPage } from './pages/SearchPage';
+import { SavedProjectsPage } from './pages/SavedProjectsPage';
+import { SettingsPage } from './pages/SettingsPage';
 import { AdminDashboardPage } from './pages/AdminDashboardPage';
 import { AdminUsersPage } from './pages/AdminUsersPage';
 import { AdminProjectsPage } from './pages/AdminProjectsPage';
+import { AdminModerationPage } from './pages/AdminModerationPage';
+import { AdminRolesPage } from './pages/AdminRolesPage';
 import { AdminRoute } from './components/AdminRoute';
 import { useAuth } from './context/AuthContext';
 import { NotificationSystem } from './components/NotificationSystem';
@@ -125,6 +129,16 @@ function App() {
                           <AdminProjectsPage />
                         </AdminRoute>
                       } />
+                      <Route path="/moderation" element={
+                        <AdminRoute requiredPermission="moderate_content">
+                          <AdminModerationPage />
+                        </AdminRoute>
+                      } />
+                      <Route path="/roles" element={
+                        <AdminRoute requiredPermission="manage_roles">
+                          <AdminRolesPage />
+                        </AdminRoute>
+                      } />
                       {/* Add more admin routes as needed */}
                     </Routes>
                   </Layout>
@@ -156,6 +170,14 @@ function App() {
                         </ProtectedRoute>
                       } 
                     />
+                    <Route 
+                      path="/project/:id/edit" 
+                      element={
+                        <ProtectedRoute>
+                          <SubmitPage />
+                        </ProtectedRoute>
+                      } 
+                    />
                     <Route 
                       path="/profile/:username" 
                       element={
@@ -164,6 +186,22 @@ function App() {
                         </ProtectedRoute>
                       } 
                     />
+                    <Route 
+                      path="/saved" 
+                      element={
+                        <ProtectedRoute>
+                          <SavedProjectsPage />
+                        </ProtectedRoute>
+                      } 
+                    />
+                    <Route 
+                      path="/settings" 
+                      element={
+                        <ProtectedRoute>
+                          <SettingsPage />
+                        </ProtectedRoute>
+                      } 
+                    />
                     <Route 
                       path="/profile/:username/edit" 
                       element={
@@ -0,0 +1,200 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import { ShieldAlert, ShieldCheck, AlertCircle, Loader2 } from 'lucide-react';
+import { sanctionService } from '../lib/supabase';
+import { SANCTION_TYPES, APPEAL_STATUS_LABELS, isSanctionActive } from '../lib/sanctions';
+import { UserSanction } from '../types';
+import { NotificationContext } from '../App';
+
+const formatDateTime = (date: Date) => date.toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit'
+});
+
+// Warnings, suspensions and bans on the current user's account, with appeals
+export const AccountStandingSection: React.FC = () => {
+  const notifications = React.useContext(NotificationContext);
+  const location = useLocation();
+  const sectionRef = React.useRef<HTMLElement>(null);
+  const [sanctions, setSanctions] = React.useState<UserSanction[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [appealingId, setAppealingId] = React.useState<string | null>(null);
+  const [appealMessage, setAppealMessage] = React.useState('');
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const fetchSanctions = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSanctions(await sanctionService.getMySanctions());
+    } catch (err) {
+      console.error('Error fetching account standing:', err);
+      setError('Failed to load your account standing. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchSanctions();
+  }, [fetchSanctions]);
+
+  // Sanction notifications link here
+  React.useEffect(() => {
+    if (!loading && location.hash === '#account-standing') {
+      sectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [loading, location.hash]);
+
+  const handleAppeal = async (sanction: UserSanction) => {
+    if (appealMessage.trim().length < 10) return;
+
+    try {
+      setSubmitting(true);
+      await sanctionService.submitAppeal(sanction.id, appealMessage);
+      notifications?.showSuccess('Appeal Sent', 'A moderator will review your appeal.');
+      setAppealingId(null);
+      setAppealMessage('');
+      await fetchSanctions();
+    } catch (err) {
+      console.error('Error submitting appeal:', err);
+      notifications?.showError(
+        'Appeal Failed',
+        err instanceof Error ? err.message : 'Failed to send your appeal. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const restriction = sanctions.find(s => s.type !== 'warning' && isSanctionActive(s));
+
+  return (
+    <section id="account-standing" ref={sectionRef} className="mt-8 bg-white border border-gray-300 rounded-lg">
+      <div className="flex items-center space-x-2 px-6 py-4 border-b border-gray-200">
+        {restriction ? (
+          <ShieldAlert className="h-5 w-5 text-red-500" />
+        ) : (
+          <ShieldCheck className="h-5 w-5 text-gray-500" />
+        )}
+        <h2 className="text-lg font-semibold text-gray-900">Account Standing</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+        </div>
+      ) : error ? (
+        <div className="p-6">
+          <div className="flex items-center space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <AlertCircle className="h-6 w-6 text-red-500" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="px-6 py-4 border-b border-gray-200">
+            {restriction ? (
+              <p className="text-sm text-red-700">
+                {restriction.type === 'suspension' && restriction.expiresAt
+                  ? `Your account is suspended until ${formatDateTime(restriction.expiresAt)}. You can't submit projects, comment or vote until then.`
+                  : "Your account is banned. You can't submit projects, comment or vote."}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Your account is in good standing.
+              </p>
+            )}
+          </div>
+
+          {sanctions.length > 0 && (
+            <ul className="divide-y divide-gray-200">
+              {sanctions.map(sanction => {
+                const active = isSanctionActive(sanction);
+                const canAppeal = !sanction.appeal && !sanction.revokedAt && (active || sanction.type === 'warning');
+
+                return (
+                  <li key={sanction.id} className="px-6 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {SANCTION_TYPES[sanction.type].label}
+                          </span>
+                          {sanction.revokedAt ? (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Lifted</span>
+                          ) : active ? (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">Active</span>
+                          ) : sanction.type === 'suspension' ? (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Ended</span>
+                          ) : null}
+                        </div>
+                        <p className="text-sm text-gray-700 mt-1">{sanction.reason}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDateTime(sanction.createdAt)}
+                          {sanction.expiresAt && ` · until ${formatDateTime(sanction.expiresAt)}`}
+                        </p>
+                        {sanction.appeal && (
+                          <div className="mt-2 text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded p-2">
+                            <span className="font-medium">Appeal: {APPEAL_STATUS_LABELS[sanction.appeal.status]}</span>
+                            {sanction.appeal.response && (
+                              <p className="mt-1">{sanction.appeal.response}</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      {canAppeal && appealingId !== sanction.id && (
+                        <button
+                          onClick={() => {
+                            setAppealingId(sanction.id);
+                            setAppealMessage('');
+                          }}
+                          className="flex-shrink-0 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 border border-blue-200 rounded-lg transition-colors"
+                        >
+                          Appeal
+                        </button>
+                      )}
+                    </div>
+
+                    {appealingId === sanction.id && (
+                      <div className="mt-3 space-y-2">
+                        <textarea
+                          value={appealMessage}
+                          onChange={(e) => setAppealMessage(e.target.value)}
+                          placeholder="Explain why this should be lifted (at least 10 characters)"
+                          maxLength={2000}
+                          rows={3}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setAppealingId(null)}
+                            disabled={submitting}
+                            className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleAppeal(sanction)}
+                            disabled={submitting || appealMessage.trim().length < 10}
+                            className="px-3 py-1.5 text-sm text-white bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 rounded-lg transition-colors"
+                          >
+                            {submitting ? 'Sending...' : 'Send Appeal'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
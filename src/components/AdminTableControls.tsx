@@ -0,0 +1,88 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { AdminSortDirection } from '../lib/admin';
+
+interface SortableHeaderProps<S extends string> {
+  label: string;
+  column: S;
+  sortBy: S;
+  sortDirection: AdminSortDirection;
+  onSort: (column: S) => void;
+}
+
+// Column header that sorts by its column; clicking the active column flips the direction
+export const SortableHeader = <S extends string>({
+  label,
+  column,
+  sortBy,
+  sortDirection,
+  onSort
+}: SortableHeaderProps<S>) => {
+  const active = sortBy === column;
+  const Icon = !active ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(column)}
+      className={`inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-900 ${
+        active ? 'text-gray-900' : ''
+      }`}
+    >
+      <span>{label}</span>
+      <Icon className={`h-3 w-3 ${active ? '' : 'text-gray-400'}`} />
+    </button>
+  );
+};
+
+interface TablePaginationProps {
+  page: number;
+  pageSize: number;
+  itemCount: number;
+  totalCount?: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+export const TablePagination: React.FC<TablePaginationProps> = ({
+  page,
+  pageSize,
+  itemCount,
+  totalCount,
+  hasPreviousPage,
+  hasNextPage,
+  onPrevious,
+  onNext
+}) => {
+  const first = (page - 1) * pageSize + 1;
+  const last = (page - 1) * pageSize + itemCount;
+
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 bg-gray-50">
+      <p className="text-sm text-gray-600">
+        {itemCount > 0 ? `Showing ${first}–${last}` : 'No results'}
+        {totalCount !== undefined && ` of ${totalCount}`}
+      </p>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={onPrevious}
+          disabled={!hasPreviousPage}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </button>
+        <button
+          onClick={onNext}
+          disabled={!hasNextPage}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </button>
+      </div>
+    </div>
+  );
+};
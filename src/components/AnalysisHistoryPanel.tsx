@@ -0,0 +1,182 @@
+import React from 'react';
+import { History, RefreshCw, GitCommit } from 'lucide-react';
+import { projectService } from '../lib/supabase';
+import { AnalysisSnapshot } from '../types';
+import { NotificationContext } from '../App';
+
+interface AnalysisHistoryPanelProps {
+  projectId: string;
+  canReanalyze: boolean;
+  onReanalyzed: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const TRIGGER_LABELS: Record<AnalysisSnapshot['trigger'], string> = {
+  submission: 'Submission',
+  manual: 'Re-analyzed by owner',
+  scheduled: 'Scheduled re-analysis'
+};
+
+export const AnalysisHistoryPanel: React.FC<AnalysisHistoryPanelProps> = ({ projectId, canReanalyze, onReanalyzed }) => {
+  const notifications = React.useContext(NotificationContext);
+  const [history, setHistory] = React.useState<AnalysisSnapshot[]>([]);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [reanalyzing, setReanalyzing] = React.useState(false);
+
+  const fetchHistory = React.useCallback(async () => {
+    try {
+      const data = await projectService.getAnalysisHistory(projectId);
+      setHistory(data);
+    } catch (error) {
+      console.error('Error fetching analysis history:', error);
+    }
+  }, [projectId]);
+
+  React.useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleReanalyze = async () => {
+    if (reanalyzing) return;
+
+    try {
+      setReanalyzing(true);
+      const result = await projectService.reanalyzeProject(projectId);
+
+      if (result.snapshotRecorded) {
+        await fetchHistory();
+        onReanalyzed();
+        notifications?.showSuccess('Re-analysis Complete', 'The latest analysis has been added to the history.');
+      } else {
+        notifications?.showInfo('No New Commits', 'The repository has not changed since the last analysis.');
+      }
+    } catch (error) {
+      console.error('Error re-analyzing project:', error);
+      notifications?.showError('Re-analysis Failed', 'Failed to re-analyze the repository. Please try again.');
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  if (history.length === 0 && !canReanalyze) return null;
+
+  const selected = history.find(snapshot => snapshot.id === selectedId) || history[history.length - 1];
+
+  // Snapshots are spaced evenly; the date labels carry the actual timing
+  const xFor = (index: number) => history.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (index / (history.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const yFor = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const vciPoints = history.map((snapshot, index) => `${xFor(index)},${yFor(snapshot.vciScore)}`).join(' ');
+  const confidencePoints = history
+    .map((snapshot, index) => snapshot.confidence != null ? `${xFor(index)},${yFor(snapshot.confidence)}` : null)
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white flex items-center">
+          <History className="h-5 w-5 text-blue-400 mr-3" />
+          Analysis History
+          <span className="ml-3 text-sm text-slate-400">
+            {history.length} snapshot{history.length !== 1 ? 's' : ''}
+          </span>
+        </h2>
+
+        {canReanalyze && (
+          <button
+            onClick={handleReanalyze}
+            disabled={reanalyzing}
+            className="flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${reanalyzing ? 'animate-spin' : ''}`} />
+            {reanalyzing ? 'Analyzing...' : 'Re-analyze'}
+          </button>
+        )}
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No analysis snapshots yet. Re-analyze to start tracking how the VCI score changes over time.
+        </p>
+      ) : (
+        <>
+          {/* Chart */}
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40 mb-2">
+            {[0, 50, 100].map(value => (
+              <g key={value}>
+                <line
+                  x1={CHART_PADDING}
+                  x2={CHART_WIDTH - CHART_PADDING}
+                  y1={yFor(value)}
+                  y2={yFor(value)}
+                  className="stroke-slate-700"
+                  strokeDasharray="4 4"
+                />
+                <text x={0} y={yFor(value) + 4} className="fill-slate-500 text-[10px]">{value}</text>
+              </g>
+            ))}
+            {confidencePoints && (
+              <polyline points={confidencePoints} fill="none" className="stroke-slate-400" strokeWidth={1.5} strokeDasharray="6 4" />
+            )}
+            <polyline points={vciPoints} fill="none" className="stroke-blue-400" strokeWidth={2} />
+            {history.map((snapshot, index) => (
+              <circle
+                key={snapshot.id}
+                cx={xFor(index)}
+                cy={yFor(snapshot.vciScore)}
+                r={snapshot.id === selected?.id ? 6 : 4}
+                className={`cursor-pointer ${snapshot.id === selected?.id ? 'fill-blue-300' : 'fill-blue-500'}`}
+                onClick={() => setSelectedId(snapshot.id)}
+              >
+                <title>{`${snapshot.createdAt.toLocaleDateString()}: VCI ${snapshot.vciScore}%`}</title>
+              </circle>
+            ))}
+          </svg>
+          <div className="flex items-center justify-between text-xs text-slate-500 mb-4">
+            <span>{history[0].createdAt.toLocaleDateString()}</span>
+            <span className="flex items-center gap-4">
+              <span className="flex items-center"><span className="w-3 h-0.5 bg-blue-400 mr-1" />VCI Score</span>
+              <span className="flex items-center"><span className="w-3 h-0.5 bg-slate-400 mr-1" />Confidence</span>
+            </span>
+            <span>{history[history.length - 1].createdAt.toLocaleDateString()}</span>
+          </div>
+
+          {/* Selected snapshot */}
+          {selected && (
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm mb-2">
+                <span className="text-white font-medium">VCI {selected.vciScore}%</span>
+                {selected.confidence != null && (
+                  <span className="text-slate-400">Confidence {selected.confidence}%</span>
+                )}
+                <span className="text-slate-400">{selected.createdAt.toLocaleString()}</span>
+                <span className="text-slate-500">{TRIGGER_LABELS[selected.trigger]}</span>
+                {selected.headSha && (
+                  <span className="flex items-center text-slate-500">
+                    <GitCommit className="h-3 w-3 mr-1" />
+                    <code>{selected.headSha.slice(0, 7)}</code>
+                  </span>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {[
+                  ...selected.indicators.codePatterns,
+                  ...selected.indicators.commitPatterns,
+                  ...selected.indicators.documentationPatterns
+                ].slice(0, 5).map((pattern, index) => (
+                  <li key={index} className="text-xs text-slate-400">• {pattern}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React from 'react';
-import { ArrowUp, ArrowDown, Calendar, Reply, MessageCircle, ChevronDown, ChevronRight } from 'lucide-react';
-import { Comment } from '../types';
+import { ArrowUp, ArrowDown, Calendar, Reply, MessageCircle, ChevronDown, ChevronRight, Pencil, Trash2, Flag } from 'lucide-react';
+import { Comment, CommentRevision } from '../types';
 import { votingService, commentService } from '../lib/supabase';
+import { ConfirmationModal } from './ConfirmationModal';
+import { MarkdownContent } from './MarkdownContent';
+import { MarkdownEditor } from './MarkdownEditor';
+import { ReportModal } from './ReportModal';
 import { useAuth } from '../context/AuthContext';
 import { NotificationContext } from '../App';
 
@@ -9,6 +13,7 @@ interface CommentBoxProps {
   comment: Comment;
   onReply?: (commentId: string) => void;
   onNewReply?: (newComment: Comment) => void;
+  onCommentUpdated?: (comment: Comment) => void;
   projectAuthor?: string;
   maxDepth?: number;
 }
@@ -17,6 +22,7 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
   comment, 
   onReply, 
   onNewReply,
+  onCommentUpdated,
   projectAuthor,
   maxDepth = 5
 }) => {
@@ -26,15 +32,24 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
   const [localUpvotes, setLocalUpvotes] = React.useState(comment.upvotes);
   const [localDownvotes, setLocalDownvotes] = React.useState(comment.downvotes);
   const [isVoting, setIsVoting] = React.useState(false);
+  const votePendingRef = React.useRef(false);
   const [showReplyForm, setShowReplyForm] = React.useState(false);
   const [replyText, setReplyText] = React.useState('');
   const [submittingReply, setSubmittingReply] = React.useState(false);
   const [isCollapsed, setIsCollapsed] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [editText, setEditText] = React.useState('');
+  const [savingEdit, setSavingEdit] = React.useState(false);
+  const [showDeleteModal, setShowDeleteModal] = React.useState(false);
+  const [deleting, setDeleting] = React.useState(false);
+  const [showReportModal, setShowReportModal] = React.useState(false);
+  const [revisions, setRevisions] = React.useState<CommentRevision[] | null>(null);
 
   // Determine if this comment is from the project author
-  const isOP = comment.author === projectAuthor;
+  const isOP = !comment.isDeleted && comment.author === projectAuthor;
+  const isAuthor = !!user && !comment.isDeleted && comment.authorId === user.id;
   const depth = comment.depth || 0;
-  const canReply = depth < maxDepth;
+  const canReply = depth < maxDepth && !comment.isDeleted;
 
   // Fetch user's current vote when component mounts
   React.useEffect(() => {
@@ -52,11 +67,20 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
     fetchUserVote();
   }, [comment.id, user]);
 
+  // Counts pushed over Realtime arrive through the comment prop; a vote that is still being
+  // saved keeps its optimistic counts
+  React.useEffect(() => {
+    if (votePendingRef.current) return;
+    setLocalUpvotes(comment.upvotes);
+    setLocalDownvotes(comment.downvotes);
+  }, [comment.upvotes, comment.downvotes]);
+
   const handleVote = async (type: 'up' | 'down') => {
     if (!user || isVoting) return;
 
     try {
       setIsVoting(true);
+      votePendingRef.current = true;
       
       const newVote = userVote === type ? null : type;
       
@@ -88,6 +112,7 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
       setLocalUpvotes(comment.upvotes);
       setLocalDownvotes(comment.downvotes);
     } finally {
+      votePendingRef.current = false;
       setIsVoting(false);
     }
   };
@@ -127,6 +152,56 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
     }
   };
 
+  const handleEditSubmit = async () => {
+    if (!editText.trim() || savingEdit) return;
+
+    if (editText.trim() === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+
+    try {
+      setSavingEdit(true);
+      const updated = await commentService.updateComment(comment.id, editText.trim());
+      onCommentUpdated?.(updated);
+      setRevisions(null);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      notifications?.showError('Edit Failed', 'Failed to save your changes. Please try again.');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setDeleting(true);
+      const deleted = await commentService.deleteComment(comment.id);
+      onCommentUpdated?.(deleted);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      notifications?.showError('Delete Failed', 'Failed to delete the comment. Please try again.');
+    } finally {
+      setDeleting(false);
+      setShowDeleteModal(false);
+    }
+  };
+
+  // Load previous versions the first time the history is opened
+  const toggleRevisions = async () => {
+    if (revisions) {
+      setRevisions(null);
+      return;
+    }
+
+    try {
+      setRevisions(await commentService.getCommentRevisions(comment.id));
+    } catch (error) {
+      console.error('Error fetching comment revisions:', error);
+    }
+  };
+
   const formatDate = (date: Date) => {
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
@@ -165,14 +240,16 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
             )}
             
             {/* Author Avatar */}
-            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl flex items-center justify-center text-white text-sm font-semibold shadow-sm">
-              {comment.author.charAt(0).toUpperCase()}
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center text-white text-sm font-semibold shadow-sm ${
+              comment.isDeleted ? 'bg-gray-300' : 'bg-gradient-to-br from-blue-500 to-blue-600'
+            }`}>
+              {comment.isDeleted ? '?' : comment.author.charAt(0).toUpperCase()}
             </div>
             
             {/* Author Info */}
             <div>
               <div className="flex items-center space-x-2">
-                <span className="text-sm font-semibold text-gray-900">{comment.author}</span>
+                <span className={`text-sm font-semibold ${comment.isDeleted ? 'text-gray-400' : 'text-gray-900'}`}>{comment.author}</span>
                 {isOP && (
                   <span className="px-2 py-0.5 bg-blue-500 text-white text-xs rounded-full font-medium">
                     OP
@@ -187,6 +264,18 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
               <div className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
                 <Calendar className="h-3 w-3" />
                 <span>{formatDate(comment.createdAt)}</span>
+                {comment.editedAt && !comment.isDeleted && (
+                  <>
+                    <span>•</span>
+                    <button
+                      onClick={toggleRevisions}
+                      className="hover:text-gray-700 transition-colors"
+                      title={`Edited ${comment.editedAt.toLocaleString()}`}
+                    >
+                      edited {formatDate(comment.editedAt)}
+                    </button>
+                  </>
+                )}
                 {depth > 0 && (
                   <>
                     <span>•</span>
@@ -198,40 +287,88 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
           </div>
           
           {/* Vote Controls */}
-          <div className="flex items-center space-x-1">
-            <button
-              onClick={() => handleVote('up')}
-              disabled={!user || isVoting}
-              className={`p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                userVote === 'up' ? 'text-amber-500 bg-amber-50' : 'text-gray-400'
-              }`}
-            >
-              <ArrowUp className="h-4 w-4" />
-            </button>
-            <span className={`text-sm font-semibold min-w-[2rem] text-center ${
-              userVote === 'up' ? 'text-amber-500' : 
-              userVote === 'down' ? 'text-red-500' : 'text-gray-600'
-            }`}>
-              {netVotes}
-            </span>
-            <button
-              onClick={() => handleVote('down')}
-              disabled={!user || isVoting}
-              className={`p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                userVote === 'down' ? 'text-red-500 bg-red-50' : 'text-gray-400'
-              }`}
-            >
-              <ArrowDown className="h-4 w-4" />
-            </button>
-          </div>
+          {!comment.isDeleted && (
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => handleVote('up')}
+                disabled={!user || isVoting}
+                className={`p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  userVote === 'up' ? 'text-amber-500 bg-amber-50' : 'text-gray-400'
+                }`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <span className={`text-sm font-semibold min-w-[2rem] text-center ${
+                userVote === 'up' ? 'text-amber-500' : 
+                userVote === 'down' ? 'text-red-500' : 'text-gray-600'
+              }`}>
+                {netVotes}
+              </span>
+              <button
+                onClick={() => handleVote('down')}
+                disabled={!user || isVoting}
+                className={`p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  userVote === 'down' ? 'text-red-500 bg-red-50' : 'text-gray-400'
+                }`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+            </div>
+          )}
         </div>
         
         {/* Comment Content */}
         {!isCollapsed && (
           <>
-            <p className="text-gray-700 text-sm leading-relaxed mb-4">
-              {comment.content}
-            </p>
+            {comment.isDeleted ? (
+              <p className="text-gray-400 text-sm italic mb-4">[deleted]</p>
+            ) : isEditing ? (
+              <div className="mb-4">
+                <MarkdownEditor
+                  value={editText}
+                  onChange={setEditText}
+                />
+                <div className="flex justify-end space-x-3 mt-3">
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="button-secondary text-sm"
+                    disabled={savingEdit}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleEditSubmit}
+                    disabled={!editText.trim() || savingEdit}
+                    className="button-primary text-sm"
+                  >
+                    {savingEdit ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <MarkdownContent
+                content={comment.content}
+                className="text-sm leading-relaxed mb-4"
+              />
+            )}
+
+            {/* Edit History */}
+            {revisions && (
+              <div className="mb-4 p-3 bg-gray-50/80 border border-gray-200 rounded-lg space-y-3">
+                {revisions.length === 0 ? (
+                  <p className="text-xs text-gray-500">No earlier versions.</p>
+                ) : (
+                  revisions.map(revision => (
+                    <div key={revision.id}>
+                      <p className="text-xs text-gray-500 mb-1">
+                        Before edit {revision.revisionNumber} ({revision.createdAt.toLocaleString()})
+                      </p>
+                      <MarkdownContent content={revision.content} className="text-sm text-gray-600" />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
 
             {/* Action Buttons */}
             <div className="flex items-center space-x-4">
@@ -245,6 +382,38 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
                 </button>
               )}
               
+              {isAuthor && !isEditing && (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditText(comment.content);
+                      setIsEditing(true);
+                    }}
+                    className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700 transition-colors font-medium"
+                  >
+                    <Pencil className="h-3 w-3" />
+                    <span>Edit</span>
+                  </button>
+                  <button
+                    onClick={() => setShowDeleteModal(true)}
+                    className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600 transition-colors font-medium"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    <span>Delete</span>
+                  </button>
+                </>
+              )}
+              
+              {user && !isAuthor && !comment.isDeleted && (
+                <button
+                  onClick={() => setShowReportModal(true)}
+                  className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600 transition-colors font-medium"
+                >
+                  <Flag className="h-3 w-3" />
+                  <span>Report</span>
+                </button>
+              )}
+              
               {comment.replies && comment.replies.length > 0 && (
                 <div className="flex items-center space-x-1 text-xs text-gray-500">
                   <MessageCircle className="h-3 w-3" />
@@ -260,12 +429,10 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
             {/* Reply Form */}
             {showReplyForm && user && (
               <div className="mt-4 p-4 bg-gray-50/80 border border-gray-200 rounded-xl">
-                <textarea
+                <MarkdownEditor
                   value={replyText}
-                  onChange={(e) => setReplyText(e.target.value)}
+                  onChange={setReplyText}
                   placeholder={`Reply to ${comment.author}...`}
-                  className="w-full px-4 py-3 bg-white border border-gray-300 rounded-lg text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
-                  rows={3}
                 />
                 <div className="flex justify-end space-x-3 mt-3">
                   <button
@@ -301,12 +468,34 @@ export const CommentBox: React.FC<CommentBoxProps> = ({
               comment={reply} 
               onReply={onReply}
               onNewReply={onNewReply}
+              onCommentUpdated={onCommentUpdated}
               projectAuthor={projectAuthor}
               maxDepth={maxDepth}
             />
           ))}
         </div>
       )}
+
+      {/* Delete Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={handleDelete}
+        title="Delete Comment"
+        message="Are you sure you want to delete this comment? Replies will stay in the thread under a [deleted] placeholder."
+        confirmText="Delete Comment"
+        cancelText="Cancel"
+        type="danger"
+        loading={deleting}
+      />
+
+      <ReportModal
+        isOpen={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="comment"
+        targetId={comment.id}
+        targetLabel={`comment by ${comment.author}`}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,175 @@
+import React from 'react';
+import { Users, Bot, X } from 'lucide-react';
+import { votingService } from '../lib/supabase';
+import { CommunityVciSummary } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { NotificationContext } from '../App';
+
+interface CommunityVciPanelProps {
+  projectId: string;
+  aiScore: number;
+}
+
+const BUCKET_LABELS = ['0', '10', '20', '30', '40', '50', '60', '70', '80', '90'];
+
+export const CommunityVciPanel: React.FC<CommunityVciPanelProps> = ({ projectId, aiScore }) => {
+  const { user } = useAuth();
+  const notifications = React.useContext(NotificationContext);
+  const [summary, setSummary] = React.useState<CommunityVciSummary | null>(null);
+  const [userVote, setUserVote] = React.useState<number | null>(null);
+  const [draftScore, setDraftScore] = React.useState(50);
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const fetchSummary = React.useCallback(async () => {
+    try {
+      const data = await votingService.getCommunityVciSummary(projectId);
+      setSummary(data);
+    } catch (error) {
+      console.error('Error fetching community VCI:', error);
+    }
+  }, [projectId]);
+
+  React.useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  React.useEffect(() => {
+    const fetchUserVote = async () => {
+      if (!user) return;
+
+      const vote = await votingService.getUserVciVote(projectId, user.id);
+      setUserVote(vote);
+      if (vote !== null) {
+        setDraftScore(vote);
+      }
+    };
+
+    fetchUserVote();
+  }, [projectId, user]);
+
+  const handleSubmit = async (score: number | null) => {
+    if (!user || submitting) return;
+
+    try {
+      setSubmitting(true);
+      await votingService.castVciVote(projectId, score);
+      setUserVote(score);
+      await fetchSummary();
+
+      notifications?.showSuccess(
+        score === null ? 'VCI Vote Removed' : 'VCI Vote Saved',
+        score === null
+          ? 'Your VCI estimate has been removed.'
+          : `You rated this project ${score}% AI-coded.`
+      );
+    } catch (error) {
+      console.error('Error casting VCI vote:', error);
+      notifications?.showError(
+        'Vote Failed',
+        'Failed to save your VCI estimate. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const maxBucket = Math.max(1, ...(summary?.distribution || [0]));
+  const aiBucket = Math.min(9, Math.floor(aiScore / 10));
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 mb-8">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-white flex items-center">
+          <Users className="h-5 w-5 text-amber-400 mr-3" />
+          Community VCI
+          <span className="ml-3 text-sm text-slate-400">
+            {summary?.voteCount || 0} vote{summary?.voteCount !== 1 ? 's' : ''}
+          </span>
+        </h2>
+
+        <div className="flex items-center gap-6 text-sm">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-amber-400">
+              {summary?.score != null ? `${summary.score}%` : '—'}
+            </div>
+            <div className="text-xs text-slate-400">Median</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-slate-200">
+              {summary?.trimmedMean != null ? `${Math.round(summary.trimmedMean)}%` : '—'}
+            </div>
+            <div className="text-xs text-slate-400">Trimmed Mean</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-blue-400 flex items-center justify-center">
+              <Bot className="h-4 w-4 mr-1" />
+              {aiScore}%
+            </div>
+            <div className="text-xs text-slate-400">AI Analysis</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Distribution */}
+      <div className="flex items-end h-24 gap-1 mb-1">
+        {(summary?.distribution || new Array(10).fill(0)).map((count, index) => (
+          <div key={index} className="flex-1 flex flex-col justify-end h-full" title={`${count} vote${count !== 1 ? 's' : ''}`}>
+            <div
+              className={`rounded-t ${index === aiBucket ? 'bg-blue-500/70' : 'bg-amber-500/60'}`}
+              style={{ height: `${(count / maxBucket) * 100}%`, minHeight: count > 0 ? '4px' : '0' }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mb-6">
+        {BUCKET_LABELS.map((label) => (
+          <div key={label} className="flex-1 text-center text-xs text-slate-500">{label}</div>
+        ))}
+      </div>
+
+      {/* Cast Vote */}
+      {user ? (
+        <div className="bg-slate-800/50 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <label htmlFor="vci-vote" className="text-sm text-slate-300">
+              How AI-coded do you think this project is?
+            </label>
+            <span className="text-lg font-semibold text-white">{draftScore}%</span>
+          </div>
+          <input
+            id="vci-vote"
+            type="range"
+            min={0}
+            max={100}
+            step={1}
+            value={draftScore}
+            onChange={(e) => setDraftScore(parseInt(e.target.value, 10))}
+            disabled={submitting}
+            className="w-full accent-amber-500 mb-4"
+          />
+          <div className="flex items-center justify-end gap-3">
+            {userVote !== null && (
+              <button
+                onClick={() => handleSubmit(null)}
+                disabled={submitting}
+                className="flex items-center px-3 py-2 text-sm text-slate-400 hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Remove my vote
+              </button>
+            )}
+            <button
+              onClick={() => handleSubmit(draftScore)}
+              disabled={submitting || draftScore === userVote}
+              className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Saving...' : userVote !== null ? 'Update Vote' : 'Cast Vote'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">Sign in to cast your own VCI estimate.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Upload } from 'lucide-react';
+import { Project, PromptLogEntry } from '../types';
+import { MAX_PROMPT_ENTRIES, MAX_PROMPT_LENGTH, MAX_RESULT_LENGTH } from '../lib/promptImport';
+import { PromptImportModal } from './PromptImportModal';
+
+interface DevelopmentProcessFieldsProps {
+  developmentProcess: Project['developmentProcess'];
+  prompts: PromptLogEntry[];
+  onDevelopmentProcessChange: (developmentProcess: Project['developmentProcess']) => void;
+  onPromptsChange: (prompts: PromptLogEntry[]) => void;
+}
+
+const MAX_LIST_ITEMS = 10;
+const MAX_LIST_ITEM_LENGTH = 300;
+
+export const DevelopmentProcessFields: React.FC<DevelopmentProcessFieldsProps> = ({
+  developmentProcess,
+  prompts,
+  onDevelopmentProcessChange,
+  onPromptsChange
+}) => {
+  const [currentChallenge, setCurrentChallenge] = React.useState('');
+  const [currentLearning, setCurrentLearning] = React.useState('');
+  const [showImportModal, setShowImportModal] = React.useState(false);
+
+  // Total hours always follow the two parts
+  const updateHours = (field: 'aiAssistedHours' | 'manualHours', value: string) => {
+    const hours = Math.max(0, Math.round((parseFloat(value) || 0) * 10) / 10);
+    const updated = { ...developmentProcess, [field]: hours };
+    onDevelopmentProcessChange({
+      ...updated,
+      totalHours: Math.round((updated.aiAssistedHours + updated.manualHours) * 10) / 10
+    });
+  };
+
+  const addListItem = (field: 'challenges' | 'learnings', value: string, setValue: (value: string) => void) => {
+    const trimmedValue = value.trim();
+    if (!trimmedValue || developmentProcess[field].length >= MAX_LIST_ITEMS) return;
+
+    onDevelopmentProcessChange({
+      ...developmentProcess,
+      [field]: [...developmentProcess[field], trimmedValue]
+    });
+    setValue('');
+  };
+
+  const removeListItem = (field: 'challenges' | 'learnings', index: number) => {
+    onDevelopmentProcessChange({
+      ...developmentProcess,
+      [field]: developmentProcess[field].filter((_, i) => i !== index)
+    });
+  };
+
+  const updatePrompt = (index: number, updates: Partial<PromptLogEntry>) => {
+    onPromptsChange(prompts.map((entry, i) => i === index ? { ...entry, ...updates } : entry));
+  };
+
+  const movePrompt = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= prompts.length) return;
+
+    const reordered = [...prompts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onPromptsChange(reordered);
+  };
+
+  const renderList = (
+    field: 'challenges' | 'learnings',
+    label: string,
+    placeholder: string,
+    value: string,
+    setValue: (value: string) => void
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label} <span className="text-gray-400">(optional)</span>
+      </label>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={value}
+          maxLength={MAX_LIST_ITEM_LENGTH}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addListItem(field, value, setValue))}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder={placeholder}
+        />
+        <button
+          type="button"
+          onClick={() => addListItem(field, value, setValue)}
+          disabled={developmentProcess[field].length >= MAX_LIST_ITEMS}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-blue-300"
+        >
+          Add
+        </button>
+      </div>
+      {developmentProcess[field].length > 0 && (
+        <ul className="space-y-2">
+          {developmentProcess[field].map((item, index) => (
+            <li key={index} className="flex items-start justify-between bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-700">
+              <span>{item}</span>
+              <button
+                type="button"
+                onClick={() => removeListItem(field, index)}
+                className="ml-2 text-gray-400 hover:text-red-500"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        {developmentProcess[field].length}/{MAX_LIST_ITEMS} {label.toLowerCase()}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Hours */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Time Spent <span className="text-gray-400">(optional)</span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <p className="text-xs text-gray-600 mb-1">AI-assisted hours</p>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={developmentProcess.aiAssistedHours || ''}
+              onChange={(e) => updateHours('aiAssistedHours', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0"
+            />
+          </div>
+          <div>
+            <p className="text-xs text-gray-600 mb-1">Manual hours</p>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={developmentProcess.manualHours || ''}
+              onChange={(e) => updateHours('manualHours', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0"
+            />
+          </div>
+          <div>
+            <p className="text-xs text-gray-600 mb-1">Total hours</p>
+            <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-700">
+              {developmentProcess.totalHours}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {renderList('challenges', 'Challenges', 'What was hard? e.g. "Getting auth redirects right"', currentChallenge, setCurrentChallenge)}
+      {renderList('learnings', 'Learnings', 'What did you learn? e.g. "Prompting with failing tests works well"', currentLearning, setCurrentLearning)}
+
+      {/* Prompt Log */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Prompt Log <span className="text-gray-400">(optional)</span>
+        </label>
+        <p className="text-xs text-gray-600 mb-3">
+          Record the prompts that shaped the project and what came out of them, in the order you used them.
+        </p>
+
+        <div className="space-y-4">
+          {prompts.map((entry, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="text-sm font-medium text-gray-500">#{index + 1}</span>
+                <input
+                  type="text"
+                  value={entry.tool}
+                  maxLength={50}
+                  onChange={(e) => updatePrompt(index, { tool: e.target.value })}
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Tool, e.g. Cursor"
+                />
+                <input
+                  type="date"
+                  value={entry.date || ''}
+                  onChange={(e) => updatePrompt(index, { date: e.target.value || undefined })}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => movePrompt(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => movePrompt(index, 1)}
+                  disabled={index === prompts.length - 1}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onPromptsChange(prompts.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title="Remove prompt"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <textarea
+                value={entry.prompt}
+                maxLength={MAX_PROMPT_LENGTH}
+                onChange={(e) => updatePrompt(index, { prompt: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 mb-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Prompt"
+              />
+              <textarea
+                value={entry.result}
+                maxLength={MAX_RESULT_LENGTH}
+                onChange={(e) => updatePrompt(index, { result: e.target.value })}
+                rows={2}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Result: what did it produce and how much did you keep?"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 flex gap-2">
+          <button
+            type="button"
+            onClick={() => onPromptsChange([...prompts, { tool: '', prompt: '', result: '' }])}
+            disabled={prompts.length >= MAX_PROMPT_ENTRIES}
+            className="flex items-center px-4 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Prompt
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowImportModal(true)}
+            disabled={prompts.length >= MAX_PROMPT_ENTRIES}
+            className="flex items-center px-4 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import from File
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {prompts.length}/{MAX_PROMPT_ENTRIES} prompts
+        </p>
+      </div>
+
+      <PromptImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImport={(entries) => onPromptsChange([...prompts, ...entries].slice(0, MAX_PROMPT_ENTRIES))}
+        maxEntries={MAX_PROMPT_ENTRIES - prompts.length}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Clock, Bot, User, AlertTriangle, Lightbulb, MessageSquare } from 'lucide-react';
+import { Project, PromptLogEntry } from '../types';
+
+interface DevelopmentTimelineProps {
+  developmentProcess: Project['developmentProcess'];
+  prompts: PromptLogEntry[];
+}
+
+// Long prompts are collapsed to keep the timeline scannable
+const PROMPT_PREVIEW_LENGTH = 280;
+
+export const DevelopmentTimeline: React.FC<DevelopmentTimelineProps> = ({ developmentProcess, prompts }) => {
+  const [expanded, setExpanded] = React.useState<Set<number>>(new Set());
+
+  const { totalHours, aiAssistedHours, manualHours, challenges, learnings } = developmentProcess;
+  const hasHours = totalHours > 0;
+
+  if (!hasHours && challenges.length === 0 && learnings.length === 0 && prompts.length === 0) {
+    return null;
+  }
+
+  const toggleExpanded = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const aiShare = hasHours ? Math.round((aiAssistedHours / totalHours) * 100) : 0;
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 mb-8">
+      <h2 className="text-xl font-semibold text-white mb-6 flex items-center">
+        <Clock className="h-5 w-5 text-emerald-400 mr-3" />
+        Development Process
+        {hasHours && (
+          <span className="ml-3 text-sm text-slate-400">{totalHours} hours</span>
+        )}
+      </h2>
+
+      {/* Hours split */}
+      {hasHours && (
+        <div className="mb-6">
+          <div className="flex h-3 rounded-full overflow-hidden bg-slate-700 mb-2">
+            <div className="bg-blue-500" style={{ width: `${aiShare}%` }} />
+            <div className="bg-emerald-500" style={{ width: `${100 - aiShare}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-slate-400">
+            <span className="flex items-center">
+              <Bot className="h-3 w-3 text-blue-400 mr-1" />
+              {aiAssistedHours}h AI-assisted ({aiShare}%)
+            </span>
+            <span className="flex items-center">
+              <User className="h-3 w-3 text-emerald-400 mr-1" />
+              {manualHours}h manual ({100 - aiShare}%)
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Prompt timeline */}
+      {prompts.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-slate-300 mb-4 flex items-center">
+            <MessageSquare className="h-4 w-4 mr-2" />
+            Prompt Log ({prompts.length})
+          </h3>
+          <ol className="relative border-l border-slate-700 ml-2 space-y-6">
+            {prompts.map((entry, index) => {
+              const isLong = entry.prompt.length > PROMPT_PREVIEW_LENGTH;
+              const isExpanded = expanded.has(index);
+
+              return (
+                <li key={index} className="ml-6">
+                  <span className="absolute -left-2 flex items-center justify-center w-4 h-4 bg-blue-500 rounded-full ring-4 ring-slate-900" />
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="text-xs font-medium text-slate-500">Step {index + 1}</span>
+                    <span className="px-2 py-0.5 text-xs bg-blue-500/20 text-blue-300 rounded-full">{entry.tool}</span>
+                    {entry.date && (
+                      <time className="text-xs text-slate-500">
+                        {new Date(`${entry.date}T00:00:00`).toLocaleDateString()}
+                      </time>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-200 whitespace-pre-wrap bg-slate-800/50 rounded-lg p-3 mb-2">
+                    {isLong && !isExpanded ? `${entry.prompt.slice(0, PROMPT_PREVIEW_LENGTH)}…` : entry.prompt}
+                  </p>
+                  {isLong && (
+                    <button
+                      onClick={() => toggleExpanded(index)}
+                      className="text-xs text-blue-400 hover:text-blue-300 mb-2"
+                    >
+                      {isExpanded ? 'Show less' : 'Show full prompt'}
+                    </button>
+                  )}
+                  {entry.result && (
+                    <p className="text-sm text-slate-400 whitespace-pre-wrap">
+                      <span className="text-slate-500">Result: </span>
+                      {entry.result}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
+      {/* Challenges and learnings */}
+      {(challenges.length > 0 || learnings.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {challenges.length > 0 && (
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-amber-400 mb-2 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                Challenges
+              </h4>
+              <ul className="space-y-1">
+                {challenges.map((challenge, index) => (
+                  <li key={index} className="text-sm text-slate-300">• {challenge}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {learnings.length > 0 && (
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-emerald-400 mb-2 flex items-center">
+                <Lightbulb className="h-4 w-4 mr-1" />
+                Learnings
+              </h4>
+              <ul className="space-y-1">
+                {learnings.map((learning, index) => (
+                  <li key={index} className="text-sm text-slate-300">• {learning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import React from 'react';
+import { Github, Gitlab, GitBranch } from 'lucide-react';
+import { ForgeKind } from '../types';
+
+interface ForgeIconProps {
+  forge?: ForgeKind;
+  className?: string;
+}
+
+export const ForgeIcon: React.FC<ForgeIconProps> = ({ forge, className }) => {
+  if (forge === 'github') return <Github className={className} />;
+  if (forge === 'gitlab') return <Gitlab className={className} />;
+  return <GitBranch className={className} />;
+};
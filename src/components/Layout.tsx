@@ -1,8 +1,9 @@
 import React from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Plus, User, TrendingUp, Search, BarChart3, LogOut, X, Bell, Shield, Menu } from 'lucide-react';
+import { Plus, User, TrendingUp, Search, BarChart3, LogOut, X, Bell, Shield, Menu, Bookmark, Settings } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { statsService } from '../lib/supabase';
+import { statsService, searchService } from '../lib/supabase';
+import { SEARCH_OPERATORS, applySearchQueryHint, getSearchQueryHint } from '../lib/searchQuery';
 import { adminService } from '../lib/admin';
 import { CommunityStats, PopularAiTool } from '../types';
 import { NotificationPanel } from './NotificationPanel';
@@ -12,6 +13,12 @@ interface LayoutProps {
   children: React.ReactNode;
 }
 
+interface SearchQueryCompletion {
+  label: string;
+  completion: string;
+  description?: string;
+}
+
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -21,6 +28,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [showMobileMenu, setShowMobileMenu] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState('');
   const [isSearchFocused, setIsSearchFocused] = React.useState(false);
+  const [queryCompletions, setQueryCompletions] = React.useState<SearchQueryCompletion[]>([]);
   const [isAdmin, setIsAdmin] = React.useState(false);
   
   // Sidebar data state
@@ -71,6 +79,14 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
     setSearchQuery('');
   };
 
+  const queryHint = React.useMemo(() => getSearchQueryHint(searchQuery), [searchQuery]);
+
+  const applyCompletion = (completion: string) => {
+    if (queryHint) {
+      setSearchQuery(applySearchQueryHint(searchQuery, queryHint, completion));
+    }
+  };
+
   const handleAvatarError = () => {
     setAvatarError(true);
   };
@@ -116,6 +132,51 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
     checkAdminStatus();
   }, [user]);
 
+  // Autocomplete search operators and their values for the token being typed
+  React.useEffect(() => {
+    if (!queryHint) {
+      setQueryCompletions([]);
+      return;
+    }
+
+    const { operator, partial } = queryHint;
+    const lowerPartial = partial.toLowerCase();
+
+    if (!operator) {
+      setQueryCompletions(lowerPartial
+        ? SEARCH_OPERATORS
+          .filter(op => op.name.startsWith(lowerPartial))
+          .map(op => ({ label: `${op.name}:`, completion: `${op.name}:`, description: op.description }))
+        : []);
+      return;
+    }
+
+    if (!operator.suggestions) {
+      setQueryCompletions((operator.values || [])
+        .filter(value => value.startsWith(lowerPartial))
+        .map(value => ({ label: `${operator.name}:${value}`, completion: value })));
+      return;
+    }
+
+    if (!partial) {
+      setQueryCompletions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const suggestions = await searchService.getSearchSuggestions(partial, 5, operator.suggestions);
+      if (!cancelled) {
+        setQueryCompletions(suggestions.map(value => ({ label: `${operator.name}:${value}`, completion: value })));
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [queryHint]);
+
   // Update search query from URL when on search page
   React.useEffect(() => {
     if (location.pathname === '/search') {
@@ -250,8 +311,38 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                         </button>
                       ))}
                     </div>
+                    <div className="text-xs text-gray-500 mt-3">
+                      Narrow results with operators like{' '}
+                      <code className="text-blue-700">tech:react</code>,{' '}
+                      <code className="text-blue-700">tool:cursor</code> or{' '}
+                      <code className="text-blue-700">vci:&gt;70</code>
+                    </div>
                   </div>
                 )}
+
+                {/* Operator autocomplete */}
+                {isSearchFocused && searchQuery && queryCompletions.length > 0 && (
+                  <ul className="absolute top-full left-0 right-0 mt-2 bg-white/95 backdrop-blur-sm border border-gray-200 rounded-xl shadow-xl py-2 z-50">
+                    {queryCompletions.map(item => (
+                      <li key={item.label}>
+                        <button
+                          type="button"
+                          // Keep focus in the input so the dropdown stays open
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            applyCompletion(item.completion);
+                          }}
+                          className="w-full flex items-center justify-between gap-4 px-4 py-2 text-left hover:bg-blue-50 transition-colors"
+                        >
+                          <span className="font-mono text-sm text-gray-900">{item.label}</span>
+                          {item.description && (
+                            <span className="text-xs text-gray-500 truncate">{item.description}</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </form>
             </div>
 
@@ -374,6 +465,22 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                         <User className="h-4 w-4 mr-3" />
                         Profile
                       </Link>
+                      <Link
+                        to="/saved"
+                        className="flex items-center px-4 py-3 text-sm text-gray-700 hover:bg-gray-100/60 transition-colors"
+                        onClick={() => setShowUserMenu(false)}
+                      >
+                        <Bookmark className="h-4 w-4 mr-3" />
+                        Saved Projects
+                      </Link>
+                      <Link
+                        to="/settings"
+                        className="flex items-center px-4 py-3 text-sm text-gray-700 hover:bg-gray-100/60 transition-colors"
+                        onClick={() => setShowUserMenu(false)}
+                      >
+                        <Settings className="h-4 w-4 mr-3" />
+                        Settings
+                      </Link>
                       {isAdmin && (
                         <Link
                           to="/admin"
@@ -500,6 +607,22 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                       <User className="h-5 w-5" />
                       <span>Profile</span>
                     </Link>
+                    <Link
+                      to="/saved"
+                      className="flex items-center space-x-3 px-4 py-3 rounded-xl text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-white/60 transition-all duration-200"
+                      onClick={closeMobileMenu}
+                    >
+                      <Bookmark className="h-5 w-5" />
+                      <span>Saved Projects</span>
+                    </Link>
+                    <Link
+                      to="/settings"
+                      className="flex items-center space-x-3 px-4 py-3 rounded-xl text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-white/60 transition-all duration-200"
+                      onClick={closeMobileMenu}
+                    >
+                      <Settings className="h-5 w-5" />
+                      <span>Settings</span>
+                    </Link>
                     <button
                       onClick={handleSignOut}
                       className="flex items-center space-x-3 px-4 py-3 rounded-xl text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-white/60 transition-all duration-200 w-full text-left"
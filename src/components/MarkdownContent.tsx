@@ -0,0 +1,126 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { InlineNode, MarkdownBlock, parseMarkdown } from '../lib/markdown';
+import { HighlightToken, highlightCode } from '../lib/syntaxHighlight';
+
+interface MarkdownContentProps {
+  content: string;
+  theme?: 'light' | 'dark';
+  className?: string;
+}
+
+const THEMES = {
+  light: {
+    text: 'text-gray-700',
+    heading: 'text-gray-900',
+    link: 'text-blue-600 hover:text-blue-700 underline',
+    mention: 'text-blue-600 hover:text-blue-700 font-medium',
+    inlineCode: 'bg-gray-100 text-pink-700',
+    codeBlock: 'bg-slate-900 text-slate-100',
+    quote: 'border-gray-300 text-gray-600',
+    rule: 'border-gray-200'
+  },
+  dark: {
+    text: 'text-slate-300',
+    heading: 'text-white',
+    link: 'text-blue-400 hover:text-blue-300 underline',
+    mention: 'text-blue-400 hover:text-blue-300 font-medium',
+    inlineCode: 'bg-slate-700 text-pink-300',
+    codeBlock: 'bg-slate-950 text-slate-100 border border-slate-700',
+    quote: 'border-slate-600 text-slate-400',
+    rule: 'border-slate-700'
+  }
+};
+
+const TOKEN_CLASSES: Record<HighlightToken['type'], string | undefined> = {
+  plain: undefined,
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-400',
+  number: 'text-amber-300',
+  keyword: 'text-purple-400'
+};
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-semibold'];
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, theme = 'light', className = '' }) => {
+  const styles = THEMES[theme];
+  const blocks = React.useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className={`px-1 py-0.5 rounded font-mono text-[0.9em] ${styles.inlineCode}`}>{node.value}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'mention':
+        return (
+          <Link key={index} to={`/profile/${node.username}`} className={styles.mention}>
+            @{node.username}
+          </Link>
+        );
+      case 'link':
+        return node.href.startsWith('/') ? (
+          <Link key={index} to={node.href} className={styles.link}>{renderInline(node.children)}</Link>
+        ) : (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className={styles.link}>
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+  const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] => blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading':
+        return React.createElement(
+          `h${block.level}`,
+          { key: index, className: `${HEADING_CLASSES[Math.min(block.level, 3) - 1]} ${styles.heading}` },
+          renderInline(block.children)
+        );
+      case 'code':
+        return (
+          <pre key={index} className={`rounded-lg p-3 overflow-x-auto text-sm font-mono ${styles.codeBlock}`}>
+            <code>
+              {highlightCode(block.value, block.language).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.value}</span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={index} className={`border-l-4 pl-3 space-y-2 ${styles.quote}`}>
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-1">{renderBlocks(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-6 space-y-1">{items}</ul>
+        );
+      }
+      case 'rule':
+        return <hr key={index} className={styles.rule} />;
+    }
+  });
+
+  return (
+    <div className={`space-y-3 break-words ${styles.text} ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+};
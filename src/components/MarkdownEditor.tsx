@@ -0,0 +1,84 @@
+import React from 'react';
+import { MarkdownContent } from './MarkdownContent';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+  theme?: 'light' | 'dark';
+  textareaClassName?: string;
+}
+
+const THEMES = {
+  light: {
+    activeTab: 'bg-gray-200 text-gray-900',
+    inactiveTab: 'text-gray-500 hover:text-gray-700',
+    hint: 'text-gray-400',
+    preview: 'bg-white border-gray-300',
+    empty: 'text-gray-400',
+    textarea: 'w-full px-4 py-3 bg-white border border-gray-300 rounded-lg text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm'
+  },
+  dark: {
+    activeTab: 'bg-slate-700 text-white',
+    inactiveTab: 'text-slate-400 hover:text-white',
+    hint: 'text-slate-500',
+    preview: 'bg-slate-800 border-slate-600',
+    empty: 'text-slate-500',
+    textarea: 'w-full px-4 py-3 bg-slate-800 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
+  }
+};
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  value,
+  onChange,
+  placeholder,
+  rows = 3,
+  required = false,
+  theme = 'light',
+  textareaClassName
+}) => {
+  const [showPreview, setShowPreview] = React.useState(false);
+  const styles = THEMES[theme];
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-md transition-colors ${active ? styles.activeTab : styles.inactiveTab}`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex space-x-1">
+          <button type="button" onClick={() => setShowPreview(false)} className={tabClass(!showPreview)}>
+            Write
+          </button>
+          <button type="button" onClick={() => setShowPreview(true)} className={tabClass(showPreview)}>
+            Preview
+          </button>
+        </div>
+        <span className={`text-xs ${styles.hint}`}>
+          Markdown, ```code``` and @mentions supported
+        </span>
+      </div>
+
+      {showPreview ? (
+        <div className={`min-h-[5rem] px-4 py-3 border rounded-lg text-sm ${styles.preview}`}>
+          {value.trim() ? (
+            <MarkdownContent content={value} theme={theme} />
+          ) : (
+            <p className={styles.empty}>Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={textareaClassName || styles.textarea}
+          rows={rows}
+          required={required}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Bell, X, Check, CheckCheck, Trash2, MessageCircle, ArrowUp, ArrowDown, User } from 'lucide-react';
+import { Bell, X, Check, CheckCheck, Trash2, MessageCircle, ArrowUp, ArrowDown, User, Bot, AlertCircle, AtSign, Rocket, SearchCheck, ShieldAlert, Scale } from 'lucide-react';
 import { notificationService, Notification } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
 import { useNotificationCount } from '../hooks/useNotificationCount';
@@ -86,6 +86,20 @@ export const NotificationPanel: React.FC<NotificationPanelProps> = ({ isOpen, on
         return <ArrowUp className="h-4 w-4 text-green-500" />;
       case 'comment_downvote':
         return <ArrowDown className="h-4 w-4 text-red-500" />;
+      case 'analysis_completed':
+        return <Bot className="h-4 w-4 text-blue-500" />;
+      case 'analysis_failed':
+        return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case 'mention':
+        return <AtSign className="h-4 w-4 text-purple-500" />;
+      case 'new_project_from_followed':
+        return <Rocket className="h-4 w-4 text-blue-500" />;
+      case 'saved_search_match':
+        return <SearchCheck className="h-4 w-4 text-blue-500" />;
+      case 'account_sanction':
+        return <ShieldAlert className="h-4 w-4 text-red-500" />;
+      case 'appeal_resolved':
+        return <Scale className="h-4 w-4 text-blue-500" />;
       default:
         return <Bell className="h-4 w-4 text-gray-500" />;
     }
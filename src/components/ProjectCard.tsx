@@ -1,31 +1,40 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowUp, ArrowDown, MessageCircle, ExternalLink, Github, Calendar, Bot, Verified, Eye, Tag, Share, Bookmark, BookmarkCheck, MoreHorizontal, Award, TrendingUp, Copy, Twitter, Linkedin, Facebook } from 'lucide-react';
+import { ArrowUp, ArrowDown, MessageCircle, ExternalLink, Calendar, Bot, Verified, Eye, Tag, Share, Bookmark, BookmarkCheck, MoreHorizontal, Award, TrendingUp, Copy, Twitter, Linkedin, Facebook, Flag } from 'lucide-react';
 import { Project } from '../types';
-import { votingService } from '../lib/supabase';
+import { projectService, votingService } from '../lib/supabase';
+import { markdownToPlainText } from '../lib/markdown';
 import { useAuth } from '../context/AuthContext';
+import { ForgeIcon } from './ForgeIcon';
+import { ReportModal } from './ReportModal';
 
 interface ProjectCardProps {
   project: Project;
   showFullContent?: boolean;
   highlight?: (text: string, term: string) => React.ReactNode;
   query?: string;
+  onSaveChange?: (projectId: string, saved: boolean) => void;
 }
 
 export const ProjectCard: React.FC<ProjectCardProps> = ({ 
   project, 
   showFullContent = false,
   highlight,
-  query = ''
+  query = '',
+  onSaveChange
 }) => {
   const { user } = useAuth();
   const [userVote, setUserVote] = React.useState<'up' | 'down' | null>(null);
   const [localUpvotes, setLocalUpvotes] = React.useState(project.upvotes);
   const [localDownvotes, setLocalDownvotes] = React.useState(project.downvotes);
+  const [localCommentCount, setLocalCommentCount] = React.useState(project.commentCount);
   const [isVoting, setIsVoting] = React.useState(false);
+  const votePendingRef = React.useRef(false);
   const [isExpanded, setIsExpanded] = React.useState(false);
   const [showShareMenu, setShowShareMenu] = React.useState(false);
   const [shareSuccess, setShareSuccess] = React.useState(false);
+  const [showMoreMenu, setShowMoreMenu] = React.useState(false);
+  const [showReportModal, setShowReportModal] = React.useState(false);
   const [isSaved, setIsSaved] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
 
@@ -36,7 +45,7 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
         try {
           const [vote, savedStatus] = await Promise.all([
             votingService.getUserProjectVote(project.id, user.id),
-            votingService.getUserSavedStatus?.(project.id, user.id) || Promise.resolve(false)
+            votingService.getUserSavedStatus(project.id, user.id)
           ]);
           setUserVote(vote);
           setIsSaved(savedStatus);
@@ -49,11 +58,22 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
     fetchUserData();
   }, [project.id, user]);
 
+  // Follow live vote and comment counts; a vote that is still being saved keeps its optimistic counts
+  React.useEffect(() => {
+    return projectService.subscribeToProjectStats(project.id, (stats) => {
+      setLocalCommentCount(stats.commentCount);
+      if (votePendingRef.current) return;
+      setLocalUpvotes(stats.upvotes);
+      setLocalDownvotes(stats.downvotes);
+    });
+  }, [project.id]);
+
   const handleVote = async (type: 'up' | 'down') => {
     if (!user || isVoting) return;
 
     try {
       setIsVoting(true);
+      votePendingRef.current = true;
       const newVote = userVote === type ? null : type;
       const prevVote = userVote;
       setUserVote(newVote);
@@ -73,9 +93,10 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
     } catch (error) {
       console.error('Error voting on project:', error);
       setUserVote(userVote);
-      setLocalUpvotes(project.upvotes);
-      setLocalDownvotes(project.downvotes);
+      setLocalUpvotes(localUpvotes);
+      setLocalDownvotes(localDownvotes);
     } finally {
+      votePendingRef.current = false;
       setIsVoting(false);
     }
   };
@@ -88,8 +109,8 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
       const newSavedStatus = !isSaved;
       setIsSaved(newSavedStatus);
       
-      // Call your save/unsave API here
-      await votingService.toggleSaveProject?.(project.id, newSavedStatus);
+      await votingService.toggleSaveProject(project.id, newSavedStatus);
+      onSaveChange?.(project.id, newSavedStatus);
     } catch (error) {
       console.error('Error saving project:', error);
       setIsSaved(isSaved);
@@ -143,6 +164,9 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
     return text;
   };
 
+  // Cards show the description without Markdown formatting
+  const plainDescription = markdownToPlainText(project.description);
+
   const truncateDescription = (text: string, maxLength: number = 180) => {
     if (text.length <= maxLength || isExpanded) return text;
     return text.substring(0, maxLength) + '...';
@@ -150,7 +174,7 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
 
   const handleShare = async (platform?: string) => {
     const projectUrl = `${window.location.origin}/project/${project.id}`;
-    const shareText = `Check out "${project.title}" - ${project.description.substring(0, 100)}...`;
+    const shareText = `Check out "${project.title}" - ${plainDescription.substring(0, 100)}...`;
 
     if (platform === 'copy') {
       try {
@@ -275,7 +299,7 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
               VCI: {project.vciScore}%
             </div>
             <span className="text-xs sm:text-sm text-gray-500 hidden sm:inline">{getVCILabel(project.vciScore)}</span>
-            {project.communityVciScore && (
+            {project.communityVciScore != null && (
               <span className="text-xs text-gray-500">
                 Community: {project.communityVciScore}%
               </span>
@@ -285,9 +309,9 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
           {/* Description */}
           <div className="mb-3">
             <p className="text-sm sm:text-base text-gray-700 leading-relaxed">
-              {renderText(truncateDescription(project.description))}
+              {renderText(truncateDescription(plainDescription))}
             </p>
-            {project.description.length > 180 && (
+            {plainDescription.length > 180 && (
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
                 className="text-blue-600 hover:text-blue-800 text-sm font-medium mt-1 transition-colors"
@@ -395,7 +419,7 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
               className="flex items-center gap-1.5 hover:bg-gray-100 px-2 py-1.5 rounded-lg text-sm transition-colors group/action"
             >
               <MessageCircle className="h-4 w-4 group-hover/action:text-blue-500 transition-colors" />
-              <span className="group-hover/action:text-gray-700 font-medium">{project.commentCount}</span>
+              <span className="group-hover/action:text-gray-700 font-medium">{localCommentCount}</span>
               <span className="hidden sm:inline group-hover/action:text-gray-700">Comments</span>
             </Link>
             
@@ -469,22 +493,45 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
               </a>
             )}
             
-            {project.githubUrl && (
+            {project.repository && (
               <a
-                href={project.githubUrl}
+                href={project.repository.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-1.5 hover:bg-gray-100 px-2 py-1.5 rounded-lg text-sm transition-colors group/action"
                 onClick={(e) => e.stopPropagation()}
               >
-                <Github className="h-4 w-4 group-hover/action:text-gray-700 transition-colors" />
+                <ForgeIcon forge={project.repository.forge} className="h-4 w-4 group-hover/action:text-gray-700 transition-colors" />
                 <span className="group-hover/action:text-gray-700 font-medium hidden sm:inline">Code</span>
               </a>
             )}
 
-            <button className="flex items-center gap-1 hover:bg-gray-100 px-2 py-1.5 rounded-lg text-sm transition-colors group/action ml-auto">
-              <MoreHorizontal className="h-4 w-4 group-hover/action:text-gray-700 transition-colors" />
-            </button>
+            <div className="relative ml-auto">
+              <button
+                onClick={() => setShowMoreMenu(!showMoreMenu)}
+                className="flex items-center gap-1 hover:bg-gray-100 px-2 py-1.5 rounded-lg text-sm transition-colors group/action"
+                title="More actions"
+              >
+                <MoreHorizontal className="h-4 w-4 group-hover/action:text-gray-700 transition-colors" />
+              </button>
+
+              {showMoreMenu && (
+                <div className="absolute bottom-full right-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-10 min-w-[160px]">
+                  <button
+                    onClick={() => {
+                      setShowMoreMenu(false);
+                      setShowReportModal(true);
+                    }}
+                    disabled={!user}
+                    className="flex items-center gap-2 w-full px-2 py-2 text-sm text-gray-700 hover:bg-gray-100 hover:text-red-600 rounded-md transition-colors disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-gray-700"
+                    title={user ? 'Report this project' : 'Sign in to report'}
+                  >
+                    <Flag className="h-4 w-4" />
+                    Report
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Trending Indicator */}
@@ -497,13 +544,24 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({
         </div>
       </div>
       
-      {/* Click outside to close share menu */}
-      {showShareMenu && (
+      {/* Click outside to close share and more menus */}
+      {(showShareMenu || showMoreMenu) && (
         <div 
           className="fixed inset-0 z-0" 
-          onClick={() => setShowShareMenu(false)}
+          onClick={() => {
+            setShowShareMenu(false);
+            setShowMoreMenu(false);
+          }}
         />
       )}
+
+      <ReportModal
+        isOpen={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="project"
+        targetId={project.id}
+        targetLabel={`"${project.title}"`}
+      />
     </article>
   );
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import React from 'react';
+import { History, X, Loader2 } from 'lucide-react';
+import { projectService } from '../lib/supabase';
+import { REVISION_FIELD_LABELS, diffRevisionField } from '../lib/revisionDiff';
+import { ProjectRevision } from '../types';
+
+interface ProjectRevisionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+export const ProjectRevisionsModal: React.FC<ProjectRevisionsModalProps> = ({ isOpen, onClose, projectId }) => {
+  const [revisions, setRevisions] = React.useState<ProjectRevision[]>([]);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Handle escape key
+  React.useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, onClose]);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    setError(null);
+    projectService.getRevisions(projectId)
+      .then(data => {
+        setRevisions(data);
+        setSelectedId(data[0]?.id || null);
+      })
+      .catch(err => {
+        console.error('Error fetching project revisions:', err);
+        setError('Failed to load edit history');
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const selected = revisions.find(revision => revision.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-60 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-5xl bg-slate-900 border border-slate-700 rounded-xl shadow-xl">
+          <div className="flex items-center justify-between p-6 border-b border-slate-700">
+            <h3 className="text-lg font-semibold text-white flex items-center">
+              <History className="h-5 w-5 text-blue-400 mr-2" />
+              Edit History
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center p-12 text-slate-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading edit history...
+            </div>
+          ) : error ? (
+            <p className="p-6 text-red-400">{error}</p>
+          ) : revisions.length === 0 ? (
+            <p className="p-6 text-slate-400">This project has not been edited.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-4">
+              {/* Revision list */}
+              <ul className="md:border-r border-b md:border-b-0 border-slate-700 max-h-[32rem] overflow-y-auto">
+                {revisions.map(revision => (
+                  <li key={revision.id}>
+                    <button
+                      onClick={() => setSelectedId(revision.id)}
+                      className={`w-full text-left px-4 py-3 border-b border-slate-800 transition-colors ${
+                        revision.id === selected?.id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/50'
+                      }`}
+                    >
+                      <div className="text-sm font-medium">Revision {revision.revisionNumber}</div>
+                      <div className="text-xs text-slate-500">
+                        {revision.createdAt.toLocaleString()} by {revision.editedBy}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {/* Diff of the selected revision */}
+              <div className="md:col-span-3 p-6 max-h-[32rem] overflow-y-auto space-y-6">
+                {selected?.changedFields.map(field => (
+                  <div key={field}>
+                    <h4 className="text-sm font-medium text-slate-300 mb-2">
+                      {REVISION_FIELD_LABELS[field] || field}
+                    </h4>
+                    <div className="text-sm whitespace-pre-wrap break-words bg-slate-800/50 rounded-lg p-3 text-slate-300">
+                      {diffRevisionField(field, selected.before[field], selected.after[field]).map((segment, index) => (
+                        <span
+                          key={index}
+                          className={
+                            segment.type === 'added'
+                              ? 'bg-emerald-500/20 text-emerald-300'
+                              : segment.type === 'removed'
+                              ? 'bg-red-500/20 text-red-300 line-through'
+                              : undefined
+                          }
+                        >
+                          {segment.value}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ShieldCheck, Github, FileText, Copy, RefreshCw } from 'lucide-react';
+import { verificationService } from '../lib/supabase';
+import { NotificationContext } from '../App';
+
+interface ProjectVerificationPanelProps {
+  projectId: string;
+  isGitHubRepository: boolean;
+  onVerified: () => void;
+}
+
+const CHALLENGE_FILE = '.vibecoded-verify';
+
+export const ProjectVerificationPanel: React.FC<ProjectVerificationPanelProps> = ({
+  projectId,
+  isGitHubRepository,
+  onVerified
+}) => {
+  const notifications = React.useContext(NotificationContext);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [challenge, setChallenge] = React.useState<{ token: string; expiresAt: Date } | null>(null);
+  const [checking, setChecking] = React.useState<'file' | 'github' | null>(null);
+  const [generating, setGenerating] = React.useState(false);
+  const [lastError, setLastError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const fetchChallenge = async () => {
+      try {
+        setChallenge(await verificationService.getChallenge(projectId));
+      } catch (error) {
+        console.error('Error fetching verification challenge:', error);
+      }
+    };
+
+    fetchChallenge();
+  }, [projectId]);
+
+  const handleResult = React.useCallback((result: { verified: boolean; error?: string }) => {
+    if (result.verified) {
+      setLastError(null);
+      notifications?.showSuccess('Project Verified', 'Your project now shows the verified badge.');
+      onVerified();
+    } else {
+      setLastError(result.error || 'Verification failed');
+    }
+  }, [notifications, onVerified]);
+
+  // Finish GitHub verification after returning from the OAuth redirect
+  React.useEffect(() => {
+    if (searchParams.get('verify') !== 'github') return;
+
+    const next = new URLSearchParams(searchParams);
+    next.delete('verify');
+    setSearchParams(next, { replace: true });
+
+    const verify = async () => {
+      try {
+        setChecking('github');
+        handleResult(await verificationService.verifyWithGitHub(projectId));
+      } catch (error) {
+        console.error('Error verifying with GitHub:', error);
+        setLastError(error instanceof Error ? error.message : 'GitHub verification failed');
+      } finally {
+        setChecking(null);
+      }
+    };
+
+    verify();
+  }, [searchParams, setSearchParams, projectId, handleResult]);
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      const token = await verificationService.createChallenge(projectId);
+      setChallenge({ token, expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) });
+      setLastError(null);
+    } catch (error) {
+      console.error('Error creating verification challenge:', error);
+      notifications?.showError('Verification Failed', 'Failed to generate a verification token. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCheckFile = async () => {
+    try {
+      setChecking('file');
+      handleResult(await verificationService.verifyWithFile(projectId));
+    } catch (error) {
+      console.error('Error verifying challenge file:', error);
+      setLastError('Failed to check the repository. Please try again.');
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const handleConnectGitHub = async () => {
+    try {
+      await verificationService.startGitHubVerification(projectId);
+    } catch (error) {
+      console.error('Error connecting GitHub:', error);
+      notifications?.showError('GitHub Connection Failed', 'Failed to connect your GitHub account. Please try again.');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!challenge) return;
+
+    try {
+      await navigator.clipboard.writeText(challenge.token);
+      notifications?.showInfo('Copied', 'Verification token copied to clipboard.');
+    } catch (error) {
+      console.error('Error copying token:', error);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 mb-8">
+      <h2 className="text-xl font-semibold text-white mb-2 flex items-center">
+        <ShieldCheck className="h-5 w-5 text-blue-400 mr-2" />
+        Verify Ownership
+      </h2>
+      <p className="text-sm text-slate-400 mb-6">
+        Prove you own this repository to earn the verified badge.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Challenge file */}
+        <div className="bg-slate-900/40 border border-slate-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-white mb-2 flex items-center">
+            <FileText className="h-4 w-4 mr-2 text-slate-300" />
+            Add a verification file
+          </h3>
+          {challenge ? (
+            <>
+              <p className="text-xs text-slate-400 mb-3">
+                Commit a file named <code className="text-slate-200">{CHALLENGE_FILE}</code> to the root of your
+                default branch containing this token, then check the repository.
+              </p>
+              <div className="flex items-center space-x-2 mb-3">
+                <code className="flex-1 min-w-0 truncate px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-green-300">
+                  {challenge.token}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className="p-1.5 text-slate-400 hover:text-white transition-colors"
+                  title="Copy token"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleCheckFile}
+                  disabled={checking !== null}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                >
+                  {checking === 'file' ? 'Checking...' : 'Check Repository'}
+                </button>
+                <button
+                  onClick={handleGenerate}
+                  disabled={generating}
+                  className="inline-flex items-center px-3 py-1.5 text-slate-300 hover:text-white text-sm transition-colors"
+                  title="Generate a new token"
+                >
+                  <RefreshCw className={`h-3 w-3 mr-1 ${generating ? 'animate-spin' : ''}`} />
+                  New Token
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                Expires {challenge.expiresAt.toLocaleDateString()}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-slate-400 mb-3">
+                Works with GitHub, GitLab, Bitbucket and Gitea repositories.
+              </p>
+              <button
+                onClick={handleGenerate}
+                disabled={generating}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+              >
+                {generating ? 'Generating...' : 'Generate Token'}
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* GitHub account */}
+        <div className="bg-slate-900/40 border border-slate-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-white mb-2 flex items-center">
+            <Github className="h-4 w-4 mr-2 text-slate-300" />
+            Connect GitHub
+          </h3>
+          {isGitHubRepository ? (
+            <>
+              <p className="text-xs text-slate-400 mb-3">
+                Link your GitHub account. We check that it is an owner or collaborator with push access.
+              </p>
+              <button
+                onClick={handleConnectGitHub}
+                disabled={checking !== null}
+                className="inline-flex items-center px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+              >
+                <Github className="h-4 w-4 mr-1" />
+                {checking === 'github' ? 'Checking...' : 'Verify with GitHub'}
+              </button>
+            </>
+          ) : (
+            <p className="text-xs text-slate-400">
+              Only available for repositories hosted on github.com.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {lastError && (
+        <p className="mt-4 text-sm text-red-400">{lastError}</p>
+      )}
+    </div>
+  );
+};
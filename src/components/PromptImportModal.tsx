@@ -0,0 +1,247 @@
+import React from 'react';
+import { Upload, X, ShieldCheck, FileText, Loader2 } from 'lucide-react';
+import { PromptLogEntry } from '../types';
+import { ImportedPrompt, PromptExportFormat, PROMPT_EXPORT_LABELS, parsePromptExport } from '../lib/promptImport';
+
+interface PromptImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (entries: PromptLogEntry[]) => void;
+  maxEntries: number; // Remaining room in the prompt log
+}
+
+interface ParsedFile {
+  name: string;
+  format?: PromptExportFormat;
+  error?: string;
+}
+
+export const PromptImportModal: React.FC<PromptImportModalProps> = ({ isOpen, onClose, onImport, maxEntries }) => {
+  const [files, setFiles] = React.useState<ParsedFile[]>([]);
+  const [candidates, setCandidates] = React.useState<ImportedPrompt[]>([]);
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [parsing, setParsing] = React.useState(false);
+
+  // Handle escape key
+  React.useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, onClose]);
+
+  // Start fresh every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFiles([]);
+      setCandidates([]);
+      setSelected(new Set());
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Parsing happens entirely in the browser; nothing is uploaded until the project is saved
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setParsing(true);
+    const parsedFiles: ParsedFile[] = [];
+    const imported: ImportedPrompt[] = [];
+
+    for (const file of Array.from(fileList)) {
+      try {
+        const result = parsePromptExport(file.name, await file.text());
+        parsedFiles.push({ name: file.name, format: result.format });
+        imported.push(...result.prompts);
+      } catch (error) {
+        parsedFiles.push({ name: file.name, error: error instanceof Error ? error.message : 'Could not read file' });
+      }
+    }
+
+    setFiles(prev => [...prev, ...parsedFiles]);
+    setCandidates(prev => [...prev, ...imported]);
+    setParsing(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else if (next.size < maxEntries) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport(candidates.filter(candidate => selected.has(candidate.id)).map(candidate => candidate.entry));
+    onClose();
+  };
+
+  const totalRedactions = candidates.reduce((sum, candidate) => sum + candidate.redactions, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-3xl bg-white rounded-lg shadow-xl">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Import Prompt History</h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {/* File picker */}
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+              {parsing ? (
+                <Loader2 className="h-8 w-8 text-blue-500 animate-spin mb-2" />
+              ) : (
+                <Upload className="h-8 w-8 text-gray-400 mb-2" />
+              )}
+              <span className="text-sm font-medium text-gray-700">Choose export files</span>
+              <span className="text-xs text-gray-500 mt-1">
+                ChatGPT or Claude conversations.json, Copilot chat JSON, Cursor or Markdown transcripts
+              </span>
+              <input
+                type="file"
+                accept=".json,.md,.markdown,.txt"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {files.length > 0 && (
+              <ul className="space-y-1">
+                {files.map((file, index) => (
+                  <li key={index} className="flex items-center text-sm">
+                    <FileText className="h-4 w-4 text-gray-400 mr-2" />
+                    <span className="text-gray-700 mr-2">{file.name}</span>
+                    {file.error ? (
+                      <span className="text-red-600">{file.error}</span>
+                    ) : (
+                      <span className="text-gray-500">{file.format && PROMPT_EXPORT_LABELS[file.format]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {totalRedactions > 0 && (
+              <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                <ShieldCheck className="h-4 w-4 mr-2 flex-shrink-0" />
+                {totalRedactions} secret{totalRedactions !== 1 ? 's were' : ' was'} redacted. Review entries before publishing.
+              </div>
+            )}
+
+            {/* Candidates */}
+            {candidates.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-2 text-sm">
+                  <span className="text-gray-600">
+                    {selected.size} of {candidates.length} selected
+                    <span className="text-gray-400"> (room for {maxEntries})</span>
+                  </span>
+                  <div className="space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setSelected(new Set(candidates.slice(0, maxEntries).map(candidate => candidate.id)))}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      Select all
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(new Set())}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+
+                <ul className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                  {candidates.map(candidate => (
+                    <li key={candidate.id}>
+                      <label className={`flex items-start p-3 border rounded-lg cursor-pointer transition-colors ${
+                        selected.has(candidate.id) ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.id)}
+                          onChange={() => toggleSelected(candidate.id)}
+                          className="mt-1 mr-3"
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex flex-wrap items-center gap-2 mb-1 text-xs text-gray-500">
+                            <span className="px-2 py-0.5 bg-purple-100 text-purple-800 rounded-full">{candidate.entry.tool}</span>
+                            {candidate.conversation && <span className="truncate max-w-xs">{candidate.conversation}</span>}
+                            {candidate.entry.date && <span>{candidate.entry.date}</span>}
+                            {candidate.redactions > 0 && (
+                              <span className="text-green-700">{candidate.redactions} redacted</span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-900 line-clamp-2">{candidate.entry.prompt}</p>
+                          {candidate.entry.result && (
+                            <p className="text-xs text-gray-500 line-clamp-2 mt-1">{candidate.entry.result}</p>
+                          )}
+                        </div>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors"
+            >
+              Import {selected.size > 0 ? selected.size : ''} Prompt{selected.size !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Flag, X } from 'lucide-react';
+import { ReportReason, ReportTargetType } from '../types';
+import { reportService } from '../lib/supabase';
+import { REPORT_REASONS, REPORT_REASONS_BY_TARGET } from '../lib/reports';
+import { NotificationContext } from '../App';
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetLabel: string; // Shown in the title, e.g. the project title or "comment by alice"
+}
+
+export const ReportModal: React.FC<ReportModalProps> = ({
+  isOpen,
+  onClose,
+  targetType,
+  targetId,
+  targetLabel
+}) => {
+  const notifications = React.useContext(NotificationContext);
+  const [reason, setReason] = React.useState<ReportReason | null>(null);
+  const [details, setDetails] = React.useState('');
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const handleClose = React.useCallback(() => {
+    setReason(null);
+    setDetails('');
+    onClose();
+  }, [onClose]);
+
+  // Handle escape key
+  React.useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !submitting) {
+        handleClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, handleClose, submitting]);
+
+  if (!isOpen) return null;
+
+  const needsDetails = reason === 'other' && !details.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason || needsDetails) return;
+
+    try {
+      setSubmitting(true);
+      await reportService.createReport({ targetType, targetId, reason, details });
+      notifications?.showSuccess('Report Sent', 'Thanks for letting us know. A moderator will review it.');
+      handleClose();
+    } catch (error) {
+      console.error('Error reporting content:', error);
+      notifications?.showError(
+        'Report Failed',
+        error instanceof Error ? error.message : 'Failed to send the report. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={!submitting ? handleClose : undefined}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="p-2 rounded-full bg-gray-100">
+                <Flag className="h-6 w-6 text-red-500" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 truncate">
+                Report {targetLabel}
+              </h3>
+            </div>
+            {!submitting && (
+              <button
+                type="button"
+                onClick={handleClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-3">
+            <p className="text-sm text-gray-600">What's wrong with it?</p>
+            {REPORT_REASONS_BY_TARGET[targetType].map(option => (
+              <label
+                key={option}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  reason === option ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={option}
+                  checked={reason === option}
+                  onChange={() => setReason(option)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{REPORT_REASONS[option].label}</div>
+                  <div className="text-xs text-gray-500">{REPORT_REASONS[option].description}</div>
+                </div>
+              </label>
+            ))}
+
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder={reason === 'other' ? 'Tell us what is wrong (required)' : 'Add details, such as a link to the original project (optional)'}
+              maxLength={1000}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={submitting}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!reason || needsDetails || submitting}
+              className="px-4 py-2 text-white rounded-lg transition-colors disabled:cursor-not-allowed bg-red-500 hover:bg-red-600 disabled:bg-red-300"
+            >
+              {submitting ? 'Sending...' : 'Send Report'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
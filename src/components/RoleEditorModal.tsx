@@ -0,0 +1,216 @@
+import React from 'react';
+import { Shield, X } from 'lucide-react';
+import { adminService, AdminPermission, AdminRole } from '../lib/admin';
+import { NotificationContext } from '../App';
+
+interface RoleEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  role: AdminRole | null; // null creates a new role
+  permissions: AdminPermission[];
+  onSaved: () => void;
+}
+
+export const RoleEditorModal: React.FC<RoleEditorModalProps> = ({
+  isOpen,
+  onClose,
+  role,
+  permissions,
+  onSaved
+}) => {
+  const notifications = React.useContext(NotificationContext);
+  const [name, setName] = React.useState(role?.name ?? '');
+  const [description, setDescription] = React.useState(role?.description ?? '');
+  const [granted, setGranted] = React.useState<Set<string>>(new Set(role?.permissions ?? []));
+  const [submitting, setSubmitting] = React.useState(false);
+
+  // super_admin must keep every permission, so only its description can change
+  const lockedPermissions = role?.name === 'super_admin';
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setName(role?.name ?? '');
+      setDescription(role?.description ?? '');
+      setGranted(new Set(role?.permissions ?? []));
+    }
+  }, [isOpen, role]);
+
+  // Handle escape key
+  React.useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !submitting) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, onClose, submitting]);
+
+  if (!isOpen) return null;
+
+  const togglePermission = (permission: string) => {
+    setGranted(prev => {
+      const next = new Set(prev);
+      if (next.has(permission)) {
+        next.delete(permission);
+      } else {
+        next.add(permission);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || granted.size === 0) return;
+
+    try {
+      setSubmitting(true);
+      await adminService.saveRole(role?.id ?? null, {
+        name: name.trim().toLowerCase(),
+        description,
+        permissions: Array.from(granted)
+      });
+      notifications?.showSuccess(role ? 'Role Updated' : 'Role Created', `Saved the ${name.trim().toLowerCase()} role.`);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving role:', error);
+      notifications?.showError(
+        'Save Failed',
+        error instanceof Error ? error.message : 'Failed to save the role. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={!submitting ? onClose : undefined}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 rounded-full bg-gray-100">
+                <Shield className="h-6 w-6 text-orange-500" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {role ? 'Edit Role' : 'New Role'}
+              </h3>
+            </div>
+            {!submitting && (
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={role?.is_system}
+                placeholder="e.g. support_lead"
+                maxLength={40}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {role?.is_system
+                  ? 'Built-in roles cannot be renamed.'
+                  : 'Lowercase letters, numbers and underscores, starting with a letter.'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={200}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">Permissions</legend>
+              <div className="space-y-2">
+                {permissions.map(permission => (
+                  <label
+                    key={permission.name}
+                    className={`flex items-start space-x-3 p-3 border rounded-lg transition-colors ${
+                      granted.has(permission.name) ? 'border-orange-300 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+                    } ${lockedPermissions ? 'cursor-not-allowed opacity-75' : 'cursor-pointer'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={granted.has(permission.name)}
+                      onChange={() => togglePermission(permission.name)}
+                      disabled={lockedPermissions}
+                      className="mt-1"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-gray-900 font-mono">{permission.name}</div>
+                      <div className="text-xs text-gray-500">{permission.description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {lockedPermissions && (
+                <p className="text-xs text-gray-500 mt-2">
+                  The super admin role always has every permission.
+                </p>
+              )}
+            </fieldset>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim() || granted.size === 0 || submitting}
+              className="px-4 py-2 text-white rounded-lg transition-colors disabled:cursor-not-allowed bg-orange-500 hover:bg-orange-600 disabled:bg-orange-300"
+            >
+              {submitting ? 'Saving...' : role ? 'Save Role' : 'Create Role'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
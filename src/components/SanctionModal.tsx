@@ -0,0 +1,188 @@
+import React from 'react';
+import { Gavel, X } from 'lucide-react';
+import { SanctionType } from '../types';
+import { adminService } from '../lib/admin';
+import { SANCTION_TYPES, SUSPENSION_DURATIONS } from '../lib/sanctions';
+import { NotificationContext } from '../App';
+
+interface SanctionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  username: string;
+  onIssued: () => void;
+}
+
+export const SanctionModal: React.FC<SanctionModalProps> = ({
+  isOpen,
+  onClose,
+  userId,
+  username,
+  onIssued
+}) => {
+  const notifications = React.useContext(NotificationContext);
+  const [type, setType] = React.useState<SanctionType>('warning');
+  const [durationHours, setDurationHours] = React.useState(SUSPENSION_DURATIONS[0].hours);
+  const [reason, setReason] = React.useState('');
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const handleClose = React.useCallback(() => {
+    setType('warning');
+    setDurationHours(SUSPENSION_DURATIONS[0].hours);
+    setReason('');
+    onClose();
+  }, [onClose]);
+
+  // Handle escape key
+  React.useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !submitting) {
+        handleClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, handleClose, submitting]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    try {
+      setSubmitting(true);
+      await adminService.issueSanction(
+        userId,
+        type,
+        reason.trim(),
+        type === 'suspension' ? durationHours : undefined
+      );
+      notifications?.showSuccess('Sanction Issued', `${SANCTION_TYPES[type].label} issued to ${username}.`);
+      onIssued();
+      handleClose();
+    } catch (error) {
+      console.error('Error issuing sanction:', error);
+      notifications?.showError(
+        'Sanction Failed',
+        error instanceof Error ? error.message : 'Failed to issue the sanction. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={!submitting ? handleClose : undefined}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="p-2 rounded-full bg-gray-100">
+                <Gavel className="h-6 w-6 text-red-500" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 truncate">
+                Sanction {username}
+              </h3>
+            </div>
+            {!submitting && (
+              <button
+                type="button"
+                onClick={handleClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-3">
+            {(Object.keys(SANCTION_TYPES) as SanctionType[]).map(option => (
+              <label
+                key={option}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  type === option ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="sanction-type"
+                  value={option}
+                  checked={type === option}
+                  onChange={() => setType(option)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{SANCTION_TYPES[option].label}</div>
+                  <div className="text-xs text-gray-500">{SANCTION_TYPES[option].description}</div>
+                </div>
+              </label>
+            ))}
+
+            {type === 'suspension' && (
+              <select
+                value={durationHours}
+                onChange={(e) => setDurationHours(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SUSPENSION_DURATIONS.map(duration => (
+                  <option key={duration.hours} value={duration.hours}>
+                    Suspend for {duration.label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={type === 'shadow_ban' ? 'Internal note; the user is not told (required)' : 'Reason shown to the user (required)'}
+              maxLength={1000}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={submitting}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!reason.trim() || submitting}
+              className="px-4 py-2 text-white rounded-lg transition-colors disabled:cursor-not-allowed bg-red-500 hover:bg-red-600 disabled:bg-red-300"
+            >
+              {submitting ? 'Issuing...' : `Issue ${SANCTION_TYPES[type].label}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AdminPage } from '../lib/admin';
+
+// Cursor-paginated admin table with row selection. A new `fetchPage` (i.e. changed
+// search, filters or sorting) starts again from the first page.
+export const useAdminTable = <T extends { id: string }>(
+  fetchPage: (cursor: string | null) => Promise<AdminPage<T>>
+) => {
+  const [items, setItems] = React.useState<T[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [totalCount, setTotalCount] = React.useState<number | undefined>(undefined);
+  // Cursors of the pages visited so far; the last one is the current page
+  const [cursors, setCursors] = React.useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const requestRef = React.useRef(0);
+
+  const load = React.useCallback(async (cursor: string | null, showSpinner = true) => {
+    // Only the latest request may update the table
+    const request = ++requestRef.current;
+
+    try {
+      if (showSpinner) setLoading(true);
+      const page = await fetchPage(cursor);
+      if (request !== requestRef.current) return;
+
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      if (page.totalCount !== undefined) setTotalCount(page.totalCount);
+      setError(null);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Error loading admin table:', err);
+      setError('Failed to load. Please try again.');
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [fetchPage]);
+
+  React.useEffect(() => {
+    setCursors([null]);
+    setSelectedIds(new Set());
+    load(null);
+  }, [load]);
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setCursors(prev => [...prev, nextCursor]);
+    setSelectedIds(new Set());
+    load(nextCursor);
+  };
+
+  const goToPreviousPage = () => {
+    if (cursors.length < 2) return;
+    const previous = cursors.slice(0, -1);
+    setCursors(previous);
+    setSelectedIds(new Set());
+    load(previous[previous.length - 1]);
+  };
+
+  // Refresh the current page in place, e.g. after a moderation action
+  const reload = () => load(cursors[cursors.length - 1], false);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(prev =>
+      items.length > 0 && items.every(item => prev.has(item.id))
+        ? new Set()
+        : new Set(items.map(item => item.id))
+    );
+  };
+
+  return {
+    items,
+    setItems,
+    loading,
+    error,
+    totalCount,
+    page: cursors.length,
+    hasPreviousPage: cursors.length > 1,
+    hasNextPage: nextCursor !== null,
+    goToNextPage,
+    goToPreviousPage,
+    reload,
+    selectedIds,
+    toggleSelected,
+    toggleSelectAll,
+    clearSelection: () => setSelectedIds(new Set())
+  };
+};
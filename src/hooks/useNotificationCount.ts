@@ -30,12 +30,11 @@ export const useNotificationCount = () => {
     fetchUnreadCount();
   }, [fetchUnreadCount]);
 
-  // Refresh count periodically
+  // Refresh count whenever a notification is created or read, including after a reconnect
   React.useEffect(() => {
     if (!user) return;
 
-    const interval = setInterval(fetchUnreadCount, 30000); // Every 30 seconds
-    return () => clearInterval(interval);
+    return notificationService.subscribeToNotifications(user.id, fetchUnreadCount);
   }, [user, fetchUnreadCount]);
 
   const decrementCount = React.useCallback((amount: number = 1) => {
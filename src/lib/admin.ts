@@ -1,13 +1,21 @@
 import { supabase } from '../context/AuthContext';
+import { AppealStatus, ReportReason, ReportStatus, ReportTargetType, SanctionType } from '../types';
 
 export interface AdminRole {
   id: string;
   name: string;
   description: string;
   permissions: string[];
+  is_system: boolean;
   created_at: string;
 }
 
+// An entry in the permission catalogue that roles are built from
+export interface AdminPermission {
+  name: string;
+  description: string;
+}
+
 export interface UserRole {
   id: string;
   user_id: string;
@@ -42,6 +50,8 @@ export interface AdminStats {
   hiddenComments: number;
   featuredProjects: number;
   recentActions: number;
+  openReports: number;
+  pendingAppeals: number;
 }
 
 export interface ModerationProject {
@@ -56,6 +66,11 @@ export interface ModerationProject {
   is_featured: boolean;
   is_pinned: boolean;
   is_verified: boolean;
+  is_hidden: boolean;
+  vci_score: number;
+  created_at: string;
+  verified_at?: string;
+  verification_method?: 'challenge_file' | 'github_oauth' | 'admin';
   admin_notes?: string;
   submitter: {
     username: string;
@@ -95,10 +110,121 @@ export interface ModerationUser {
   ban_reason?: string;
   banned_by?: string;
   banned_at?: string;
+  suspended_until?: string;
+  is_shadow_banned: boolean;
   follower_count: number;
   following_count: number;
 }
 
+// Reported content awaiting review, one entry per reported project, comment or user
+export interface ModerationQueueItem {
+  target_type: ReportTargetType;
+  target_id: string;
+  target_owner_id: string;
+  owner_username: string;
+  owner_banned: boolean;
+  project_id?: string; // Project to link to for projects and comments
+  target_title: string;
+  target_excerpt?: string;
+  target_hidden: boolean;
+  report_count: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  priority: number;
+  first_reported_at: string;
+  last_reported_at: string;
+}
+
+export interface ContentReport {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  resolution_note?: string;
+  resolved_at?: string;
+  created_at: string;
+  reporter: {
+    username: string;
+  };
+  resolver?: {
+    username: string;
+  };
+}
+
+export type AdminSortDirection = 'asc' | 'desc';
+
+// One page of an admin table. Pass `nextCursor` back as `cursor` for the following page.
+export interface AdminPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount?: number; // Only counted for the first page
+}
+
+export type ModerationUserSort = 'joined_at' | 'username' | 'karma' | 'projects_submitted' | 'follower_count';
+
+export type ModerationUserStatus = 'all' | 'active' | 'banned' | 'suspended' | 'shadow_banned';
+
+export interface ModerationUserQuery {
+  search?: string; // Username substring
+  status?: ModerationUserStatus;
+  joinedAfter?: string; // yyyy-mm-dd, inclusive
+  joinedBefore?: string; // yyyy-mm-dd, inclusive
+  sortBy?: ModerationUserSort;
+  sortDirection?: AdminSortDirection;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export type ModerationProjectSort = 'created_at' | 'title' | 'upvotes' | 'comment_count' | 'vci_score';
+
+export interface ModerationProjectQuery {
+  search?: string; // Title or author username substring
+  featured?: boolean;
+  pinned?: boolean;
+  verified?: boolean;
+  hidden?: boolean;
+  submittedAfter?: string; // yyyy-mm-dd, inclusive
+  submittedBefore?: string; // yyyy-mm-dd, inclusive
+  sortBy?: ModerationProjectSort;
+  sortDirection?: AdminSortDirection;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export type BulkUserAction = 'ban' | 'unban';
+
+export type BulkProjectAction = 'feature' | 'unfeature' | 'pin' | 'unpin' | 'hide' | 'unhide' | 'verify' | 'unverify';
+
+export interface UserSanctionRecord {
+  id: string;
+  user_id: string;
+  type: SanctionType;
+  reason: string;
+  expires_at?: string;
+  revoked_at?: string;
+  revoke_reason?: string;
+  created_at: string;
+  issuer?: {
+    username: string;
+  };
+}
+
+export interface SanctionAppeal {
+  id: string;
+  sanction_id: string;
+  user_id: string;
+  message: string;
+  status: AppealStatus;
+  response?: string;
+  reviewed_at?: string;
+  created_at: string;
+  user: {
+    username: string;
+  };
+  sanction: UserSanctionRecord;
+}
+
 export const adminService = {
   // Check if current user is admin
   async isAdmin(): Promise<boolean> {
@@ -136,7 +262,9 @@ export const adminService = {
         { count: bannedUsers },
         { count: hiddenComments },
         { count: featuredProjects },
-        { count: recentActions }
+        { count: recentActions },
+        { count: openReports },
+        { count: pendingAppeals }
       ] = await Promise.all([
         supabase.from('profiles').select('*', { count: 'exact', head: true }),
         supabase.from('projects').select('*', { count: 'exact', head: true }),
@@ -144,7 +272,9 @@ export const adminService = {
         supabase.from('profiles').select('*', { count: 'exact', head: true }).eq('is_banned', true),
         supabase.from('comments').select('*', { count: 'exact', head: true }).eq('is_hidden', true),
         supabase.from('projects').select('*', { count: 'exact', head: true }).eq('is_featured', true),
-        supabase.from('admin_actions').select('*', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+        supabase.from('admin_actions').select('*', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()),
+        supabase.from('reports').select('*', { count: 'exact', head: true }).eq('status', 'open'),
+        supabase.from('sanction_appeals').select('*', { count: 'exact', head: true }).eq('status', 'pending')
       ]);
 
       return {
@@ -154,7 +284,9 @@ export const adminService = {
         bannedUsers: bannedUsers || 0,
         hiddenComments: hiddenComments || 0,
         featuredProjects: featuredProjects || 0,
-        recentActions: recentActions || 0
+        recentActions: recentActions || 0,
+        openReports: openReports || 0,
+        pendingAppeals: pendingAppeals || 0
       };
     } catch (error) {
       console.error('Error fetching admin stats:', error);
@@ -178,6 +310,65 @@ export const adminService = {
     }
   },
 
+  // Get the permission catalogue
+  async getAdminPermissions(): Promise<AdminPermission[]> {
+    try {
+      const { data, error } = await supabase
+        .from('admin_permissions')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching admin permissions:', error);
+      throw error;
+    }
+  },
+
+  // Create a role (no roleId) or update an existing one; returns the role id
+  async saveRole(
+    roleId: string | null,
+    role: { name: string; description: string; permissions: string[] }
+  ): Promise<string> {
+    try {
+      const { data, error } = await supabase.rpc('save_admin_role', {
+        target_role_id: roleId,
+        role_name: role.name,
+        role_description: role.description,
+        role_permissions: role.permissions
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A role with this name already exists.');
+        }
+        if (error.code === '23514') {
+          throw new Error('Role names must be 3-40 lowercase letters, numbers or underscores, starting with a letter.');
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      console.error('Error saving role:', error);
+      throw error;
+    }
+  },
+
+  // Delete a custom role, removing it from everyone who holds it
+  async deleteRole(roleId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('delete_admin_role', {
+        target_role_id: roleId
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      throw error;
+    }
+  },
+
   // Get user roles
   async getUserRoles(limit: number = 50, offset: number = 0): Promise<UserRole[]> {
     try {
@@ -186,7 +377,7 @@ export const adminService = {
         .select(`
           *,
           role:admin_roles(*),
-          user:profiles(username, avatar_url)
+          user:profiles!user_id(username, avatar_url)
         `)
         .order('assigned_at', { ascending: false })
         .range(offset, offset + limit - 1);
@@ -202,47 +393,27 @@ export const adminService = {
   // Assign role to user
   async assignRole(userId: string, roleId: string): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('user_roles')
-        .insert({
-          user_id: userId,
-          role_id: roleId,
-          assigned_by: (await supabase.auth.getUser()).data.user?.id
-        });
+      const { error } = await supabase.rpc('assign_admin_role', {
+        target_user_id: userId,
+        target_role_id: roleId
+      });
 
       if (error) throw error;
-
-      // Log action
-      await supabase.rpc('log_admin_action', {
-        action_type: 'assign_role',
-        target_type: 'user',
-        target_id: userId,
-        details: { role_id: roleId }
-      });
     } catch (error) {
       console.error('Error assigning role:', error);
       throw error;
     }
   },
 
-  // Remove role from user
+  // Remove role from user; the last super admin can't lose the role
   async removeRole(userId: string, roleId: string): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('user_roles')
-        .delete()
-        .eq('user_id', userId)
-        .eq('role_id', roleId);
+      const { error } = await supabase.rpc('remove_admin_role', {
+        target_user_id: userId,
+        target_role_id: roleId
+      });
 
       if (error) throw error;
-
-      // Log action
-      await supabase.rpc('log_admin_action', {
-        action_type: 'remove_role',
-        target_type: 'user',
-        target_id: userId,
-        details: { role_id: roleId }
-      });
     } catch (error) {
       console.error('Error removing role:', error);
       throw error;
@@ -269,20 +440,66 @@ export const adminService = {
     }
   },
 
-  // Get projects for moderation
-  async getModerationProjects(limit: number = 50, offset: number = 0): Promise<ModerationProject[]> {
+  // Get a page of projects for moderation with server-side search, filters and sorting
+  async getModerationProjects(options: ModerationProjectQuery = {}): Promise<AdminPage<ModerationProject>> {
     try {
-      const { data, error } = await supabase
+      const sortBy = options.sortBy ?? 'created_at';
+      const ascending = options.sortDirection === 'asc';
+      const limit = options.limit ?? 25;
+
+      let query = supabase
         .from('projects')
         .select(`
           *,
           submitter:profiles!submitted_by(username, is_banned)
-        `)
-        .order('created_at', { ascending: false })
-        .range(offset, offset + limit - 1);
+        `, { count: options.cursor ? undefined : 'exact' });
+
+      const search = options.search?.trim();
+      if (search) {
+        const pattern = ilikePattern(search);
+        const { data: authors, error: authorError } = await supabase
+          .from('profiles')
+          .select('id')
+          .ilike('username', pattern)
+          .limit(50);
+
+        if (authorError) throw authorError;
+
+        const authorIds = (authors || []).map(author => author.id);
+        query = query.or(
+          [`title.ilike.${JSON.stringify(pattern)}`, ...(authorIds.length ? [`submitted_by.in.(${authorIds.join(',')})`] : [])].join(',')
+        );
+      }
+
+      if (options.featured !== undefined) query = query.eq('is_featured', options.featured);
+      if (options.pinned !== undefined) query = query.eq('is_pinned', options.pinned);
+      if (options.verified !== undefined) query = query.eq('is_verified', options.verified);
+      if (options.hidden !== undefined) query = query.eq('is_hidden', options.hidden);
+
+      const range = dayRange(options.submittedAfter, options.submittedBefore);
+      if (range.from) query = query.gte('created_at', range.from);
+      if (range.to) query = query.lt('created_at', range.to);
+
+      const cursor = options.cursor ? decodeAdminCursor(options.cursor) : null;
+      if (cursor) query = query.or(keysetFilter(sortBy, ascending, cursor));
+
+      // One extra row tells us whether there is another page
+      const { data, error, count } = await query
+        .order(sortBy, { ascending })
+        .order('id', { ascending })
+        .limit(limit + 1);
 
       if (error) throw error;
-      return data || [];
+
+      const rows = (data || []) as ModerationProject[];
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        nextCursor: rows.length > limit && last ? encodeAdminCursor({ value: last[sortBy], id: last.id }) : null,
+        totalCount: count ?? undefined
+      };
     } catch (error) {
       console.error('Error fetching moderation projects:', error);
       throw error;
@@ -310,17 +527,67 @@ export const adminService = {
     }
   },
 
-  // Get users for moderation
-  async getModerationUsers(limit: number = 50, offset: number = 0): Promise<ModerationUser[]> {
+  // Get a page of users for moderation with server-side search, filters and sorting
+  async getModerationUsers(options: ModerationUserQuery = {}): Promise<AdminPage<ModerationUser>> {
     try {
-      const { data, error } = await supabase
+      const sortBy = options.sortBy ?? 'joined_at';
+      const ascending = options.sortDirection === 'asc';
+      const limit = options.limit ?? 25;
+      const now = new Date().toISOString();
+
+      let query = supabase
         .from('profiles')
-        .select('*')
-        .order('joined_at', { ascending: false })
-        .range(offset, offset + limit - 1);
+        // Shadow-bans live in their own table so the affected user can't read them
+        .select('*, user_shadow_bans (user_id)', { count: options.cursor ? undefined : 'exact' });
+
+      const search = options.search?.trim();
+      if (search) query = query.ilike('username', ilikePattern(search));
+
+      switch (options.status) {
+        case 'active':
+          query = query
+            .eq('is_banned', false)
+            .is('user_shadow_bans', null)
+            .or(`suspended_until.is.null,suspended_until.lte.${now}`);
+          break;
+        case 'banned':
+          query = query.eq('is_banned', true);
+          break;
+        case 'suspended':
+          query = query.eq('is_banned', false).gt('suspended_until', now);
+          break;
+        case 'shadow_banned':
+          query = query.not('user_shadow_bans', 'is', null);
+          break;
+      }
+
+      const range = dayRange(options.joinedAfter, options.joinedBefore);
+      if (range.from) query = query.gte('joined_at', range.from);
+      if (range.to) query = query.lt('joined_at', range.to);
+
+      const cursor = options.cursor ? decodeAdminCursor(options.cursor) : null;
+      if (cursor) query = query.or(keysetFilter(sortBy, ascending, cursor));
+
+      // One extra row tells us whether there is another page
+      const { data, error, count } = await query
+        .order(sortBy, { ascending })
+        .order('id', { ascending })
+        .limit(limit + 1);
 
       if (error) throw error;
-      return data || [];
+
+      const rows: ModerationUser[] = (data || []).map(({ user_shadow_bans, ...profile }) => ({
+        ...profile,
+        is_shadow_banned: !!user_shadow_bans
+      }));
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        nextCursor: rows.length > limit && last ? encodeAdminCursor({ value: last[sortBy], id: last.id }) : null,
+        totalCount: count ?? undefined
+      };
     } catch (error) {
       console.error('Error fetching moderation users:', error);
       throw error;
@@ -359,6 +626,102 @@ export const adminService = {
     }
   },
 
+  // Warn, suspend, shadow-ban or ban a user. Suspensions need a duration in hours.
+  async issueSanction(
+    userId: string,
+    type: SanctionType,
+    reason: string,
+    durationHours?: number
+  ): Promise<string> {
+    try {
+      const { data, error } = await supabase.rpc('issue_sanction', {
+        target_user_id: userId,
+        sanction_type: type,
+        reason,
+        duration_hours: durationHours ?? null
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error issuing sanction:', error);
+      throw error;
+    }
+  },
+
+  // Lift a sanction before it ends
+  async revokeSanction(sanctionId: string, reason?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('revoke_sanction', {
+        target_sanction_id: sanctionId,
+        reason: reason || null
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error revoking sanction:', error);
+      throw error;
+    }
+  },
+
+  // Get a user's sanction history, newest first
+  async getUserSanctions(userId: string): Promise<UserSanctionRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_sanctions')
+        .select(`
+          *,
+          issuer:profiles!issued_by(username)
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching user sanctions:', error);
+      throw error;
+    }
+  },
+
+  // Get appeals waiting for a decision, oldest first
+  async getPendingAppeals(limit: number = 20): Promise<SanctionAppeal[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sanction_appeals')
+        .select(`
+          *,
+          user:profiles!user_id(username),
+          sanction:user_sanctions(*)
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching appeals:', error);
+      throw error;
+    }
+  },
+
+  // Accept (lifting the sanction) or reject an appeal
+  async resolveAppeal(appealId: string, accept: boolean, response?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('resolve_appeal', {
+        target_appeal_id: appealId,
+        accept,
+        response: response || null
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error resolving appeal:', error);
+      throw error;
+    }
+  },
+
   // Moderate project (feature/pin)
   async moderateProject(
     projectId: string, 
@@ -381,5 +744,191 @@ export const adminService = {
       console.error('Error moderating project:', error);
       throw error;
     }
+  },
+
+  // Hide or unhide a project
+  async moderateProjectVisibility(projectId: string, hideProject: boolean, reason?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('moderate_project_visibility', {
+        project_id: projectId,
+        hide_project: hideProject,
+        reason: reason || null
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error moderating project visibility:', error);
+      throw error;
+    }
+  },
+
+  // Manually verify or unverify a project's repository ownership
+  async setProjectVerification(projectId: string, verified: boolean, reason?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('set_project_verification', {
+        project_id: projectId,
+        verified,
+        reason: reason || null
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error setting project verification:', error);
+      throw error;
+    }
+  },
+
+  // Apply one action to many users or projects in a single audited call; returns how many were changed
+  async bulkModerate(
+    targetType: 'user' | 'project',
+    targetIds: string[],
+    action: BulkUserAction | BulkProjectAction,
+    reason?: string
+  ): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('bulk_moderate', {
+        bulk_target_type: targetType,
+        target_ids: targetIds,
+        bulk_action: action,
+        reason: reason || null
+      });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error applying bulk action:', error);
+      throw error;
+    }
+  },
+
+  // Get reported content, highest priority first
+  async getModerationQueue(
+    options: { targetType?: ReportTargetType; limit?: number; offset?: number } = {}
+  ): Promise<{ items: ModerationQueueItem[]; totalCount: number }> {
+    try {
+      const { data, error } = await supabase.rpc('get_moderation_queue', {
+        type_filter: options.targetType ?? null,
+        result_limit: options.limit ?? 25,
+        result_offset: options.offset ?? 0
+      });
+
+      if (error) throw error;
+      return {
+        items: data || [],
+        totalCount: data?.[0]?.total_count || 0
+      };
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      throw error;
+    }
+  },
+
+  // Get the individual reports filed against a project, comment or user
+  async getReportsForTarget(targetType: ReportTargetType, targetId: string, status: ReportStatus = 'open'): Promise<ContentReport[]> {
+    try {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(`
+          *,
+          reporter:profiles!reporter_id(username)
+        `)
+        .eq('target_type', targetType)
+        .eq('target_id', targetId)
+        .eq('status', status)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      throw error;
+    }
+  },
+
+  // Get recently resolved reports
+  async getResolvedReports(limit: number = 50, offset: number = 0): Promise<ContentReport[]> {
+    try {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(`
+          *,
+          reporter:profiles!reporter_id(username),
+          resolver:profiles!resolved_by(username)
+        `)
+        .neq('status', 'open')
+        .order('resolved_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching resolved reports:', error);
+      throw error;
+    }
+  },
+
+  // Resolve all open reports on a target: dismiss them, hide the content, or ban its author
+  async resolveReports(
+    targetType: ReportTargetType,
+    targetId: string,
+    resolution: Exclude<ReportStatus, 'open'>,
+    note?: string
+  ): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('resolve_reports', {
+        report_target_type: targetType,
+        report_target_id: targetId,
+        resolution,
+        note: note || null
+      });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error resolving reports:', error);
+      throw error;
+    }
   }
-};
\ No newline at end of file
+};
+
+interface AdminCursor {
+  value: string | number | null;
+  id: string;
+}
+
+function encodeAdminCursor(cursor: AdminCursor): string {
+  return btoa(encodeURIComponent(JSON.stringify(cursor)));
+}
+
+function decodeAdminCursor(raw: string): AdminCursor | null {
+  try {
+    const cursor = JSON.parse(decodeURIComponent(atob(raw)));
+    return typeof cursor?.id === 'string' ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Rows after the cursor in (column, id) order, as a PostgREST `or` filter
+function keysetFilter(column: string, ascending: boolean, cursor: AdminCursor): string {
+  const op = ascending ? 'gt' : 'lt';
+  const value = JSON.stringify(cursor.value);
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`;
+}
+
+// Match a substring literally, escaping LIKE wildcards
+function ilikePattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Inclusive local-date range as [from, to) timestamps
+function dayRange(after?: string, before?: string): { from?: string; to?: string } {
+  const from = after ? new Date(`${after}T00:00:00`) : null;
+  const to = before ? new Date(`${before}T00:00:00`) : null;
+  if (to) to.setDate(to.getDate() + 1);
+
+  return {
+    from: from && !isNaN(from.getTime()) ? from.toISOString() : undefined,
+    to: to && !isNaN(to.getTime()) ? to.toISOString() : undefined
+  };
+}
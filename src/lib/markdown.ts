@@ -0,0 +1,205 @@
+// A small Markdown parser for comments and project descriptions. It produces a tree that
+// MarkdownContent renders as React elements, so raw HTML in the source is never interpreted.
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; username: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'code'; language?: string; value: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'rule' };
+
+const FENCE = /^\s{0,3}(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s{0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const INLINE = new RegExp([
+  '`(?<code>[^`\\n]+)`',
+  '\\[(?<linkText>[^\\]\\n]+)\\]\\((?<linkHref>[^)\\s]+)\\)',
+  '(?<url>https?:\\/\\/[^\\s<>()]*[^\\s<>().,;:!?\'"])',
+  '\\*\\*(?<strong>[^\\s*](?:[\\s\\S]*?[^\\s*])?)\\*\\*',
+  '~~(?<del>[^\\s~](?:[\\s\\S]*?[^\\s~])?)~~',
+  '\\*(?<em>[^\\s*](?:[^*\\n]*?[^\\s*])?)\\*',
+  '(?<!\\w)_(?<underscoreEm>[^\\s_](?:[^_\\n]*?[^\\s_])?)_(?!\\w)',
+  // Usernames follow the rules enforced on sign-up and profile edits; emails are not mentions
+  '(?<![\\w@/.-])@(?<mention>[A-Za-z0-9_-]{1,40})',
+  '(?<lineBreak>\\n)'
+].join('|'), 'g');
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+
+// Only web, mail and in-app links are rendered as links
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href) || (href.startsWith('/') && !href.startsWith('//'));
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code; an unclosed fence runs to the end of the text
+    const fence = line.match(FENCE);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2].toLowerCase() || undefined, value: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoteLines.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        // Indented lines (and blank lines between them) belong to the current item
+        const itemLines = [item[3]];
+        i++;
+        while (i < lines.length && (/^\s{2,}\S/.test(lines[i]) || (!lines[i].trim() && /^\s{2,}\S/.test(lines[i + 1] || '')))) {
+          itemLines.push(lines[i].replace(/^\s{2,4}/, ''));
+          i++;
+        }
+        items.push(parseMarkdown(itemLines.join('\n')));
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    const paragraphLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[i]))) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const groups = match.groups || {};
+    const index = match.index || 0;
+
+    if (index > lastIndex) {
+      nodes.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    if (groups.code !== undefined) {
+      nodes.push({ type: 'code', value: groups.code });
+    } else if (groups.linkText !== undefined) {
+      nodes.push(isSafeHref(groups.linkHref)
+        ? { type: 'link', href: groups.linkHref, children: parseInline(groups.linkText) }
+        : { type: 'text', value: match[0] });
+    } else if (groups.url !== undefined) {
+      nodes.push({ type: 'link', href: groups.url, children: [{ type: 'text', value: groups.url }] });
+    } else if (groups.strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(groups.strong) });
+    } else if (groups.del !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(groups.del) });
+    } else if (groups.em !== undefined || groups.underscoreEm !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(groups.em ?? groups.underscoreEm) });
+    } else if (groups.mention !== undefined) {
+      nodes.push({ type: 'mention', username: groups.mention });
+    } else {
+      nodes.push({ type: 'break' });
+    }
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+
+  return nodes;
+}
+
+// Plain-text version for previews such as project cards and share text
+export function markdownToPlainText(source: string): string {
+  const inlineText = (nodes: InlineNode[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.value;
+      case 'mention':
+        return `@${node.username}`;
+      case 'break':
+        return ' ';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+
+  const blockText = (blocks: MarkdownBlock[]): string[] => blocks.flatMap(block => {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+        return [inlineText(block.children)];
+      case 'code':
+        return [block.value];
+      case 'blockquote':
+        return blockText(block.children);
+      case 'list':
+        return block.items.flatMap(blockText);
+      default:
+        return [];
+    }
+  });
+
+  return blockText(parseMarkdown(source)).join(' ').replace(/\s+/g, ' ').trim();
+}
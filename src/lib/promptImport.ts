@@ -0,0 +1,314 @@
+import { PromptLogEntry } from '../types';
+
+// Prompt log limits, shared by the editor and the importer
+export const MAX_PROMPT_ENTRIES = 50;
+export const MAX_PROMPT_LENGTH = 4000;
+export const MAX_RESULT_LENGTH = 2000;
+
+export type PromptExportFormat = 'chatgpt' | 'claude' | 'copilot' | 'cursor' | 'markdown';
+
+export const PROMPT_EXPORT_LABELS: Record<PromptExportFormat, string> = {
+  chatgpt: 'ChatGPT export',
+  claude: 'Claude export',
+  copilot: 'Copilot chat export',
+  cursor: 'Cursor chat export',
+  markdown: 'Markdown transcript'
+};
+
+export interface ImportedPrompt {
+  id: string;
+  entry: PromptLogEntry;
+  conversation?: string; // Title of the conversation the exchange came from
+  redactions: number; // Secrets removed from the prompt and result
+}
+
+export interface PromptImportResult {
+  format: PromptExportFormat;
+  prompts: ImportedPrompt[];
+}
+
+interface Exchange {
+  prompt: string;
+  result: string;
+  date?: string;
+  conversation?: string;
+}
+
+// Patterns for credentials commonly pasted into AI chats. Each match is replaced
+// with a [REDACTED] marker; key/value patterns keep the key so context survives.
+const SECRET_PATTERNS: { pattern: RegExp; replace: string }[] = [
+  { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, replace: '[REDACTED PRIVATE KEY]' },
+  { pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g, replace: '[REDACTED API KEY]' },
+  { pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g, replace: '[REDACTED GITHUB TOKEN]' },
+  { pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g, replace: '[REDACTED GITLAB TOKEN]' },
+  { pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, replace: '[REDACTED AWS KEY]' },
+  { pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g, replace: '[REDACTED GOOGLE API KEY]' },
+  { pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g, replace: '[REDACTED SLACK TOKEN]' },
+  { pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g, replace: '[REDACTED STRIPE KEY]' },
+  { pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, replace: '[REDACTED JWT]' },
+  { pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+@/gi, replace: '$1[REDACTED]@' },
+  {
+    pattern: /\b([A-Za-z0-9_]*(?:api[_-]?key|secret|token|password|passwd|access[_-]?key|private[_-]?key|client[_-]?secret)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?)[^\s"'`,;()]{8,}(?![\w(])/gi,
+    replace: '$1[REDACTED]'
+  }
+];
+
+// Remove secrets from text, returning the cleaned text and the number of redactions
+export function redactSecrets(text: string): { text: string; redactions: number } {
+  let redactions = 0;
+  let cleaned = text;
+
+  SECRET_PATTERNS.forEach(({ pattern, replace }) => {
+    cleaned = cleaned.replace(pattern, (...args) => {
+      redactions++;
+      // Re-run the replacement template against this single match
+      const groups = args.slice(1, -2) as (string | undefined)[];
+      return replace.replace(/\$(\d)/g, (_, group) => groups[Number(group) - 1] || '');
+    });
+  });
+
+  return { text: cleaned, redactions };
+}
+
+// Parse an exported conversation file into redacted prompt log entries
+export function parsePromptExport(fileName: string, content: string): PromptImportResult {
+  const trimmed = content.trim();
+  let format: PromptExportFormat;
+  let exchanges: Exchange[];
+  let tool: string;
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+
+    if (isChatGptExport(data)) {
+      format = 'chatgpt';
+      tool = 'ChatGPT';
+      exchanges = parseChatGptExport(data);
+    } else if (isClaudeExport(data)) {
+      format = 'claude';
+      tool = 'Claude';
+      exchanges = parseClaudeExport(data);
+    } else if (isCopilotExport(data)) {
+      format = 'copilot';
+      tool = 'GitHub Copilot';
+      exchanges = parseCopilotExport(data);
+    } else {
+      throw new Error(`${fileName} is not a recognised ChatGPT, Claude or Copilot export`);
+    }
+  } else {
+    const transcript = parseMarkdownTranscript(trimmed);
+    format = /from Cursor\b/i.test(trimmed.slice(0, 500)) || transcript.assistantLabel?.toLowerCase() === 'cursor'
+      ? 'cursor'
+      : 'markdown';
+    tool = format === 'cursor' ? 'Cursor' : toolFromLabel(transcript.assistantLabel);
+    exchanges = transcript.exchanges;
+  }
+
+  if (exchanges.length === 0) {
+    throw new Error(`No prompts were found in ${fileName}`);
+  }
+
+  return {
+    format,
+    prompts: exchanges.map((exchange, index) => {
+      const prompt = redactSecrets(exchange.prompt.trim());
+      const result = redactSecrets(exchange.result.trim());
+
+      return {
+        id: `${fileName}-${index}`,
+        entry: {
+          tool,
+          prompt: truncate(prompt.text, MAX_PROMPT_LENGTH),
+          result: truncate(result.text, MAX_RESULT_LENGTH),
+          ...(exchange.date ? { date: exchange.date } : {})
+        },
+        conversation: exchange.conversation,
+        redactions: prompt.redactions + result.redactions
+      };
+    })
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Accepts seconds since the epoch (ChatGPT) or ISO strings (Claude, Copilot)
+function toDateString(value: unknown): string | undefined {
+  const date = typeof value === 'number'
+    ? new Date(value < 1e12 ? value * 1000 : value)
+    : typeof value === 'string' ? new Date(value) : null;
+
+  return date && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : undefined;
+}
+
+// Pair each user message with the assistant replies that follow it
+function pairMessages(
+  messages: { role: 'user' | 'assistant'; text: string; date?: string }[],
+  conversation?: string
+): Exchange[] {
+  const exchanges: Exchange[] = [];
+
+  messages.forEach(message => {
+    if (!message.text.trim()) return;
+
+    if (message.role === 'user') {
+      exchanges.push({ prompt: message.text, result: '', date: message.date, conversation });
+    } else if (exchanges.length > 0) {
+      const last = exchanges[exchanges.length - 1];
+      last.result = last.result ? `${last.result}\n\n${message.text}` : message.text;
+    }
+  });
+
+  return exchanges;
+}
+
+// ChatGPT conversations.json: conversations hold a message tree in `mapping`
+function isChatGptExport(data: unknown): data is Record<string, unknown>[] {
+  return Array.isArray(data) && data.length > 0 && isRecord(data[0]) && isRecord(data[0].mapping);
+}
+
+function parseChatGptExport(conversations: Record<string, unknown>[]): Exchange[] {
+  return conversations.flatMap(conversation => {
+    const mapping = conversation.mapping as Record<string, Record<string, unknown>>;
+    const title = typeof conversation.title === 'string' ? conversation.title : undefined;
+
+    // Follow the active branch from the current node back to the root
+    const path: Record<string, unknown>[] = [];
+    let nodeId = typeof conversation.current_node === 'string' ? conversation.current_node : undefined;
+    const visited = new Set<string>();
+
+    while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+      visited.add(nodeId);
+      path.unshift(mapping[nodeId]);
+      nodeId = typeof mapping[nodeId].parent === 'string' ? mapping[nodeId].parent as string : undefined;
+    }
+
+    const messages = path.flatMap(node => {
+      const message = node.message;
+      if (!isRecord(message) || !isRecord(message.author) || !isRecord(message.content)) return [];
+
+      const role = message.author.role;
+      if (role !== 'user' && role !== 'assistant') return [];
+
+      const parts = Array.isArray(message.content.parts) ? message.content.parts : [];
+      const text = parts.filter((part): part is string => typeof part === 'string').join('\n');
+
+      return [{ role: role as 'user' | 'assistant', text, date: toDateString(message.create_time) }];
+    });
+
+    return pairMessages(messages, title);
+  });
+}
+
+// Claude data export: conversations with a flat `chat_messages` list
+function isClaudeExport(data: unknown): data is Record<string, unknown>[] {
+  return Array.isArray(data) && data.length > 0 && isRecord(data[0]) && Array.isArray(data[0].chat_messages);
+}
+
+function parseClaudeExport(conversations: Record<string, unknown>[]): Exchange[] {
+  return conversations.flatMap(conversation => {
+    const title = typeof conversation.name === 'string' ? conversation.name : undefined;
+
+    const messages = (conversation.chat_messages as unknown[]).filter(isRecord).flatMap(message => {
+      const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+      if (!role) return [];
+
+      // Newer exports split text into typed content blocks
+      const text = typeof message.text === 'string' && message.text
+        ? message.text
+        : (Array.isArray(message.content) ? message.content : [])
+            .filter(isRecord)
+            .filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text as string)
+            .join('\n');
+
+      return [{ role: role as 'user' | 'assistant', text, date: toDateString(message.created_at) }];
+    });
+
+    return pairMessages(messages, title);
+  });
+}
+
+// VS Code "Export Chat" JSON: `requests` with the prompt and response parts
+function isCopilotExport(data: unknown): data is { requests: unknown[] } {
+  return isRecord(data) && Array.isArray(data.requests);
+}
+
+function parseCopilotExport(data: { requests: unknown[] }): Exchange[] {
+  return data.requests.filter(isRecord).flatMap(request => {
+    const prompt = isRecord(request.message) && typeof request.message.text === 'string' ? request.message.text : '';
+    if (!prompt.trim()) return [];
+
+    const response = Array.isArray(request.response) ? request.response : [];
+    const result = response
+      .filter(isRecord)
+      .map(part => typeof part.value === 'string' ? part.value : '')
+      .join('')
+      .trim();
+
+    return [{ prompt, result, date: toDateString(request.timestamp) }];
+  });
+}
+
+// Speaker lines in Markdown transcripts: "**User**", "## Assistant", "Human:", "ChatGPT:" ...
+const USER_LABELS = ['user', 'human', 'me', 'you', 'prompt'];
+const ASSISTANT_LABELS = ['assistant', 'ai', 'chatgpt', 'gpt-4', 'gpt-4o', 'claude', 'copilot', 'github copilot', 'cursor', 'gemini', 'bard', 'response'];
+const SPEAKER_LINE = /^\s*(?:#{1,6}\s*|\*\*|__)?([A-Za-z][A-Za-z0-9 .-]{0,20}?)(?:\*\*|__)?\s*:?\s*(?:\*\*|__)?\s*$|^\s*(?:\*\*)?([A-Za-z][A-Za-z0-9 .-]{0,20}?)(?:\*\*)?\s*:\s+(.*)$/;
+
+function parseMarkdownTranscript(content: string): { exchanges: Exchange[]; assistantLabel?: string } {
+  const messages: { role: 'user' | 'assistant'; text: string }[] = [];
+  let current: { role: 'user' | 'assistant'; lines: string[] } | null = null;
+  let assistantLabel: string | undefined;
+
+  const flush = () => {
+    if (current) messages.push({ role: current.role, text: current.lines.join('\n').replace(/^\s*-{3,}\s*$/gm, '').trim() });
+  };
+
+  content.split('\n').forEach(line => {
+    const match = line.match(SPEAKER_LINE);
+    const label = (match?.[1] || match?.[2] || '').trim();
+    const role = USER_LABELS.includes(label.toLowerCase())
+      ? 'user'
+      : ASSISTANT_LABELS.includes(label.toLowerCase()) ? 'assistant' : null;
+
+    if (match && role) {
+      flush();
+      if (role === 'assistant' && !assistantLabel) assistantLabel = label;
+      current = { role, lines: match[3] ? [match[3]] : [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  });
+  flush();
+
+  return { exchanges: pairMessages(messages), assistantLabel };
+}
+
+function toolFromLabel(label: string | undefined): string {
+  switch (label?.toLowerCase()) {
+    case 'chatgpt':
+    case 'gpt-4':
+    case 'gpt-4o':
+      return 'ChatGPT';
+    case 'claude':
+      return 'Claude';
+    case 'copilot':
+    case 'github copilot':
+      return 'GitHub Copilot';
+    case 'gemini':
+    case 'bard':
+      return 'Gemini';
+    default:
+      return 'AI Assistant';
+  }
+}
@@ -0,0 +1,24 @@
+import { ReportReason, ReportStatus, ReportTargetType } from '../types';
+
+export const REPORT_REASONS: Record<ReportReason, { label: string; description: string }> = {
+  spam: { label: 'Spam', description: 'Advertising, link farming or repeated low-effort posts' },
+  plagiarism: { label: 'Plagiarism', description: "Someone else's project or writing presented as their own" },
+  fake_repository: { label: 'Fake repository', description: 'The repository is empty, unrelated or does not match the project' },
+  harassment: { label: 'Harassment', description: 'Insults, threats or targeting another user' },
+  inappropriate: { label: 'Inappropriate content', description: 'Offensive, explicit or otherwise unsuitable content' },
+  other: { label: 'Something else', description: 'Explain what is wrong in the details below' }
+};
+
+// Reasons offered for each kind of content
+export const REPORT_REASONS_BY_TARGET: Record<ReportTargetType, ReportReason[]> = {
+  project: ['spam', 'plagiarism', 'fake_repository', 'inappropriate', 'other'],
+  comment: ['spam', 'harassment', 'inappropriate', 'other'],
+  user: ['spam', 'harassment', 'plagiarism', 'other']
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Open',
+  dismissed: 'Dismissed',
+  hidden: 'Content hidden',
+  banned: 'Author banned'
+};
@@ -0,0 +1,64 @@
+import { ForgeKind, RepositoryRef } from '../types';
+
+export const FORGE_LABELS: Record<ForgeKind, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea'
+};
+
+// Self-hosted instances, as comma-separated hosts (mirrors the analyze-repo edge function config).
+// Hosts that are neither a public forge nor listed here are rejected.
+const configuredHosts = (value: string | undefined): string[] =>
+  (value || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const GITHUB_HOSTS = configuredHosts(import.meta.env.VITE_GITHUB_HOSTS);
+const GITLAB_HOSTS = configuredHosts(import.meta.env.VITE_GITLAB_HOSTS);
+const GITEA_HOSTS = configuredHosts(import.meta.env.VITE_GITEA_HOSTS);
+
+function detectForge(host: string): ForgeKind | null {
+  if (host === 'github.com' || GITHUB_HOSTS.includes(host)) return 'github';
+  if (host === 'bitbucket.org') return 'bitbucket';
+  if (host === 'gitlab.com' || GITLAB_HOSTS.includes(host)) return 'gitlab';
+  if (host === 'codeberg.org' || GITEA_HOSTS.includes(host)) return 'gitea';
+  return null;
+}
+
+// Parse a GitHub, GitLab, Bitbucket or Gitea repository URL into a typed reference
+export function parseRepositoryUrl(url: string): RepositoryRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:') return null;
+
+  const host = parsed.host.toLowerCase();
+  const forge = detectForge(host);
+  if (!forge) return null;
+
+  // Drop ".git", trailing slashes and GitLab's "/-/..." sub-pages
+  const segments = parsed.pathname
+    .replace(/\/-\/.*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter(Boolean);
+
+  // GitLab namespaces can nest subgroups; every other forge is owner/name
+  if (forge === 'gitlab' ? segments.length < 2 : segments.length !== 2) return null;
+  if (!segments.every(segment => /^[A-Za-z0-9_.-]+$/.test(segment))) return null;
+
+  const owner = segments.slice(0, -1).join('/');
+  const name = segments[segments.length - 1];
+
+  return {
+    forge,
+    host,
+    owner,
+    name,
+    url: `https://${host}/${owner}/${name}`
+  };
+}
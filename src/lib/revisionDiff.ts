@@ -0,0 +1,119 @@
+import { PromptLogEntry } from '../types';
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// Labels for the project columns tracked by the revision trigger
+export const REVISION_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  live_url: 'Live Demo URL',
+  screenshots: 'Screenshots',
+  technologies: 'Technologies',
+  tags: 'Tags',
+  ai_tools: 'AI Tools',
+  total_hours: 'Total Hours',
+  ai_assisted_hours: 'AI-assisted Hours',
+  manual_hours: 'Manual Hours',
+  development_process: 'Challenges & Learnings',
+  prompts: 'Prompt Log'
+};
+
+// Free text is compared word by word, everything else line by line
+const WORD_DIFF_FIELDS = ['title', 'description', 'live_url'];
+
+// Above this many token comparisons the whole value is shown as replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Render a stored column value as plain text for diffing
+export function formatRevisionValue(field: string, value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  switch (field) {
+    case 'ai_tools':
+      return (value as Array<{ name?: string } | string>)
+        .map(tool => typeof tool === 'string' ? tool : tool.name || '')
+        .join('\n');
+    case 'development_process': {
+      const process = value as { challenges?: string[]; learnings?: string[] };
+      return [
+        ...(process.challenges || []).map(item => `Challenge: ${item}`),
+        ...(process.learnings || []).map(item => `Learning: ${item}`)
+      ].join('\n');
+    }
+    case 'prompts':
+      return (value as PromptLogEntry[])
+        .map(entry => [
+          `[${entry.tool}${entry.date ? `, ${entry.date}` : ''}] ${entry.prompt}`,
+          entry.result ? `→ ${entry.result}` : ''
+        ].filter(Boolean).join('\n'))
+        .join('\n\n');
+    default:
+      return Array.isArray(value) ? value.join('\n') : String(value);
+  }
+}
+
+// Diff two values of a tracked column
+export function diffRevisionField(field: string, before: unknown, after: unknown): DiffSegment[] {
+  const split = WORD_DIFF_FIELDS.includes(field)
+    ? (text: string) => text.split(/(\s+)/).filter(Boolean)
+    : (text: string) => text.split(/(\n)/).filter(Boolean);
+
+  return diffTokens(
+    split(formatRevisionValue(field, before)),
+    split(formatRevisionValue(field, after))
+  );
+}
+
+// Longest-common-subsequence diff over tokens, with adjacent segments of the same type merged
+export function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return mergeSegments([
+      ...before.map(value => ({ type: 'removed' as const, value })),
+      ...after.map(value => ({ type: 'added' as const, value }))
+    ]);
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      segments.push({ type: 'equal', value: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      segments.push({ type: 'removed', value: before[i++] });
+    } else {
+      segments.push({ type: 'added', value: after[j++] });
+    }
+  }
+  while (i < before.length) segments.push({ type: 'removed', value: before[i++] });
+  while (j < after.length) segments.push({ type: 'added', value: after[j++] });
+
+  return mergeSegments(segments);
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  return segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.value += segment.value;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
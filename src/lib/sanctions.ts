@@ -0,0 +1,29 @@
+import { AppealStatus, SanctionType } from '../types';
+
+export const SANCTION_TYPES: Record<SanctionType, { label: string; description: string }> = {
+  warning: { label: 'Warning', description: 'A formal warning; the user is notified but keeps full access' },
+  suspension: { label: 'Suspension', description: 'No submitting, commenting or voting until the suspension ends' },
+  shadow_ban: { label: 'Shadow-ban', description: 'Their projects and comments are hidden from everyone else, without telling them' },
+  ban: { label: 'Ban', description: 'No submitting, commenting or voting, and their content is hidden, until lifted' }
+};
+
+// Suspension lengths offered to moderators, in hours
+export const SUSPENSION_DURATIONS: { hours: number; label: string }[] = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+  { hours: 720, label: '30 days' }
+];
+
+export const APPEAL_STATUS_LABELS: Record<AppealStatus, string> = {
+  pending: 'Under review',
+  accepted: 'Accepted',
+  rejected: 'Rejected'
+};
+
+// Whether a sanction still applies: not revoked and, for suspensions, not yet expired
+export function isSanctionActive(sanction: { type: SanctionType; revokedAt?: Date; expiresAt?: Date }): boolean {
+  if (sanction.revokedAt) return false;
+  if (sanction.type === 'suspension') return !!sanction.expiresAt && sanction.expiresAt.getTime() > Date.now();
+  return sanction.type !== 'warning';
+}
@@ -0,0 +1,299 @@
+// Parser for the advanced search syntax used by the header search box and SearchPage, e.g.
+//   tool:cursor tech:react vci:>70 verified:true author:alice "state machine"
+// Operators become SearchFilters; everything else is passed through as full-text search terms,
+// so quoted phrases and -exclusions keep working.
+
+import { SavedSearchAlertFrequency, SearchFilters, SearchSortType, VciBand } from '../types';
+
+export type SearchSuggestionField = 'technologies' | 'aiTools' | 'tags' | 'authors';
+
+export interface SearchOperator {
+  name: string;
+  example: string;
+  description: string;
+  suggestions?: SearchSuggestionField; // Field used to autocomplete the operator's value
+  values?: string[]; // Fixed set of values to offer
+}
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  { name: 'tech', example: 'tech:react', description: 'Uses a technology', suggestions: 'technologies' },
+  { name: 'tool', example: 'tool:cursor', description: 'Built with an AI tool', suggestions: 'aiTools' },
+  { name: 'author', example: 'author:alice', description: 'Submitted by a user', suggestions: 'authors' },
+  { name: 'vci', example: 'vci:>70', description: 'VCI score or band (low, medium, high)', values: ['high', 'medium', 'low', '>70', '<40', '40..80'] },
+  { name: 'votes', example: 'votes:>=10', description: 'Net votes', values: ['>0', '>=10', '<0'] },
+  { name: 'created', example: 'created:>2025-01-01', description: 'Submission date (YYYY-MM-DD)' },
+  { name: 'verified', example: 'verified:true', description: 'Verified projects only', values: ['true', 'false'] },
+  { name: 'has', example: 'has:live', description: 'Has a live demo, screenshots or AI tools', values: ['live', 'screenshots', 'ai'] }
+];
+
+// Shorthands accepted when parsing; queries are always written back with the canonical name
+const OPERATOR_ALIASES: Record<string, string> = {
+  technology: 'tech',
+  ai: 'tool',
+  by: 'author',
+  user: 'author',
+  score: 'vci',
+  date: 'created',
+  submitted: 'created'
+};
+
+const TOKEN = /(-?)([A-Za-z]+):(?:"([^"]*)"|(\S+))|"[^"]*"?|\S+/g;
+const RANGE = /^(>=|<=|>|<)?(\S+?)(?:\.\.(\S+))?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedSearchQuery {
+  text: string; // Free-text part of the query
+  filters: SearchFilters;
+  errors: string[];
+}
+
+interface Range<T> {
+  min?: T;
+  max?: T;
+}
+
+// Parse a query string into free text and filters. Invalid operator values are reported in
+// `errors` and otherwise ignored.
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const terms: string[] = [];
+  const filters: SearchFilters = {};
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [token, negated, rawName, quotedValue, plainValue] = match;
+    const name = rawName && (OPERATOR_ALIASES[rawName.toLowerCase()] || rawName.toLowerCase());
+    const operator = name && SEARCH_OPERATORS.find(op => op.name === name);
+
+    if (!operator) {
+      terms.push(token);
+      continue;
+    }
+
+    const value = (quotedValue ?? plainValue).trim();
+    if (!value) {
+      errors.push(`Missing value for ${operator.name}:`);
+      continue;
+    }
+
+    const error = applyOperator(filters, operator.name, value, negated === '-');
+    if (error) errors.push(error);
+  }
+
+  return { text: terms.join(' '), filters, errors };
+}
+
+function applyOperator(filters: SearchFilters, name: string, value: string, negated: boolean): string | null {
+  const lower = value.toLowerCase();
+
+  switch (name) {
+    case 'tech':
+      filters.technology = value;
+      return null;
+    case 'tool':
+      filters.aiTool = value;
+      return null;
+    case 'author':
+      filters.author = value.replace(/^@/, '');
+      return null;
+    case 'vci': {
+      if (['low', 'medium', 'high'].includes(lower)) {
+        filters.vciRange = lower as VciBand;
+        return null;
+      }
+      const range = parseNumberRange(value);
+      if (!range) return `Invalid VCI score "${value}"; use a number, a range like 40..80, or low/medium/high`;
+      filters.vciMin = range.min;
+      filters.vciMax = range.max;
+      return null;
+    }
+    case 'votes': {
+      const range = parseNumberRange(value);
+      if (!range) return `Invalid vote count "${value}"`;
+      filters.votesMin = range.min;
+      filters.votesMax = range.max;
+      return null;
+    }
+    case 'created': {
+      const range = parseDateRange(value);
+      if (!range) return `Invalid date "${value}"; use YYYY-MM-DD`;
+      filters.submittedAfter = range.min;
+      filters.submittedBefore = range.max;
+      return null;
+    }
+    case 'verified':
+      if (!['true', 'false', 'yes', 'no'].includes(lower)) return `Invalid value "${value}" for verified:; use true or false`;
+      filters.verified = (['true', 'yes'].includes(lower)) !== negated ? 'verified' : 'unverified';
+      return null;
+    case 'has':
+      switch (lower) {
+        case 'live':
+        case 'demo':
+          filters.hasLiveUrl = !negated;
+          return null;
+        case 'screenshots':
+        case 'screenshot':
+          filters.hasScreenshots = !negated;
+          return null;
+        case 'ai':
+        case 'aitools':
+          filters.hasAiTools = negated ? 'no' : 'yes';
+          return null;
+        default:
+          return `Unknown value "${value}" for has:; use live, screenshots or ai`;
+      }
+    default:
+      return null;
+  }
+}
+
+// "70", ">70", ">=70", "<40", "<=40" or "40..80" (inclusive); integers only
+function parseNumberRange(value: string): Range<number> | null {
+  const match = value.match(RANGE);
+  if (!match) return null;
+
+  const [, comparison, first, second] = match;
+  const parse = (text: string) => (/^-?\d+$/.test(text) ? parseInt(text, 10) : NaN);
+  const start = parse(first);
+  if (isNaN(start)) return null;
+
+  if (second !== undefined) {
+    const end = parse(second);
+    if (comparison || isNaN(end) || end < start) return null;
+    return { min: start, max: end };
+  }
+
+  switch (comparison) {
+    case '>': return { min: start + 1 };
+    case '>=': return { min: start };
+    case '<': return { max: start - 1 };
+    case '<=': return { max: start };
+    default: return { min: start, max: start };
+  }
+}
+
+// Same comparisons as numbers, on whole days. The result's `min` is inclusive and `max`
+// exclusive, matching submittedAfter and submittedBefore.
+function parseDateRange(value: string): Range<string> | null {
+  const match = value.match(RANGE);
+  if (!match) return null;
+
+  const [, comparison, first, second] = match;
+  if (!isValidDate(first)) return null;
+
+  if (second !== undefined) {
+    if (comparison || !isValidDate(second) || second < first) return null;
+    return { min: first, max: addDays(second, 1) };
+  }
+
+  switch (comparison) {
+    case '>': return { min: addDays(first, 1) };
+    case '>=': return { min: first };
+    case '<': return { max: first };
+    case '<=': return { max: addDays(first, 1) };
+    default: return { min: first, max: addDays(first, 1) };
+  }
+}
+
+function isValidDate(value: string): boolean {
+  return DATE.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Write free text and filters back out as a query string, so filter changes made in the UI
+// end up in the shareable `q` URL parameter
+export function buildSearchQuery(text: string, filters: SearchFilters): string {
+  const parts: string[] = [];
+  const quote = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+  if (filters.technology) parts.push(`tech:${quote(filters.technology)}`);
+  if (filters.aiTool) parts.push(`tool:${quote(filters.aiTool)}`);
+  if (filters.author) parts.push(`author:${quote(filters.author)}`);
+  if (filters.vciRange && filters.vciRange !== 'all') parts.push(`vci:${filters.vciRange}`);
+
+  const vci = formatNumberRange(filters.vciMin, filters.vciMax);
+  if (vci) parts.push(`vci:${vci}`);
+
+  const votes = formatNumberRange(filters.votesMin, filters.votesMax);
+  if (votes) parts.push(`votes:${votes}`);
+
+  const created = formatDateRange(filters.submittedAfter, filters.submittedBefore);
+  if (created) parts.push(`created:${created}`);
+
+  if (filters.verified && filters.verified !== 'all') parts.push(`verified:${filters.verified === 'verified'}`);
+  if (filters.hasLiveUrl !== undefined) parts.push(`${filters.hasLiveUrl ? '' : '-'}has:live`);
+  if (filters.hasScreenshots !== undefined) parts.push(`${filters.hasScreenshots ? '' : '-'}has:screenshots`);
+  if (filters.hasAiTools && filters.hasAiTools !== 'all') parts.push(`${filters.hasAiTools === 'yes' ? '' : '-'}has:ai`);
+
+  if (text.trim()) parts.push(text.trim());
+
+  return parts.join(' ');
+}
+
+function formatNumberRange(min?: number, max?: number): string | null {
+  if (min !== undefined && max !== undefined) return min === max ? `${min}` : `${min}..${max}`;
+  if (min !== undefined) return `>=${min}`;
+  if (max !== undefined) return `<=${max}`;
+  return null;
+}
+
+function formatDateRange(after?: string, before?: string): string | null {
+  if (after && before) {
+    const last = addDays(before, -1);
+    return after === last ? after : `${after}..${last}`;
+  }
+  if (after) return `>=${after}`;
+  if (before) return `<${before}`;
+  return null;
+}
+
+// Shareable link to a search
+export function getSearchUrl(query: string, sortBy: SearchSortType = 'relevance'): string {
+  const params = new URLSearchParams({ q: query });
+  if (sortBy !== 'relevance') params.set('sort', sortBy);
+  return `/search?${params.toString()}`;
+}
+
+export const SAVED_SEARCH_ALERT_LABELS: Record<SavedSearchAlertFrequency, string> = {
+  instant: 'Alert me for each new match',
+  daily: 'Daily digest',
+  off: 'No alerts'
+};
+
+export interface SearchQueryHint {
+  start: number; // Offset in the input where the token being typed begins
+  partial: string; // Text typed so far for the token (or the operator value)
+  operator?: SearchOperator; // Set when the token is an operator and its value is being typed
+  negated: boolean;
+}
+
+// Describe the token at the end of the input so the search box can offer completions
+export function getSearchQueryHint(input: string): SearchQueryHint | null {
+  const match = input.match(/(-?)(?:([A-Za-z]+):)?("?[^\s"]*)$/);
+  if (!match || match.index === undefined) return null;
+  if ((input.slice(0, match.index).match(/"/g) || []).length % 2 === 1) return null; // Inside a phrase
+
+  const [, negated, rawName, value] = match;
+  if (rawName === undefined) {
+    return value.startsWith('"') ? null : { start: match.index, partial: value, negated: negated === '-' };
+  }
+
+  const name = OPERATOR_ALIASES[rawName.toLowerCase()] || rawName.toLowerCase();
+  const operator = SEARCH_OPERATORS.find(op => op.name === name);
+  if (!operator) return null;
+
+  return { start: match.index, partial: value.replace(/^"/, ''), operator, negated: negated === '-' };
+}
+
+// Replace the token described by `hint` with a completed operator or value
+export function applySearchQueryHint(input: string, hint: SearchQueryHint, completion: string): string {
+  if (!hint.operator) {
+    return `${input.slice(0, hint.start)}${hint.negated ? '-' : ''}${completion}`;
+  }
+
+  const value = /\s/.test(completion) ? `"${completion}"` : completion;
+  return `${input.slice(0, hint.start)}${hint.negated ? '-' : ''}${hint.operator.name}:${value} `;
+}
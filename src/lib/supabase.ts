@@ -1,14 +1,17 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '../context/AuthContext';
-import { Project, Comment, User, CommunityStats, PopularAiTool } from '../types';
+import { Project, Comment, User, CommunityStats, PopularAiTool, SavedFolder, SavedProject, CommunityVciSummary, RepositoryRef, AnalysisSnapshot, ReanalysisResult, AnalysisJob, ProjectUpdate, ProjectRevision, CommentRevision, SortType, SearchSortType, SearchFilters, SearchFacets, SearchResults, SavedSearch, SavedSearchAlertFrequency, ApiKey, ReportTargetType, ReportReason, UserSanction } from '../types';
+import { parseRepositoryUrl } from './repository';
+import { SearchSuggestionField, parseSearchQuery } from './searchQuery';
 
 // Notification interface
 export interface Notification {
   id: string;
   recipient_id: string;
   sender_id: string | null;
-  type: 'project_upvote' | 'project_downvote' | 'project_comment' | 'comment_reply' | 'comment_upvote' | 'comment_downvote';
+  type: 'project_upvote' | 'project_downvote' | 'project_comment' | 'comment_reply' | 'comment_upvote' | 'comment_downvote' | 'analysis_completed' | 'analysis_failed' | 'mention' | 'new_project_from_followed' | 'saved_search_match' | 'account_sanction' | 'appeal_resolved';
   entity_id: string;
-  entity_type: 'project' | 'comment';
+  entity_type: 'project' | 'comment' | 'analysis_job' | 'saved_search' | 'sanction';
   message: string;
   link: string;
   is_read: boolean;
@@ -16,6 +19,12 @@ export interface Notification {
   sender_username?: string;
 }
 
+// Projects older than this no longer appear as rising
+const RISING_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Row-level security rejects submissions, comments and votes from banned or suspended accounts
+const RESTRICTED_ACCOUNT_MESSAGE = 'Your account is currently restricted. See Settings for details or to appeal.';
+
 // Voting operations
 export const votingService = {
   // Get user's vote for a project
@@ -69,6 +78,9 @@ export const votingService = {
 
       if (error) {
         console.error('Error voting on project:', error);
+        if (error.code === '42501') {
+          throw new Error(RESTRICTED_ACCOUNT_MESSAGE);
+        }
         throw error;
       }
     }
@@ -125,9 +137,346 @@ export const votingService = {
 
       if (error) {
         console.error('Error voting on comment:', error);
+        if (error.code === '42501') {
+          throw new Error(RESTRICTED_ACCOUNT_MESSAGE);
+        }
+        throw error;
+      }
+    }
+  },
+
+  // Check whether the user has saved a project
+  async getUserSavedStatus(projectId: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('saved_projects')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching saved status:', error);
+      return false;
+    }
+
+    return (data?.length || 0) > 0;
+  },
+
+  // Save or unsave a project
+  async toggleSaveProject(projectId: string, save: boolean, folderId: string | null = null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to save projects');
+    }
+
+    if (!save) {
+      const { error } = await supabase
+        .from('saved_projects')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error unsaving project:', error);
+        throw error;
+      }
+    } else {
+      // Saving an already-saved project leaves it in its current folder
+      const { error } = await supabase
+        .from('saved_projects')
+        .upsert({
+          project_id: projectId,
+          user_id: user.id,
+          folder_id: folderId
+        }, {
+          onConflict: 'user_id,project_id',
+          ignoreDuplicates: true
+        });
+
+      if (error) {
+        console.error('Error saving project:', error);
+        throw error;
+      }
+    }
+  },
+
+  // Get user's community VCI vote for a project
+  async getUserVciVote(projectId: string, userId: string): Promise<number | null> {
+    const { data, error } = await supabase
+      .from('project_vci_votes')
+      .select('score')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching user VCI vote:', error);
+      return null;
+    }
+
+    return data?.[0]?.score ?? null;
+  },
+
+  // Cast, change or remove a community VCI vote (0-100)
+  async castVciVote(projectId: string, score: number | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to vote');
+    }
+
+    if (score === null) {
+      // Remove vote
+      const { error } = await supabase
+        .from('project_vci_votes')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error removing VCI vote:', error);
+        throw error;
+      }
+    } else {
+      if (!Number.isInteger(score) || score < 0 || score > 100) {
+        throw new Error('VCI vote must be a whole number between 0 and 100');
+      }
+
+      // Insert or update vote
+      const { error } = await supabase
+        .from('project_vci_votes')
+        .upsert({
+          project_id: projectId,
+          user_id: user.id,
+          score
+        }, {
+          onConflict: 'project_id,user_id'
+        });
+
+      if (error) {
+        console.error('Error casting VCI vote:', error);
+        if (error.code === '42501') {
+          throw new Error(RESTRICTED_ACCOUNT_MESSAGE);
+        }
         throw error;
       }
     }
+  },
+
+  // Get the community VCI aggregate and vote distribution for a project
+  async getCommunityVciSummary(projectId: string): Promise<CommunityVciSummary> {
+    const [projectResult, votesResult] = await Promise.all([
+      supabase
+        .from('projects')
+        .select('community_vci_score, community_vci_trimmed_mean, community_vci_vote_count')
+        .eq('id', projectId)
+        .single(),
+      supabase
+        .from('project_vci_votes')
+        .select('score')
+        .eq('project_id', projectId)
+    ]);
+
+    if (projectResult.error) {
+      console.error('Error fetching community VCI score:', projectResult.error);
+      throw projectResult.error;
+    }
+
+    if (votesResult.error) {
+      console.error('Error fetching VCI votes:', votesResult.error);
+      throw votesResult.error;
+    }
+
+    // Bucket votes into tens, folding 100 into the top bucket
+    const distribution = new Array(10).fill(0);
+    (votesResult.data || []).forEach(vote => {
+      distribution[Math.min(9, Math.floor(vote.score / 10))]++;
+    });
+
+    return {
+      score: projectResult.data.community_vci_score ?? undefined,
+      trimmedMean: projectResult.data.community_vci_trimmed_mean != null
+        ? Number(projectResult.data.community_vci_trimmed_mean)
+        : undefined,
+      voteCount: projectResult.data.community_vci_vote_count || 0,
+      distribution
+    };
+  }
+};
+
+// Saved projects and collections
+export const savedProjectService = {
+  // Get the current user's saved projects, newest first
+  // folderId: undefined = all, null = unsorted only, string = a specific folder
+  async getSavedProjects(options?: {
+    folderId?: string | null;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ items: SavedProject[]; total: number }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to view saved projects');
+    }
+
+    const limit = options?.limit || 10;
+    const offset = options?.offset || 0;
+
+    let query = supabase
+      .from('saved_projects')
+      .select(`
+        id,
+        folder_id,
+        created_at,
+        projects:project_id (
+          *,
+          profiles:submitted_by (
+            username,
+            avatar_url
+          )
+        )
+      `, { count: 'exact' })
+      .eq('user_id', user.id);
+
+    if (options?.folderId === null) {
+      query = query.is('folder_id', null);
+    } else if (options?.folderId) {
+      query = query.eq('folder_id', options.folderId);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error fetching saved projects:', error);
+      throw error;
+    }
+
+    // Projects hidden by RLS (e.g. banned authors) come back as null
+    const items = (data || [])
+      .filter(row => row.projects)
+      .map(transformSavedProjectFromDB);
+
+    return { items, total: count || 0 };
+  },
+
+  // Get the current user's folders with bookmark counts
+  async getFolders(): Promise<SavedFolder[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('saved_project_folders')
+      .select(`
+        *,
+        saved_projects (count)
+      `)
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved folders:', error);
+      throw error;
+    }
+
+    return data?.map(transformSavedFolderFromDB) || [];
+  },
+
+  // Create a new folder
+  async createFolder(name: string, description?: string): Promise<SavedFolder> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to create folders');
+    }
+
+    const { data, error } = await supabase
+      .from('saved_project_folders')
+      .insert([{
+        user_id: user.id,
+        name: name.trim(),
+        description: description?.trim() || null
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating saved folder:', error);
+      if (error.code === '23505') {
+        throw new Error(`A folder named "${name.trim()}" already exists`);
+      }
+      throw error;
+    }
+
+    return transformSavedFolderFromDB(data);
+  },
+
+  // Rename a folder or change its description
+  async updateFolder(folderId: string, updates: { name?: string; description?: string }): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to update folders');
+    }
+
+    const { error } = await supabase
+      .from('saved_project_folders')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description.trim() || null })
+      })
+      .eq('id', folderId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error updating saved folder:', error);
+      throw error;
+    }
+  },
+
+  // Delete a folder (its bookmarks are kept and become unsorted)
+  async deleteFolder(folderId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to delete folders');
+    }
+
+    const { error } = await supabase
+      .from('saved_project_folders')
+      .delete()
+      .eq('id', folderId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting saved folder:', error);
+      throw error;
+    }
+  },
+
+  // Move a saved project into a folder (null = unsorted)
+  async moveToFolder(projectId: string, folderId: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to organize saved projects');
+    }
+
+    const { error } = await supabase
+      .from('saved_projects')
+      .update({ folder_id: folderId })
+      .eq('project_id', projectId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error moving saved project:', error);
+      throw error;
+    }
   }
 };
 
@@ -187,6 +536,12 @@ export const notificationService = {
     return count || 0;
   },
 
+  // Run `onChange` whenever the user's notifications are created or updated, and after a
+  // reconnect; returns an unsubscribe function
+  subscribeToNotifications(userId: string, onChange: () => void): () => void {
+    return subscribeToTable('notifications', 'notifications', `recipient_id=eq.${userId}`, onChange, onChange);
+  },
+
   // Mark notifications as read
   async markAsRead(notificationIds: string[]): Promise<void> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -373,22 +728,40 @@ export const statsService = {
 };
 
 // Search operations
-// Fixed Search Service - Server-side + Client-side hybrid approach
 export const searchService = {
+  // Full-text search ranked in Postgres, with optional facet counts for the sidebars
   async searchProjects(options: {
     query: string;
-    sortBy?: 'relevance' | 'recent' | 'vci-high' | 'vci-low' | 'trending';
-    filters?: {
-      vciRange?: 'all' | 'low' | 'medium' | 'high';
-      verified?: 'all' | 'verified' | 'unverified';
-      hasAiTools?: 'all' | 'yes' | 'no';
-    };
+    sortBy?: SearchSortType;
+    filters?: SearchFilters;
     limit?: number;
     offset?: number;
-  }): Promise<Project[]> {
-    const { query, sortBy = 'relevance', filters = {}, limit = 50, offset = 0 } = options;
-    
-    let supabaseQuery = supabase
+    includeFacets?: boolean;
+  }): Promise<SearchResults> {
+    const { query, sortBy = 'relevance', filters = {}, limit = 20, offset = 0, includeFacets = false } = options;
+    const filterParams = transformSearchFiltersToDB(query, filters);
+
+    const [matches, facets] = await Promise.all([
+      supabase.rpc('search_projects', {
+        ...filterParams,
+        sort_by: sortBy,
+        result_limit: limit,
+        result_offset: offset
+      }),
+      includeFacets ? this.getSearchFacets({ query, filters }) : Promise.resolve(undefined)
+    ]);
+
+    if (matches.error) {
+      console.error('Error searching projects:', matches.error);
+      throw matches.error;
+    }
+
+    const rows = (matches.data || []) as { project_id: string; rank: number; total_count: number }[];
+    if (rows.length === 0) {
+      return { projects: [], totalCount: 0, facets };
+    }
+
+    const { data, error } = await supabase
       .from('projects')
       .select(`
         *,
@@ -396,241 +769,84 @@ export const searchService = {
           username,
           avatar_url
         )
-      `);
+      `)
+      .in('id', rows.map(row => row.project_id));
 
-    // Apply text search using PostgreSQL text search
-    if (query.trim()) {
-      const searchTerm = `%${query.trim()}%`;
-      const orClause = [
-        `title.ilike.${searchTerm}`,
-        `description.ilike.${searchTerm}`,
-        `repo_name.ilike.${searchTerm}`
-      ].join(',');
-      supabaseQuery = supabaseQuery.or(orClause);
+    if (error) {
+      console.error('Error fetching search results:', error);
+      throw error;
     }
 
-    // Apply filters
-    if (filters.vciRange && filters.vciRange !== 'all') {
-      switch (filters.vciRange) {
-        case 'low':
-          supabaseQuery = supabaseQuery.lt('vci_score', 40);
-          break;
-        case 'medium':
-          supabaseQuery = supabaseQuery.gte('vci_score', 40).lt('vci_score', 80);
-          break;
-        case 'high':
-          supabaseQuery = supabaseQuery.gte('vci_score', 80);
-          break;
-      }
-    }
+    // Keep the order computed by search_projects
+    const projectsById = new Map((data || []).map(dbProject => [dbProject.id as string, transformProjectFromDB(dbProject)]));
+    const projects = rows
+      .map(row => projectsById.get(row.project_id))
+      .filter((project): project is Project => !!project);
 
-    if (filters.verified && filters.verified !== 'all') {
-      supabaseQuery = supabaseQuery.eq('is_verified', filters.verified === 'verified');
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'recent':
-        supabaseQuery = supabaseQuery.order('created_at', { ascending: false });
-        break;
-      case 'vci-high':
-        supabaseQuery = supabaseQuery.order('vci_score', { ascending: false });
-        break;
-      case 'vci-low':
-        supabaseQuery = supabaseQuery.order('vci_score', { ascending: true });
-        break;
-      case 'trending':
-        supabaseQuery = supabaseQuery.order('upvotes', { ascending: false });
-        break;
-      default: // relevance
-        if (query.trim()) {
-          supabaseQuery = supabaseQuery.order('created_at', { ascending: false });
-        } else {
-          supabaseQuery = supabaseQuery.order('upvotes', { ascending: false });
-        }
-        break;
-    }
+    return { projects, totalCount: Number(rows[0].total_count), facets };
+  },
 
-    // Apply pagination
-    if (offset) {
-      supabaseQuery = supabaseQuery.range(offset, offset + limit - 1);
-    } else if (limit) {
-      supabaseQuery = supabaseQuery.limit(limit);
-    }
+  // Fetch technology, AI tool and VCI band counts for a search
+  async getSearchFacets(options: {
+    query: string;
+    filters?: SearchFilters;
+    limit?: number;
+  }): Promise<SearchFacets> {
+    const { query, filters = {}, limit = 10 } = options;
 
-    const { data, error } = await supabaseQuery;
+    const { data, error } = await supabase.rpc('search_project_facets', {
+      ...transformSearchFiltersToDB(query, filters),
+      facet_limit: limit
+    });
 
     if (error) {
-      console.error('Error searching projects:', error);
+      console.error('Error fetching search facets:', error);
       throw error;
     }
 
-    // Transform results
-    let results = data?.map(transformProjectFromDB) || [];
+    return {
+      technologies: data?.technologies || [],
+      aiTools: data?.aiTools || [],
+      vciBands: data?.vciBands || []
+    };
+  },
 
-    // Apply AI tools filter (client-side for now since it's complex JSONB filtering)
-    if (filters.hasAiTools && filters.hasAiTools !== 'all') {
-      results = results.filter(project => {
-        const hasAiTools = project.aiTools && project.aiTools.length > 0;
-        return filters.hasAiTools === 'yes' ? hasAiTools : !hasAiTools;
-      });
-    }
+  // Fetch technology, AI tool and tag suggestions for a query, optionally limited to one field
+  async getSearchSuggestions(query: string, limit: number = 5, field?: SearchSuggestionField): Promise<string[]> {
+    if (!query.trim()) return [];
 
-    if (query.trim()) {
-      const searchTerm = query.toLowerCase();
-      
-      results = results.filter(project => {
-        const matchesServerSide = 
-          project.title.toLowerCase().includes(searchTerm) ||
-          project.description.toLowerCase().includes(searchTerm) ||
-          (project.repoName && project.repoName.toLowerCase().includes(searchTerm));
-        
-        if (matchesServerSide) {
-          return true;
+    try {
+      if (field === 'authors') {
+        const { data: profiles, error } = await supabase
+          .from('profiles')
+          .select('username')
+          .ilike('username', `${query.trim().replace(/[%_\\]/g, '\\$&')}%`)
+          .order('username')
+          .limit(limit);
+
+        if (error) {
+          console.error('Error fetching author suggestions:', error);
+          return [];
         }
-        
-        const matchesTechnologies = project.technologies.some(tech => 
-          tech.toLowerCase().includes(searchTerm)
-        );
-        const matchesAiTools = project.aiTools.some(tool => 
-          tool.name.toLowerCase().includes(searchTerm)
-        );
-        const matchesTags = project.tags?.some(tag => 
-          tag.toLowerCase().includes(searchTerm)
-        ) || false;
-        const matchesAuthor = project.submittedBy.toLowerCase().includes(searchTerm);
-
-        return matchesTechnologies || matchesAiTools || matchesTags || matchesAuthor;
-      });
-    }
 
-    return results;
-  },
+        return (profiles || []).map(profile => profile.username);
+      }
 
-  // Alternative simplified approach - removes problematic client-side override
-  async searchProjectsSimple(options: {
-    query: string;
-    sortBy?: 'relevance' | 'recent' | 'vci-high' | 'vci-low' | 'trending';
-    filters?: {
-      vciRange?: 'all' | 'low' | 'medium' | 'high';
-      verified?: 'all' | 'verified' | 'unverified';
-      hasAiTools?: 'all' | 'yes' | 'no';
-    };
-    limit?: number;
-    offset?: number;
-  }): Promise<Project[]> {
-    const { query, sortBy = 'relevance', filters = {}, limit = 50, offset = 0 } = options;
-    
-    let supabaseQuery = supabase
-      .from('projects')
-      .select(`
-        *,
-        profiles:submitted_by (
-          username,
-          avatar_url
-        )
-      `);
+      const { data: projects, error } = await supabase
+        .from('projects')
+        .select('technologies, ai_tools, tags')
+        .limit(100);
 
-    // Apply text search
-    if (query.trim()) {
-      const searchTerm = `%${query.trim()}%`;
-      const orClause = [
-        `title.ilike.${searchTerm}`,
-        `description.ilike.${searchTerm}`,
-        `repo_name.ilike.${searchTerm}`
-      ].join(',');
-      supabaseQuery = supabaseQuery.or(orClause);
-    }
-
-    // Apply filters
-    if (filters.vciRange && filters.vciRange !== 'all') {
-      switch (filters.vciRange) {
-        case 'low':
-          supabaseQuery = supabaseQuery.lt('vci_score', 40);
-          break;
-        case 'medium':
-          supabaseQuery = supabaseQuery.gte('vci_score', 40).lt('vci_score', 80);
-          break;
-        case 'high':
-          supabaseQuery = supabaseQuery.gte('vci_score', 80);
-          break;
-      }
-    }
-
-    if (filters.verified && filters.verified !== 'all') {
-      supabaseQuery = supabaseQuery.eq('is_verified', filters.verified === 'verified');
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'recent':
-        supabaseQuery = supabaseQuery.order('created_at', { ascending: false });
-        break;
-      case 'vci-high':
-        supabaseQuery = supabaseQuery.order('vci_score', { ascending: false });
-        break;
-      case 'vci-low':
-        supabaseQuery = supabaseQuery.order('vci_score', { ascending: true });
-        break;
-      case 'trending':
-        supabaseQuery = supabaseQuery.order('upvotes', { ascending: false });
-        break;
-      default:
-        if (query.trim()) {
-          supabaseQuery = supabaseQuery.order('created_at', { ascending: false });
-        } else {
-          supabaseQuery = supabaseQuery.order('upvotes', { ascending: false });
-        }
-        break;
-    }
-
-    // Apply pagination
-    if (offset) {
-      supabaseQuery = supabaseQuery.range(offset, offset + limit - 1);
-    } else if (limit) {
-      supabaseQuery = supabaseQuery.limit(limit);
-    }
-
-    const { data, error } = await supabaseQuery;
-
-    if (error) {
-      console.error('Error searching projects:', error);
-      throw error;
-    }
-
-    // Transform results and apply AI tools filter only
-    let results = data?.map(transformProjectFromDB) || [];
-
-    if (filters.hasAiTools && filters.hasAiTools !== 'all') {
-      results = results.filter(project => {
-        const hasAiTools = project.aiTools && project.aiTools.length > 0;
-        return filters.hasAiTools === 'yes' ? hasAiTools : !hasAiTools;
-      });
-    }
-
-    return results;
-  },
-
-  // Keep the existing suggestions function
-  async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
-    if (!query.trim()) return [];
-
-    try {
-      const { data: projects, error } = await supabase
-        .from('projects')
-        .select('technologies, ai_tools, tags')
-        .limit(100);
-
-      if (error) {
-        console.error('Error fetching search suggestions:', error);
-        return [];
-      }
+      if (error) {
+        console.error('Error fetching search suggestions:', error);
+        return [];
+      }
 
       const suggestions = new Set<string>();
       const searchTerm = query.toLowerCase();
 
       projects?.forEach(project => {
-        if (project.technologies) {
+        if (project.technologies && (!field || field === 'technologies')) {
           project.technologies.forEach((tech: string) => {
             if (tech.toLowerCase().includes(searchTerm)) {
               suggestions.add(tech);
@@ -638,7 +854,7 @@ export const searchService = {
           });
         }
 
-        if (project.ai_tools) {
+        if (project.ai_tools && (!field || field === 'aiTools')) {
           project.ai_tools.forEach((tool: any) => {
             const toolName = typeof tool === 'string' ? tool : tool.name;
             if (toolName && toolName.toLowerCase().includes(searchTerm)) {
@@ -647,7 +863,7 @@ export const searchService = {
           });
         }
 
-        if (project.tags) {
+        if (project.tags && (!field || field === 'tags')) {
           project.tags.forEach((tag: string) => {
             if (tag.toLowerCase().includes(searchTerm)) {
               suggestions.add(tag);
@@ -664,18 +880,326 @@ export const searchService = {
   }
 };
 
+// Saved searches and search alerts
+export const savedSearchService = {
+  // Get the current user's saved searches
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching saved searches:', error);
+      throw error;
+    }
+
+    return data?.map(transformSavedSearchFromDB) || [];
+  },
+
+  // Save a search; its filters are stored parsed so new projects can be matched in the database
+  async createSavedSearch(search: {
+    name: string;
+    query: string;
+    sortBy: SearchSortType;
+    alertFrequency: SavedSearchAlertFrequency;
+  }): Promise<SavedSearch> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to save searches');
+    }
+
+    const { text, filters } = parseSearchQuery(search.query);
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert([{
+        user_id: user.id,
+        name: search.name.trim(),
+        query: search.query.trim(),
+        sort_by: search.sortBy,
+        filters: transformSearchFiltersToDB(text, filters),
+        alert_frequency: search.alertFrequency
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error saving search:', error);
+      if (error.code === '23505') {
+        throw new Error(`A saved search named "${search.name.trim()}" already exists`);
+      }
+      throw error;
+    }
+
+    return transformSavedSearchFromDB(data);
+  },
+
+  // Rename a saved search or change how often it sends alerts
+  async updateSavedSearch(
+    savedSearchId: string,
+    updates: { name?: string; alertFrequency?: SavedSearchAlertFrequency }
+  ): Promise<SavedSearch> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to update saved searches');
+    }
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.alertFrequency !== undefined && { alert_frequency: updates.alertFrequency })
+      })
+      .eq('id', savedSearchId)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating saved search:', error);
+      if (error.code === '23505') {
+        throw new Error(`A saved search named "${updates.name?.trim()}" already exists`);
+      }
+      throw error;
+    }
+
+    return transformSavedSearchFromDB(data);
+  },
+
+  // Delete a saved search and its alert history
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to delete saved searches');
+    }
+
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', savedSearchId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting saved search:', error);
+      throw error;
+    }
+  }
+};
+
+// API key operations for the public read-only API
+export const apiKeyService = {
+  // Get the current user's API keys, including revoked ones
+  async getApiKeys(): Promise<ApiKey[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, name, key_prefix, rate_limit_per_minute, last_used_at, revoked_at, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      throw error;
+    }
+
+    return data?.map(transformApiKeyFromDB) || [];
+  },
+
+  // Create an API key; the full key is only returned here and cannot be retrieved later
+  async createApiKey(name: string): Promise<{ apiKey: ApiKey; key: string }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to create API keys');
+    }
+
+    const { data: created, error } = await supabase
+      .rpc('create_api_key', { key_name: name.trim() })
+      .single();
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      throw error;
+    }
+
+    const { id, api_key: key } = created as { id: string; api_key: string };
+
+    const { data, error: fetchError } = await supabase
+      .from('api_keys')
+      .select('id, name, key_prefix, rate_limit_per_minute, last_used_at, revoked_at, created_at')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching created API key:', fetchError);
+      throw fetchError;
+    }
+
+    return { apiKey: transformApiKeyFromDB(data), key };
+  },
+
+  // Revoke an API key; requests using it are rejected immediately
+  async revokeApiKey(apiKeyId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to revoke API keys');
+    }
+
+    const { error } = await supabase.rpc('revoke_api_key', { target_key_id: apiKeyId });
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      throw error;
+    }
+  }
+};
+
+// Content report operations
+export const reportService = {
+  // Flag a project, comment or user for moderators to review
+  async createReport(report: {
+    targetType: ReportTargetType;
+    targetId: string;
+    reason: ReportReason;
+    details?: string;
+  }): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to report content');
+    }
+
+    const { error } = await supabase
+      .from('reports')
+      .insert([{
+        reporter_id: user.id,
+        target_type: report.targetType,
+        target_id: report.targetId,
+        reason: report.reason,
+        details: report.details?.trim() || null
+      }]);
+
+    if (error) {
+      console.error('Error creating report:', error);
+      if (error.code === '23505') {
+        throw new Error('You have already reported this. A moderator will review it soon.');
+      }
+      throw error;
+    }
+  }
+};
+
+// Account sanctions and appeals for the current user
+export const sanctionService = {
+  // Fetch the current user's warnings, suspensions and bans with any appeal, newest first
+  async getMySanctions(): Promise<UserSanction[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('user_sanctions')
+      .select(`
+        id,
+        type,
+        reason,
+        expires_at,
+        revoked_at,
+        created_at,
+        appeal:sanction_appeals (
+          status,
+          message,
+          response,
+          created_at
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sanctions:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformSanctionFromDB);
+  },
+
+  // Ask the moderators to lift a sanction
+  async submitAppeal(sanctionId: string, message: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to appeal');
+    }
+
+    const { error } = await supabase
+      .from('sanction_appeals')
+      .insert([{
+        sanction_id: sanctionId,
+        user_id: user.id,
+        message: message.trim()
+      }]);
+
+    if (error) {
+      console.error('Error submitting appeal:', error);
+      if (error.code === '23505') {
+        throw new Error('You have already appealed this.');
+      }
+      throw error;
+    }
+  }
+};
+
 // Project operations
 export const projectService = {
   // Fetch all projects with optional filtering and sorting
   async getProjects(options?: {
-    sortBy?: 'trending' | 'recent' | 'vci-high' | 'vci-low' | 'controversial';
+    sortBy?: SortType;
     filterBy?: 'all' | 'verified' | 'unverified' | 'high-ai' | 'low-ai';
+    feed?: 'all' | 'following';
+    submittedAfter?: Date;
     limit?: number;
     offset?: number;
   }) {
+    // The following feed only shows projects from users the current user follows
+    let followerId: string | null = null;
+    if (options?.feed === 'following') {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+      followerId = user.id;
+    }
+
     let query = supabase
       .from('projects')
-      .select(`
+      .select(followerId ? `
+        *,
+        profiles:submitted_by!inner (
+          username,
+          avatar_url,
+          follows!following_id!inner (
+            follower_id
+          )
+        )
+      ` : `
         *,
         profiles:submitted_by (
           username,
@@ -683,6 +1207,15 @@ export const projectService = {
         )
       `);
 
+    if (followerId) {
+      // Joined in the database, so following many users doesn't grow the request
+      query = query.eq('profiles.follows.follower_id', followerId);
+    }
+
+    if (options?.submittedAfter) {
+      query = query.gte('created_at', options.submittedAfter.toISOString());
+    }
+
     // Apply filters
     if (options?.filterBy) {
       switch (options.filterBy) {
@@ -701,10 +1234,11 @@ export const projectService = {
       }
     }
 
-    // Apply sorting
+    // Apply sorting. Ranking scores are kept up to date by database triggers.
     if (options?.sortBy) {
       switch (options.sortBy) {
         case 'recent':
+        case 'new':
           query = query.order('created_at', { ascending: false });
           break;
         case 'vci-high':
@@ -714,15 +1248,29 @@ export const projectService = {
           query = query.order('vci_score', { ascending: true });
           break;
         case 'controversial':
-          // For controversial, we'll need to calculate the ratio on the client side
-          query = query.order('created_at', { ascending: false });
+          // Only projects with both up and down votes have a controversy score
+          query = query
+            .gt('controversy_score', 0)
+            .order('controversy_score', { ascending: false });
+          break;
+        case 'rising':
+          // Rising only ranks projects that are still new
+          query = query
+            .gte('created_at', new Date(Date.now() - RISING_WINDOW_MS).toISOString())
+            .gt('rising_score', 0)
+            .order('rising_score', { ascending: false });
+          break;
+        case 'top':
+          query = query.order('wilson_score', { ascending: false });
           break;
         case 'trending':
         default:
-          // For trending, we'll order by upvotes - downvotes
-          query = query.order('upvotes', { ascending: false });
+          query = query.order('hot_score', { ascending: false });
           break;
       }
+
+      // Break ties so pages never overlap or skip projects
+      query = query.order('id', { ascending: true });
     }
 
     if (options?.limit) {
@@ -766,6 +1314,22 @@ export const projectService = {
     return data ? transformProjectFromDB(data) : null;
   },
 
+  // Receive vote and comment counts for a project over Realtime; returns an unsubscribe function
+  subscribeToProjectStats(projectId: string, onUpdate: (stats: ProjectStats) => void): () => void {
+    const listeners = projectStatsListeners.get(projectId) || new Set();
+    if (listeners.size === 0) scheduleProjectStatsSubscription();
+    listeners.add(onUpdate);
+    projectStatsListeners.set(projectId, listeners);
+
+    return () => {
+      listeners.delete(onUpdate);
+      if (listeners.size === 0) {
+        projectStatsListeners.delete(projectId);
+        scheduleProjectStatsSubscription();
+      }
+    };
+  },
+
   // Create a new project
   async createProject(projectData: Omit<Project, 'id' | 'submittedAt' | 'upvotes' | 'downvotes' | 'commentCount'>) {
     const { data: { user } } = await supabase.auth.getUser();
@@ -791,71 +1355,312 @@ export const projectService = {
       `)
       .single();
 
-    if (error) {
-      console.error('Error creating project:', error);
-      throw error;
+    if (error) {
+      console.error('Error creating project:', error);
+      if (error.code === '42501') {
+        throw new Error(RESTRICTED_ACCOUNT_MESSAGE);
+      }
+      throw error;
+    }
+
+    return transformProjectFromDB(data);
+  },
+
+  // Delete a project
+  async deleteProject(projectId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User must be authenticated to delete a project');
+    }
+
+    // First, verify that the user owns this project
+    const { data: project, error: fetchError } = await supabase
+      .from('projects')
+      .select('submitted_by')
+      .eq('id', projectId)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching project for deletion:', fetchError);
+      throw new Error('Project not found');
+    }
+
+    if (project.submitted_by !== user.id) {
+      throw new Error('You can only delete your own projects');
+    }
+
+    // Delete the project (cascading deletes will handle related data)
+    const { error: deleteError } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', projectId);
+
+    if (deleteError) {
+      console.error('Error deleting project:', deleteError);
+      throw deleteError;
+    }
+  },
+
+  // Update a project's content. Each change is stored as a revision by a database trigger.
+  async updateProject(projectId: string, updates: ProjectUpdate) {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to edit a project');
+    }
+
+    const { data, error } = await supabase
+      .from('projects')
+      .update(transformProjectUpdateToDB(updates))
+      .eq('id', projectId)
+      .eq('submitted_by', user.id)
+      .select(`
+        *,
+        profiles:submitted_by (
+          username,
+          avatar_url
+        )
+      `)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating project:', error);
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error('You can only edit your own projects');
+    }
+
+    return transformProjectFromDB(data);
+  },
+
+  // Fetch the edit history for a project, newest first
+  async getRevisions(projectId: string): Promise<ProjectRevision[]> {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .select(`
+        *,
+        profiles:edited_by (
+          username
+        )
+      `)
+      .eq('project_id', projectId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching project revisions:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformProjectRevisionFromDB);
+  },
+
+  // Update project votes (deprecated - use votingService instead)
+  async updateProjectVotes(projectId: string, upvotes: number, downvotes: number) {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ upvotes, downvotes })
+      .eq('id', projectId)
+      .select(`
+        *,
+        profiles:submitted_by (
+          username,
+          avatar_url
+        )
+      `)
+      .single();
+
+    if (error) {
+      console.error('Error updating project votes:', error);
+      throw error;
+    }
+
+    return transformProjectFromDB(data);
+  },
+
+  // Fetch the analysis history timeline for a project, oldest first
+  async getAnalysisHistory(projectId: string): Promise<AnalysisSnapshot[]> {
+    const { data, error } = await supabase
+      .from('project_analysis_history')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching analysis history:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformAnalysisSnapshotFromDB);
+  },
+
+  // Re-analyze a project's repository (owner only). Unchanged repositories reuse the
+  // cached analysis unless `force` is set.
+  async reanalyzeProject(projectId: string, force: boolean = false): Promise<ReanalysisResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to re-analyze a project');
+    }
+
+    const { data, error } = await supabase.functions.invoke('analyze-repo', {
+      body: { projectId, force }
+    });
+
+    if (error) {
+      console.error('Error re-analyzing project:', error);
+      throw error;
+    }
+
+    return {
+      cached: Boolean(data?.cached),
+      snapshotRecorded: Boolean(data?.snapshotRecorded),
+      headSha: data?.headSha || undefined
+    };
+  }
+};
+
+// Repository ownership verification
+export const verificationService = {
+  // Issue a challenge token for the owner to commit to .vibecoded-verify
+  async createChallenge(projectId: string): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to verify a project');
+    }
+
+    const { data, error } = await supabase.rpc('create_verification_challenge', {
+      target_project_id: projectId
+    });
+
+    if (error) {
+      console.error('Error creating verification challenge:', error);
+      throw error;
+    }
+
+    return data as string;
+  },
+
+  // Fetch the owner's current challenge token, if one has been issued
+  async getChallenge(projectId: string): Promise<{ token: string; expiresAt: Date } | null> {
+    const { data, error } = await supabase
+      .from('project_verification_challenges')
+      .select('token, expires_at')
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching verification challenge:', error);
+      throw error;
+    }
+
+    return data ? { token: data.token, expiresAt: new Date(data.expires_at) } : null;
+  },
+
+  // Check the repository for the committed challenge token
+  async verifyWithFile(projectId: string): Promise<{ verified: boolean; error?: string }> {
+    return invokeVerification({ projectId, method: 'file' });
+  },
+
+  // Check the linked GitHub account's access to the repository. Requires a session
+  // that came back from startGitHubVerification, which carries the GitHub token.
+  async verifyWithGitHub(projectId: string): Promise<{ verified: boolean; error?: string }> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.provider_token) {
+      throw new Error('Connect your GitHub account to verify with GitHub');
     }
 
-    return transformProjectFromDB(data);
+    return invokeVerification({ projectId, method: 'github', providerToken: session.provider_token });
   },
 
-  // Delete a project
-  async deleteProject(projectId: string): Promise<void> {
+  // Link (or re-authorize) a GitHub account, returning to the project page afterwards
+  async startGitHubVerification(projectId: string): Promise<void> {
     const { data: { user } } = await supabase.auth.getUser();
-    
+
     if (!user) {
-      throw new Error('User must be authenticated to delete a project');
+      throw new Error('User must be authenticated to verify a project');
     }
 
-    // First, verify that the user owns this project
-    const { data: project, error: fetchError } = await supabase
-      .from('projects')
-      .select('submitted_by')
-      .eq('id', projectId)
-      .single();
+    const credentials = {
+      provider: 'github' as const,
+      options: {
+        redirectTo: `${window.location.origin}/project/${projectId}?verify=github`,
+        scopes: 'read:user'
+      }
+    };
 
-    if (fetchError) {
-      console.error('Error fetching project for deletion:', fetchError);
-      throw new Error('Project not found');
+    const hasGitHubIdentity = (user.identities || []).some(identity => identity.provider === 'github');
+    const { error } = hasGitHubIdentity
+      ? await supabase.auth.signInWithOAuth(credentials)
+      : await supabase.auth.linkIdentity(credentials);
+
+    if (error) {
+      console.error('Error connecting GitHub account:', error);
+      throw error;
     }
+  }
+};
 
-    if (project.submitted_by !== user.id) {
-      throw new Error('You can only delete your own projects');
+// Analysis job operations
+export const analysisJobService = {
+  // Queue a repository analysis and return the job id
+  async enqueueAnalysis(repoUrl: string, force: boolean = false): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to analyze a repository');
     }
 
-    // Delete the project (cascading deletes will handle related data)
-    const { error: deleteError } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', projectId);
+    const { data, error } = await supabase.functions.invoke('analysis-jobs', {
+      body: { repoUrl, force }
+    });
 
-    if (deleteError) {
-      console.error('Error deleting project:', deleteError);
-      throw deleteError;
+    if (error) {
+      console.error('Error enqueueing analysis job:', error);
+      throw error;
+    }
+
+    if (!data?.jobId) {
+      throw new Error('No analysis job was created');
     }
+
+    return data.jobId;
   },
 
-  // Update project votes (deprecated - use votingService instead)
-  async updateProjectVotes(projectId: string, upvotes: number, downvotes: number) {
+  // Fetch the current state of an analysis job
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
     const { data, error } = await supabase
-      .from('projects')
-      .update({ upvotes, downvotes })
-      .eq('id', projectId)
-      .select(`
-        *,
-        profiles:submitted_by (
-          username,
-          avatar_url
-        )
-      `)
-      .single();
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
 
     if (error) {
-      console.error('Error updating project votes:', error);
+      console.error('Error fetching analysis job:', error);
       throw error;
     }
 
-    return transformProjectFromDB(data);
+    return data ? transformAnalysisJobFromDB(data) : null;
+  },
+
+  // Receive stage updates for a job over Realtime; returns an unsubscribe function
+  subscribeToJob(jobId: string, onUpdate: (job: AnalysisJob) => void): () => void {
+    const channel = supabase
+      .channel(`analysis-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+        (payload) => onUpdate(transformAnalysisJobFromDB(payload.new))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }
 };
 
@@ -886,6 +1691,55 @@ export const commentService = {
     return buildCommentTree(comments);
   },
 
+  // Fetch a single comment with its author
+  async getComment(commentId: string): Promise<Comment | null> {
+    const { data, error } = await supabase
+      .from('comments')
+      .select(`
+        *,
+        profiles:author_id (
+          username,
+          avatar_url
+        )
+      `)
+      .eq('id', commentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching comment:', error);
+      throw error;
+    }
+
+    return data ? transformCommentFromDB(data) : null;
+  },
+
+  // Receive new and changed comments for a project over Realtime; returns an unsubscribe function.
+  // Updated comments come straight from the row and carry no author profile.
+  subscribeToProjectComments(projectId: string, handlers: {
+    onInsert: (comment: Comment) => void;
+    onUpdate: (comment: Comment) => void;
+    onReconnect: () => void;
+  }): () => void {
+    return subscribeToTable(
+      `project-comments-${projectId}`,
+      'comments',
+      `project_id=eq.${projectId}`,
+      async (payload) => {
+        if (payload.eventType === 'UPDATE') {
+          handlers.onUpdate(transformCommentFromDB(payload.new));
+        } else if (payload.eventType === 'INSERT') {
+          try {
+            const comment = await commentService.getComment(payload.new.id as string);
+            if (comment) handlers.onInsert(comment);
+          } catch (error) {
+            console.error('Error loading new comment:', error);
+          }
+        }
+      },
+      handlers.onReconnect
+    );
+  },
+
   // Create a new comment
   async createComment(commentData: {
     projectId: string;
@@ -923,15 +1777,165 @@ export const commentService = {
 
     if (error) {
       console.error('Error creating comment:', error);
+      if (error.code === '42501') {
+        throw new Error(RESTRICTED_ACCOUNT_MESSAGE);
+      }
+      throw error;
+    }
+
+    return transformCommentFromDB(data);
+  },
+
+  // Edit a comment. The previous text is stored as a revision by a database trigger.
+  async updateComment(commentId: string, content: string): Promise<Comment> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to edit a comment');
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ content })
+      .eq('id', commentId)
+      .eq('author_id', user.id)
+      .is('deleted_at', null)
+      .select(`
+        *,
+        profiles:author_id (
+          username,
+          avatar_url
+        )
+      `)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating comment:', error);
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error('You can only edit your own comments');
+    }
+
+    return transformCommentFromDB(data);
+  },
+
+  // Delete a comment. It is kept as a placeholder so replies stay in their thread.
+  async deleteComment(commentId: string): Promise<Comment> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to delete a comment');
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .eq('author_id', user.id)
+      .is('deleted_at', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting comment:', error);
       throw error;
     }
 
+    if (!data) {
+      throw new Error('You can only delete your own comments');
+    }
+
     return transformCommentFromDB(data);
+  },
+
+  // Fetch previous versions of an edited comment, newest first
+  async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    const { data, error } = await supabase
+      .from('comment_revisions')
+      .select('*')
+      .eq('comment_id', commentId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching comment revisions:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformCommentRevisionFromDB);
   }
 };
 
 // User operations
 export const userService = {
+  // Check whether the current user follows a profile
+  async getFollowStatus(profileId: string): Promise<boolean> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('follows')
+      .select('id')
+      .eq('follower_id', user.id)
+      .eq('following_id', profileId)
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching follow status:', error);
+      return false;
+    }
+
+    return (data?.length || 0) > 0;
+  },
+
+  // Follow or unfollow a profile
+  async toggleFollow(profileId: string, follow: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User must be authenticated to follow users');
+    }
+
+    if (user.id === profileId) {
+      throw new Error('You cannot follow yourself');
+    }
+
+    if (!follow) {
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', user.id)
+        .eq('following_id', profileId);
+
+      if (error) {
+        console.error('Error unfollowing user:', error);
+        throw error;
+      }
+    } else {
+      // Ensure the user has a profile before following
+      await ensureUserProfile(user);
+
+      const { error } = await supabase
+        .from('follows')
+        .upsert({
+          follower_id: user.id,
+          following_id: profileId
+        }, {
+          onConflict: 'follower_id,following_id',
+          ignoreDuplicates: true
+        });
+
+      if (error) {
+        console.error('Error following user:', error);
+        throw error;
+      }
+    }
+  },
+
   // Get user profile
   async getUserProfile(username: string) {
     const { data, error } = await supabase
@@ -971,6 +1975,21 @@ export const userService = {
 };
 
 // Helper function to build comment tree structure
+async function invokeVerification(body: {
+  projectId: string;
+  method: 'file' | 'github';
+  providerToken?: string;
+}): Promise<{ verified: boolean; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('verify-project', { body });
+
+  if (error) {
+    console.error('Error verifying project:', error);
+    throw error;
+  }
+
+  return { verified: Boolean(data?.verified), error: data?.error || undefined };
+}
+
 function buildCommentTree(comments: Comment[]): Comment[] {
   const commentMap = new Map<string, Comment>();
   const rootComments: Comment[] = [];
@@ -982,7 +2001,8 @@ function buildCommentTree(comments: Comment[]): Comment[] {
     commentMap.set(comment.id, comment);
   });
 
-  // Second pass: build the tree structure
+  // Second pass: build the tree structure. Deleted comments are still in the map, so their
+  // replies stay under them instead of moving to the root.
   comments.forEach(comment => {
     if (comment.parentId) {
       const parent = commentMap.get(comment.parentId);
@@ -998,7 +2018,105 @@ function buildCommentTree(comments: Comment[]): Comment[] {
     }
   });
 
-  return rootComments;
+  return pruneDeletedComments(rootComments);
+}
+
+// Drop deleted comments that have nothing left below them
+function pruneDeletedComments(comments: Comment[]): Comment[] {
+  return comments.filter(comment => {
+    comment.replies = pruneDeletedComments(comment.replies || []);
+    return !comment.isDeleted || comment.replies.length > 0;
+  });
+}
+
+// Realtime topics must be unique per subscriber, otherwise the client hands back the
+// existing channel and removing one subscriber closes it for all of them
+let realtimeChannelCount = 0;
+
+// Listen for row changes on a table. `onReconnect` runs whenever the channel rejoins after
+// a dropped connection so callers can refetch anything they missed in the meantime.
+function subscribeToTable(
+  name: string,
+  table: string,
+  filter: string | undefined,
+  onChange: (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => void,
+  onReconnect?: () => void
+): () => void {
+  let hasSubscribed = false;
+
+  const channel = supabase
+    .channel(`${name}-${++realtimeChannelCount}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table, filter }, onChange)
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      if (hasSubscribed) onReconnect?.();
+      hasSubscribed = true;
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+type ProjectStats = Pick<Project, 'upvotes' | 'downvotes' | 'commentCount'>;
+
+// Every project card on a page shares one channel rather than opening one each. The channel
+// is filtered to the projects on screen so clients don't receive every project update.
+const projectStatsListeners = new Map<string, Set<(stats: ProjectStats) => void>>();
+let unsubscribeProjectStats: (() => void)[] = [];
+let projectStatsResubscribe: ReturnType<typeof setTimeout> | null = null;
+
+// Realtime accepts at most 100 values in an `in` filter
+const PROJECT_STATS_FILTER_LIMIT = 100;
+
+// Cards mount and unmount together, so resubscribe once per batch of changes rather than per card
+function scheduleProjectStatsSubscription() {
+  if (projectStatsResubscribe) return;
+
+  projectStatsResubscribe = setTimeout(() => {
+    projectStatsResubscribe = null;
+    unsubscribeProjectStats.forEach(unsubscribe => unsubscribe());
+
+    const projectIds = Array.from(projectStatsListeners.keys());
+    unsubscribeProjectStats = [];
+
+    for (let i = 0; i < projectIds.length; i += PROJECT_STATS_FILTER_LIMIT) {
+      unsubscribeProjectStats.push(subscribeToTable(
+        'project-stats',
+        'projects',
+        `id=in.(${projectIds.slice(i, i + PROJECT_STATS_FILTER_LIMIT).join(',')})`,
+        (payload) => {
+          if (payload.eventType === 'UPDATE') notifyProjectStats(payload.new);
+        },
+        refreshProjectStats
+      ));
+    }
+  }, 0);
+}
+
+function notifyProjectStats(dbProject: any) {
+  projectStatsListeners.get(dbProject.id)?.forEach(listener => listener({
+    upvotes: dbProject.upvotes || 0,
+    downvotes: dbProject.downvotes || 0,
+    commentCount: dbProject.comment_count || 0
+  }));
+}
+
+async function refreshProjectStats() {
+  const projectIds = Array.from(projectStatsListeners.keys());
+  if (projectIds.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, upvotes, downvotes, comment_count')
+    .in('id', projectIds);
+
+  if (error) {
+    console.error('Error refreshing project stats:', error);
+    return;
+  }
+
+  data?.forEach(notifyProjectStats);
 }
 
 // Helper function to ensure user profile exists
@@ -1097,7 +2215,7 @@ function transformProjectFromDB(dbProject: any): Project {
     title: dbProject.title,
     description: dbProject.description || '',
     repoName: dbProject.repo_name || extractRepoName(dbProject.github_url || ''),
-    githubUrl: dbProject.github_url,
+    repository: transformRepositoryFromDB(dbProject),
     liveUrl: dbProject.live_url,
     screenshots: dbProject.screenshots || [],
     technologies: dbProject.technologies || [],
@@ -1106,20 +2224,29 @@ function transformProjectFromDB(dbProject: any): Project {
     vciScore: dbProject.vci_score || 50,
     aiVibeScore: dbProject.vci_score || 50, 
     // For backward compatibility
-    communityVciScore: dbProject.community_vci_score,
+    communityVciScore: dbProject.community_vci_score ?? undefined,
+    communityVciTrimmedMean: dbProject.community_vci_trimmed_mean != null ? Number(dbProject.community_vci_trimmed_mean) : undefined,
+    communityVciVoteCount: dbProject.community_vci_vote_count || 0,
     submittedBy: dbProject.profiles?.username || 'unknown',
     submittedAt: new Date(dbProject.submitted_at || dbProject.created_at),
     upvotes: dbProject.upvotes || 0,
     downvotes: dbProject.downvotes || 0,
     commentCount: dbProject.comment_count || 0,
     isVerified: dbProject.is_verified || false,
+    verifiedAt: dbProject.verified_at ? new Date(dbProject.verified_at) : undefined,
+    verificationMethod: dbProject.verification_method || undefined,
     analysis: dbProject.analysis,
     confidence: dbProject.confidence,
     indicators: dbProject.indicators,
+    analysisId: dbProject.analysis_id || undefined,
+    headSha: dbProject.head_sha || undefined,
+    lastAnalyzedAt: dbProject.last_analyzed_at ? new Date(dbProject.last_analyzed_at) : undefined,
+    editedAt: dbProject.edited_at ? new Date(dbProject.edited_at) : undefined,
+    revisionCount: dbProject.revision_count || 0,
     developmentProcess: {
-      totalHours: 0, // Default values since these columns don't exist in DB
-      aiAssistedHours: 0,
-      manualHours: 0,
+      totalHours: Number(dbProject.total_hours) || 0,
+      aiAssistedHours: Number(dbProject.ai_assisted_hours) || 0,
+      manualHours: Number(dbProject.manual_hours) || 0,
       challenges: dbProject.development_process?.challenges || [],
       learnings: dbProject.development_process?.learnings || []
     },
@@ -1137,19 +2264,26 @@ function transformProjectToDB(project: Omit<Project, 'id' | 'submittedAt' | 'upv
     title: project.title,
     description: project.description,
     repo_name: project.repoName,
-    github_url: project.githubUrl,
+    github_url: project.repository?.forge === 'github' ? project.repository.url : null,
+    repo_forge: project.repository?.forge,
+    repo_host: project.repository?.host,
+    repo_owner: project.repository?.owner,
+    repo_url: project.repository?.url,
     live_url: project.liveUrl,
     screenshots: project.screenshots,
     technologies: project.technologies,
     tags: project.tags,
     ai_tools: project.aiTools,
     vci_score: project.vciScore,
-    community_vci_score: project.communityVciScore,
     submitted_by: userId,
     is_verified: false,
     analysis: project.analysis,
     confidence: project.confidence,
     indicators: project.indicators,
+    analysis_id: project.analysisId,
+    total_hours: project.developmentProcess.totalHours,
+    ai_assisted_hours: project.developmentProcess.aiAssistedHours,
+    manual_hours: project.developmentProcess.manualHours,
     development_process: {
       challenges: project.developmentProcess.challenges,
       learnings: project.developmentProcess.learnings
@@ -1163,13 +2297,60 @@ function transformProjectToDB(project: Omit<Project, 'id' | 'submittedAt' | 'upv
   };
 }
 
+function transformProjectUpdateToDB(updates: ProjectUpdate) {
+  return {
+    title: updates.title,
+    description: updates.description,
+    live_url: updates.liveUrl || null,
+    screenshots: updates.screenshots,
+    technologies: updates.technologies,
+    tags: updates.tags,
+    ai_tools: updates.aiTools,
+    total_hours: updates.developmentProcess.totalHours,
+    ai_assisted_hours: updates.developmentProcess.aiAssistedHours,
+    manual_hours: updates.developmentProcess.manualHours,
+    development_process: {
+      challenges: updates.developmentProcess.challenges,
+      learnings: updates.developmentProcess.learnings
+    },
+    prompts: updates.prompts
+  };
+}
+
+function transformSearchFiltersToDB(query: string, filters: SearchFilters) {
+  return {
+    search_query: query.trim(),
+    vci_band: filters.vciRange && filters.vciRange !== 'all' ? filters.vciRange : null,
+    verified_filter: filters.verified && filters.verified !== 'all' ? filters.verified === 'verified' : null,
+    has_ai_tools: filters.hasAiTools && filters.hasAiTools !== 'all' ? filters.hasAiTools === 'yes' : null,
+    technology_filter: filters.technology || null,
+    ai_tool_filter: filters.aiTool || null,
+    author_filter: filters.author || null,
+    vci_min: filters.vciMin ?? null,
+    vci_max: filters.vciMax ?? null,
+    votes_min: filters.votesMin ?? null,
+    votes_max: filters.votesMax ?? null,
+    submitted_after: filters.submittedAfter || null,
+    submitted_before: filters.submittedBefore || null,
+    has_live_url: filters.hasLiveUrl ?? null,
+    has_screenshots: filters.hasScreenshots ?? null
+  };
+}
+
 function transformCommentFromDB(dbComment: any): Comment {
+  const isDeleted = Boolean(dbComment.deleted_at);
+
   return {
     id: dbComment.id,
     projectId: dbComment.project_id,
-    author: dbComment.profiles?.username || 'unknown',
-    content: dbComment.content,
+    // Deleted comments no longer show who wrote them
+    author: isDeleted ? '[deleted]' : dbComment.profiles?.username || 'unknown',
+    authorId: isDeleted ? undefined : dbComment.author_id || undefined,
+    content: isDeleted ? '' : dbComment.content,
     createdAt: new Date(dbComment.created_at),
+    editedAt: dbComment.edited_at ? new Date(dbComment.edited_at) : undefined,
+    revisionCount: dbComment.revision_count || 0,
+    isDeleted,
     upvotes: dbComment.upvotes || 0,
     downvotes: dbComment.downvotes || 0,
     parentId: dbComment.parent_id,
@@ -1179,6 +2360,79 @@ function transformCommentFromDB(dbComment: any): Comment {
   };
 }
 
+function transformCommentRevisionFromDB(dbRevision: any): CommentRevision {
+  return {
+    id: dbRevision.id,
+    commentId: dbRevision.comment_id,
+    revisionNumber: dbRevision.revision_number,
+    content: dbRevision.content,
+    createdAt: new Date(dbRevision.created_at)
+  };
+}
+
+function transformSavedProjectFromDB(dbSaved: any): SavedProject {
+  return {
+    id: dbSaved.id,
+    project: transformProjectFromDB(dbSaved.projects),
+    folderId: dbSaved.folder_id || undefined,
+    savedAt: new Date(dbSaved.created_at)
+  };
+}
+
+function transformSavedFolderFromDB(dbFolder: any): SavedFolder {
+  return {
+    id: dbFolder.id,
+    name: dbFolder.name,
+    description: dbFolder.description || undefined,
+    createdAt: new Date(dbFolder.created_at),
+    projectCount: dbFolder.saved_projects?.[0]?.count || 0
+  };
+}
+
+function transformSavedSearchFromDB(dbSearch: any): SavedSearch {
+  return {
+    id: dbSearch.id,
+    name: dbSearch.name,
+    query: dbSearch.query,
+    sortBy: dbSearch.sort_by,
+    alertFrequency: dbSearch.alert_frequency,
+    lastNotifiedAt: dbSearch.last_notified_at ? new Date(dbSearch.last_notified_at) : undefined,
+    createdAt: new Date(dbSearch.created_at)
+  };
+}
+
+function transformApiKeyFromDB(dbKey: any): ApiKey {
+  return {
+    id: dbKey.id,
+    name: dbKey.name,
+    keyPrefix: dbKey.key_prefix,
+    rateLimitPerMinute: dbKey.rate_limit_per_minute,
+    lastUsedAt: dbKey.last_used_at ? new Date(dbKey.last_used_at) : undefined,
+    revokedAt: dbKey.revoked_at ? new Date(dbKey.revoked_at) : undefined,
+    createdAt: new Date(dbKey.created_at)
+  };
+}
+
+function transformSanctionFromDB(dbSanction: any): UserSanction {
+  // One appeal per sanction; PostgREST returns the unique relation as an object
+  const appeal = Array.isArray(dbSanction.appeal) ? dbSanction.appeal[0] : dbSanction.appeal;
+
+  return {
+    id: dbSanction.id,
+    type: dbSanction.type,
+    reason: dbSanction.reason,
+    expiresAt: dbSanction.expires_at ? new Date(dbSanction.expires_at) : undefined,
+    revokedAt: dbSanction.revoked_at ? new Date(dbSanction.revoked_at) : undefined,
+    createdAt: new Date(dbSanction.created_at),
+    appeal: appeal ? {
+      status: appeal.status,
+      message: appeal.message,
+      response: appeal.response || undefined,
+      createdAt: new Date(appeal.created_at)
+    } : undefined
+  };
+}
+
 function transformUserFromDB(dbUser: any): User {
   return {
     id: dbUser.id,
@@ -1188,10 +2442,70 @@ function transformUserFromDB(dbUser: any): User {
     projectsSubmitted: dbUser.projects_submitted || 0,
     joinedAt: new Date(dbUser.joined_at || dbUser.created_at),
     specialization: dbUser.specialization,
-    aiToolsUsed: dbUser.ai_tools_used || []
+    aiToolsUsed: dbUser.ai_tools_used || [],
+    followerCount: dbUser.follower_count || 0,
+    followingCount: dbUser.following_count || 0
+  };
+}
+
+function transformAnalysisSnapshotFromDB(dbSnapshot: any): AnalysisSnapshot {
+  return {
+    id: dbSnapshot.id,
+    projectId: dbSnapshot.project_id,
+    headSha: dbSnapshot.head_sha || undefined,
+    vciScore: dbSnapshot.vci_score,
+    confidence: dbSnapshot.confidence ?? undefined,
+    indicators: {
+      codePatterns: dbSnapshot.indicators?.codePatterns || [],
+      commitPatterns: dbSnapshot.indicators?.commitPatterns || [],
+      documentationPatterns: dbSnapshot.indicators?.documentationPatterns || []
+    },
+    trigger: dbSnapshot.trigger,
+    createdAt: new Date(dbSnapshot.created_at)
+  };
+}
+
+function transformProjectRevisionFromDB(dbRevision: any): ProjectRevision {
+  return {
+    id: dbRevision.id,
+    projectId: dbRevision.project_id,
+    revisionNumber: dbRevision.revision_number,
+    editedBy: dbRevision.profiles?.username || 'unknown',
+    changedFields: dbRevision.changed_fields || [],
+    before: dbRevision.before_values || {},
+    after: dbRevision.after_values || {},
+    createdAt: new Date(dbRevision.created_at)
+  };
+}
+
+function transformAnalysisJobFromDB(dbJob: any): AnalysisJob {
+  return {
+    id: dbJob.id,
+    repoUrl: dbJob.repo_url,
+    status: dbJob.status,
+    stage: dbJob.stage,
+    result: dbJob.result || undefined,
+    error: dbJob.error || undefined,
+    createdAt: new Date(dbJob.created_at),
+    completedAt: dbJob.completed_at ? new Date(dbJob.completed_at) : undefined
   };
 }
 
+function transformRepositoryFromDB(dbProject: any): RepositoryRef | undefined {
+  if (dbProject.repo_url && dbProject.repo_forge) {
+    return {
+      forge: dbProject.repo_forge,
+      host: dbProject.repo_host,
+      owner: dbProject.repo_owner,
+      name: dbProject.repo_name,
+      url: dbProject.repo_url
+    };
+  }
+
+  // Rows written before typed repository references only have github_url
+  return dbProject.github_url ? parseRepositoryUrl(dbProject.github_url) || undefined : undefined;
+}
+
 function extractRepoName(githubUrl: string): string {
   if (!githubUrl) return '';
   const match = githubUrl.match(/github\.com\/[^\/]+\/([^\/]+)/);
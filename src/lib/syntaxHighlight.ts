@@ -0,0 +1,155 @@
+export interface HighlightToken {
+  type: 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+  value: string;
+}
+
+interface LanguageRules {
+  keywords: string[];
+  lineComment?: string;
+  blockComment?: boolean; // C-style /* ... */
+}
+
+const C_LIKE_KEYWORDS = [
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extends',
+  'false', 'finally', 'for', 'if', 'import', 'new', 'null', 'return', 'static', 'switch', 'this',
+  'throw', 'true', 'try', 'void', 'while'
+];
+
+const JS_RULES: LanguageRules = {
+  keywords: [
+    ...C_LIKE_KEYWORDS, 'as', 'async', 'await', 'delete', 'export', 'from', 'function', 'in',
+    'instanceof', 'interface', 'let', 'of', 'type', 'typeof', 'undefined', 'var', 'yield'
+  ],
+  lineComment: '//',
+  blockComment: true
+};
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript: JS_RULES,
+  typescript: JS_RULES,
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+      'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
+    ],
+    lineComment: '#'
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func',
+      'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'true', 'type', 'var'
+    ],
+    lineComment: '//',
+    blockComment: true
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false', 'fn', 'for',
+      'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self',
+      'Self', 'static', 'struct', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while'
+    ],
+    lineComment: '//',
+    blockComment: true
+  },
+  clike: {
+    keywords: [
+      ...C_LIKE_KEYWORDS, 'abstract', 'bool', 'char', 'double', 'final', 'float', 'implements', 'int',
+      'interface', 'long', 'namespace', 'package', 'private', 'protected', 'public', 'string', 'struct',
+      'using', 'var'
+    ],
+    lineComment: '//',
+    blockComment: true
+  },
+  sql: {
+    keywords: [
+      'add', 'alter', 'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from',
+      'group', 'having', 'in', 'index', 'insert', 'into', 'is', 'join', 'left', 'limit', 'not', 'null',
+      'on', 'or', 'order', 'returning', 'select', 'set', 'table', 'update', 'values', 'where', 'with'
+    ],
+    lineComment: '--',
+    blockComment: true
+  },
+  bash: {
+    keywords: [
+      'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in',
+      'local', 'return', 'then', 'while'
+    ],
+    lineComment: '#'
+  },
+  json: {
+    keywords: ['true', 'false', 'null']
+  }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  golang: 'go',
+  rs: 'rust',
+  java: 'clike', c: 'clike', cpp: 'clike', 'c++': 'clike', cs: 'clike', csharp: 'clike', kotlin: 'clike', swift: 'clike',
+  postgres: 'sql', postgresql: 'sql', plpgsql: 'sql',
+  sh: 'bash', shell: 'bash', zsh: 'bash'
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternCache = new Map<string, RegExp>();
+
+function tokenPattern(language: string, rules: LanguageRules): RegExp {
+  const cached = patternCache.get(language);
+  if (cached) return cached;
+
+  const comments = [
+    rules.blockComment ? '\\/\\*[\\s\\S]*?(?:\\*\\/|$)' : null,
+    rules.lineComment ? `${escapeRegExp(rules.lineComment)}[^\\n]*` : null
+  ].filter(Boolean).join('|');
+
+  const pattern = new RegExp([
+    comments ? `(?<comment>${comments})` : null,
+    '(?<string>"(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`)',
+    '(?<number>\\b\\d+(?:\\.\\d+)?\\b)',
+    '(?<word>\\b[A-Za-z_]\\w*\\b)'
+  ].filter(Boolean).join('|'), 'g');
+
+  patternCache.set(language, pattern);
+  return pattern;
+}
+
+// Split code into coloured tokens. Unknown languages come back as a single plain token.
+export function highlightCode(code: string, language?: string): HighlightToken[] {
+  const name = language ? LANGUAGE_ALIASES[language] || language : '';
+  const rules = LANGUAGES[name];
+  if (!rules) return [{ type: 'plain', value: code }];
+
+  // SQL keywords are case-insensitive
+  const keywords = new Set(name === 'sql' ? rules.keywords.flatMap(k => [k, k.toUpperCase()]) : rules.keywords);
+  const tokens: HighlightToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(tokenPattern(name, rules))) {
+    const groups = match.groups || {};
+    const index = match.index || 0;
+    const type: HighlightToken['type'] = groups.comment !== undefined ? 'comment'
+      : groups.string !== undefined ? 'string'
+      : groups.number !== undefined ? 'number'
+      : keywords.has(match[0]) ? 'keyword'
+      : 'plain';
+
+    if (type === 'plain') continue;
+
+    if (index > lastIndex) {
+      tokens.push({ type: 'plain', value: code.slice(lastIndex, index) });
+    }
+    tokens.push({ type, value: match[0] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < code.length) {
+    tokens.push({ type: 'plain', value: code.slice(lastIndex) });
+  }
+
+  return tokens;
+}
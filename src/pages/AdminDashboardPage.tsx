@@ -12,13 +12,19 @@ import {
   Pin,
   Activity,
   Calendar,
-  BarChart3
+  BarChart3,
+  Flag,
+  Scale
 } from 'lucide-react';
-import { adminService, AdminStats, AdminAction } from '../lib/admin';
+import { adminService, AdminStats, AdminAction, SanctionAppeal } from '../lib/admin';
+import { SANCTION_TYPES } from '../lib/sanctions';
 
 export const AdminDashboardPage: React.FC = () => {
   const [stats, setStats] = React.useState<AdminStats | null>(null);
   const [recentActions, setRecentActions] = React.useState<AdminAction[]>([]);
+  const [appeals, setAppeals] = React.useState<SanctionAppeal[]>([]);
+  const [appealResponses, setAppealResponses] = React.useState<Record<string, string>>({});
+  const [resolvingAppealId, setResolvingAppealId] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
 
@@ -28,13 +34,15 @@ export const AdminDashboardPage: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        const [statsData, actionsData] = await Promise.all([
+        const [statsData, actionsData, appealsData] = await Promise.all([
           adminService.getAdminStats(),
-          adminService.getAdminActions(10, 0)
+          adminService.getAdminActions(10, 0),
+          adminService.getPendingAppeals()
         ]);
 
         setStats(statsData);
         setRecentActions(actionsData);
+        setAppeals(appealsData);
       } catch (err) {
         console.error('Error fetching dashboard data:', err);
         setError('Failed to load dashboard data');
@@ -46,6 +54,19 @@ export const AdminDashboardPage: React.FC = () => {
     fetchDashboardData();
   }, []);
 
+  const handleResolveAppeal = async (appeal: SanctionAppeal, accept: boolean) => {
+    try {
+      setResolvingAppealId(appeal.id);
+      await adminService.resolveAppeal(appeal.id, accept, appealResponses[appeal.id]?.trim());
+      setAppeals(prev => prev.filter(a => a.id !== appeal.id));
+      setStats(prev => prev ? { ...prev, pendingAppeals: Math.max(0, prev.pendingAppeals - 1) } : prev);
+    } catch (err) {
+      console.error('Error resolving appeal:', err);
+    } finally {
+      setResolvingAppealId(null);
+    }
+  };
+
   const formatActionType = (actionType: string): string => {
     return actionType
       .split('_')
@@ -173,6 +194,25 @@ export const AdminDashboardPage: React.FC = () => {
 
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+        <Link
+          to="/admin/moderation"
+          className="bg-white border border-gray-300 rounded-lg p-6 hover:border-red-300 hover:shadow-md transition-all group"
+        >
+          <div className="flex items-center space-x-4">
+            <div className="p-3 bg-red-100 rounded-lg group-hover:bg-red-200 transition-colors">
+              <Flag className="h-6 w-6 text-red-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Moderation Queue</h3>
+              <p className="text-sm text-gray-600">
+                {stats.openReports > 0
+                  ? `${stats.openReports} open report${stats.openReports === 1 ? '' : 's'} to review`
+                  : 'No open reports'}
+              </p>
+            </div>
+          </div>
+        </Link>
+
         <Link
           to="/admin/users"
           className="bg-white border border-gray-300 rounded-lg p-6 hover:border-blue-300 hover:shadow-md transition-all group"
@@ -183,7 +223,11 @@ export const AdminDashboardPage: React.FC = () => {
             </div>
             <div>
               <h3 className="text-lg font-semibold text-gray-900">Manage Users</h3>
-              <p className="text-sm text-gray-600">View, ban, and assign roles to users</p>
+              <p className="text-sm text-gray-600">
+                {stats.pendingAppeals > 0
+                  ? `${stats.pendingAppeals} pending appeal${stats.pendingAppeals === 1 ? '' : 's'}`
+                  : 'View, sanction, and assign roles to users'}
+              </p>
             </div>
           </div>
         </Link>
@@ -264,6 +308,57 @@ export const AdminDashboardPage: React.FC = () => {
         </Link>
       </div>
 
+      {/* Pending Appeals */}
+      {appeals.length > 0 && (
+        <div className="bg-white border border-gray-300 rounded-lg mb-8">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <div className="flex items-center space-x-2">
+              <Scale className="h-5 w-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Pending Appeals</h3>
+              <span className="text-sm text-gray-500">({stats.pendingAppeals})</span>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {appeals.map((appeal) => (
+              <div key={appeal.id} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-2 text-sm">
+                  <span className="font-medium text-gray-900">{appeal.user.username}</span>
+                  <span className="text-gray-600">appealed a {SANCTION_TYPES[appeal.sanction.type].label.toLowerCase()}</span>
+                  <span className="text-gray-500">{formatDate(appeal.created_at)}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Reason given: {appeal.sanction.reason}</p>
+                <p className="text-sm text-gray-800 mt-2 whitespace-pre-wrap">{appeal.message}</p>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={appealResponses[appeal.id] || ''}
+                    onChange={(e) => setAppealResponses(prev => ({ ...prev, [appeal.id]: e.target.value }))}
+                    placeholder="Response to the user (optional)"
+                    maxLength={1000}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleResolveAppeal(appeal, true)}
+                    disabled={resolvingAppealId === appeal.id}
+                    className="px-3 py-1.5 text-sm text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors"
+                  >
+                    Accept and lift
+                  </button>
+                  <button
+                    onClick={() => handleResolveAppeal(appeal, false)}
+                    disabled={resolvingAppealId === appeal.id}
+                    className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 hover:bg-gray-100 disabled:opacity-50 rounded-lg transition-colors"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Actions */}
       <div className="bg-white border border-gray-300 rounded-lg">
         <div className="border-b border-gray-200 px-6 py-4">
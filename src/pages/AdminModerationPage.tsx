@@ -0,0 +1,454 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Flag,
+  FileText,
+  MessageCircle,
+  User as UserIcon,
+  Ban,
+  EyeOff,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  CheckCircle,
+  Loader2
+} from 'lucide-react';
+import { adminService, ModerationQueueItem, ContentReport } from '../lib/admin';
+import { REPORT_REASONS, REPORT_STATUS_LABELS } from '../lib/reports';
+import { ReportReason, ReportStatus, ReportTargetType } from '../types';
+import { NotificationContext } from '../App';
+
+const PAGE_SIZE = 25;
+
+type Resolution = Exclude<ReportStatus, 'open'>;
+
+const TARGET_ICONS: Record<ReportTargetType, React.ElementType> = {
+  project: FileText,
+  comment: MessageCircle,
+  user: UserIcon
+};
+
+const RESOLUTION_ACTIONS: Record<Resolution, { confirm: string; className: string }> = {
+  dismissed: {
+    confirm: 'Dismiss Reports',
+    className: 'text-gray-700 border border-gray-300 hover:bg-gray-50'
+  },
+  hidden: {
+    confirm: 'Hide Content',
+    className: 'text-white bg-orange-500 hover:bg-orange-600'
+  },
+  banned: {
+    confirm: 'Ban Author',
+    className: 'text-white bg-red-500 hover:bg-red-600'
+  }
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+const getTargetLink = (item: { target_type: ReportTargetType; project_id?: string; owner_username: string }) => {
+  if (item.target_type === 'user') return `/profile/${item.owner_username}`;
+  return item.project_id ? `/project/${item.project_id}` : null;
+};
+
+export const AdminModerationPage: React.FC = () => {
+  const notifications = React.useContext(NotificationContext);
+  const [tab, setTab] = React.useState<'open' | 'resolved'>('open');
+  const [typeFilter, setTypeFilter] = React.useState<ReportTargetType | 'all'>('all');
+  const [page, setPage] = React.useState(0);
+  const [items, setItems] = React.useState<ModerationQueueItem[]>([]);
+  const [totalCount, setTotalCount] = React.useState(0);
+  const [resolvedReports, setResolvedReports] = React.useState<ContentReport[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = React.useState<string | null>(null);
+  const [expandedReports, setExpandedReports] = React.useState<ContentReport[] | null>(null);
+  const [pendingAction, setPendingAction] = React.useState<{ key: string; resolution: Resolution } | null>(null);
+  const [note, setNote] = React.useState('');
+  const [resolving, setResolving] = React.useState(false);
+
+  const fetchQueue = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (tab === 'open') {
+        const { items, totalCount } = await adminService.getModerationQueue({
+          targetType: typeFilter === 'all' ? undefined : typeFilter,
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE
+        });
+        setItems(items);
+        setTotalCount(totalCount);
+      } else {
+        const data = await adminService.getResolvedReports(PAGE_SIZE, page * PAGE_SIZE);
+        setResolvedReports(data);
+      }
+    } catch (err) {
+      console.error('Error fetching moderation queue:', err);
+      setError('Failed to load the moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [tab, typeFilter, page]);
+
+  React.useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const itemKey = (item: ModerationQueueItem) => `${item.target_type}:${item.target_id}`;
+
+  const toggleReports = async (item: ModerationQueueItem) => {
+    const key = itemKey(item);
+    if (expandedKey === key) {
+      setExpandedKey(null);
+      return;
+    }
+
+    setExpandedKey(key);
+    setExpandedReports(null);
+    try {
+      const reports = await adminService.getReportsForTarget(item.target_type, item.target_id);
+      setExpandedReports(reports);
+    } catch (err) {
+      console.error('Error fetching reports:', err);
+      setExpandedReports([]);
+    }
+  };
+
+  const startAction = (item: ModerationQueueItem, resolution: Resolution) => {
+    setPendingAction({ key: itemKey(item), resolution });
+    setNote('');
+  };
+
+  const handleResolve = async (item: ModerationQueueItem) => {
+    if (!pendingAction) return;
+    const { resolution } = pendingAction;
+    if (resolution !== 'dismissed' && !note.trim()) return;
+
+    try {
+      setResolving(true);
+      const count = await adminService.resolveReports(item.target_type, item.target_id, resolution, note.trim());
+
+      setItems(prev => prev.filter(i => itemKey(i) !== itemKey(item)));
+      setTotalCount(prev => Math.max(prev - 1, 0));
+      setPendingAction(null);
+      notifications?.showSuccess(
+        'Reports Resolved',
+        `${count} report${count === 1 ? '' : 's'} marked as ${REPORT_STATUS_LABELS[resolution].toLowerCase()}.`
+      );
+    } catch (err) {
+      console.error('Error resolving reports:', err);
+      notifications?.showError(
+        'Action Failed',
+        err instanceof Error ? err.message : 'Failed to resolve the reports. Please try again.'
+      );
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const totalPages = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const hasNextPage = tab === 'open' ? page + 1 < totalPages : resolvedReports.length === PAGE_SIZE;
+
+  const renderReasons = (reasons: Partial<Record<ReportReason, number>>) => (
+    <div className="flex flex-wrap gap-1.5">
+      {(Object.entries(reasons) as [ReportReason, number][])
+        .sort(([, a], [, b]) => b - a)
+        .map(([reason, count]) => (
+          <span key={reason} className="px-2 py-0.5 bg-red-50 text-red-700 text-xs font-medium rounded-full">
+            {REPORT_REASONS[reason].label}{count > 1 && ` ×${count}`}
+          </span>
+        ))}
+    </div>
+  );
+
+  const renderQueueItem = (item: ModerationQueueItem) => {
+    const key = itemKey(item);
+    const Icon = TARGET_ICONS[item.target_type];
+    const link = getTargetLink(item);
+    const isPending = pendingAction?.key === key;
+    const canHide = item.target_type !== 'user' && !item.target_hidden;
+
+    return (
+      <li key={key} className="p-6">
+        <div className="flex items-start gap-4">
+          <div className="flex flex-col items-center w-14 flex-shrink-0">
+            <span className="text-2xl font-bold text-gray-900">{item.priority}</span>
+            <span className="text-xs text-gray-500">priority</span>
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <Icon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              <span className="text-xs font-medium text-gray-500 uppercase">{item.target_type}</span>
+              {item.target_hidden && (
+                <span className="px-2 py-0.5 bg-orange-100 text-orange-800 text-xs rounded-full">Hidden</span>
+              )}
+              {item.owner_banned && (
+                <span className="px-2 py-0.5 bg-red-100 text-red-800 text-xs rounded-full">Author banned</span>
+              )}
+            </div>
+
+            {link ? (
+              <Link to={link} className="font-medium text-gray-900 hover:text-blue-600">
+                {item.target_type === 'comment' ? `Comment on "${item.target_title}"` : item.target_title}
+              </Link>
+            ) : (
+              <span className="font-medium text-gray-900">{item.target_title}</span>
+            )}
+            {item.target_excerpt && (
+              <p className="mt-1 text-sm text-gray-600 line-clamp-2">{item.target_excerpt}</p>
+            )}
+
+            <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+              <span>
+                by <Link to={`/profile/${item.owner_username}`} className="text-blue-600 hover:text-blue-800">{item.owner_username}</Link>
+              </span>
+              <span>{item.report_count} report{item.report_count === 1 ? '' : 's'}</span>
+              <span>First reported {formatDate(item.first_reported_at)}</span>
+            </div>
+
+            <div className="mt-3">{renderReasons(item.reasons)}</div>
+
+            <button
+              onClick={() => toggleReports(item)}
+              className="mt-3 flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700 font-medium"
+            >
+              {expandedKey === key ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              <span>{expandedKey === key ? 'Hide reports' : 'Show reports'}</span>
+            </button>
+
+            {expandedKey === key && (
+              <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+                {expandedReports === null ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                ) : expandedReports.length === 0 ? (
+                  <p className="text-xs text-gray-500">No open reports.</p>
+                ) : (
+                  expandedReports.map(report => (
+                    <div key={report.id} className="text-sm">
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span className="font-medium text-gray-700">{report.reporter.username}</span>
+                        <span>{REPORT_REASONS[report.reason].label}</span>
+                        <span>{formatDate(report.created_at)}</span>
+                      </div>
+                      {report.details && <p className="mt-1 text-gray-700">{report.details}</p>}
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {isPending && (
+              <div className="mt-4 p-4 border border-gray-200 rounded-lg">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Note{' '}
+                  {pendingAction.resolution === 'dismissed'
+                    ? <span className="text-gray-400 font-normal">(optional)</span>
+                    : <span className="text-red-500">*</span>}
+                </label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={pendingAction.resolution === 'banned' ? 'Explain why this user is being banned...' : 'Explain the decision...'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={2}
+                />
+                <div className="flex justify-end space-x-3 mt-3">
+                  <button
+                    onClick={() => setPendingAction(null)}
+                    disabled={resolving}
+                    className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleResolve(item)}
+                    disabled={resolving || (pendingAction.resolution !== 'dismissed' && !note.trim())}
+                    className={`px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 ${RESOLUTION_ACTIONS[pendingAction.resolution].className}`}
+                  >
+                    {resolving ? 'Processing...' : RESOLUTION_ACTIONS[pendingAction.resolution].confirm}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {!isPending && (
+            <div className="flex flex-col gap-2 flex-shrink-0">
+              <button
+                onClick={() => startAction(item, 'dismissed')}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>Dismiss</span>
+              </button>
+              {canHide && (
+                <button
+                  onClick={() => startAction(item, 'hidden')}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-orange-700 border border-orange-200 hover:bg-orange-50 rounded-lg transition-colors"
+                >
+                  <EyeOff className="h-4 w-4" />
+                  <span>Hide</span>
+                </button>
+              )}
+              {!item.owner_banned && (
+                <button
+                  onClick={() => startAction(item, 'banned')}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <Ban className="h-4 w-4" />
+                  <span>Ban Author</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderResolvedReport = (report: ContentReport) => {
+    const Icon = TARGET_ICONS[report.target_type];
+
+    return (
+      <li key={report.id} className="px-6 py-4">
+        <div className="flex items-center gap-2 text-sm">
+          <Icon className="h-4 w-4 text-gray-400" />
+          <span className="font-medium text-gray-900">{REPORT_REASONS[report.reason].label}</span>
+          <span className="text-gray-500">reported by {report.reporter.username}</span>
+          <span className={`ml-auto px-2 py-0.5 text-xs rounded-full ${
+            report.status === 'dismissed' ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'
+          }`}>
+            {REPORT_STATUS_LABELS[report.status]}
+          </span>
+        </div>
+        {report.details && <p className="mt-1 text-sm text-gray-600">{report.details}</p>}
+        <p className="mt-1 text-xs text-gray-500">
+          {report.resolver ? `${report.resolver.username}, ` : ''}
+          {report.resolved_at && formatDate(report.resolved_at)}
+          {report.resolution_note && ` — ${report.resolution_note}`}
+        </p>
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-4">
+          <Flag className="h-8 w-8 text-red-500" />
+          <h1 className="text-3xl font-bold text-gray-900">Moderation Queue</h1>
+        </div>
+        <p className="text-gray-600">
+          Review reported projects, comments and users, most urgent first
+        </p>
+      </div>
+
+      {/* Tabs and Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {(['open', 'resolved'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setTab(value);
+                setPage(0);
+              }}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                tab === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {value === 'open' ? `Open${tab === 'open' && !loading ? ` (${totalCount})` : ''}` : 'Resolved'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'open' && (
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value as ReportTargetType | 'all');
+              setPage(0);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All content</option>
+            <option value="project">Projects</option>
+            <option value="comment">Comments</option>
+            <option value="user">Users</option>
+          </select>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-300 rounded-lg">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-600 mb-4">{error}</p>
+            <button
+              onClick={fetchQueue}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : tab === 'open' ? (
+          items.length === 0 ? (
+            <div className="text-center py-12">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">All Clear</h3>
+              <p className="text-gray-600">There are no open reports to review.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">{items.map(renderQueueItem)}</ul>
+          )
+        ) : resolvedReports.length === 0 ? (
+          <div className="text-center py-12">
+            <Flag className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No resolved reports yet.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">{resolvedReports.map(renderResolvedReport)}</ul>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!loading && !error && (page > 0 || hasNextPage) && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {page + 1}{tab === 'open' && ` of ${totalPages}`}
+          </span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={!hasNextPage}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
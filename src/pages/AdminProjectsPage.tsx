@@ -10,29 +10,121 @@ import {
   TrendingUp,
   Loader2,
   CheckCircle,
-  X
+  X,
+  EyeOff,
+  Filter,
+  AlertTriangle
 } from 'lucide-react';
-import { adminService, ModerationProject } from '../lib/admin';
+import {
+  adminService,
+  AdminSortDirection,
+  BulkProjectAction,
+  ModerationProject,
+  ModerationProjectSort
+} from '../lib/admin';
+import { SortableHeader, TablePagination } from '../components/AdminTableControls';
+import { useAdminTable } from '../hooks/useAdminTable';
+import { NotificationContext } from '../App';
+
+const PAGE_SIZE = 25;
+
+type FlagFilter = 'any' | 'yes' | 'no';
+
+const FLAG_FILTERS: { key: 'featured' | 'pinned' | 'verified' | 'hidden'; label: string }[] = [
+  { key: 'featured', label: 'Featured' },
+  { key: 'pinned', label: 'Pinned' },
+  { key: 'verified', label: 'Verified' },
+  { key: 'hidden', label: 'Hidden' }
+];
+
+const BULK_ACTIONS: { action: BulkProjectAction; label: string }[] = [
+  { action: 'feature', label: 'Feature' },
+  { action: 'unfeature', label: 'Unfeature' },
+  { action: 'pin', label: 'Pin' },
+  { action: 'unpin', label: 'Unpin' },
+  { action: 'verify', label: 'Verify' },
+  { action: 'unverify', label: 'Unverify' },
+  { action: 'hide', label: 'Hide' },
+  { action: 'unhide', label: 'Unhide' }
+];
+
+const toFlag = (filter: FlagFilter) => filter === 'any' ? undefined : filter === 'yes';
+
+const VERIFICATION_METHOD_LABELS: Record<NonNullable<ModerationProject['verification_method']>, string> = {
+  challenge_file: 'verification file',
+  github_oauth: 'GitHub account',
+  admin: 'admin override'
+};
 
 export const AdminProjectsPage: React.FC = () => {
-  const [projects, setProjects] = React.useState<ModerationProject[]>([]);
-  const [loading, setLoading] = React.useState(true);
+  const notifications = React.useContext(NotificationContext);
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [search, setSearch] = React.useState('');
+  const [flags, setFlags] = React.useState<Record<typeof FLAG_FILTERS[number]['key'], FlagFilter>>({
+    featured: 'any',
+    pinned: 'any',
+    verified: 'any',
+    hidden: 'any'
+  });
+  const [submittedAfter, setSubmittedAfter] = React.useState('');
+  const [submittedBefore, setSubmittedBefore] = React.useState('');
+  const [sortBy, setSortBy] = React.useState<ModerationProjectSort>('created_at');
+  const [sortDirection, setSortDirection] = React.useState<AdminSortDirection>('desc');
   const [moderating, setModerating] = React.useState<string | null>(null);
+  const [bulkRunning, setBulkRunning] = React.useState(false);
 
+  // Debounce the search box so each keystroke doesn't hit the server
   React.useEffect(() => {
-    fetchProjects();
-  }, []);
+    const timeout = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchProjects = React.useCallback((cursor: string | null) =>
+    adminService.getModerationProjects({
+      search,
+      featured: toFlag(flags.featured),
+      pinned: toFlag(flags.pinned),
+      verified: toFlag(flags.verified),
+      hidden: toFlag(flags.hidden),
+      submittedAfter: submittedAfter || undefined,
+      submittedBefore: submittedBefore || undefined,
+      sortBy,
+      sortDirection,
+      cursor,
+      limit: PAGE_SIZE
+    }), [search, flags, submittedAfter, submittedBefore, sortBy, sortDirection]);
+
+  const table = useAdminTable(fetchProjects);
+  const projects = table.items;
+  const setProjects = table.setItems;
+
+  const handleSort = (column: ModerationProjectSort) => {
+    if (column === sortBy) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortDirection(column === 'title' ? 'asc' : 'desc');
+    }
+  };
+
+  const handleBulkAction = async (action: BulkProjectAction) => {
+    const ids = Array.from(table.selectedIds);
+    if (ids.length === 0) return;
 
-  const fetchProjects = async () => {
     try {
-      setLoading(true);
-      const data = await adminService.getModerationProjects(100, 0);
-      setProjects(data);
+      setBulkRunning(true);
+      const count = await adminService.bulkModerate('project', ids, action);
+      notifications?.showSuccess('Projects Updated', `${count} ${count === 1 ? 'project' : 'projects'} updated.`);
+      table.clearSelection();
+      await table.reload();
     } catch (error) {
-      console.error('Error fetching projects:', error);
+      console.error('Error applying bulk action:', error);
+      notifications?.showError(
+        'Bulk Action Failed',
+        error instanceof Error ? error.message : 'No projects were changed. Please try again.'
+      );
     } finally {
-      setLoading(false);
+      setBulkRunning(false);
     }
   };
 
@@ -79,11 +171,18 @@ export const AdminProjectsPage: React.FC = () => {
   const handleVerifyProject = async (project: ModerationProject) => {
     try {
       setModerating(project.id);
-      // Note: This would need to be implemented in the backend
-      // For now, we'll just update the local state
+      const verified = !project.is_verified;
+      await adminService.setProjectVerification(project.id, verified);
+      
+      // Update local state
       setProjects(prev => prev.map(p => 
         p.id === project.id 
-          ? { ...p, is_verified: !p.is_verified }
+          ? {
+              ...p,
+              is_verified: verified,
+              verified_at: verified ? new Date().toISOString() : undefined,
+              verification_method: verified ? 'admin' : undefined
+            }
           : p
       ));
     } catch (error) {
@@ -93,11 +192,6 @@ export const AdminProjectsPage: React.FC = () => {
     }
   };
 
-  const filteredProjects = projects.filter(project =>
-    project.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    project.submitter.username.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -106,15 +200,8 @@ export const AdminProjectsPage: React.FC = () => {
     });
   };
 
-  if (loading) {
-    return (
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="flex items-center justify-center py-12">
-          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
-        </div>
-      </div>
-    );
-  }
+  const hasFilters = !!search || !!submittedAfter || !!submittedBefore || Object.values(flags).some(flag => flag !== 'any');
+  const allSelected = projects.length > 0 && projects.every(project => table.selectedIds.has(project.id));
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -129,8 +216,8 @@ export const AdminProjectsPage: React.FC = () => {
         </p>
       </div>
 
-      {/* Search */}
-      <div className="bg-white border border-gray-300 rounded-lg p-6 mb-6">
+      {/* Search and Filters */}
+      <div className="bg-white border border-gray-300 rounded-lg p-6 mb-6 space-y-4">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <input
@@ -141,22 +228,99 @@ export const AdminProjectsPage: React.FC = () => {
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          {FLAG_FILTERS.map(({ key, label }) => (
+            <select
+              key={key}
+              value={flags[key]}
+              onChange={(e) => setFlags(prev => ({ ...prev, [key]: e.target.value as FlagFilter }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="any">{label}: any</option>
+              <option value="yes">{label}</option>
+              <option value="no">Not {label.toLowerCase()}</option>
+            </select>
+          ))}
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Submitted</span>
+            <input
+              type="date"
+              value={submittedAfter}
+              max={submittedBefore || undefined}
+              onChange={(e) => setSubmittedAfter(e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>to</span>
+            <input
+              type="date"
+              value={submittedBefore}
+              min={submittedAfter || undefined}
+              onChange={(e) => setSubmittedBefore(e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
       </div>
 
+      {/* Bulk Actions */}
+      {table.selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <span className="text-sm font-medium text-blue-900 mr-2">
+            {table.selectedIds.size} selected
+          </span>
+          {BULK_ACTIONS.map(({ action, label }) => (
+            <button
+              key={action}
+              onClick={() => handleBulkAction(action)}
+              disabled={bulkRunning}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={table.clearSelection}
+            disabled={bulkRunning}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
       {/* Projects Table */}
       <div className="bg-white border border-gray-300 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={table.toggleSelectAll}
+                    disabled={projects.length === 0}
+                    aria-label="Select all projects on this page"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Project
+                  <div className="flex items-center space-x-3">
+                    <SortableHeader label="Project" column="title" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                    <SortableHeader label="Date" column="created_at" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  </div>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Author
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Stats
+                  <div className="flex items-center space-x-3">
+                    <SortableHeader label="Upvotes" column="upvotes" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                    <SortableHeader label="Comments" column="comment_count" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                    <SortableHeader label="VCI" column="vci_score" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  </div>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
@@ -167,8 +331,16 @@ export const AdminProjectsPage: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredProjects.map((project) => (
-                <tr key={project.id} className="hover:bg-gray-50">
+              {!table.loading && projects.map((project) => (
+                <tr key={project.id} className={table.selectedIds.has(project.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      checked={table.selectedIds.has(project.id)}
+                      onChange={() => table.toggleSelected(project.id)}
+                      aria-label={`Select ${project.title}`}
+                    />
+                  </td>
                   <td className="px-6 py-4">
                     <div>
                       <div className="text-sm font-medium text-gray-900 line-clamp-1">
@@ -213,6 +385,10 @@ export const AdminProjectsPage: React.FC = () => {
                           <div className="font-medium">{project.comment_count}</div>
                           <div className="text-xs text-gray-500">Comments</div>
                         </div>
+                        <div className="text-center">
+                          <div className="font-medium">{project.vci_score}</div>
+                          <div className="text-xs text-gray-500">VCI</div>
+                        </div>
                       </div>
                     </div>
                   </td>
@@ -231,11 +407,20 @@ export const AdminProjectsPage: React.FC = () => {
                         </span>
                       )}
                       {project.is_verified && (
-                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800"
+                          title={project.verification_method ? `Verified via ${VERIFICATION_METHOD_LABELS[project.verification_method]}` : undefined}
+                        >
                           <CheckCircle className="h-3 w-3 mr-1" />
                           Verified
                         </span>
                       )}
+                      {project.is_hidden && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-200 text-gray-800">
+                          <EyeOff className="h-3 w-3 mr-1" />
+                          Hidden
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -293,15 +478,35 @@ export const AdminProjectsPage: React.FC = () => {
           </table>
         </div>
 
-        {filteredProjects.length === 0 && (
+        {table.loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : table.error ? (
+          <div className="flex items-center justify-center space-x-2 py-12 text-red-700">
+            <AlertTriangle className="h-5 w-5 text-red-500" />
+            <span>{table.error}</span>
+          </div>
+        ) : projects.length === 0 && (
           <div className="text-center py-12">
             <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Projects Found</h3>
             <p className="text-gray-600">
-              {searchQuery ? 'No projects match your search criteria.' : 'No projects to display.'}
+              {hasFilters ? 'No projects match your search criteria.' : 'No projects to display.'}
             </p>
           </div>
         )}
+
+        <TablePagination
+          page={table.page}
+          pageSize={PAGE_SIZE}
+          itemCount={table.loading ? 0 : projects.length}
+          totalCount={table.totalCount}
+          hasPreviousPage={table.hasPreviousPage && !table.loading}
+          hasNextPage={table.hasNextPage && !table.loading}
+          onPrevious={table.goToPreviousPage}
+          onNext={table.goToNextPage}
+        />
       </div>
     </div>
   );
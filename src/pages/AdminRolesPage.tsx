@@ -0,0 +1,390 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Shield,
+  Plus,
+  Pencil,
+  Trash2,
+  Lock,
+  Search,
+  UserPlus,
+  UserMinus,
+  Calendar,
+  AlertTriangle,
+  Loader2
+} from 'lucide-react';
+import { adminService, AdminPermission, AdminRole, ModerationUser, UserRole } from '../lib/admin';
+import { RoleEditorModal } from '../components/RoleEditorModal';
+import { ConfirmationModal } from '../components/ConfirmationModal';
+import { NotificationContext } from '../App';
+
+const formatRoleName = (name: string) =>
+  name
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export const AdminRolesPage: React.FC = () => {
+  const notifications = React.useContext(NotificationContext);
+  const [searchParams] = useSearchParams();
+  const [roles, setRoles] = React.useState<AdminRole[]>([]);
+  const [permissions, setPermissions] = React.useState<AdminPermission[]>([]);
+  const [assignments, setAssignments] = React.useState<UserRole[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [editingRole, setEditingRole] = React.useState<AdminRole | null>(null);
+  const [editorOpen, setEditorOpen] = React.useState(false);
+  const [deletingRole, setDeletingRole] = React.useState<AdminRole | null>(null);
+  const [working, setWorking] = React.useState(false);
+
+  // Assign form; the user management page links here with ?user=<username>
+  const [userQuery, setUserQuery] = React.useState(searchParams.get('user') ?? '');
+  const [userMatches, setUserMatches] = React.useState<ModerationUser[]>([]);
+  const [assignee, setAssignee] = React.useState<ModerationUser | null>(null);
+  const [assignRoleId, setAssignRoleId] = React.useState('');
+
+  const fetchData = React.useCallback(async () => {
+    try {
+      setError(null);
+      const [roleData, permissionData, assignmentData] = await Promise.all([
+        adminService.getAdminRoles(),
+        adminService.getAdminPermissions(),
+        adminService.getUserRoles(1000, 0)
+      ]);
+      setRoles(roleData);
+      setPermissions(permissionData);
+      setAssignments(assignmentData);
+    } catch (err) {
+      console.error('Error fetching roles:', err);
+      setError('Failed to load roles. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Look up users to assign as the admin types
+  React.useEffect(() => {
+    const query = userQuery.trim();
+    if (assignee || query.length < 2) {
+      setUserMatches([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const page = await adminService.getModerationUsers({ search: query, sortBy: 'username', sortDirection: 'asc', limit: 6 });
+        setUserMatches(page.items);
+      } catch {
+        setUserMatches([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [userQuery, assignee]);
+
+  const holdersByRole = React.useMemo(() => {
+    const holders = new Map<string, UserRole[]>();
+    assignments.forEach(assignment => {
+      holders.set(assignment.role_id, [...(holders.get(assignment.role_id) || []), assignment]);
+    });
+    return holders;
+  }, [assignments]);
+
+  const superAdminRole = roles.find(role => role.name === 'super_admin');
+  const superAdminCount = superAdminRole ? holdersByRole.get(superAdminRole.id)?.length ?? 0 : 0;
+
+  const openEditor = (role: AdminRole | null) => {
+    setEditingRole(role);
+    setEditorOpen(true);
+  };
+
+  const closeEditor = React.useCallback(() => setEditorOpen(false), []);
+
+  const handleDeleteRole = async () => {
+    if (!deletingRole) return;
+
+    try {
+      setWorking(true);
+      await adminService.deleteRole(deletingRole.id);
+      notifications?.showSuccess('Role Deleted', `Deleted the ${deletingRole.name} role.`);
+      setDeletingRole(null);
+      await fetchData();
+    } catch (err) {
+      console.error('Error deleting role:', err);
+      notifications?.showError('Delete Failed', err instanceof Error ? err.message : 'Failed to delete the role.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignee || !assignRoleId) return;
+
+    const role = roles.find(r => r.id === assignRoleId);
+
+    try {
+      setWorking(true);
+      await adminService.assignRole(assignee.id, assignRoleId);
+      notifications?.showSuccess('Role Assigned', `${assignee.username} is now ${role ? formatRoleName(role.name) : 'assigned'}.`);
+      setAssignee(null);
+      setUserQuery('');
+      setAssignRoleId('');
+      await fetchData();
+    } catch (err) {
+      console.error('Error assigning role:', err);
+      notifications?.showError('Assign Failed', err instanceof Error ? err.message : 'Failed to assign the role.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemove = async (assignment: UserRole) => {
+    try {
+      setWorking(true);
+      await adminService.removeRole(assignment.user_id, assignment.role_id);
+      notifications?.showSuccess('Role Removed', `Removed ${formatRoleName(assignment.role.name)} from ${assignment.user.username}.`);
+      await fetchData();
+    } catch (err) {
+      console.error('Error removing role:', err);
+      notifications?.showError('Remove Failed', err instanceof Error ? err.message : 'Failed to remove the role.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <div className="flex items-center space-x-3 mb-4">
+            <Shield className="h-8 w-8 text-orange-500" />
+            <h1 className="text-3xl font-bold text-gray-900">Roles & Permissions</h1>
+          </div>
+          <p className="text-gray-600">
+            Build roles from the permission catalogue and choose who holds them
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor(null)}
+          className="inline-flex items-center px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-lg transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Role
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-3 bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <AlertTriangle className="h-6 w-6 text-red-500" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Assign Role */}
+      <form
+        onSubmit={handleAssign}
+        className="bg-white border border-gray-300 rounded-lg p-6 mb-6"
+      >
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Assign a Role</h2>
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={assignee ? assignee.username : userQuery}
+              onChange={(e) => {
+                setAssignee(null);
+                setUserQuery(e.target.value);
+              }}
+              placeholder="Find a user by username..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {userMatches.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-300 rounded-lg shadow-lg overflow-hidden">
+                {userMatches.map(user => (
+                  <li key={user.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setAssignee(user);
+                        setUserMatches([]);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-900 hover:bg-gray-50"
+                    >
+                      {user.username}
+                      {user.is_banned && <span className="ml-2 text-xs text-red-600">Banned</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <select
+            value={assignRoleId}
+            onChange={(e) => setAssignRoleId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Choose a role</option>
+            {roles.map(role => (
+              <option key={role.id} value={role.id}>{formatRoleName(role.name)}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!assignee || !assignRoleId || working}
+            className="inline-flex items-center justify-center px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 disabled:cursor-not-allowed rounded-lg transition-colors"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Assign
+          </button>
+        </div>
+      </form>
+
+      {/* Roles */}
+      <div className="space-y-6">
+        {roles.map(role => {
+          const holders = holdersByRole.get(role.id) || [];
+
+          return (
+            <div key={role.id} className="bg-white border border-gray-300 rounded-lg overflow-hidden">
+              <div className="flex items-start justify-between gap-4 px-6 py-4 border-b border-gray-200">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <h2 className="text-lg font-semibold text-gray-900">{formatRoleName(role.name)}</h2>
+                    {role.is_system && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Built-in
+                      </span>
+                    )}
+                    <span className="text-sm text-gray-500">
+                      {holders.length} {holders.length === 1 ? 'holder' : 'holders'}
+                    </span>
+                  </div>
+                  {role.description && (
+                    <p className="text-sm text-gray-600 mt-1">{role.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {role.permissions.map(permission => (
+                      <span
+                        key={permission}
+                        className="px-2 py-0.5 rounded text-xs font-mono bg-orange-50 text-orange-800 border border-orange-200"
+                      >
+                        {permission}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => openEditor(role)}
+                    className="p-2 text-gray-500 hover:text-gray-900 rounded-lg hover:bg-gray-100 transition-colors"
+                    title="Edit role"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  {!role.is_system && (
+                    <button
+                      onClick={() => setDeletingRole(role)}
+                      className="p-2 text-red-500 hover:text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                      title="Delete role"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {holders.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-500">Nobody holds this role.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {holders.map(assignment => {
+                    const lastSuperAdmin = role.id === superAdminRole?.id && superAdminCount <= 1;
+
+                    return (
+                      <li key={assignment.id} className="flex items-center justify-between px-6 py-3">
+                        <div className="flex items-center min-w-0">
+                          {assignment.user.avatar_url ? (
+                            <img
+                              src={assignment.user.avatar_url}
+                              alt={assignment.user.username}
+                              className="h-8 w-8 rounded-full object-cover"
+                            />
+                          ) : (
+                            <div className="h-8 w-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                              {assignment.user.username.charAt(0).toUpperCase()}
+                            </div>
+                          )}
+                          <div className="ml-3">
+                            <div className="text-sm font-medium text-gray-900">{assignment.user.username}</div>
+                            <div className="flex items-center text-xs text-gray-500">
+                              <Calendar className="h-3 w-3 mr-1" />
+                              Since {formatDate(assignment.assigned_at)}
+                            </div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleRemove(assignment)}
+                          disabled={working || lastSuperAdmin}
+                          className="inline-flex items-center px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          title={lastSuperAdmin ? "The last super admin can't be removed" : 'Remove role'}
+                        >
+                          <UserMinus className="h-3 w-3 mr-1" />
+                          Remove
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <RoleEditorModal
+        isOpen={editorOpen}
+        onClose={closeEditor}
+        role={editingRole}
+        permissions={permissions}
+        onSaved={fetchData}
+      />
+
+      <ConfirmationModal
+        isOpen={deletingRole !== null}
+        onClose={() => setDeletingRole(null)}
+        onConfirm={handleDeleteRole}
+        title="Delete Role"
+        message={deletingRole
+          ? `Delete the ${deletingRole.name} role? ${holdersByRole.get(deletingRole.id)?.length ?? 0} user(s) will lose its permissions.`
+          : ''}
+        confirmText="Delete Role"
+        loading={working}
+      />
+    </div>
+  );
+};
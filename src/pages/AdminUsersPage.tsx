@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { 
   Users, 
   Search, 
@@ -8,56 +9,149 @@ import {
   TrendingUp,
   AlertTriangle,
   CheckCircle,
-  X,
-  Loader2
+  Clock,
+  EyeOff,
+  Gavel,
+  History,
+  Loader2,
+  Filter
 } from 'lucide-react';
-import { adminService, ModerationUser } from '../lib/admin';
-import { ConfirmationModal } from '../components/ConfirmationModal';
+import {
+  adminService,
+  AdminSortDirection,
+  BulkUserAction,
+  ModerationUser,
+  ModerationUserSort,
+  ModerationUserStatus,
+  UserSanctionRecord
+} from '../lib/admin';
+import { SANCTION_TYPES } from '../lib/sanctions';
+import { SanctionModal } from '../components/SanctionModal';
+import { SortableHeader, TablePagination } from '../components/AdminTableControls';
+import { useAdminTable } from '../hooks/useAdminTable';
+import { NotificationContext } from '../App';
+
+const PAGE_SIZE = 25;
+
+const STATUS_FILTERS: { value: ModerationUserStatus; label: string }[] = [
+  { value: 'all', label: 'All users' },
+  { value: 'active', label: 'Active' },
+  { value: 'suspended', label: 'Suspended' },
+  { value: 'shadow_banned', label: 'Shadow-banned' },
+  { value: 'banned', label: 'Banned' }
+];
+
+const isSuspended = (user: ModerationUser) =>
+  !!user.suspended_until && new Date(user.suspended_until).getTime() > Date.now();
 
 export const AdminUsersPage: React.FC = () => {
-  const [users, setUsers] = React.useState<ModerationUser[]>([]);
-  const [loading, setLoading] = React.useState(true);
+  const notifications = React.useContext(NotificationContext);
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [search, setSearch] = React.useState('');
+  const [status, setStatus] = React.useState<ModerationUserStatus>('all');
+  const [joinedAfter, setJoinedAfter] = React.useState('');
+  const [joinedBefore, setJoinedBefore] = React.useState('');
+  const [sortBy, setSortBy] = React.useState<ModerationUserSort>('joined_at');
+  const [sortDirection, setSortDirection] = React.useState<AdminSortDirection>('desc');
   const [selectedUser, setSelectedUser] = React.useState<ModerationUser | null>(null);
-  const [showBanModal, setShowBanModal] = React.useState(false);
-  const [banReason, setBanReason] = React.useState('');
   const [moderating, setModerating] = React.useState(false);
+  const [bulkReason, setBulkReason] = React.useState('');
+  const [historyUserId, setHistoryUserId] = React.useState<string | null>(null);
+  const [history, setHistory] = React.useState<UserSanctionRecord[]>([]);
+  const [historyLoading, setHistoryLoading] = React.useState(false);
 
+  // Debounce the search box so each keystroke doesn't hit the server
   React.useEffect(() => {
-    fetchUsers();
-  }, []);
+    const timeout = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchUsers = React.useCallback((cursor: string | null) =>
+    adminService.getModerationUsers({
+      search,
+      status,
+      joinedAfter: joinedAfter || undefined,
+      joinedBefore: joinedBefore || undefined,
+      sortBy,
+      sortDirection,
+      cursor,
+      limit: PAGE_SIZE
+    }), [search, status, joinedAfter, joinedBefore, sortBy, sortDirection]);
+
+  const table = useAdminTable(fetchUsers);
+  const users = table.items;
+
+  const handleSort = (column: ModerationUserSort) => {
+    if (column === sortBy) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortDirection(column === 'username' ? 'asc' : 'desc');
+    }
+  };
 
-  const fetchUsers = async () => {
+  // Refresh after a sanction changes without replacing the table with a spinner
+  const reloadUsers = async () => {
     try {
-      setLoading(true);
-      const data = await adminService.getModerationUsers(100, 0);
-      setUsers(data);
+      await table.reload();
+      if (historyUserId) {
+        setHistory(await adminService.getUserSanctions(historyUserId));
+      }
+    } catch (error) {
+      console.error('Error reloading users:', error);
+    }
+  };
+
+  const handleBulkAction = async (action: BulkUserAction) => {
+    const ids = Array.from(table.selectedIds);
+    if (ids.length === 0 || (action === 'ban' && !bulkReason.trim())) return;
+
+    try {
+      setModerating(true);
+      const count = await adminService.bulkModerate('user', ids, action, bulkReason.trim() || undefined);
+      notifications?.showSuccess(
+        action === 'ban' ? 'Users Banned' : 'Users Unbanned',
+        `${count} ${count === 1 ? 'user' : 'users'} updated.`
+      );
+      setBulkReason('');
+      table.clearSelection();
+      await reloadUsers();
     } catch (error) {
-      console.error('Error fetching users:', error);
+      console.error('Error applying bulk action:', error);
+      notifications?.showError(
+        'Bulk Action Failed',
+        error instanceof Error ? error.message : 'No users were changed. Please try again.'
+      );
     } finally {
-      setLoading(false);
+      setModerating(false);
     }
   };
 
-  const handleBanUser = async () => {
-    if (!selectedUser || !banReason.trim()) return;
+  const toggleHistory = async (user: ModerationUser) => {
+    if (historyUserId === user.id) {
+      setHistoryUserId(null);
+      return;
+    }
+
+    try {
+      setHistoryUserId(user.id);
+      setHistoryLoading(true);
+      setHistory(await adminService.getUserSanctions(user.id));
+    } catch (error) {
+      console.error('Error fetching sanction history:', error);
+      setHistory([]);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
 
+  const handleRevokeSanction = async (sanction: UserSanctionRecord) => {
     try {
       setModerating(true);
-      await adminService.moderateUser(selectedUser.id, true, banReason.trim());
-      
-      // Update local state
-      setUsers(prev => prev.map(user => 
-        user.id === selectedUser.id 
-          ? { ...user, is_banned: true, ban_reason: banReason.trim() }
-          : user
-      ));
-      
-      setShowBanModal(false);
-      setBanReason('');
-      setSelectedUser(null);
+      await adminService.revokeSanction(sanction.id);
+      await reloadUsers();
     } catch (error) {
-      console.error('Error banning user:', error);
+      console.error('Error revoking sanction:', error);
     } finally {
       setModerating(false);
     }
@@ -67,13 +161,7 @@ export const AdminUsersPage: React.FC = () => {
     try {
       setModerating(true);
       await adminService.moderateUser(user.id, false);
-      
-      // Update local state
-      setUsers(prev => prev.map(u => 
-        u.id === user.id 
-          ? { ...u, is_banned: false, ban_reason: undefined }
-          : u
-      ));
+      await reloadUsers();
     } catch (error) {
       console.error('Error unbanning user:', error);
     } finally {
@@ -81,10 +169,6 @@ export const AdminUsersPage: React.FC = () => {
     }
   };
 
-  const filteredUsers = users.filter(user =>
-    user.username.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -93,15 +177,8 @@ export const AdminUsersPage: React.FC = () => {
     });
   };
 
-  if (loading) {
-    return (
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="flex items-center justify-center py-12">
-          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
-        </div>
-      </div>
-    );
-  }
+  const hasFilters = !!search || status !== 'all' || !!joinedAfter || !!joinedBefore;
+  const allSelected = users.length > 0 && users.every(user => table.selectedIds.has(user.id));
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -112,13 +189,13 @@ export const AdminUsersPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">User Management</h1>
         </div>
         <p className="text-gray-600">
-          Manage user accounts, ban users, and assign roles
+          Manage user accounts, issue warnings, suspensions and bans, and assign roles
         </p>
       </div>
 
       {/* Search and Filters */}
       <div className="bg-white border border-gray-300 rounded-lg p-6 mb-6">
-        <div className="flex items-center space-x-4">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <input
@@ -129,23 +206,110 @@ export const AdminUsersPage: React.FC = () => {
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Filter className="h-4 w-4 text-gray-400" />
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ModerationUserStatus)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {STATUS_FILTERS.map(filter => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Joined</span>
+              <input
+                type="date"
+                value={joinedAfter}
+                max={joinedBefore || undefined}
+                onChange={(e) => setJoinedAfter(e.target.value)}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>to</span>
+              <input
+                type="date"
+                value={joinedBefore}
+                min={joinedAfter || undefined}
+                onChange={(e) => setJoinedBefore(e.target.value)}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {table.selectedIds.size > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <span className="text-sm font-medium text-blue-900">
+            {table.selectedIds.size} selected
+          </span>
+          <input
+            type="text"
+            value={bulkReason}
+            onChange={(e) => setBulkReason(e.target.value)}
+            placeholder="Ban reason (required to ban)"
+            maxLength={1000}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleBulkAction('ban')}
+              disabled={moderating || !bulkReason.trim()}
+              className="inline-flex items-center px-3 py-1.5 text-sm text-white bg-red-500 hover:bg-red-600 disabled:bg-red-300 rounded-lg transition-colors"
+            >
+              <Ban className="h-4 w-4 mr-1" />
+              Ban
+            </button>
+            <button
+              onClick={() => handleBulkAction('unban')}
+              disabled={moderating}
+              className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Unban
+            </button>
+            <button
+              onClick={table.clearSelection}
+              disabled={moderating}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Users Table */}
       <div className="bg-white border border-gray-300 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={table.toggleSelectAll}
+                    disabled={users.length === 0}
+                    aria-label="Select all users on this page"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  User
+                  <SortableHeader label="User" column="username" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Stats
+                  <div className="flex items-center space-x-3">
+                    <SortableHeader label="Karma" column="karma" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                    <SortableHeader label="Projects" column="projects_submitted" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                    <SortableHeader label="Followers" column="follower_count" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  </div>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Joined
+                  <SortableHeader label="Joined" column="joined_at" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
@@ -156,8 +320,17 @@ export const AdminUsersPage: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredUsers.map((user) => (
-                <tr key={user.id} className="hover:bg-gray-50">
+              {!table.loading && users.map((user) => (
+                <React.Fragment key={user.id}>
+                <tr className={table.selectedIds.has(user.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      checked={table.selectedIds.has(user.id)}
+                      onChange={() => table.toggleSelected(user.id)}
+                      aria-label={`Select ${user.username}`}
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div className="flex-shrink-0">
@@ -208,24 +381,42 @@ export const AdminUsersPage: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {user.is_banned ? (
-                      <div className="flex flex-col">
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                          <Ban className="h-3 w-3 mr-1" />
-                          Banned
-                        </span>
-                        {user.ban_reason && (
-                          <span className="text-xs text-gray-500 mt-1">
-                            {user.ban_reason}
+                    <div className="flex flex-col items-start space-y-1">
+                      {user.is_banned ? (
+                        <>
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            <Ban className="h-3 w-3 mr-1" />
+                            Banned
                           </span>
-                        )}
-                      </div>
-                    ) : (
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Active
-                      </span>
-                    )}
+                          {user.ban_reason && (
+                            <span className="text-xs text-gray-500">
+                              {user.ban_reason}
+                            </span>
+                          )}
+                        </>
+                      ) : isSuspended(user) ? (
+                        <>
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Suspended
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            Until {formatDate(user.suspended_until as string)}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Active
+                        </span>
+                      )}
+                      {user.is_shadow_banned && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-800">
+                          <EyeOff className="h-3 w-3 mr-1" />
+                          Shadow-banned
+                        </span>
+                      )}
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex items-center space-x-2">
@@ -234,76 +425,134 @@ export const AdminUsersPage: React.FC = () => {
                           onClick={() => handleUnbanUser(user)}
                           disabled={moderating}
                           className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                          title="Unban"
                         >
                           <CheckCircle className="h-4 w-4" />
                         </button>
                       ) : (
                         <button
-                          onClick={() => {
-                            setSelectedUser(user);
-                            setShowBanModal(true);
-                          }}
+                          onClick={() => setSelectedUser(user)}
                           disabled={moderating}
                           className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          title="Warn, suspend or ban"
                         >
-                          <Ban className="h-4 w-4" />
+                          <Gavel className="h-4 w-4" />
                         </button>
                       )}
                       <button
-                        onClick={() => {/* TODO: Assign roles */}}
+                        onClick={() => toggleHistory(user)}
+                        className={`hover:text-gray-900 ${historyUserId === user.id ? 'text-gray-900' : 'text-gray-500'}`}
+                        title="Sanction history"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
+                      <Link
+                        to={`/admin/roles?user=${encodeURIComponent(user.username)}`}
                         className="text-blue-600 hover:text-blue-900"
+                        title="Assign roles"
                       >
                         <Shield className="h-4 w-4" />
-                      </button>
+                      </Link>
                     </div>
                   </td>
                 </tr>
+                {historyUserId === user.id && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={6} className="px-6 py-4">
+                      {historyLoading ? (
+                        <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+                      ) : history.length === 0 ? (
+                        <p className="text-sm text-gray-500">No sanctions on record.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {history.map(sanction => {
+                            const expired = sanction.type === 'suspension' && !!sanction.expires_at && new Date(sanction.expires_at).getTime() <= Date.now();
+
+                            return (
+                              <li key={sanction.id} className="flex items-start justify-between gap-4 bg-white border border-gray-200 rounded-lg p-3">
+                                <div className="min-w-0">
+                                  <div className="flex items-center space-x-2 text-sm">
+                                    <span className="font-medium text-gray-900">{SANCTION_TYPES[sanction.type].label}</span>
+                                    <span className="text-gray-500">
+                                      {formatDate(sanction.created_at)}
+                                      {sanction.issuer && ` by ${sanction.issuer.username}`}
+                                      {sanction.expires_at && ` · until ${formatDate(sanction.expires_at)}`}
+                                    </span>
+                                    {sanction.revoked_at ? (
+                                      <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Lifted</span>
+                                    ) : expired ? (
+                                      <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Ended</span>
+                                    ) : null}
+                                  </div>
+                                  <p className="text-sm text-gray-700 mt-1 whitespace-normal">{sanction.reason}</p>
+                                  {sanction.revoke_reason && (
+                                    <p className="text-xs text-gray-500 mt-1 whitespace-normal">Lifted: {sanction.revoke_reason}</p>
+                                  )}
+                                </div>
+                                {!sanction.revoked_at && !expired && (
+                                  <button
+                                    onClick={() => handleRevokeSanction(sanction)}
+                                    disabled={moderating}
+                                    className="flex-shrink-0 px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                                  >
+                                    Lift
+                                  </button>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                )}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
         </div>
 
-        {filteredUsers.length === 0 && (
+        {table.loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : table.error ? (
+          <div className="flex items-center justify-center space-x-2 py-12 text-red-700">
+            <AlertTriangle className="h-5 w-5 text-red-500" />
+            <span>{table.error}</span>
+          </div>
+        ) : users.length === 0 && (
           <div className="text-center py-12">
             <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Users Found</h3>
             <p className="text-gray-600">
-              {searchQuery ? 'No users match your search criteria.' : 'No users to display.'}
+              {hasFilters ? 'No users match your search criteria.' : 'No users to display.'}
             </p>
           </div>
         )}
+
+        <TablePagination
+          page={table.page}
+          pageSize={PAGE_SIZE}
+          itemCount={table.loading ? 0 : users.length}
+          totalCount={table.totalCount}
+          hasPreviousPage={table.hasPreviousPage && !table.loading}
+          hasNextPage={table.hasNextPage && !table.loading}
+          onPrevious={table.goToPreviousPage}
+          onNext={table.goToNextPage}
+        />
       </div>
 
-      {/* Ban User Modal */}
-      <ConfirmationModal
-        isOpen={showBanModal}
-        onClose={() => {
-          setShowBanModal(false);
-          setBanReason('');
-          setSelectedUser(null);
-        }}
-        onConfirm={handleBanUser}
-        title="Ban User"
-        message={`Are you sure you want to ban ${selectedUser?.username}? This will prevent them from accessing the platform.`}
-        confirmText="Ban User"
-        cancelText="Cancel"
-        type="danger"
-        loading={moderating}
-      >
-        <div className="mt-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Ban Reason <span className="text-red-500">*</span>
-          </label>
-          <textarea
-            value={banReason}
-            onChange={(e) => setBanReason(e.target.value)}
-            placeholder="Explain why this user is being banned..."
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            rows={3}
-            required
-          />
-        </div>
-      </ConfirmationModal>
+      {/* Sanction Modal */}
+      {selectedUser && (
+        <SanctionModal
+          isOpen={selectedUser !== null}
+          onClose={() => setSelectedUser(null)}
+          userId={selectedUser.id}
+          username={selectedUser.username}
+          onIssued={reloadUsers}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
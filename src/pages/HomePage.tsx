@@ -1,10 +1,13 @@
 import React from 'react';
 import { ProjectCard } from '../components/ProjectCard';
 import { projectService } from '../lib/supabase';
-import { Project, SortType, FilterType } from '../types';
-import { TrendingUp, Clock, Bot, Filter, Zap, AlertCircle, Loader2, Sparkles, Users, Code, Target } from 'lucide-react';
+import { Project, SortType, FilterType, FeedType } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { TrendingUp, Clock, Bot, Filter, Zap, AlertCircle, Loader2, Sparkles, Users, Code, Target, Globe, UserCheck } from 'lucide-react';
 
 export const HomePage: React.FC = () => {
+  const { user } = useAuth();
+  const [feed, setFeed] = React.useState<FeedType>('all');
   const [sortBy, setSortBy] = React.useState<SortType>('trending');
   const [filterBy, setFilterBy] = React.useState<FilterType>('all');
   const [projects, setProjects] = React.useState<Project[]>([]);
@@ -27,19 +30,11 @@ export const HomePage: React.FC = () => {
         const data = await projectService.getProjects({
           sortBy,
           filterBy,
+          feed,
           limit: PROJECTS_PER_PAGE,
           offset: 0
         });
         
-        // Apply controversial sorting on client side if needed
-        if (sortBy === 'controversial') {
-          data.sort((a, b) => {
-            const aRatio = a.downvotes / (a.upvotes + a.downvotes || 1);
-            const bRatio = b.downvotes / (b.upvotes + b.downvotes || 1);
-            return bRatio - aRatio;
-          });
-        }
-        
         setProjects(data);
         setHasMore(data.length === PROJECTS_PER_PAGE);
       } catch (err) {
@@ -51,7 +46,12 @@ export const HomePage: React.FC = () => {
     };
 
     fetchProjects();
-  }, [sortBy, filterBy]);
+  }, [sortBy, filterBy, feed]);
+
+  // The following feed needs a signed-in user
+  React.useEffect(() => {
+    if (!user) setFeed('all');
+  }, [user]);
 
   // Load more projects
   const loadMoreProjects = async () => {
@@ -65,19 +65,11 @@ export const HomePage: React.FC = () => {
       const data = await projectService.getProjects({
         sortBy,
         filterBy,
+        feed,
         limit: PROJECTS_PER_PAGE,
         offset: newOffset
       });
       
-      // Apply controversial sorting on client side if needed
-      if (sortBy === 'controversial') {
-        data.sort((a, b) => {
-          const aRatio = a.downvotes / (a.upvotes + a.downvotes || 1);
-          const bRatio = b.downvotes / (b.upvotes + b.downvotes || 1);
-          return bRatio - aRatio;
-        });
-      }
-      
       if (data.length > 0) {
         setProjects(prev => [...prev, ...data]);
         setOffset(newOffset);
@@ -252,6 +244,34 @@ export const HomePage: React.FC = () => {
 
       {/* Enhanced Controls */}
       <div className="glass-effect rounded-xl p-6 border border-white/20">
+        {/* Feed Tabs */}
+        {user && (
+          <div className="flex items-center gap-2 pb-4 mb-4 border-b border-gray-200/60">
+            <button
+              onClick={() => setFeed('all')}
+              className={`flex items-center space-x-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                feed === 'all'
+                  ? 'bg-blue-100 text-blue-900 shadow-md'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-white/60'
+              }`}
+            >
+              <Globe className="h-4 w-4" />
+              <span>Everyone</span>
+            </button>
+            <button
+              onClick={() => setFeed('following')}
+              className={`flex items-center space-x-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                feed === 'following'
+                  ? 'bg-blue-100 text-blue-900 shadow-md'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-white/60'
+              }`}
+            >
+              <UserCheck className="h-4 w-4" />
+              <span>Following</span>
+            </button>
+          </div>
+        )}
+
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
           {/* Sort Controls */}
           <div className="flex items-center space-x-2">
@@ -371,7 +391,9 @@ export const HomePage: React.FC = () => {
               <p className="text-gray-600 mb-6 leading-relaxed">
                 {filterBy !== 'all' || sortBy !== 'trending' 
                   ? 'Try adjusting your filters or sorting options.'
-                  : 'Be the first to submit a project to the community!'
+                  : feed === 'following'
+                    ? 'Projects from people you follow will show up here. Follow creators from their profile pages.'
+                    : 'Be the first to submit a project to the community!'
                 }
               </p>
               {filterBy !== 'all' || sortBy !== 'trending' ? (
@@ -1,8 +1,9 @@
 import React from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { Calendar, Github, Trophy, TrendingUp, Bot, Settings, Edit, Plus } from 'lucide-react';
+import { Calendar, Github, Trophy, TrendingUp, Bot, Settings, Edit, Plus, UserPlus, UserCheck, Flag } from 'lucide-react';
 import { userService } from '../lib/supabase';
 import { ProjectCard } from '../components/ProjectCard';
+import { ReportModal } from '../components/ReportModal';
 import { User, Project } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../context/AuthContext';
@@ -34,6 +35,9 @@ export const ProfilePage: React.FC = () => {
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [isOwnProfile, setIsOwnProfile] = React.useState(false);
+  const [showReportModal, setShowReportModal] = React.useState(false);
+  const [isFollowing, setIsFollowing] = React.useState(false);
+  const [followLoading, setFollowLoading] = React.useState(false);
 
   React.useEffect(() => {
     const fetchUserData = async () => {
@@ -97,6 +101,43 @@ export const ProfilePage: React.FC = () => {
     fetchUserData();
   }, [username, currentUser]);
 
+  // Check whether the current user follows this profile
+  const profileId = user?.id;
+  React.useEffect(() => {
+    if (!currentUser || !profileId || isOwnProfile) {
+      setIsFollowing(false);
+      return;
+    }
+
+    userService.getFollowStatus(profileId).then(setIsFollowing);
+  }, [currentUser, profileId, isOwnProfile]);
+
+  const handleFollow = async () => {
+    if (!user || !currentUser || followLoading) return;
+
+    const follow = !isFollowing;
+    const adjustFollowers = (delta: number) => {
+      setUser(prev => prev ? { ...prev, followerCount: Math.max(0, prev.followerCount + delta) } : prev);
+    };
+
+    try {
+      setFollowLoading(true);
+
+      // Optimistically update the button and follower count
+      setIsFollowing(follow);
+      adjustFollowers(follow ? 1 : -1);
+
+      await userService.toggleFollow(user.id, follow);
+    } catch (err) {
+      console.error('Error updating follow:', err);
+      // Revert optimistic updates on error
+      setIsFollowing(!follow);
+      adjustFollowers(follow ? -1 : 1);
+    } finally {
+      setFollowLoading(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -259,6 +300,14 @@ export const ProfilePage: React.FC = () => {
                 <div className="text-2xl font-bold text-purple-500">{user.karma}</div>
                 <div className="text-sm text-gray-500">Karma</div>
               </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">{user.followerCount}</div>
+                <div className="text-sm text-gray-500">Followers</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">{user.followingCount}</div>
+                <div className="text-sm text-gray-500">Following</div>
+              </div>
             </div>
           </div>
 
@@ -274,12 +323,30 @@ export const ProfilePage: React.FC = () => {
               </Link>
             ) : (
               <>
-                <button className="px-6 py-2 bg-blue-500 hover:bg-blue-600 text-white font-medium rounded-lg transition-colors">
-                  Follow
+                <button
+                  onClick={handleFollow}
+                  disabled={followLoading}
+                  className={`flex items-center justify-center space-x-2 px-6 py-2 font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isFollowing
+                      ? 'border border-gray-300 hover:border-gray-400 text-gray-700'
+                      : 'bg-blue-500 hover:bg-blue-600 text-white'
+                  }`}
+                >
+                  {isFollowing ? <UserCheck className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+                  <span>{isFollowing ? 'Following' : 'Follow'}</span>
                 </button>
                 <button className="px-6 py-2 border border-gray-300 hover:border-gray-400 text-gray-700 font-medium rounded-lg transition-colors">
                   Message
                 </button>
+                {currentUser && (
+                  <button
+                    onClick={() => setShowReportModal(true)}
+                    className="flex items-center justify-center space-x-1 text-sm text-gray-500 hover:text-red-600 transition-colors"
+                  >
+                    <Flag className="h-3.5 w-3.5" />
+                    <span>Report user</span>
+                  </button>
+                )}
               </>
             )}
           </div>
@@ -446,6 +513,14 @@ export const ProfilePage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <ReportModal
+        isOpen={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="user"
+        targetId={user.id}
+        targetLabel={user.username}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -1,14 +1,64 @@
 import React from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { ArrowUp, ArrowDown, MessageCircle, ExternalLink, Github, Calendar, User, Tag, AlertCircle, Bot, CheckCircle, Trash2 } from 'lucide-react';
+import { ArrowUp, ArrowDown, MessageCircle, ExternalLink, Github, Calendar, User, Tag, AlertCircle, Bot, CheckCircle, Trash2, Pencil } from 'lucide-react';
 import { projectService, commentService, votingService } from '../lib/supabase';
+import { FORGE_LABELS } from '../lib/repository';
 import { Project, Comment } from '../types';
 import { ScoreBadge } from '../components/ScoreBadge';
 import { CommentBox } from '../components/CommentBox';
 import { ConfirmationModal } from '../components/ConfirmationModal';
+import { CommunityVciPanel } from '../components/CommunityVciPanel';
+import { AnalysisHistoryPanel } from '../components/AnalysisHistoryPanel';
+import { DevelopmentTimeline } from '../components/DevelopmentTimeline';
+import { ForgeIcon } from '../components/ForgeIcon';
+import { ProjectRevisionsModal } from '../components/ProjectRevisionsModal';
+import { ProjectVerificationPanel } from '../components/ProjectVerificationPanel';
+import { MarkdownContent } from '../components/MarkdownContent';
+import { MarkdownEditor } from '../components/MarkdownEditor';
 import { useAuth } from '../context/AuthContext';
 import { NotificationContext } from '../App';
 
+const containsComment = (comments: Comment[], commentId: string): boolean =>
+  comments.some(comment => comment.id === commentId || containsComment(comment.replies || [], commentId));
+
+// Add a comment under its parent, or at the root. The author's own request and the Realtime
+// event both deliver new comments, in either order, so comments already in the tree are skipped.
+function insertComment(comments: Comment[], newComment: Comment): Comment[] {
+  if (containsComment(comments, newComment.id)) return comments;
+
+  if (!newComment.parentId) {
+    return [...comments, { ...newComment, depth: 0 }];
+  }
+
+  const addReply = (comments: Comment[]): Comment[] => {
+    return comments.map(comment => {
+      if (comment.id === newComment.parentId) {
+        return {
+          ...comment,
+          replies: [...(comment.replies || []), { ...newComment, depth: (comment.depth || 0) + 1 }]
+        };
+      } else if (comment.replies && comment.replies.length > 0) {
+        return { ...comment, replies: addReply(comment.replies) };
+      }
+      return comment;
+    });
+  };
+
+  return addReply(comments);
+}
+
+// Apply a change to one comment wherever it sits in the tree
+function updateCommentInTree(comments: Comment[], commentId: string, update: (comment: Comment) => Comment): Comment[] {
+  return comments.map(comment => {
+    if (comment.id === commentId) {
+      return update(comment);
+    } else if (comment.replies && comment.replies.length > 0) {
+      return { ...comment, replies: updateCommentInTree(comment.replies, commentId, update) };
+    }
+    return comment;
+  });
+}
+
 export const ProjectDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
@@ -22,6 +72,7 @@ export const ProjectDetailPage: React.FC = () => {
   const [localUpvotes, setLocalUpvotes] = React.useState(0);
   const [localDownvotes, setLocalDownvotes] = React.useState(0);
   const [isVoting, setIsVoting] = React.useState(false);
+  const votePendingRef = React.useRef(false);
   const [showCommentForm, setShowCommentForm] = React.useState(false);
   const [commentText, setCommentText] = React.useState('');
   const [submittingComment, setSubmittingComment] = React.useState(false);
@@ -29,6 +80,7 @@ export const ProjectDetailPage: React.FC = () => {
   // Project deletion states
   const [showDeleteModal, setShowDeleteModal] = React.useState(false);
   const [deletingProject, setDeletingProject] = React.useState(false);
+  const [showRevisionsModal, setShowRevisionsModal] = React.useState(false);
 
   // Check if current user owns this project
   const isProjectOwner = user && project && user.email?.split('@')[0] === project.submittedBy;
@@ -78,11 +130,46 @@ export const ProjectDetailPage: React.FC = () => {
     fetchData();
   }, [id, user]);
 
+  // Keep comments and vote counts live while the page is open
+  React.useEffect(() => {
+    if (!id) return;
+
+    const unsubscribeComments = commentService.subscribeToProjectComments(id, {
+      onInsert: (newComment) => setComments(prev => insertComment(prev, newComment)),
+      // Realtime rows carry no author profile, so keep the one already shown
+      onUpdate: (updated) => setComments(prev => updateCommentInTree(prev, updated.id, existing => ({
+        ...updated,
+        author: updated.isDeleted ? updated.author : existing.author,
+        replies: existing.replies,
+        depth: existing.depth
+      }))),
+      onReconnect: async () => {
+        try {
+          setComments(await commentService.getProjectComments(id));
+        } catch (err) {
+          console.error('Error reloading comments:', err);
+        }
+      }
+    });
+
+    const unsubscribeStats = projectService.subscribeToProjectStats(id, (stats) => {
+      if (votePendingRef.current) return;
+      setLocalUpvotes(stats.upvotes);
+      setLocalDownvotes(stats.downvotes);
+    });
+
+    return () => {
+      unsubscribeComments();
+      unsubscribeStats();
+    };
+  }, [id]);
+
   const handleVote = async (type: 'up' | 'down') => {
     if (!project || !user || isVoting) return;
 
     try {
       setIsVoting(true);
+      votePendingRef.current = true;
       
       const newVote = userVote === type ? null : type;
       
@@ -130,6 +217,7 @@ export const ProjectDetailPage: React.FC = () => {
         );
       }
     } finally {
+      votePendingRef.current = false;
       setIsVoting(false);
     }
   };
@@ -146,7 +234,7 @@ export const ProjectDetailPage: React.FC = () => {
       });
 
       // Add the new comment to the list (it will be a root comment)
-      setComments(prev => [...prev, newComment]);
+      setComments(prev => insertComment(prev, newComment));
       setCommentText('');
       setShowCommentForm(false);
       
@@ -174,26 +262,8 @@ export const ProjectDetailPage: React.FC = () => {
 
   // Handle new replies from nested comments
   const handleNewReply = (newReply: Comment) => {
-    // Find the parent comment and add the reply
-    const addReplyToComment = (comments: Comment[], parentId: string, reply: Comment): Comment[] => {
-      return comments.map(comment => {
-        if (comment.id === parentId) {
-          return {
-            ...comment,
-            replies: [...(comment.replies || []), reply]
-          };
-        } else if (comment.replies && comment.replies.length > 0) {
-          return {
-            ...comment,
-            replies: addReplyToComment(comment.replies, parentId, reply)
-          };
-        }
-        return comment;
-      });
-    };
-
     if (newReply.parentId) {
-      setComments(prev => addReplyToComment(prev, newReply.parentId!, newReply));
+      setComments(prev => insertComment(prev, newReply));
       
       // Refresh notification count when a reply is posted
       if (notifications) {
@@ -202,6 +272,15 @@ export const ProjectDetailPage: React.FC = () => {
     }
   };
 
+  const handleCommentUpdated = (updated: Comment) => {
+    // Replace the comment in place, keeping its position and replies in the tree
+    setComments(prev => updateCommentInTree(prev, updated.id, existing => ({
+      ...updated,
+      replies: existing.replies,
+      depth: existing.depth
+    })));
+  };
+
   const handleDeleteProject = async () => {
     if (!project || !user || !isProjectOwner) return;
 
@@ -233,6 +312,20 @@ export const ProjectDetailPage: React.FC = () => {
     }
   };
 
+  // Reload the project so the scores and analysis reflect the new snapshot
+  const reloadProject = async () => {
+    if (!project) return;
+
+    try {
+      const updatedProject = await projectService.getProject(project.id);
+      if (updatedProject) {
+        setProject(updatedProject);
+      }
+    } catch (error) {
+      console.error('Error reloading project:', error);
+    }
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', { 
       year: 'numeric', 
@@ -339,20 +432,38 @@ export const ProjectDetailPage: React.FC = () => {
           <div className="flex-1">
             <div className="flex items-center space-x-3 mb-4">
               <h1 className="text-3xl font-bold text-white">{project.title}</h1>
-              {project.githubUrl && (
+              {project.isVerified && (
+                <span
+                  className="inline-flex items-center px-2 py-1 bg-blue-500/20 text-blue-300 text-xs font-medium rounded-full"
+                  title={project.verifiedAt ? `Ownership verified ${project.verifiedAt.toLocaleDateString()}` : 'Ownership verified'}
+                >
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Verified
+                </span>
+              )}
+              {project.repository && (
                 <a
-                  href={project.githubUrl}
+                  href={project.repository.url}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
                 >
-                  <Github className="h-4 w-4 mr-1" />
-                  View on GitHub
+                  <ForgeIcon forge={project.repository.forge} className="h-4 w-4 mr-1" />
+                  View on {FORGE_LABELS[project.repository.forge]}
                   <ExternalLink className="h-3 w-3 ml-1" />
                 </a>
               )}
               
-              {/* Delete Button for Project Owner */}
+              {/* Edit and Delete Buttons for Project Owner */}
+              {isProjectOwner && (
+                <Link
+                  to={`/project/${project.id}/edit`}
+                  className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors"
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit Project
+                </Link>
+              )}
               {isProjectOwner && (
                 <button
                   onClick={() => setShowDeleteModal(true)}
@@ -364,9 +475,11 @@ export const ProjectDetailPage: React.FC = () => {
               )}
             </div>
             
-            <p className="text-lg text-slate-300 mb-6 leading-relaxed">
-              {project.description}
-            </p>
+            <MarkdownContent
+              content={project.description}
+              theme="dark"
+              className="text-lg mb-6 leading-relaxed"
+            />
             
             {project.tags && project.tags.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-6">
@@ -391,6 +504,16 @@ export const ProjectDetailPage: React.FC = () => {
                 <Calendar className="h-4 w-4" />
                 <span>{formatDate(project.submittedAt)}</span>
               </div>
+              {project.editedAt && (
+                <button
+                  onClick={() => setShowRevisionsModal(true)}
+                  className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                  title={`Last edited ${project.editedAt.toLocaleString()}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                  <span>edited {formatDate(project.editedAt)}</span>
+                </button>
+              )}
             </div>
           </div>
           
@@ -431,6 +554,25 @@ export const ProjectDetailPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Ownership Verification */}
+      {isProjectOwner && !project.isVerified && project.repository && (
+        <ProjectVerificationPanel
+          projectId={project.id}
+          isGitHubRepository={project.repository.host === 'github.com'}
+          onVerified={reloadProject}
+        />
+      )}
+
+      {/* Community VCI */}
+      <CommunityVciPanel projectId={project.id} aiScore={project.vciScore} />
+
+      {/* Analysis History */}
+      <AnalysisHistoryPanel
+        projectId={project.id}
+        canReanalyze={!!isProjectOwner}
+        onReanalyzed={reloadProject}
+      />
+
       {/* AI Analysis Section */}
       {project.analysis && (
         <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 mb-8">
@@ -505,6 +647,12 @@ export const ProjectDetailPage: React.FC = () => {
         </div>
       )}
 
+      {/* Development Process */}
+      <DevelopmentTimeline
+        developmentProcess={project.developmentProcess}
+        prompts={project.prompts || []}
+      />
+
       {/* Comments Section */}
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -525,12 +673,11 @@ export const ProjectDetailPage: React.FC = () => {
         {/* Comment Form */}
         {showCommentForm && user && (
           <div className="bg-slate-800/30 border border-slate-700 rounded-lg p-4">
-            <textarea
+            <MarkdownEditor
               value={commentText}
-              onChange={(e) => setCommentText(e.target.value)}
+              onChange={setCommentText}
               placeholder="Share your thoughts about this project's AI vs human patterns..."
-              className="w-full px-4 py-3 bg-slate-800 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-              rows={3}
+              theme="dark"
             />
             <div className="flex justify-end space-x-3 mt-3">
               <button
@@ -573,6 +720,7 @@ export const ProjectDetailPage: React.FC = () => {
                 key={comment.id} 
                 comment={comment} 
                 onNewReply={handleNewReply}
+                onCommentUpdated={handleCommentUpdated}
                 projectAuthor={project.submittedBy}
                 maxDepth={5}
               />
@@ -598,6 +746,13 @@ export const ProjectDetailPage: React.FC = () => {
         type="danger"
         loading={deletingProject}
       />
+
+      {/* Edit History Modal */}
+      <ProjectRevisionsModal
+        isOpen={showRevisionsModal}
+        onClose={() => setShowRevisionsModal(false)}
+        projectId={project.id}
+      />
     </div>
   );
 };
\ No newline at end of file
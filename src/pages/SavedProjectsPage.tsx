@@ -0,0 +1,368 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Bookmark, Folder, FolderOpen, FolderPlus, Inbox, Trash2, ChevronLeft, ChevronRight, AlertCircle, Loader2 } from 'lucide-react';
+import { ProjectCard } from '../components/ProjectCard';
+import { ConfirmationModal } from '../components/ConfirmationModal';
+import { savedProjectService } from '../lib/supabase';
+import { SavedFolder, SavedProject } from '../types';
+import { NotificationContext } from '../App';
+
+// 'all' shows every bookmark, 'unsorted' shows bookmarks outside any folder
+type FolderSelection = 'all' | 'unsorted' | string;
+
+const SAVED_PER_PAGE = 10;
+
+export const SavedProjectsPage: React.FC = () => {
+  const notifications = React.useContext(NotificationContext);
+  const [folders, setFolders] = React.useState<SavedFolder[]>([]);
+  const [selectedFolder, setSelectedFolder] = React.useState<FolderSelection>('all');
+  const [items, setItems] = React.useState<SavedProject[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [page, setPage] = React.useState(0);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = React.useState('');
+  const [creatingFolder, setCreatingFolder] = React.useState(false);
+  const [folderToDelete, setFolderToDelete] = React.useState<SavedFolder | null>(null);
+  const [deletingFolder, setDeletingFolder] = React.useState(false);
+
+  const totalPages = Math.max(1, Math.ceil(total / SAVED_PER_PAGE));
+
+  const fetchFolders = React.useCallback(async () => {
+    try {
+      const data = await savedProjectService.getFolders();
+      setFolders(data);
+    } catch (err) {
+      console.error('Error fetching saved folders:', err);
+    }
+  }, []);
+
+  const fetchSavedProjects = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { items: data, total: count } = await savedProjectService.getSavedProjects({
+        folderId: selectedFolder === 'all' ? undefined : selectedFolder === 'unsorted' ? null : selectedFolder,
+        limit: SAVED_PER_PAGE,
+        offset: page * SAVED_PER_PAGE
+      });
+
+      setItems(data);
+      setTotal(count);
+    } catch (err) {
+      console.error('Error fetching saved projects:', err);
+      setError('Failed to load your saved projects. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFolder, page]);
+
+  React.useEffect(() => {
+    fetchFolders();
+  }, [fetchFolders]);
+
+  React.useEffect(() => {
+    fetchSavedProjects();
+  }, [fetchSavedProjects]);
+
+  const selectFolder = (folder: FolderSelection) => {
+    setSelectedFolder(folder);
+    setPage(0);
+  };
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFolderName.trim() || creatingFolder) return;
+
+    try {
+      setCreatingFolder(true);
+      const folder = await savedProjectService.createFolder(newFolderName);
+      setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewFolderName('');
+    } catch (err) {
+      console.error('Error creating folder:', err);
+      notifications?.showError(
+        'Folder Not Created',
+        err instanceof Error ? err.message : 'Failed to create folder. Please try again.'
+      );
+    } finally {
+      setCreatingFolder(false);
+    }
+  };
+
+  const handleDeleteFolder = async () => {
+    if (!folderToDelete) return;
+
+    try {
+      setDeletingFolder(true);
+      await savedProjectService.deleteFolder(folderToDelete.id);
+      setFolders(prev => prev.filter(f => f.id !== folderToDelete.id));
+
+      if (selectedFolder === folderToDelete.id) {
+        selectFolder('all');
+      } else {
+        fetchSavedProjects();
+      }
+
+      notifications?.showSuccess(
+        'Folder Deleted',
+        `"${folderToDelete.name}" was removed. Its projects are now unsorted.`
+      );
+    } catch (err) {
+      console.error('Error deleting folder:', err);
+      notifications?.showError('Delete Failed', 'Failed to delete the folder. Please try again.');
+    } finally {
+      setDeletingFolder(false);
+      setFolderToDelete(null);
+    }
+  };
+
+  const handleMove = async (item: SavedProject, folderId: string | null) => {
+    try {
+      await savedProjectService.moveToFolder(item.project.id, folderId);
+
+      // Drop the card if it no longer belongs to the folder being viewed
+      if (selectedFolder !== 'all') {
+        setItems(prev => prev.filter(i => i.id !== item.id));
+        setTotal(prev => Math.max(0, prev - 1));
+      } else {
+        setItems(prev => prev.map(i => i.id === item.id ? { ...i, folderId: folderId || undefined } : i));
+      }
+
+      fetchFolders();
+    } catch (err) {
+      console.error('Error moving saved project:', err);
+      notifications?.showError('Move Failed', 'Failed to move the project. Please try again.');
+    }
+  };
+
+  const handleSaveChange = (projectId: string, saved: boolean) => {
+    if (saved) return;
+
+    setItems(prev => prev.filter(i => i.project.id !== projectId));
+    setTotal(prev => Math.max(0, prev - 1));
+    fetchFolders();
+  };
+
+  const getSelectionLabel = () => {
+    if (selectedFolder === 'all') return 'All Saved';
+    if (selectedFolder === 'unsorted') return 'Unsorted';
+    return folders.find(f => f.id === selectedFolder)?.name || 'Folder';
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-4">
+          <Bookmark className="h-8 w-8 text-blue-500" />
+          <h1 className="text-3xl font-bold text-gray-900">Saved Projects</h1>
+        </div>
+        <p className="text-gray-600">
+          Your bookmarked projects. Organize them into folders to build reading lists.
+        </p>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Folder Sidebar */}
+        <div className="lg:w-64 flex-shrink-0">
+          <div className="bg-white border border-gray-300 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Collections</h3>
+            <div className="space-y-1">
+              <button
+                onClick={() => selectFolder('all')}
+                className={`flex items-center w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  selectedFolder === 'all'
+                    ? 'bg-blue-100 text-blue-900'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                <Bookmark className="h-4 w-4 mr-2" />
+                <span>All Saved</span>
+              </button>
+              <button
+                onClick={() => selectFolder('unsorted')}
+                className={`flex items-center w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  selectedFolder === 'unsorted'
+                    ? 'bg-blue-100 text-blue-900'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                <Inbox className="h-4 w-4 mr-2" />
+                <span>Unsorted</span>
+              </button>
+              {folders.map((folder) => (
+                <div key={folder.id} className="group flex items-center">
+                  <button
+                    onClick={() => selectFolder(folder.id)}
+                    className={`flex items-center flex-1 min-w-0 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      selectedFolder === folder.id
+                        ? 'bg-blue-100 text-blue-900'
+                        : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`}
+                  >
+                    {selectedFolder === folder.id ? (
+                      <FolderOpen className="h-4 w-4 mr-2 flex-shrink-0" />
+                    ) : (
+                      <Folder className="h-4 w-4 mr-2 flex-shrink-0" />
+                    )}
+                    <span className="truncate">{folder.name}</span>
+                    <span className="ml-auto pl-2 text-xs text-gray-400">{folder.projectCount}</span>
+                  </button>
+                  <button
+                    onClick={() => setFolderToDelete(folder)}
+                    className="p-1.5 ml-1 text-gray-300 hover:text-red-500 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                    title="Delete folder"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* New Folder */}
+            <form onSubmit={handleCreateFolder} className="mt-4 pt-4 border-t border-gray-200">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newFolderName}
+                  onChange={(e) => setNewFolderName(e.target.value)}
+                  placeholder="New folder"
+                  maxLength={50}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!newFolderName.trim() || creatingFolder}
+                  className="px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors"
+                  title="Create folder"
+                >
+                  {creatingFolder ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderPlus className="h-4 w-4" />}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        {/* Saved List */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">{getSelectionLabel()}</h2>
+            <span className="text-sm text-gray-500">
+              {total} project{total !== 1 ? 's' : ''}
+            </span>
+          </div>
+
+          {loading ? (
+            <div className="space-y-6">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="bg-gray-100 rounded-lg p-6 animate-pulse">
+                  <div className="h-6 bg-gray-200 rounded w-3/4 mb-4"></div>
+                  <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+                  <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+              <div className="flex items-center space-x-3">
+                <AlertCircle className="h-6 w-6 text-red-500" />
+                <div>
+                  <p className="text-red-700">{error}</p>
+                  <button
+                    onClick={fetchSavedProjects}
+                    className="mt-3 px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm rounded-lg transition-colors"
+                  >
+                    Try Again
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : items.length > 0 ? (
+            <>
+              <div className="space-y-6">
+                {items.map((item) => (
+                  <div key={item.id}>
+                    <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                      <span>Saved {item.savedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}</span>
+                      <label className="flex items-center space-x-2">
+                        <Folder className="h-3.5 w-3.5" />
+                        <select
+                          value={item.folderId || ''}
+                          onChange={(e) => handleMove(item, e.target.value || null)}
+                          className="px-2 py-1 border border-gray-300 rounded-md bg-white text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Unsorted</option>
+                          {folders.map((folder) => (
+                            <option key={folder.id} value={folder.id}>{folder.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    <ProjectCard project={item.project} onSaveChange={handleSaveChange} />
+                  </div>
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-center space-x-4 py-8">
+                  <button
+                    onClick={() => setPage(p => Math.max(0, p - 1))}
+                    disabled={page === 0}
+                    className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </button>
+                  <span className="text-sm text-gray-600">
+                    Page {page + 1} of {totalPages}
+                  </span>
+                  <button
+                    onClick={() => setPage(p => Math.min(totalPages - 1, p + 1))}
+                    disabled={page >= totalPages - 1}
+                    className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12 bg-white border border-gray-300 rounded-lg">
+              <Bookmark className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500 mb-4">
+                {selectedFolder === 'all'
+                  ? "You haven't saved any projects yet."
+                  : 'No saved projects in this collection.'}
+              </p>
+              {selectedFolder === 'all' && (
+                <Link
+                  to="/"
+                  className="inline-flex items-center px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-colors"
+                >
+                  Browse Projects
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Delete Folder Modal */}
+      <ConfirmationModal
+        isOpen={folderToDelete !== null}
+        onClose={() => setFolderToDelete(null)}
+        onConfirm={handleDeleteFolder}
+        title="Delete Folder"
+        message={`Delete the folder "${folderToDelete?.name}"? The projects inside stay saved and move to Unsorted.`}
+        confirmText="Delete Folder"
+        cancelText="Cancel"
+        type="warning"
+        loading={deletingFolder}
+      />
+    </div>
+  );
+};
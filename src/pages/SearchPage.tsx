@@ -2,42 +2,67 @@
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import {
-  Search, Filter, Loader2, X, ChevronDown
+  Search, Filter, Loader2, X, ChevronDown, BellPlus
 } from 'lucide-react';
 import { ProjectCard } from '../components/ProjectCard';
-import { searchService } from '../lib/supabase';
-import { Project, SortType } from '../types';
+import { searchService, savedSearchService } from '../lib/supabase';
+import { SAVED_SEARCH_ALERT_LABELS, SEARCH_OPERATORS, buildSearchQuery, getSearchUrl, parseSearchQuery } from '../lib/searchQuery';
+import { Project, SavedSearchAlertFrequency, SearchFacet, SearchFacets, SearchFilters, SearchSortType } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { NotificationContext } from '../App';
+
+const SEARCH_SORTS: SearchSortType[] = ['relevance', 'recent', 'trending', 'vci-high', 'vci-low'];
+
+const VCI_BAND_LABELS: Record<string, string> = {
+  high: 'High (80–100%)',
+  medium: 'Medium (40–79%)',
+  low: 'Low (0–39%)',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 export const SearchPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const notifications = React.useContext(NotificationContext);
 
   const [projects, setProjects] = React.useState<Project[]>([]);
   const [loading, setLoading] = React.useState(false);
   const [loadingMore, setLoadingMore] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
-  const [sortBy, setSortBy] = React.useState<SortType>('relevance');
   const [showFilters, setShowFilters] = React.useState(false);
   const [suggestions, setSuggestions] = React.useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = React.useState(true);
   const [offset, setOffset] = React.useState(0);
   const [hasMore, setHasMore] = React.useState(true);
-  const [filters, setFilters] = React.useState({
-    vciRange: 'all' as 'all' | 'low' | 'medium' | 'high',
-    verified: 'all' as 'all' | 'verified' | 'unverified',
-    hasAiTools: 'all' as 'all' | 'yes' | 'no',
-  });
+  const [totalCount, setTotalCount] = React.useState(0);
+  const [facets, setFacets] = React.useState<SearchFacets | null>(null);
+  const [showSaveForm, setShowSaveForm] = React.useState(false);
+  const [saveName, setSaveName] = React.useState('');
+  const [saveFrequency, setSaveFrequency] = React.useState<SavedSearchAlertFrequency>('instant');
+  const [savingSearch, setSavingSearch] = React.useState(false);
 
   const PROJECTS_PER_PAGE = 20;
 
+  // The query, including any filter operators, and the sort order live in the URL so
+  // searches can be shared
   const searchParams = new URLSearchParams(location.search);
   const query = searchParams.get('q') || '';
+  const sortParam = searchParams.get('sort') as SearchSortType | null;
+  const sortBy: SearchSortType = sortParam && SEARCH_SORTS.includes(sortParam) ? sortParam : 'relevance';
+  const parsedQuery = React.useMemo(() => parseSearchQuery(query), [query]);
+  const { text: searchText, filters } = parsedQuery;
 
   // Fetch projects
   React.useEffect(() => {
+    let cancelled = false;
+
     const fetchProjects = async () => {
       if (!query.trim()) {
         setProjects([]);
+        setTotalCount(0);
+        setFacets(null);
         return;
       }
 
@@ -46,30 +71,38 @@ export const SearchPage: React.FC = () => {
         setOffset(0);
         setError(null);
 
-        const searchParams = {
-          query: query.trim(),
+        const results = await searchService.searchProjects({
+          query: searchText,
           sortBy,
           filters,
           limit: PROJECTS_PER_PAGE,
           offset: 0,
-        };
-
-        const results = await searchService.searchProjects(searchParams);
-        const safeResults = Array.isArray(results) ? results : [];
-        
-        setProjects(safeResults);
-        setHasMore(safeResults.length === PROJECTS_PER_PAGE);
+          includeFacets: true,
+        });
+        if (cancelled) return;
+
+        setProjects(results.projects);
+        setTotalCount(results.totalCount);
+        setFacets(results.facets || null);
+        setHasMore(results.projects.length < results.totalCount);
       } catch (err) {
+        if (cancelled) return;
         console.error('Search error:', err);
         setError(`Failed to search projects: ${err instanceof Error ? err.message : 'Unknown error'}`);
         setProjects([]);
+        setTotalCount(0);
+        setFacets(null);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchProjects();
-  }, [query, sortBy, filters]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, searchText, sortBy, filters]);
 
   // Load more projects
   const loadMore = async () => {
@@ -80,17 +113,17 @@ export const SearchPage: React.FC = () => {
       const newOffset = offset + PROJECTS_PER_PAGE;
 
       const results = await searchService.searchProjects({
-        query: query.trim(),
+        query: searchText,
         sortBy,
         filters,
         limit: PROJECTS_PER_PAGE,
         offset: newOffset,
       });
 
-      const safeResults = Array.isArray(results) ? results : [];
-      setProjects(prev => [...prev, ...safeResults]);
+      setProjects(prev => [...prev, ...results.projects]);
+      setTotalCount(results.totalCount);
       setOffset(newOffset);
-      setHasMore(safeResults.length === PROJECTS_PER_PAGE);
+      setHasMore(newOffset + results.projects.length < results.totalCount);
     } catch (err) {
       console.error('Load more error:', err);
       setError('Failed to load more results.');
@@ -101,41 +134,139 @@ export const SearchPage: React.FC = () => {
 
   // Fetch search suggestions
   React.useEffect(() => {
-    if (!query.trim() || query.length < 2) return;
+    if (searchText.length < 2) {
+      setSuggestions([]);
+      return;
+    }
 
     const timeout = setTimeout(async () => {
       try {
-        const results = await searchService.getSearchSuggestions(query, 5);
+        const results = await searchService.getSearchSuggestions(searchText, 5);
         setSuggestions(Array.isArray(results) ? results : []);
-      } catch (err) {
+      } catch {
         setSuggestions([]);
       }
     }, 300);
 
     return () => clearTimeout(timeout);
-  }, [query]);
+  }, [searchText]);
+
+  const updateSearch = (nextText: string, nextFilters: SearchFilters, nextSort: SearchSortType) => {
+    navigate(getSearchUrl(buildSearchQuery(nextText, nextFilters), nextSort));
+  };
 
   const handleSuggestionClick = (term: string) => {
-    navigate(`/search?q=${encodeURIComponent(term)}`);
+    updateSearch(term, filters, sortBy);
     setShowSuggestions(false);
   };
 
-  const updateFilter = (key: keyof typeof filters, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const setSortBy = (value: SearchSortType) => {
+    updateSearch(searchText, filters, value);
+  };
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    updateSearch(searchText, { ...filters, [key]: value }, sortBy);
+  };
+
+  // Clicking the selected facet value clears it
+  const toggleFacet = (key: 'technology' | 'aiTool' | 'vciRange', value: string) => {
+    if ((filters[key] || '').toLowerCase() === value.toLowerCase()) {
+      updateFilter(key, undefined);
+    } else if (key === 'vciRange') {
+      updateSearch(searchText, { ...filters, vciRange: value as SearchFilters['vciRange'], vciMin: undefined, vciMax: undefined }, sortBy);
+    } else {
+      updateFilter(key, value);
+    }
+  };
+
+  const openSaveForm = () => {
+    setSaveName(query.trim().slice(0, 80));
+    setShowSaveForm(true);
   };
 
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveName.trim() || savingSearch) return;
+
+    try {
+      setSavingSearch(true);
+      await savedSearchService.createSavedSearch({
+        name: saveName,
+        query,
+        sortBy,
+        alertFrequency: saveFrequency,
+      });
+      setShowSaveForm(false);
+      notifications?.showSuccess(
+        'Search Saved',
+        saveFrequency === 'off'
+          ? `"${saveName.trim()}" was saved. Manage it in Settings.`
+          : `You'll be notified when new projects match "${saveName.trim()}".`
+      );
+    } catch (err) {
+      console.error('Error saving search:', err);
+      notifications?.showError(
+        'Search Not Saved',
+        err instanceof Error ? err.message : 'Failed to save the search. Please try again.'
+      );
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const clearFilters = () => {
+    updateSearch(searchText, {}, 'relevance');
+  };
+
+  // Highlight each search word; excluded words and quotes are skipped
   const highlightText = (text: string, term: string) => {
-    if (!text || !term) return text;
-    const regex = new RegExp(`(${term})`, 'gi');
-    return text.split(regex).map((part, i) =>
-      regex.test(part) ? (
+    const words = term.replace(/"/g, ' ').split(/\s+/).filter(word => word && !word.startsWith('-'));
+    if (!text || words.length === 0) return text;
+    const pattern = words.map(escapeRegExp).join('|');
+    const isMatch = new RegExp(`^(?:${pattern})$`, 'i');
+    return text.split(new RegExp(`(${pattern})`, 'gi')).map((part, i) =>
+      isMatch.test(part) ? (
         <mark key={i} className="bg-yellow-200 text-yellow-900 px-1 rounded">{part}</mark>
       ) : part
     );
   };
 
-  const hasActiveFilters = Object.values(filters).some(f => f !== 'all') || sortBy !== 'relevance';
-  const activeFilterCount = Object.values(filters).filter(f => f !== 'all').length + (sortBy !== 'relevance' ? 1 : 0);
+  const activeFilters = Object.values(filters).filter(f => f !== undefined && f !== '' && f !== 'all');
+  const hasActiveFilters = activeFilters.length > 0 || sortBy !== 'relevance';
+  const activeFilterCount = activeFilters.length + (sortBy !== 'relevance' ? 1 : 0);
+
+  const renderFacet = (
+    title: string,
+    key: 'technology' | 'aiTool' | 'vciRange',
+    values: SearchFacet[],
+    formatLabel: (value: string) => string = value => value
+  ) => {
+    if (values.length === 0) return null;
+
+    return (
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+        <ul className="space-y-1">
+          {values.map(facet => {
+            const selected = (filters[key] || '').toLowerCase() === facet.value.toLowerCase();
+            return (
+              <li key={facet.value}>
+                <button
+                  onClick={() => toggleFacet(key, facet.value)}
+                  className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-sm text-left transition-colors ${
+                    selected ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="truncate">{formatLabel(facet.value)}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">{facet.count}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
 
   // Close filters when clicking outside (mobile)
   React.useEffect(() => {
@@ -168,6 +299,22 @@ export const SearchPage: React.FC = () => {
               </button>
             ))}
           </div>
+          <div className="mt-8 max-w-md mx-auto text-left">
+            <p className="text-xs font-medium text-gray-500 mb-2">Narrow results with operators:</p>
+            <ul className="space-y-1">
+              {SEARCH_OPERATORS.map(operator => (
+                <li key={operator.name} className="flex items-center justify-between gap-4 text-xs sm:text-sm">
+                  <button
+                    onClick={() => navigate(`/search?q=${encodeURIComponent(operator.example)}`)}
+                    className="font-mono text-blue-700 hover:text-blue-900"
+                  >
+                    {operator.example}
+                  </button>
+                  <span className="text-gray-500 text-right">{operator.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
         </div>
       </div>
     );
@@ -185,32 +332,88 @@ export const SearchPage: React.FC = () => {
               </h1>
               {!loading && (
                 <p className="text-xs sm:text-sm text-black-600 mt-1">
-                  {projects.length} project{projects.length !== 1 ? 's' : ''} found
+                  {totalCount} project{totalCount !== 1 ? 's' : ''} found
                 </p>
               )}
             </div>
             
-            {/* Filters Toggle Button */}
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className={`filters-toggle inline-flex items-center justify-center gap-2 px-3 py-2 sm:px-4 text-sm font-medium border rounded-lg transition-all ${
-                hasActiveFilters 
-                  ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100' 
-                  : 'bg-black border-gray-300 text-black-700 hover:bg-gray-50'
-              } ${showFilters ? 'ring-2 ring-blue-500 ring-opacity-20' : ''}`}
-            >
-              <Filter className="w-4 h-4" />
-              <span className="hidden sm:inline">Filters</span>
-              {hasActiveFilters && (
-                <span className="inline-flex items-center justify-center w-5 h-5 text-xs font-medium text-black bg-blue-600 rounded-full">
-                  {activeFilterCount}
-                </span>
+            <div className="flex items-center gap-2">
+              {/* Save Search Button */}
+              {user && (
+                <button
+                  onClick={() => (showSaveForm ? setShowSaveForm(false) : openSaveForm())}
+                  className="inline-flex items-center justify-center gap-2 px-3 py-2 sm:px-4 text-sm font-medium border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-all"
+                >
+                  <BellPlus className="w-4 h-4" />
+                  <span className="hidden sm:inline">Save search</span>
+                </button>
               )}
-              <ChevronDown className={`w-4 h-4 transition-transform ${showFilters ? 'rotate-180' : ''}`} />
-            </button>
+
+              {/* Filters Toggle Button */}
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`filters-toggle inline-flex items-center justify-center gap-2 px-3 py-2 sm:px-4 text-sm font-medium border rounded-lg transition-all ${
+                  hasActiveFilters 
+                    ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100' 
+                    : 'bg-black border-gray-300 text-black-700 hover:bg-gray-50'
+                } ${showFilters ? 'ring-2 ring-blue-500 ring-opacity-20' : ''}`}
+              >
+                <Filter className="w-4 h-4" />
+                <span className="hidden sm:inline">Filters</span>
+                {hasActiveFilters && (
+                  <span className="inline-flex items-center justify-center w-5 h-5 text-xs font-medium text-black bg-blue-600 rounded-full">
+                    {activeFilterCount}
+                  </span>
+                )}
+                <ChevronDown className={`w-4 h-4 transition-transform ${showFilters ? 'rotate-180' : ''}`} />
+              </button>
+            </div>
           </div>
+
+          {/* Save Search Form */}
+          {showSaveForm && (
+            <form onSubmit={handleSaveSearch} className="mt-4 pt-4 border-t border-gray-200 flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder="Name this search"
+                maxLength={80}
+                autoFocus
+                className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={saveFrequency}
+                onChange={(e) => setSaveFrequency(e.target.value as SavedSearchAlertFrequency)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              >
+                {(Object.keys(SAVED_SEARCH_ALERT_LABELS) as SavedSearchAlertFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>{SAVED_SEARCH_ALERT_LABELS[frequency]}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!saveName.trim() || savingSearch}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {savingSearch && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save
+              </button>
+            </form>
+          )}
         </div>
 
+        {/* Query Syntax Errors */}
+        {parsedQuery.errors.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 p-3 sm:p-4 rounded-lg">
+            <ul className="text-sm text-yellow-800 space-y-1">
+              {parsedQuery.errors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Search Suggestions */}
         {suggestions.length > 0 && showSuggestions && (
           <div className="bg-blue-50 border border-blue-200 p-3 sm:p-4 rounded-lg relative">
@@ -254,7 +457,7 @@ export const SearchPage: React.FC = () => {
                 <label className="block mb-2 text-sm font-medium text-gray-700">Sort By</label>
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as SortType)}
+                  onChange={(e) => setSortBy(e.target.value as SearchSortType)}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-black"
                 >
                   <option value="relevance">Relevance</option>
@@ -269,8 +472,8 @@ export const SearchPage: React.FC = () => {
               <div>
                 <label className="block mb-2 text-sm font-medium text-gray-700">VCI Range</label>
                 <select
-                  value={filters.vciRange}
-                  onChange={(e) => updateFilter('vciRange', e.target.value)}
+                  value={filters.vciRange || 'all'}
+                  onChange={(e) => updateFilter('vciRange', e.target.value as SearchFilters['vciRange'])}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
                 >
                   <option value="all">All</option>
@@ -284,8 +487,8 @@ export const SearchPage: React.FC = () => {
               <div>
                 <label className="block mb-2 text-sm font-medium text-gray-700">Verification</label>
                 <select
-                  value={filters.verified}
-                  onChange={(e) => updateFilter('verified', e.target.value)}
+                  value={filters.verified || 'all'}
+                  onChange={(e) => updateFilter('verified', e.target.value as SearchFilters['verified'])}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
                 >
                   <option value="all">All</option>
@@ -298,8 +501,8 @@ export const SearchPage: React.FC = () => {
               <div>
                 <label className="block mb-2 text-sm font-medium text-black-700">AI Tools</label>
                 <select
-                  value={filters.hasAiTools}
-                  onChange={(e) => updateFilter('hasAiTools', e.target.value)}
+                  value={filters.hasAiTools || 'all'}
+                  onChange={(e) => updateFilter('hasAiTools', e.target.value as SearchFilters['hasAiTools'])}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
                 >
                   <option value="all">All</option>
@@ -313,14 +516,7 @@ export const SearchPage: React.FC = () => {
             {hasActiveFilters && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <button
-                  onClick={() => {
-                    setSortBy('relevance');
-                    setFilters({
-                      vciRange: 'all',
-                      verified: 'all',
-                      hasAiTools: 'all',
-                    });
-                  }}
+                  onClick={clearFilters}
                   className="text-sm text-blue-600 hover:text-blue-800 font-medium"
                 >
                   Clear all filters
@@ -357,14 +553,7 @@ export const SearchPage: React.FC = () => {
             </p>
             {hasActiveFilters && (
               <button
-                onClick={() => {
-                  setSortBy('relevance');
-                  setFilters({
-                    vciRange: 'all',
-                    verified: 'all',
-                    hasAiTools: 'all',
-                  });
-                }}
+                onClick={clearFilters}
                 className="text-blue-600 hover:text-blue-800 font-medium text-sm"
               >
                 Clear all filters
@@ -373,17 +562,34 @@ export const SearchPage: React.FC = () => {
           </div>
         )}
 
-        {/* Results Grid */}
+        {/* Results Grid with Facets */}
         {!loading && !error && projects.length > 0 && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
-            {projects.map(project => (
-              <ProjectCard 
-                key={project.id} 
-                project={project}
-                searchTerm={query}
-                highlightText={highlightText}
-              />
-            ))}
+          <div className="flex flex-col lg:flex-row gap-4 sm:gap-6">
+            {facets && (
+              <aside className="lg:w-64 flex-shrink-0">
+                <div className="bg-white rounded-lg p-4 shadow-sm space-y-5">
+                  {renderFacet('Technology', 'technology', facets.technologies)}
+                  {renderFacet('AI Tool', 'aiTool', facets.aiTools)}
+                  {renderFacet(
+                    'VCI Score',
+                    'vciRange',
+                    [...facets.vciBands].sort((a, b) => Object.keys(VCI_BAND_LABELS).indexOf(a.value) - Object.keys(VCI_BAND_LABELS).indexOf(b.value)),
+                    value => VCI_BAND_LABELS[value] || value
+                  )}
+                </div>
+              </aside>
+            )}
+
+            <div className="flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6 content-start">
+              {projects.map(project => (
+                <ProjectCard
+                  key={project.id}
+                  project={project}
+                  query={searchText}
+                  highlight={highlightText}
+                />
+              ))}
+            </div>
           </div>
         )}
 
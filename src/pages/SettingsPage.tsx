@@ -0,0 +1,482 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Settings, SearchCheck, Search, Trash2, AlertCircle, Pencil, Check, X, Loader2, KeyRound, Copy, Plus } from 'lucide-react';
+import { ConfirmationModal } from '../components/ConfirmationModal';
+import { AccountStandingSection } from '../components/AccountStandingSection';
+import { savedSearchService, apiKeyService } from '../lib/supabase';
+import { SAVED_SEARCH_ALERT_LABELS, getSearchUrl } from '../lib/searchQuery';
+import { SavedSearch, SavedSearchAlertFrequency, ApiKey } from '../types';
+import { NotificationContext } from '../App';
+
+const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/api/v1`;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const SettingsPage: React.FC = () => {
+  const notifications = React.useContext(NotificationContext);
+  const [savedSearches, setSavedSearches] = React.useState<SavedSearch[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editName, setEditName] = React.useState('');
+  const [savingId, setSavingId] = React.useState<string | null>(null);
+  const [searchToDelete, setSearchToDelete] = React.useState<SavedSearch | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [apiKeys, setApiKeys] = React.useState<ApiKey[]>([]);
+  const [apiKeysLoading, setApiKeysLoading] = React.useState(true);
+  const [apiKeysError, setApiKeysError] = React.useState<string | null>(null);
+  const [newKeyName, setNewKeyName] = React.useState('');
+  const [creatingKey, setCreatingKey] = React.useState(false);
+  const [createdKey, setCreatedKey] = React.useState<{ id: string; name: string; key: string } | null>(null);
+  const [keyCopied, setKeyCopied] = React.useState(false);
+  const [keyToRevoke, setKeyToRevoke] = React.useState<ApiKey | null>(null);
+  const [revoking, setRevoking] = React.useState(false);
+
+  const fetchSavedSearches = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await savedSearchService.getSavedSearches();
+      setSavedSearches(data);
+    } catch (err) {
+      console.error('Error fetching saved searches:', err);
+      setError('Failed to load your saved searches. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchApiKeys = React.useCallback(async () => {
+    try {
+      setApiKeysLoading(true);
+      setApiKeysError(null);
+      const data = await apiKeyService.getApiKeys();
+      setApiKeys(data);
+    } catch (err) {
+      console.error('Error fetching API keys:', err);
+      setApiKeysError('Failed to load your API keys. Please try again.');
+    } finally {
+      setApiKeysLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchSavedSearches();
+    fetchApiKeys();
+  }, [fetchSavedSearches, fetchApiKeys]);
+
+  const updateSavedSearch = async (
+    savedSearch: SavedSearch,
+    updates: { name?: string; alertFrequency?: SavedSearchAlertFrequency }
+  ) => {
+    try {
+      setSavingId(savedSearch.id);
+      const updated = await savedSearchService.updateSavedSearch(savedSearch.id, updates);
+      setSavedSearches(prev => prev.map(s => s.id === updated.id ? updated : s));
+      return true;
+    } catch (err) {
+      console.error('Error updating saved search:', err);
+      notifications?.showError(
+        'Update Failed',
+        err instanceof Error ? err.message : 'Failed to update the saved search. Please try again.'
+      );
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const startRename = (savedSearch: SavedSearch) => {
+    setEditingId(savedSearch.id);
+    setEditName(savedSearch.name);
+  };
+
+  const handleRename = async (e: React.FormEvent, savedSearch: SavedSearch) => {
+    e.preventDefault();
+    if (!editName.trim()) return;
+
+    if (editName.trim() === savedSearch.name || await updateSavedSearch(savedSearch, { name: editName })) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!searchToDelete) return;
+
+    try {
+      setDeleting(true);
+      await savedSearchService.deleteSavedSearch(searchToDelete.id);
+      setSavedSearches(prev => prev.filter(s => s.id !== searchToDelete.id));
+      notifications?.showSuccess('Saved Search Deleted', `"${searchToDelete.name}" will no longer send alerts.`);
+    } catch (err) {
+      console.error('Error deleting saved search:', err);
+      notifications?.showError('Delete Failed', 'Failed to delete the saved search. Please try again.');
+    } finally {
+      setDeleting(false);
+      setSearchToDelete(null);
+    }
+  };
+
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newKeyName.trim()) return;
+
+    try {
+      setCreatingKey(true);
+      const { apiKey, key } = await apiKeyService.createApiKey(newKeyName);
+      setApiKeys(prev => [apiKey, ...prev]);
+      setCreatedKey({ id: apiKey.id, name: apiKey.name, key });
+      setKeyCopied(false);
+      setNewKeyName('');
+    } catch (err) {
+      console.error('Error creating API key:', err);
+      notifications?.showError(
+        'Create Failed',
+        err instanceof Error ? err.message : 'Failed to create the API key. Please try again.'
+      );
+    } finally {
+      setCreatingKey(false);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!createdKey) return;
+
+    try {
+      await navigator.clipboard.writeText(createdKey.key);
+      setKeyCopied(true);
+      setTimeout(() => setKeyCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!keyToRevoke) return;
+
+    try {
+      setRevoking(true);
+      await apiKeyService.revokeApiKey(keyToRevoke.id);
+      setApiKeys(prev => prev.map(k => k.id === keyToRevoke.id ? { ...k, revokedAt: new Date() } : k));
+      if (createdKey?.id === keyToRevoke.id) setCreatedKey(null);
+      notifications?.showSuccess('API Key Revoked', `"${keyToRevoke.name}" can no longer be used.`);
+    } catch (err) {
+      console.error('Error revoking API key:', err);
+      notifications?.showError('Revoke Failed', 'Failed to revoke the API key. Please try again.');
+    } finally {
+      setRevoking(false);
+      setKeyToRevoke(null);
+    }
+  };
+
+  const activeKeyCount = apiKeys.filter(k => !k.revokedAt).length;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-4">
+          <Settings className="h-8 w-8 text-blue-500" />
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        </div>
+        <p className="text-gray-600">
+          Manage your saved searches, how you are notified about new matching projects, your API keys and your account standing.
+        </p>
+      </div>
+
+      {/* Saved Searches */}
+      <section className="bg-white border border-gray-300 rounded-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <SearchCheck className="h-5 w-5 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Saved Searches</h2>
+          </div>
+          <span className="text-sm text-gray-500">
+            {savedSearches.length} saved
+          </span>
+        </div>
+
+        {loading ? (
+          <div className="p-6 space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-5 bg-gray-200 rounded w-1/3 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="p-6">
+            <div className="flex items-center space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+              <AlertCircle className="h-6 w-6 text-red-500" />
+              <div>
+                <p className="text-red-700">{error}</p>
+                <button
+                  onClick={fetchSavedSearches}
+                  className="mt-3 px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm rounded-lg transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : savedSearches.length === 0 ? (
+          <div className="p-12 text-center">
+            <Search className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600 mb-1">No saved searches yet</p>
+            <p className="text-sm text-gray-500">
+              Run a <Link to="/search" className="text-blue-600 hover:text-blue-800">search</Link> and
+              choose "Save search" to get notified when new projects match.
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {savedSearches.map((savedSearch) => (
+              <li key={savedSearch.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  {editingId === savedSearch.id ? (
+                    <form onSubmit={(e) => handleRename(e, savedSearch)} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        maxLength={80}
+                        autoFocus
+                        className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!editName.trim() || savingId === savedSearch.id}
+                        className="p-1.5 text-green-600 hover:bg-green-50 disabled:opacity-50 rounded-lg transition-colors"
+                        title="Save name"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Cancel"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Link
+                        to={getSearchUrl(savedSearch.query, savedSearch.sortBy)}
+                        className="font-medium text-gray-900 hover:text-blue-600 truncate"
+                      >
+                        {savedSearch.name}
+                      </Link>
+                      <button
+                        onClick={() => startRename(savedSearch)}
+                        className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                  <p className="mt-1 font-mono text-xs text-gray-500 truncate">{savedSearch.query}</p>
+                  {savedSearch.lastNotifiedAt && (
+                    <p className="mt-1 text-xs text-gray-400">
+                      Last alert {formatDate(savedSearch.lastNotifiedAt)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {savingId === savedSearch.id && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                  <select
+                    value={savedSearch.alertFrequency}
+                    onChange={(e) => updateSavedSearch(savedSearch, { alertFrequency: e.target.value as SavedSearchAlertFrequency })}
+                    disabled={savingId === savedSearch.id}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(SAVED_SEARCH_ALERT_LABELS) as SavedSearchAlertFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{SAVED_SEARCH_ALERT_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setSearchToDelete(savedSearch)}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete saved search"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* API Keys */}
+      <section className="mt-8 bg-white border border-gray-300 rounded-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">API Keys</h2>
+          </div>
+          <span className="text-sm text-gray-500">
+            {activeKeyCount} of 5 active
+          </span>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 space-y-4">
+          <p className="text-sm text-gray-600">
+            Use an API key to read projects, comments, profiles and stats from your own dashboards.
+            Send it in the <code className="font-mono text-xs bg-gray-100 px-1 py-0.5 rounded">x-api-key</code> header.
+            The API is described in the{' '}
+            <a
+              href={`${API_BASE_URL}/openapi.json`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              OpenAPI document
+            </a>.
+          </p>
+
+          {createdKey && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-green-800 mb-2">
+                Your new key "{createdKey.name}". Copy it now; you won't be able to see it again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 font-mono text-sm bg-white border border-green-200 rounded px-3 py-2 truncate">
+                  {createdKey.key}
+                </code>
+                <button
+                  onClick={handleCopyKey}
+                  className="flex items-center space-x-1 px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors"
+                >
+                  {keyCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  <span>{keyCopied ? 'Copied' : 'Copy'}</span>
+                </button>
+                <button
+                  onClick={() => setCreatedKey(null)}
+                  className="p-2 text-green-700 hover:bg-green-100 rounded-lg transition-colors"
+                  title="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleCreateKey} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="Key name, e.g. Team dashboard"
+              maxLength={50}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!newKeyName.trim() || creatingKey || activeKeyCount >= 5}
+              className="flex items-center space-x-1 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+            >
+              {creatingKey ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              <span>Create Key</span>
+            </button>
+          </form>
+        </div>
+
+        {apiKeysLoading ? (
+          <div className="p-6 space-y-4">
+            {[1, 2].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-5 bg-gray-200 rounded w-1/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : apiKeysError ? (
+          <div className="p-6">
+            <div className="flex items-center space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+              <AlertCircle className="h-6 w-6 text-red-500" />
+              <div>
+                <p className="text-red-700">{apiKeysError}</p>
+                <button
+                  onClick={fetchApiKeys}
+                  className="mt-3 px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm rounded-lg transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-sm text-gray-500">You haven't created any API keys yet.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {apiKeys.map((apiKey) => (
+              <li key={apiKey.id} className="px-6 py-4 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium truncate ${apiKey.revokedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                      {apiKey.name}
+                    </span>
+                    {apiKey.revokedAt && (
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-500 text-xs rounded-full">Revoked</span>
+                    )}
+                  </div>
+                  <p className="mt-1 font-mono text-xs text-gray-500">{apiKey.keyPrefix}…</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Created {formatDate(apiKey.createdAt)}
+                    {' · '}
+                    {apiKey.lastUsedAt ? `Last used ${formatDate(apiKey.lastUsedAt)}` : 'Never used'}
+                    {' · '}
+                    {apiKey.rateLimitPerMinute} requests/minute
+                  </p>
+                </div>
+
+                {!apiKey.revokedAt && (
+                  <button
+                    onClick={() => setKeyToRevoke(apiKey)}
+                    className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 border border-red-200 rounded-lg transition-colors"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Account Standing */}
+      <AccountStandingSection />
+
+      <ConfirmationModal
+        isOpen={keyToRevoke !== null}
+        onClose={() => setKeyToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Revoke API Key"
+        message={`Revoke "${keyToRevoke?.name}"? Anything using this key will stop working immediately. This cannot be undone.`}
+        confirmText="Revoke Key"
+        cancelText="Cancel"
+        type="danger"
+        loading={revoking}
+      />
+
+      <ConfirmationModal
+        isOpen={searchToDelete !== null}
+        onClose={() => setSearchToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Saved Search"
+        message={`Delete "${searchToDelete?.name}"? You will stop receiving alerts for it.`}
+        confirmText="Delete Search"
+        cancelText="Cancel"
+        type="warning"
+        loading={deleting}
+      />
+    </div>
+  );
+};
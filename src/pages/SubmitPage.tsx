@@ -1,7 +1,12 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Bot, Plus, Trash2, AlertCircle, Github, ExternalLink, Loader2, Upload, X, Image } from 'lucide-react';
-import { projectService } from '../lib/supabase';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Bot, Plus, Trash2, AlertCircle, ExternalLink, Loader2, Upload, X, Image, Save } from 'lucide-react';
+import { projectService, analysisJobService } from '../lib/supabase';
+import { AnalysisJob, AnalysisJobStage, Project, PromptLogEntry, RepositoryAnalysis } from '../types';
+import { FORGE_LABELS, parseRepositoryUrl } from '../lib/repository';
+import { ForgeIcon } from '../components/ForgeIcon';
+import { DevelopmentProcessFields } from '../components/DevelopmentProcessFields';
+import { MarkdownEditor } from '../components/MarkdownEditor';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../context/AuthContext';
 
@@ -28,20 +33,20 @@ const PREDEFINED_AI_TOOLS = [
   'OpenAI API', 'Anthropic API', 'Google Bard', 'Tabnine', 'CodeWhisperer'
 ];
 
-interface AIAnalysisResult {
-  vciScore: number;
-  analysis: string;
-  confidence: number;
-  indicators: {
-    codePatterns: string[];
-    commitPatterns: string[];
-    documentationPatterns: string[];
-  };
-}
+// Job id kept across navigation so an in-flight analysis can be picked up again
+const PENDING_ANALYSIS_JOB_KEY = 'pendingAnalysisJob';
+
+const ANALYSIS_STAGE_LABELS: Record<AnalysisJobStage, string> = {
+  queued: 'Queued...',
+  fetching_repo: 'Fetching repository...',
+  sampling_files: 'Sampling files...',
+  scoring: 'Scoring...',
+  done: 'Finishing...'
+};
 
 interface ScreenshotFile {
   id: string;
-  file: File;
+  file: File | null; // null for screenshots already stored with the project
   preview: string;
   uploaded: boolean;
   url?: string;
@@ -49,85 +54,209 @@ interface ScreenshotFile {
 
 export const SubmitPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { id: editingProjectId } = useParams<{ id: string }>();
+  const isEditing = Boolean(editingProjectId);
   const { user } = useAuth();
+  const userEmail = user?.email;
   const [loading, setLoading] = React.useState(false);
   const [analyzingRepo, setAnalyzingRepo] = React.useState(false);
   const [uploadingScreenshots, setUploadingScreenshots] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
-  const [aiAnalysis, setAiAnalysis] = React.useState<AIAnalysisResult | null>(null);
+  const [aiAnalysis, setAiAnalysis] = React.useState<RepositoryAnalysis | null>(null);
+  const [analysisJob, setAnalysisJob] = React.useState<AnalysisJob | null>(null);
+  const [editingProject, setEditingProject] = React.useState<Project | null>(null);
+  const [loadingProject, setLoadingProject] = React.useState(isEditing);
+  const jobSubscriptionRef = React.useRef<(() => void) | null>(null);
   
   const [formData, setFormData] = React.useState({
     title: '',
     description: '',
-    githubUrl: '',
+    repoUrl: '',
     liveUrl: '',
     technologies: [] as string[],
     tags: [] as string[],
     aiTools: [] as string[]
   });
 
+  // Typed reference for whichever forge the URL points at
+  const repository = parseRepositoryUrl(formData.repoUrl);
+
   // Screenshot management
   const [screenshots, setScreenshots] = React.useState<ScreenshotFile[]>([]);
   const [dragActive, setDragActive] = React.useState(false);
 
+  // Development process and prompt log
+  const [developmentProcess, setDevelopmentProcess] = React.useState<Project['developmentProcess']>({
+    totalHours: 0,
+    aiAssistedHours: 0,
+    manualHours: 0,
+    challenges: [],
+    learnings: []
+  });
+  const [prompts, setPrompts] = React.useState<PromptLogEntry[]>([]);
+
   const [currentTech, setCurrentTech] = React.useState('');
   const [currentTag, setCurrentTag] = React.useState('');
   const [currentAiTool, setCurrentAiTool] = React.useState('');
 
-  // Function to fetch AI analysis from Edge Function
-  const fetchAiAnalysis = async (githubUrl: string): Promise<AIAnalysisResult> => {
-    try {
-      setAnalyzingRepo(true);
-      setError(null);
+  // Follow an analysis job over Realtime until it completes or fails
+  const followAnalysisJob = React.useCallback((jobId: string): Promise<RepositoryAnalysis> => {
+    jobSubscriptionRef.current?.();
 
-      const { data, error } = await supabase.functions.invoke('analyze-repo', {
-        body: { githubUrl }
-      });
+    return new Promise((resolve, reject) => {
+      const handleUpdate = (job: AnalysisJob) => {
+        setAnalysisJob(job);
+        if (job.status !== 'completed' && job.status !== 'failed') return;
 
-      if (error) {
-        console.error('Edge Function error:', error);
-        throw new Error(error.message || 'Failed to analyze repository');
-      }
-
-      if (!data) {
-        throw new Error('No analysis data received');
-      }
+        jobSubscriptionRef.current?.();
+        jobSubscriptionRef.current = null;
+        localStorage.removeItem(PENDING_ANALYSIS_JOB_KEY);
 
-      // Validate the response structure
-      const analysisResult: AIAnalysisResult = {
-        vciScore: Math.max(0, Math.min(100, data.vciScore || 50)),
-        analysis: data.analysis || 'Analysis completed successfully.',
-        confidence: Math.max(0, Math.min(100, data.confidence || 50)),
-        indicators: {
-          codePatterns: data.indicators?.codePatterns || [],
-          commitPatterns: data.indicators?.commitPatterns || [],
-          documentationPatterns: data.indicators?.documentationPatterns || []
+        if (job.status === 'failed' || !job.result) {
+          reject(new Error(job.error || 'Failed to analyze repository'));
+          return;
         }
+
+        // Validate the response structure
+        const data = job.result;
+        resolve({
+          vciScore: Math.max(0, Math.min(100, data.vciScore || 50)),
+          analysis: data.analysis || 'Analysis completed successfully.',
+          confidence: Math.max(0, Math.min(100, data.confidence || 50)),
+          indicators: {
+            codePatterns: data.indicators?.codePatterns || [],
+            commitPatterns: data.indicators?.commitPatterns || [],
+            documentationPatterns: data.indicators?.documentationPatterns || []
+          },
+          analysisId: data.analysisId || undefined,
+          headSha: data.headSha || undefined,
+          cached: Boolean(data.cached)
+        });
       };
 
-      return analysisResult;
+      jobSubscriptionRef.current = analysisJobService.subscribeToJob(jobId, handleUpdate);
+
+      // Catch up on anything that happened before the subscription was ready
+      analysisJobService.getJob(jobId)
+        .then(job => {
+          if (job) {
+            handleUpdate(job);
+          } else {
+            localStorage.removeItem(PENDING_ANALYSIS_JOB_KEY);
+            reject(new Error('Analysis job not found'));
+          }
+        })
+        .catch(reject);
+    });
+  }, []);
+
+  // Queue an analysis job and wait for its result
+  const fetchAiAnalysis = async (repoUrl: string): Promise<RepositoryAnalysis> => {
+    try {
+      setAnalyzingRepo(true);
+      setError(null);
+
+      const jobId = await analysisJobService.enqueueAnalysis(repoUrl);
+      localStorage.setItem(PENDING_ANALYSIS_JOB_KEY, jobId);
+
+      return await followAnalysisJob(jobId);
     } catch (err) {
       console.error('Error fetching AI analysis:', err);
       throw new Error(err instanceof Error ? err.message : 'Failed to analyze repository');
     } finally {
       setAnalyzingRepo(false);
+      setAnalysisJob(null);
     }
   };
 
-  // Function to trigger AI analysis when GitHub URL is provided
+  // Load the project being edited into the form
+  React.useEffect(() => {
+    if (!editingProjectId || !userEmail) return;
+
+    setLoadingProject(true);
+    projectService.getProject(editingProjectId)
+      .then(project => {
+        if (!project) {
+          setError('Project not found');
+          return;
+        }
+
+        if (userEmail.split('@')[0] !== project.submittedBy) {
+          setError('You can only edit your own projects');
+          return;
+        }
+
+        setEditingProject(project);
+        setFormData({
+          title: project.title,
+          description: project.description,
+          repoUrl: project.repository?.url || '',
+          liveUrl: project.liveUrl || '',
+          technologies: project.technologies,
+          tags: project.tags || [],
+          aiTools: project.aiTools.map(tool => tool.name)
+        });
+        setScreenshots(project.screenshots.map((url, index) => ({
+          id: `existing_${index}`,
+          file: null,
+          preview: url,
+          uploaded: true,
+          url
+        })));
+        setDevelopmentProcess(project.developmentProcess);
+        setPrompts(project.prompts || []);
+      })
+      .catch(err => {
+        console.error('Error loading project for editing:', err);
+        setError('Failed to load project');
+      })
+      .finally(() => setLoadingProject(false));
+  }, [editingProjectId, userEmail]);
+
+  // Resume a job started before navigating away, or opened from its notification
+  React.useEffect(() => {
+    if (isEditing) return;
+
+    const jobId = searchParams.get('job') || localStorage.getItem(PENDING_ANALYSIS_JOB_KEY);
+    if (!jobId) return;
+
+    setAnalyzingRepo(true);
+    analysisJobService.getJob(jobId)
+      .then(job => {
+        if (job) {
+          setFormData(prev => ({ ...prev, repoUrl: prev.repoUrl || job.repoUrl }));
+        }
+        return followAnalysisJob(jobId);
+      })
+      .then(analysis => setAiAnalysis(analysis))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to analyze repository'))
+      .finally(() => {
+        setAnalyzingRepo(false);
+        setAnalysisJob(null);
+      });
+  }, [isEditing, searchParams, followAnalysisJob]);
+
+  // Stop listening for job updates when leaving the page; the job keeps running
+  React.useEffect(() => {
+    const subscription = jobSubscriptionRef;
+    return () => subscription.current?.();
+  }, []);
+
+  // Function to trigger AI analysis when a repository URL is provided
   const handleAnalyzeRepo = async () => {
-    if (!formData.githubUrl.trim()) {
-      setError('Please provide a GitHub URL first');
+    if (!formData.repoUrl.trim()) {
+      setError('Please provide a repository URL first');
       return;
     }
 
-    if (!isValidGitHubUrl(formData.githubUrl)) {
-      setError('Please provide a valid GitHub repository URL');
+    if (!repository) {
+      setError('Please provide a valid GitHub, GitLab, Bitbucket or Gitea repository URL');
       return;
     }
 
     try {
-      const analysis = await fetchAiAnalysis(formData.githubUrl.trim());
+      const analysis = await fetchAiAnalysis(repository.url);
       setAiAnalysis(analysis);
       setError(null);
     } catch (err) {
@@ -196,7 +325,7 @@ export const SubmitPage: React.FC = () => {
       const updated = prev.filter(s => s.id !== id);
       // Clean up preview URLs
       const removed = prev.find(s => s.id === id);
-      if (removed) {
+      if (removed?.file) {
         URL.revokeObjectURL(removed.preview);
       }
       return updated;
@@ -211,8 +340,8 @@ export const SubmitPage: React.FC = () => {
       const uploadedUrls: string[] = [];
 
       for (const screenshot of screenshots) {
-        if (screenshot.uploaded && screenshot.url) {
-          uploadedUrls.push(screenshot.url);
+        if ((screenshot.uploaded && screenshot.url) || !screenshot.file) {
+          if (screenshot.url) uploadedUrls.push(screenshot.url);
           continue;
         }
 
@@ -297,13 +426,13 @@ export const SubmitPage: React.FC = () => {
       return;
     }
 
-    if (!formData.githubUrl.trim()) {
-      setError('GitHub repository URL is required');
+    if (!formData.repoUrl.trim()) {
+      setError('Repository URL is required');
       return;
     }
 
-    if (!isValidGitHubUrl(formData.githubUrl)) {
-      setError('Please provide a valid GitHub repository URL');
+    if (!repository) {
+      setError('Please provide a valid GitHub, GitLab, Bitbucket or Gitea repository URL');
       return;
     }
 
@@ -352,11 +481,46 @@ export const SubmitPage: React.FC = () => {
         }
       }
 
+      // Transform AI tools to the expected format
+      const aiToolsFormatted = formData.aiTools.map(tool => ({
+        name: tool,
+        category: 'coding' as const,
+        usage: 'primary' as const
+      }));
+
+      // Drop entries left empty in the prompt log
+      const promptLog = prompts
+        .filter(entry => entry.prompt.trim())
+        .map(entry => ({
+          tool: entry.tool.trim() || 'Unspecified',
+          prompt: entry.prompt.trim(),
+          result: entry.result.trim(),
+          ...(entry.date ? { date: entry.date } : {})
+        }));
+
+      // Edits keep the repository and its analysis; only the content is updated
+      if (editingProjectId) {
+        await projectService.updateProject(editingProjectId, {
+          title: formData.title.trim(),
+          description: formData.description.trim(),
+          liveUrl: formData.liveUrl.trim() || undefined,
+          screenshots: screenshotUrls,
+          technologies: formData.technologies,
+          tags: formData.tags,
+          aiTools: aiToolsFormatted,
+          developmentProcess,
+          prompts: promptLog
+        });
+
+        navigate(`/project/${editingProjectId}`);
+        return;
+      }
+
       // Get AI analysis if not already done
       let finalAnalysis = aiAnalysis;
       if (!finalAnalysis) {
         try {
-          finalAnalysis = await fetchAiAnalysis(formData.githubUrl.trim());
+          finalAnalysis = await fetchAiAnalysis(repository.url);
         } catch (analysisError) {
           // If AI analysis fails, use fallback values but still allow submission
           console.warn('AI analysis failed, using fallback values:', analysisError);
@@ -373,16 +537,6 @@ export const SubmitPage: React.FC = () => {
         }
       }
 
-      // Extract repo name from GitHub URL
-      const repoName = extractRepoName(formData.githubUrl);
-
-      // Transform AI tools to the expected format
-      const aiToolsFormatted = formData.aiTools.map(tool => ({
-        name: tool,
-        category: 'coding' as const,
-        usage: 'primary' as const
-      }));
-
       // Calculate code breakdown based on VCI score
       const codeBreakdown = calculateCodeBreakdown(finalAnalysis.vciScore);
 
@@ -390,28 +544,22 @@ export const SubmitPage: React.FC = () => {
       const newProject = {
         title: formData.title.trim(),
         description: formData.description.trim(),
-        repoName,
-        githubUrl: formData.githubUrl.trim(),
+        repoName: repository.name,
+        repository,
         liveUrl: formData.liveUrl.trim() || undefined,
         screenshots: screenshotUrls,
         technologies: formData.technologies,
         tags: formData.tags,
         aiTools: aiToolsFormatted,
         vciScore: finalAnalysis.vciScore,
-        communityVciScore: undefined,
         submittedBy: user.email?.split('@')[0] || 'unknown',
         isVerified: false,
         analysis: finalAnalysis.analysis,
         confidence: finalAnalysis.confidence,
         indicators: finalAnalysis.indicators,
-        developmentProcess: {
-          totalHours: 0,
-          aiAssistedHours: 0,
-          manualHours: 0,
-          challenges: [],
-          learnings: []
-        },
-        prompts: [],
+        analysisId: finalAnalysis.analysisId,
+        developmentProcess,
+        prompts: promptLog,
         codeBreakdown
       };
 
@@ -422,17 +570,12 @@ export const SubmitPage: React.FC = () => {
       navigate(`/project/${createdProject.id}`);
     } catch (err) {
       console.error('Error submitting project:', err);
-      setError('Failed to submit project. Please try again.');
+      setError(isEditing ? 'Failed to save changes. Please try again.' : 'Failed to submit project. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const isValidGitHubUrl = (url: string): boolean => {
-    const githubRegex = /^https:\/\/github\.com\/[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+\/?$/;
-    return githubRegex.test(url);
-  };
-
   const isValidHttpsUrl = (url: string): boolean => {
     try {
       const urlObj = new URL(url);
@@ -442,11 +585,6 @@ export const SubmitPage: React.FC = () => {
     }
   };
 
-  const extractRepoName = (githubUrl: string): string => {
-    const match = githubUrl.match(/github\.com\/[^\/]+\/([^\/]+)/);
-    return match ? match[1].replace(/\.git$/, '') : '';
-  };
-
   const calculateFallbackVCIScore = (aiTools: string[]): number => {
     if (aiTools.length === 0) return 10;
     if (aiTools.length === 1) return 30;
@@ -522,6 +660,27 @@ export const SubmitPage: React.FC = () => {
     return 'Mostly Human-Coded';
   };
 
+  if (isEditing && loadingProject) {
+    return (
+      <div className="max-w-4xl mx-auto flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isEditing && !editingProject) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-500" />
+            <p className="text-sm text-red-600">{error || 'Project not found'}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="bg-white border border-gray-300 rounded-lg">
@@ -529,10 +688,12 @@ export const SubmitPage: React.FC = () => {
         <div className="border-b border-gray-200 p-6">
           <div className="flex items-center space-x-3 mb-2">
             <Bot className="h-6 w-6 text-blue-500" />
-            <h1 className="text-2xl font-bold text-gray-900">Submit Your Project</h1>
+            <h1 className="text-2xl font-bold text-gray-900">{isEditing ? 'Edit Project' : 'Submit Your Project'}</h1>
           </div>
           <p className="text-gray-600">
-            Share your project with the community and get AI-powered insights on development patterns.
+            {isEditing
+              ? 'Update your project details. Votes and comments are kept, and every change is recorded in the edit history.'
+              : 'Share your project with the community and get AI-powered insights on development patterns.'}
           </p>
         </div>
 
@@ -558,6 +719,11 @@ export const SubmitPage: React.FC = () => {
             <p className="text-blue-800 mb-3">{aiAnalysis.analysis}</p>
             <div className="text-sm text-blue-700">
               <strong>Confidence:</strong> {aiAnalysis.confidence}%
+              {aiAnalysis.headSha && (
+                <span className="ml-3 text-blue-600">
+                  {aiAnalysis.cached ? 'Cached result for' : 'Analyzed at'} commit <code>{aiAnalysis.headSha.slice(0, 7)}</code>
+                </span>
+              )}
             </div>
             {aiAnalysis.indicators.codePatterns.length > 0 && (
               <div className="mt-2 text-sm text-blue-700">
@@ -599,11 +765,11 @@ export const SubmitPage: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Project Description <span className="text-red-500">*</span>
               </label>
-              <textarea
+              <MarkdownEditor
                 value={formData.description}
-                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                onChange={(description) => setFormData(prev => ({ ...prev, description }))}
                 rows={6}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                textareaClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 placeholder="Briefly explain your project's purpose and functionality. Focus on key features and benefits..."
                 required
               />
@@ -612,44 +778,53 @@ export const SubmitPage: React.FC = () => {
               </p>
             </div>
 
-            {/* GitHub Repository URL */}
+            {/* Repository URL */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                GitHub Repository URL <span className="text-red-500">*</span>
+                Repository URL <span className="text-red-500">*</span>
               </label>
               <div className="flex gap-2">
                 <div className="relative flex-1">
-                  <Github className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <ForgeIcon forge={repository?.forge} className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                   <input
                     type="url"
-                    value={formData.githubUrl}
-                    onChange={(e) => setFormData(prev => ({ ...prev, githubUrl: e.target.value }))}
-                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={formData.repoUrl}
+                    onChange={(e) => setFormData(prev => ({ ...prev, repoUrl: e.target.value }))}
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-50 read-only:text-gray-500"
                     placeholder="https://github.com/username/repository"
+                    readOnly={isEditing}
                     required
                   />
                 </div>
-                <button
-                  type="button"
-                  onClick={handleAnalyzeRepo}
-                  disabled={analyzingRepo || !formData.githubUrl.trim()}
-                  className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors flex items-center space-x-2"
-                >
-                  {analyzingRepo ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Analyzing...</span>
-                    </>
-                  ) : (
-                    <>
-                      <Bot className="h-4 w-4" />
-                      <span>Analyze</span>
-                    </>
-                  )}
-                </button>
+                {!isEditing && (
+                  <button
+                    type="button"
+                    onClick={handleAnalyzeRepo}
+                    disabled={analyzingRepo || !formData.repoUrl.trim()}
+                    className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg transition-colors flex items-center space-x-2"
+                  >
+                    {analyzingRepo ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span>{analysisJob ? ANALYSIS_STAGE_LABELS[analysisJob.stage] : 'Analyzing...'}</span>
+                      </>
+                    ) : (
+                      <>
+                        <Bot className="h-4 w-4" />
+                        <span>Analyze</span>
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Provide the full URL to your project repository. Click "Analyze" to get AI insights.
+                {isEditing
+                  ? 'The repository cannot be changed after submission. Use "Re-analyze" on the project page to refresh its VCI score.'
+                  : analyzingRepo
+                  ? 'Analysis runs in the background. You can leave this page and we will notify you when it finishes.'
+                  : repository
+                  ? `${FORGE_LABELS[repository.forge]} repository ${repository.owner}/${repository.name}. Click "Analyze" to get AI insights.`
+                  : 'GitHub, GitLab, Bitbucket and Gitea repositories are supported. Click "Analyze" to get AI insights.'}
               </p>
             </div>
 
@@ -963,11 +1138,25 @@ export const SubmitPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Development Process Section */}
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900 border-b border-gray-200 pb-2">
+              Development Process
+            </h2>
+
+            <DevelopmentProcessFields
+              developmentProcess={developmentProcess}
+              prompts={prompts}
+              onDevelopmentProcessChange={setDevelopmentProcess}
+              onPromptsChange={setPrompts}
+            />
+          </div>
+
           {/* Submit */}
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
               type="button"
-              onClick={() => navigate('/')}
+              onClick={() => navigate(editingProjectId ? `/project/${editingProjectId}` : '/')}
               className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
               disabled={loading || analyzingRepo || uploadingScreenshots}
             >
@@ -981,13 +1170,18 @@ export const SubmitPage: React.FC = () => {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Submitting...</span>
+                  <span>{isEditing ? 'Saving...' : 'Submitting...'}</span>
                 </>
               ) : uploadingScreenshots ? (
                 <>
                   <Upload className="h-4 w-4" />
                   <span>Uploading Screenshots...</span>
                 </>
+              ) : isEditing ? (
+                <>
+                  <Save className="h-4 w-4" />
+                  <span>Save Changes</span>
+                </>
               ) : (
                 <>
                   <Plus className="h-4 w-4" />
@@ -1,43 +1,55 @@
 import React from 'react';
-import { TrendingUp, Clock, Flame, Calendar, Bot, Users, ArrowUp } from 'lucide-react';
+import { TrendingUp, Flame, Calendar, Bot, Users, ArrowUp, Loader2 } from 'lucide-react';
 import { ProjectCard } from '../components/ProjectCard';
 import { projectService } from '../lib/supabase';
 import { Project } from '../types';
 
-interface TrendingMetrics {
-  hotProjects: Project[];
-  risingProjects: Project[];
-  controversialProjects: Project[];
-  weeklyStats: {
-    totalSubmissions: number;
-    averageVciScore: number;
-    topAiTool: string;
-    mostActiveDay: string;
-  };
+type TrendingTab = 'hot' | 'rising' | 'controversial';
+
+interface WeeklyStats {
+  totalSubmissions: number;
+  averageVciScore: number;
+  topAiTool: string;
+  mostActiveDay: string;
 }
 
+// Each tab is ranked in the database
+const TAB_SORT: Record<TrendingTab, 'trending' | 'rising' | 'controversial'> = {
+  hot: 'trending',
+  rising: 'rising',
+  controversial: 'controversial'
+};
+
+const PROJECTS_PER_PAGE = 10;
+const WEEKLY_STATS_LIMIT = 500;
+
 export const TrendingPage: React.FC = () => {
-  const [metrics, setMetrics] = React.useState<TrendingMetrics | null>(null);
+  const [weeklyStats, setWeeklyStats] = React.useState<WeeklyStats | null>(null);
+  const [projects, setProjects] = React.useState<Project[]>([]);
   const [loading, setLoading] = React.useState(true);
+  const [loadingProjects, setLoadingProjects] = React.useState(true);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [hasMore, setHasMore] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
-  const [activeTab, setActiveTab] = React.useState<'hot' | 'rising' | 'controversial'>('hot');
+  const [activeTab, setActiveTab] = React.useState<TrendingTab>('hot');
 
+  // Weekly stats cover every project submitted in the last 7 days
   React.useEffect(() => {
-    const fetchTrendingData = async () => {
+    const fetchWeeklyStats = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        // Fetch projects with different sorting criteria
-        const [hotProjects, recentProjects, allProjects] = await Promise.all([
-          projectService.getProjects({ sortBy: 'trending', limit: 20 }),
-          projectService.getProjects({ sortBy: 'recent', limit: 50 }),
-          projectService.getProjects({ limit: 100 })
-        ]);
+        const weekAgo = new Date();
+        weekAgo.setDate(weekAgo.getDate() - 7);
+
+        const weeklyProjects = await projectService.getProjects({
+          sortBy: 'recent',
+          submittedAfter: weekAgo,
+          limit: WEEKLY_STATS_LIMIT
+        });
 
-        // Calculate trending metrics
-        const trendingMetrics = calculateTrendingMetrics(hotProjects, recentProjects, allProjects);
-        setMetrics(trendingMetrics);
+        setWeeklyStats(calculateWeeklyStats(weeklyProjects));
       } catch (err) {
         console.error('Error fetching trending data:', err);
         setError('Failed to load trending data');
@@ -46,52 +58,64 @@ export const TrendingPage: React.FC = () => {
       }
     };
 
-    fetchTrendingData();
+    fetchWeeklyStats();
   }, []);
 
-  const calculateTrendingMetrics = (
-    hotProjects: Project[],
-    recentProjects: Project[],
-    allProjects: Project[]
-  ): TrendingMetrics => {
-    // Hot projects: highest upvote ratio in last 7 days
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
-    
-    const recentHotProjects = recentProjects
-      .filter(p => new Date(p.submittedAt) >= weekAgo)
-      .sort((a, b) => {
-        const aRatio = a.upvotes / Math.max(1, a.upvotes + a.downvotes);
-        const bRatio = b.upvotes / Math.max(1, b.upvotes + b.downvotes);
-        return bRatio - aRatio;
-      })
-      .slice(0, 10);
-
-    // Rising projects: recent projects with good engagement
-    const risingProjects = recentProjects
-      .filter(p => {
-        const daysSinceSubmission = (Date.now() - new Date(p.submittedAt).getTime()) / (1000 * 60 * 60 * 24);
-        return daysSinceSubmission <= 3 && (p.upvotes + p.commentCount) > 0;
-      })
-      .sort((a, b) => {
-        const aScore = (a.upvotes * 2) + a.commentCount;
-        const bScore = (b.upvotes * 2) + b.commentCount;
-        return bScore - aScore;
-      })
-      .slice(0, 10);
-
-    // Controversial projects: high engagement but mixed votes
-    const controversialProjects = allProjects
-      .filter(p => p.upvotes + p.downvotes >= 5) // Minimum vote threshold
-      .sort((a, b) => {
-        const aControversy = Math.min(a.upvotes, a.downvotes) / Math.max(1, Math.max(a.upvotes, a.downvotes));
-        const bControversy = Math.min(b.upvotes, b.downvotes) / Math.max(1, Math.max(b.upvotes, b.downvotes));
-        return bControversy - aControversy;
-      })
-      .slice(0, 10);
-
-    // Weekly stats
-    const weeklyProjects = recentProjects.filter(p => new Date(p.submittedAt) >= weekAgo);
+  // Load the first page whenever the tab changes
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const fetchTabProjects = async () => {
+      try {
+        setLoadingProjects(true);
+        setError(null);
+
+        const data = await projectService.getProjects({
+          sortBy: TAB_SORT[activeTab],
+          limit: PROJECTS_PER_PAGE,
+          offset: 0
+        });
+
+        if (cancelled) return;
+        setProjects(data);
+        setHasMore(data.length === PROJECTS_PER_PAGE);
+      } catch (err) {
+        console.error('Error fetching trending projects:', err);
+        if (!cancelled) setError('Failed to load trending data');
+      } finally {
+        if (!cancelled) setLoadingProjects(false);
+      }
+    };
+
+    fetchTabProjects();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab]);
+
+  const loadMoreProjects = async () => {
+    if (loadingMore || !hasMore) return;
+
+    try {
+      setLoadingMore(true);
+
+      const data = await projectService.getProjects({
+        sortBy: TAB_SORT[activeTab],
+        limit: PROJECTS_PER_PAGE,
+        offset: projects.length
+      });
+
+      setProjects(prev => [...prev, ...data]);
+      setHasMore(data.length === PROJECTS_PER_PAGE);
+    } catch (err) {
+      console.error('Error loading more trending projects:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const calculateWeeklyStats = (weeklyProjects: Project[]): WeeklyStats => {
     const averageVciScore = weeklyProjects.length > 0 
       ? Math.round(weeklyProjects.reduce((sum, p) => sum + p.vciScore, 0) / weeklyProjects.length)
       : 0;
@@ -117,32 +141,13 @@ export const TrendingPage: React.FC = () => {
       .sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A';
 
     return {
-      hotProjects: recentHotProjects,
-      risingProjects,
-      controversialProjects,
-      weeklyStats: {
-        totalSubmissions: weeklyProjects.length,
-        averageVciScore,
-        topAiTool,
-        mostActiveDay
-      }
+      totalSubmissions: weeklyProjects.length,
+      averageVciScore,
+      topAiTool,
+      mostActiveDay
     };
   };
 
-  const getCurrentProjects = () => {
-    if (!metrics) return [];
-    switch (activeTab) {
-      case 'hot':
-        return metrics.hotProjects;
-      case 'rising':
-        return metrics.risingProjects;
-      case 'controversial':
-        return metrics.controversialProjects;
-      default:
-        return metrics.hotProjects;
-    }
-  };
-
   const getTabIcon = (tab: string) => {
     switch (tab) {
       case 'hot':
@@ -183,7 +188,7 @@ export const TrendingPage: React.FC = () => {
     );
   }
 
-  if (error || !metrics) {
+  if (error || !weeklyStats) {
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
         <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -212,7 +217,7 @@ export const TrendingPage: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">This Week</p>
-              <p className="text-2xl font-bold text-gray-900">{metrics.weeklyStats.totalSubmissions}</p>
+              <p className="text-2xl font-bold text-gray-900">{weeklyStats.totalSubmissions}</p>
               <p className="text-xs text-gray-500">New submissions</p>
             </div>
             <div className="p-3 bg-blue-100 rounded-lg">
@@ -225,7 +230,7 @@ export const TrendingPage: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Avg VCI Score</p>
-              <p className="text-2xl font-bold text-gray-900">{metrics.weeklyStats.averageVciScore}%</p>
+              <p className="text-2xl font-bold text-gray-900">{weeklyStats.averageVciScore}%</p>
               <p className="text-xs text-gray-500">This week</p>
             </div>
             <div className="p-3 bg-purple-100 rounded-lg">
@@ -238,7 +243,7 @@ export const TrendingPage: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Top AI Tool</p>
-              <p className="text-lg font-bold text-gray-900 truncate">{metrics.weeklyStats.topAiTool}</p>
+              <p className="text-lg font-bold text-gray-900 truncate">{weeklyStats.topAiTool}</p>
               <p className="text-xs text-gray-500">Most popular</p>
             </div>
             <div className="p-3 bg-green-100 rounded-lg">
@@ -251,7 +256,7 @@ export const TrendingPage: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Most Active</p>
-              <p className="text-lg font-bold text-gray-900">{metrics.weeklyStats.mostActiveDay}</p>
+              <p className="text-lg font-bold text-gray-900">{weeklyStats.mostActiveDay}</p>
               <p className="text-xs text-gray-500">Day of week</p>
             </div>
             <div className="p-3 bg-orange-100 rounded-lg">
@@ -273,7 +278,7 @@ export const TrendingPage: React.FC = () => {
             ].map((tab) => (
               <button
                 key={tab.key}
-                onClick={() => setActiveTab(tab.key as any)}
+                onClick={() => setActiveTab(tab.key as TrendingTab)}
                 className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                   activeTab === tab.key
                     ? 'bg-blue-100 text-blue-900'
@@ -294,9 +299,13 @@ export const TrendingPage: React.FC = () => {
 
         {/* Tab Content */}
         <div className="p-6">
-          {getCurrentProjects().length > 0 ? (
+          {loadingProjects ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 text-gray-400 animate-spin" />
+            </div>
+          ) : projects.length > 0 ? (
             <div className="space-y-6">
-              {getCurrentProjects().map((project, index) => (
+              {projects.map((project, index) => (
                 <div key={project.id} className="relative">
                   {/* Trending Badge */}
                   <div className="absolute -top-2 -left-2 z-10">
@@ -311,6 +320,19 @@ export const TrendingPage: React.FC = () => {
                   <ProjectCard project={project} />
                 </div>
               ))}
+
+              {hasMore && (
+                <div className="text-center pt-2">
+                  <button
+                    onClick={loadMoreProjects}
+                    disabled={loadingMore}
+                    className="inline-flex items-center px-6 py-2 border border-gray-300 hover:border-gray-400 text-gray-700 font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    <span>{loadingMore ? 'Loading...' : 'Load More'}</span>
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
@@ -335,20 +357,20 @@ export const TrendingPage: React.FC = () => {
         <h3 className="text-lg font-semibold text-green-900 mb-3">Trending Insights</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-green-800">
           <div>
-            <strong>Community Activity:</strong> {metrics.weeklyStats.totalSubmissions} new projects this week
-            {metrics.weeklyStats.totalSubmissions > 10 ? ' - High activity!' : metrics.weeklyStats.totalSubmissions > 5 ? ' - Moderate activity' : ' - Growing community'}
+            <strong>Community Activity:</strong> {weeklyStats.totalSubmissions} new projects this week
+            {weeklyStats.totalSubmissions > 10 ? ' - High activity!' : weeklyStats.totalSubmissions > 5 ? ' - Moderate activity' : ' - Growing community'}
           </div>
           <div>
-            <strong>AI Trend:</strong> Average VCI score of {metrics.weeklyStats.averageVciScore}% 
-            {metrics.weeklyStats.averageVciScore > 70 ? ' indicates heavy AI adoption' : 
-             metrics.weeklyStats.averageVciScore > 40 ? ' shows balanced AI-human collaboration' : 
+            <strong>AI Trend:</strong> Average VCI score of {weeklyStats.averageVciScore}% 
+            {weeklyStats.averageVciScore > 70 ? ' indicates heavy AI adoption' : 
+             weeklyStats.averageVciScore > 40 ? ' shows balanced AI-human collaboration' : 
              ' suggests traditional development approaches'}
           </div>
           <div>
-            <strong>Popular Tool:</strong> {metrics.weeklyStats.topAiTool} is leading the AI tools this week
+            <strong>Popular Tool:</strong> {weeklyStats.topAiTool} is leading the AI tools this week
           </div>
           <div>
-            <strong>Peak Activity:</strong> {metrics.weeklyStats.mostActiveDay}s are the most active submission days
+            <strong>Peak Activity:</strong> {weeklyStats.mostActiveDay}s are the most active submission days
           </div>
         </div>
       </div>
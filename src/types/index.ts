@@ -4,25 +4,39 @@ export interface AITool {
   usage: 'primary' | 'secondary' | 'minimal';
 }
 
+export type ForgeKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export interface RepositoryRef {
+  forge: ForgeKind;
+  host: string; // e.g. github.com or a self-hosted GitLab/Gitea domain
+  owner: string; // GitLab owners may be nested group paths
+  name: string;
+  url: string;
+}
+
 export interface Project {
   id: string;
   title: string;
   description: string;
   repoName?: string;
-  githubUrl?: string;
+  repository?: RepositoryRef;
   liveUrl?: string;
   screenshots: string[];
   technologies: string[];
   tags?: string[];
   aiTools: AITool[];
   vciScore: number; // Vibe Code Index 0-100
-  communityVciScore?: number;
+  communityVciScore?: number; // Median of community VCI votes
+  communityVciTrimmedMean?: number;
+  communityVciVoteCount?: number;
   submittedBy: string;
   submittedAt: Date;
   upvotes: number;
   downvotes: number;
   commentCount: number;
   isVerified: boolean;
+  verifiedAt?: Date;
+  verificationMethod?: VerificationMethod;
   developmentProcess: {
     totalHours: number;
     aiAssistedHours: number;
@@ -30,11 +44,7 @@ export interface Project {
     challenges: string[];
     learnings: string[];
   };
-  prompts?: {
-    tool: string;
-    prompt: string;
-    result: string;
-  }[];
+  prompts?: PromptLogEntry[];
   codeBreakdown: {
     aiGenerated: number; // percentage
     aiModified: number;
@@ -42,20 +52,99 @@ export interface Project {
   };
   analysis?: string;
   confidence?: number;
-  indicators?: {
-    codePatterns: string[];
-    commitPatterns: string[];
-    documentationPatterns: string[];
-  };
+  indicators?: AnalysisIndicators;
+  analysisId?: string; // Cached repository analysis the current scores came from
+  headSha?: string; // Commit the current scores describe
+  lastAnalyzedAt?: Date;
+  editedAt?: Date; // Last content edit after submission
+  revisionCount?: number;
   aiVibeScore?: number; // For backward compatibility
 }
 
+// How a project's repository ownership was proven
+export type VerificationMethod = 'challenge_file' | 'github_oauth' | 'admin';
+
+// Fields the author can change after submission
+export type ProjectUpdate = Pick<
+  Project,
+  'title' | 'description' | 'liveUrl' | 'screenshots' | 'technologies' | 'tags' | 'aiTools' | 'developmentProcess' | 'prompts'
+>;
+
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  revisionNumber: number;
+  editedBy: string;
+  changedFields: string[]; // Database column names
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface PromptLogEntry {
+  tool: string;
+  prompt: string;
+  result: string;
+  date?: string; // YYYY-MM-DD
+}
+
+export interface AnalysisIndicators {
+  codePatterns: string[];
+  commitPatterns: string[];
+  documentationPatterns: string[];
+}
+
+export interface AnalysisSnapshot {
+  id: string;
+  projectId: string;
+  headSha?: string;
+  vciScore: number;
+  confidence?: number;
+  indicators: AnalysisIndicators;
+  trigger: 'submission' | 'manual' | 'scheduled';
+  createdAt: Date;
+}
+
+// Analysis returned by the analyze-repo function or a finished analysis job
+export interface RepositoryAnalysis {
+  vciScore: number;
+  analysis: string;
+  confidence: number;
+  indicators: AnalysisIndicators;
+  analysisId?: string; // Cached analysis row, recorded as the project's first history entry
+  headSha?: string;
+  cached?: boolean;
+}
+
+export type AnalysisJobStage = 'queued' | 'fetching_repo' | 'sampling_files' | 'scoring' | 'done';
+
+export interface AnalysisJob {
+  id: string;
+  repoUrl: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: AnalysisJobStage;
+  result?: RepositoryAnalysis;
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface ReanalysisResult {
+  cached: boolean; // HEAD was unchanged and the stored analysis was reused
+  snapshotRecorded: boolean;
+  headSha?: string;
+}
+
 export interface Comment {
   id: string;
   projectId: string;
   author: string;
+  authorId?: string;
   content: string;
   createdAt: Date;
+  editedAt?: Date;
+  revisionCount?: number;
+  isDeleted?: boolean; // Kept as a "[deleted]" placeholder so replies stay threaded
   upvotes: number;
   downvotes: number;
   parentId?: string;
@@ -66,6 +155,14 @@ export interface Comment {
   depth?: number; // For nested display
 }
 
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  revisionNumber: number;
+  content: string; // Text before this edit
+  createdAt: Date;
+}
+
 export interface User {
   id: string;
   username: string;
@@ -75,6 +172,30 @@ export interface User {
   joinedAt: Date;
   specialization?: string;
   aiToolsUsed: string[];
+  followerCount: number;
+  followingCount: number;
+}
+
+export interface CommunityVciSummary {
+  score?: number; // Median
+  trimmedMean?: number;
+  voteCount: number;
+  distribution: number[]; // Vote counts in ten 10-point buckets (0-9, 10-19, ... 90-100)
+}
+
+export interface SavedFolder {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  projectCount: number;
+}
+
+export interface SavedProject {
+  id: string;
+  project: Project;
+  folderId?: string;
+  savedAt: Date;
 }
 
 export interface GamePrediction {
@@ -114,5 +235,91 @@ export interface PopularAiTool {
   percentage: number;
 }
 
-export type SortType = 'trending' | 'recent' | 'vci-high' | 'vci-low' | 'controversial' | 'top' | 'new';
-export type FilterType = 'all' | 'verified' | 'unverified' | 'high-ai' | 'low-ai';
\ No newline at end of file
+export type SortType = 'trending' | 'recent' | 'vci-high' | 'vci-low' | 'controversial' | 'rising' | 'top' | 'new';
+export type FilterType = 'all' | 'verified' | 'unverified' | 'high-ai' | 'low-ai';
+export type FeedType = 'all' | 'following';
+export type SearchSortType = 'relevance' | 'recent' | 'vci-high' | 'vci-low' | 'trending';
+export type VciBand = 'low' | 'medium' | 'high';
+
+export interface SearchFilters {
+  vciRange?: 'all' | VciBand;
+  verified?: 'all' | 'verified' | 'unverified';
+  hasAiTools?: 'all' | 'yes' | 'no';
+  technology?: string;
+  aiTool?: string;
+  author?: string;
+  vciMin?: number;
+  vciMax?: number;
+  votesMin?: number; // Net votes (upvotes minus downvotes)
+  votesMax?: number;
+  submittedAfter?: string; // YYYY-MM-DD, inclusive
+  submittedBefore?: string; // YYYY-MM-DD, exclusive
+  hasLiveUrl?: boolean;
+  hasScreenshots?: boolean;
+}
+
+export interface SearchFacet {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  technologies: SearchFacet[];
+  aiTools: SearchFacet[];
+  vciBands: SearchFacet[];
+}
+
+export interface SearchResults {
+  projects: Project[];
+  totalCount: number;
+  facets?: SearchFacets;
+}
+
+export type SavedSearchAlertFrequency = 'off' | 'instant' | 'daily';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // As typed in the search box, including filter operators
+  sortBy: SearchSortType;
+  alertFrequency: SavedSearchAlertFrequency;
+  lastNotifiedAt?: Date;
+  createdAt: Date;
+}
+
+export type ReportTargetType = 'project' | 'comment' | 'user';
+
+export type ReportReason = 'spam' | 'plagiarism' | 'fake_repository' | 'harassment' | 'inappropriate' | 'other';
+
+// 'open' until a moderator dismisses it or acts on the content
+export type ReportStatus = 'open' | 'dismissed' | 'hidden' | 'banned';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string; // First characters of the key, e.g. "vci_1a2b3c4d"
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export type SanctionType = 'warning' | 'suspension' | 'shadow_ban' | 'ban';
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+// A sanction as seen by the sanctioned user; shadow-bans are never returned
+export interface UserSanction {
+  id: string;
+  type: SanctionType;
+  reason: string;
+  expiresAt?: Date; // Suspensions only
+  revokedAt?: Date;
+  createdAt: Date;
+  appeal?: {
+    status: AppealStatus;
+    message: string;
+    response?: string;
+    createdAt: Date;
+  };
+}
@@ -0,0 +1,215 @@
+import { collectRepoData } from './forges/index.ts'
+import { createLLMProviderFromEnv, extractJsonObject, LLMProvider } from './llm.ts'
+import { blendAnalyses, scoreRepositoryHeuristically } from './heuristics.ts'
+import { AnalysisResponse, AnalysisStageCallback, RepoCommit, RepoData, RepoRef } from './types.ts'
+
+const FORGE_NAMES: Record<RepoRef['forge'], string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea'
+}
+
+const ANALYSIS_SYSTEM_PROMPT = `You are an expert code analyst specializing in detecting AI-assisted development patterns.
+You analyze repositories to determine the "Vibe Code Index" (VCI) - a score from 0-100 indicating how much AI assistance was likely used.
+
+Scoring guidelines:
+- 0-20: Clearly human-written code with personal style, inconsistencies, creative solutions
+- 21-40: Mostly human with minimal AI assistance
+- 41-60: Hybrid approach with moderate AI assistance
+- 61-80: Heavy AI assistance with human oversight
+- 81-100: Predominantly AI-generated with minimal human modification
+
+Key indicators to look for:
+
+AI-Generated Patterns:
+- Overly consistent code formatting
+- Perfect documentation coverage
+- Systematic error handling patterns
+- Generic variable and function names
+- Boilerplate-heavy structure
+- Templated commit messages
+- Large, infrequent commits
+- Perfect grammar in documentation
+
+Human-Written Patterns:
+- Inconsistent formatting styles
+- Personal coding quirks
+- Creative problem-solving approaches
+- Organic code evolution
+- Iterative development history
+- Casual commit messages
+- Frequent small commits
+
+Respond with a JSON object containing:
+- vciScore: number (0-100)
+- analysis: string (2-3 sentences explaining the assessment)
+- confidence: number (0-100, how confident you are in the assessment)
+- indicators: object with arrays of specific patterns found (codePatterns, commitPatterns, documentationPatterns)`
+
+// Resolve the LLM provider from environment variables.
+// LLM_PROVIDER=none runs the rule-based analyzer on its own.
+function resolveLLMProvider(): LLMProvider | null {
+  if ((Deno.env.get('LLM_PROVIDER') || '').toLowerCase() === 'none') return null
+
+  try {
+    return createLLMProviderFromEnv()
+  } catch (configError) {
+    console.error('LLM provider unavailable, using heuristic analysis only:', configError.message)
+    return null
+  }
+}
+
+// Fetch repository data from the forge and score it with the LLM and heuristic analyzers
+export async function analyzeRepository(repoRef: RepoRef, onStage?: AnalysisStageCallback): Promise<AnalysisResponse> {
+  const llm = resolveLLMProvider()
+
+  console.log(`Fetching data for ${repoRef.forge}:${repoRef.host}/${repoRef.owner}/${repoRef.name}`)
+  await onStage?.('fetching_repo')
+
+  const repoData = await collectRepoData(repoRef, onStage)
+  await onStage?.('scoring')
+
+  // Rule-based score is always computed: it is the fallback and the second opinion
+  const heuristicResult = scoreRepositoryHeuristically(repoData)
+  let analysisResult: AnalysisResponse = heuristicResult
+
+  if (llm) {
+    try {
+      // Create detailed analysis prompt with fetched data
+      const analysisPrompt = createDetailedAnalysisPrompt(repoRef, repoData)
+
+      // Call the configured LLM provider
+      console.log(`Calling ${llm.name} (${llm.model}) for analysis...`)
+      const aiResponse = await llm.complete({
+        system: ANALYSIS_SYSTEM_PROMPT,
+        user: analysisPrompt,
+        temperature: 0.3,
+        maxTokens: 1000
+      })
+
+      const llmResult: AnalysisResponse = JSON.parse(extractJsonObject(aiResponse))
+
+      // Validate and sanitize the response
+      llmResult.vciScore = Math.max(0, Math.min(100, Number(llmResult.vciScore) || 50))
+      llmResult.confidence = Math.max(0, Math.min(100, Number(llmResult.confidence) || 50))
+
+      const heuristicWeight = parseFloat(Deno.env.get('HEURISTIC_BLEND_WEIGHT') || '0.3')
+      analysisResult = blendAnalyses(llmResult, heuristicResult, isNaN(heuristicWeight) ? 0.3 : heuristicWeight)
+    } catch (llmError) {
+      // Fall back to the rule-based result if the LLM call fails or returns non-JSON
+      console.error('LLM analysis failed, using heuristic analysis:', llmError)
+    }
+  }
+
+  console.log(`Analysis completed successfully. VCI Score: ${analysisResult.vciScore}`)
+
+  return { ...analysisResult, repository: repoRef }
+}
+
+function createDetailedAnalysisPrompt(repoRef: RepoRef, repoData: RepoData): string {
+  const { files, commits, readme, languages, totalFiles, totalCommits } = repoData
+  
+  let prompt = `Analyze this ${FORGE_NAMES[repoRef.forge]} repository for AI development patterns: ${repoRef.url}\n\n`
+
+  // Repository overview
+  if (languages && Object.keys(languages).length > 0) {
+    const totalBytes = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0)
+    const breakdown = Object.entries(languages)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 6)
+      .map(([language, bytes]) => `${language} ${Math.round((bytes / totalBytes) * 100)}%`)
+      .join(', ')
+    prompt += `Repository Overview: ${totalFiles || 0} files, ${totalCommits || commits.length} commits. Languages: ${breakdown}\n\n`
+  }
+  
+  if (readme) {
+    prompt += `README Content (first 4000 chars):\n${readme.substring(0, 4000)}\n\n`
+  } else {
+    prompt += `No README file found.\n\n`
+  }
+  
+  if (files && files.length > 0) {
+    prompt += `Sampled Files (${files.length} chosen across languages and directories):\n`
+    files.forEach(file => {
+      const details = [file.language, file.size ? `${file.size} bytes` : null].filter(Boolean).join(', ')
+      prompt += `File: ${file.path}${details ? ` (${details})` : ''}\n${file.content.substring(0, 1500)}\n\n`
+    })
+  } else {
+    prompt += `No source files could be sampled.\n\n`
+  }
+  
+  if (commits && commits.length > 0) {
+    prompt += summarizeCommitHistory(commits)
+  } else {
+    prompt += `No commit history available.\n\n`
+  }
+  
+  prompt += `Based on the above repository data, analyze for AI assistance patterns:
+
+Code Patterns to look for:
+- Consistent formatting and style across all files
+- Perfect documentation coverage and formatting
+- Systematic error handling patterns
+- Generic variable names and function structures
+- Boilerplate-heavy code structure
+- Overly comprehensive type definitions
+- Perfect code organization
+
+Commit Patterns to analyze:
+- Templated or overly formal commit messages
+- Large, infrequent commits vs. small iterative ones
+- Perfect commit message formatting and grammar
+- Lack of "work in progress" or experimental commits
+- Commits that add complete features at once
+
+Documentation Patterns:
+- Overly comprehensive README with perfect formatting
+- Perfect grammar and professional language throughout
+- Generic project descriptions
+- Complete API documentation from the start
+- Lack of personal voice or informal language
+
+Provide a detailed JSON response with:
+- vciScore: 0-100 (likelihood of AI assistance)
+- analysis: Clear explanation of your assessment
+- confidence: How certain you are (0-100)
+- indicators: Specific patterns found in each category
+
+Be thorough but concise in your analysis.`
+
+  return prompt
+}
+
+// Summarize commit history: cadence, churn, largest and earliest commits, recent messages
+function summarizeCommitHistory(commits: RepoCommit[]): string {
+  const describe = (commit: RepoCommit) => {
+    const stats = commit.additions !== undefined ? ` [+${commit.additions}/-${commit.deletions || 0}]` : ''
+    return `- "${commit.message.split('\n')[0]}"${stats} by ${commit.author} on ${commit.date}\n`
+  }
+
+  let summary = `Commit History (${commits.length} commits analyzed):\n`
+
+  const withStats = commits.filter(commit => commit.additions !== undefined)
+  if (withStats.length > 0) {
+    const churn = withStats.map(commit => (commit.additions || 0) + (commit.deletions || 0))
+    const averageChurn = Math.round(churn.reduce((sum, lines) => sum + lines, 0) / churn.length)
+    summary += `Average lines changed per commit: ${averageChurn}\n`
+
+    const largest = [...withStats]
+      .sort((a, b) => ((b.additions || 0) + (b.deletions || 0)) - ((a.additions || 0) + (a.deletions || 0)))
+      .slice(0, 5)
+    summary += `Largest commits:\n`
+    largest.forEach(commit => { summary += describe(commit) })
+  }
+
+  if (commits.length > 15) {
+    summary += `Earliest commits:\n`
+    commits.slice(-5).reverse().forEach(commit => { summary += describe(commit) })
+  }
+
+  summary += `Most recent commits:\n`
+  commits.slice(0, 15).forEach(commit => { summary += describe(commit) })
+
+  return summary + '\n'
+}
@@ -0,0 +1,176 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { analyzeRepository } from './analysis.ts'
+import { getForgeAdapter } from './forges/index.ts'
+import { AnalysisResponse, AnalysisStageCallback, RepoRef } from './types.ts'
+
+/*
+  Analysis cache and per-project history
+
+  Results are stored in repo_analyses keyed by canonical repository URL and
+  the default branch HEAD SHA, so repeated analyses of an unchanged repository
+  skip the forge and LLM calls. Re-analyses of a submitted project append a
+  snapshot to project_analysis_history whenever the result changes.
+*/
+
+export type AnalysisTrigger = 'submission' | 'manual' | 'scheduled'
+
+export interface CachedAnalysis {
+  id: string | null // null when the HEAD SHA could not be resolved and nothing was cached
+  headSha: string | null
+  cached: boolean
+  result: AnalysisResponse
+}
+
+// Service role client; the cache tables have no client-side write policies
+export function createServiceClient(): SupabaseClient | null {
+  const url = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!url || !serviceRoleKey) {
+    console.error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing, analysis cache disabled')
+    return null
+  }
+
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+}
+
+// Reuse the stored analysis for the repository's current HEAD, or run and store a new one.
+// `force` re-runs the analysis and replaces the cached result for the same revision.
+export async function analyzeWithCache(
+  client: SupabaseClient | null,
+  repoRef: RepoRef,
+  options: { force?: boolean; onStage?: AnalysisStageCallback } = {}
+): Promise<CachedAnalysis> {
+  const headSha = await getForgeAdapter(repoRef.forge).fetchHeadSha(repoRef)
+
+  if (client && headSha && !options.force) {
+    const { data: cachedRow, error } = await client
+      .from('repo_analyses')
+      .select('*')
+      .eq('repo_url', repoRef.url)
+      .eq('head_sha', headSha)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error reading analysis cache:', error)
+    } else if (cachedRow) {
+      console.log(`Using cached analysis for ${repoRef.url}@${headSha}`)
+      return {
+        id: cachedRow.id,
+        headSha,
+        cached: true,
+        result: { ...analysisFromRow(cachedRow), repository: repoRef }
+      }
+    }
+  }
+
+  const result = await analyzeRepository(repoRef, options.onStage)
+
+  if (!client || !headSha) {
+    return { id: null, headSha, cached: false, result }
+  }
+
+  const { data: storedRow, error } = await client
+    .from('repo_analyses')
+    .upsert({
+      repo_url: repoRef.url,
+      repo_forge: repoRef.forge,
+      head_sha: headSha,
+      vci_score: Math.round(result.vciScore),
+      confidence: Math.round(result.confidence),
+      analysis: result.analysis,
+      indicators: result.indicators,
+      sources: result.sources || null,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'repo_url,head_sha' })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error storing analysis in cache:', error)
+    return { id: null, headSha, cached: false, result }
+  }
+
+  return { id: storedRow.id, headSha, cached: false, result }
+}
+
+// Apply an analysis to a project and append a history snapshot.
+// Returns false when a cache hit shows the project already reflects this analysis.
+export async function applyAnalysisToProject(
+  client: SupabaseClient,
+  projectId: string,
+  analysis: CachedAnalysis,
+  trigger: AnalysisTrigger,
+  triggeredBy: string | null
+): Promise<boolean> {
+  const now = new Date().toISOString()
+
+  const { data: project, error: fetchError } = await client
+    .from('projects')
+    .select('analysis_id')
+    .eq('id', projectId)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  if (analysis.cached && project.analysis_id === analysis.id) {
+    const { error } = await client
+      .from('projects')
+      .update({ last_analyzed_at: now })
+      .eq('id', projectId)
+
+    if (error) throw error
+    return false
+  }
+
+  const { error: historyError } = await client
+    .from('project_analysis_history')
+    .insert({
+      project_id: projectId,
+      analysis_id: analysis.id,
+      head_sha: analysis.headSha,
+      vci_score: Math.round(analysis.result.vciScore),
+      confidence: Math.round(analysis.result.confidence),
+      indicators: analysis.result.indicators,
+      trigger,
+      triggered_by: triggeredBy
+    })
+
+  if (historyError) throw historyError
+
+  const { error: updateError } = await client
+    .from('projects')
+    .update({
+      vci_score: Math.round(analysis.result.vciScore),
+      confidence: Math.round(analysis.result.confidence),
+      analysis: analysis.result.analysis,
+      indicators: analysis.result.indicators,
+      analysis_id: analysis.id,
+      head_sha: analysis.headSha,
+      last_analyzed_at: now
+    })
+    .eq('id', projectId)
+
+  if (updateError) throw updateError
+  return true
+}
+
+function analysisFromRow(row: {
+  vci_score: number
+  confidence: number | null
+  analysis: string | null
+  indicators: AnalysisResponse['indicators']
+  sources: AnalysisResponse['sources'] | null
+}): AnalysisResponse {
+  return {
+    vciScore: row.vci_score,
+    confidence: row.confidence ?? 50,
+    analysis: row.analysis || '',
+    indicators: {
+      codePatterns: row.indicators?.codePatterns || [],
+      commitPatterns: row.indicators?.commitPatterns || [],
+      documentationPatterns: row.indicators?.documentationPatterns || []
+    },
+    sources: row.sources || undefined
+  }
+}
@@ -0,0 +1,101 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { analyzeWithCache } from './analysisCache.ts'
+import { parseRepoUrl } from './forges/index.ts'
+
+/*
+  Analysis job queue
+
+  Jobs live in analysis_jobs. The analysis-jobs function enqueues a job and
+  processes it after responding; every stage change is written to the row so
+  clients can follow progress over Realtime, and a trigger notifies the
+  requester once the job completes or fails. Jobs left queued or running by
+  an interrupted worker are picked up again by the scheduled function.
+*/
+
+export interface AnalysisJobRow {
+  id: string
+  repo_url: string
+  force: boolean
+  attempts: number
+}
+
+// Give up on jobs that keep getting interrupted
+const MAX_ATTEMPTS = 3
+// A running job with no stage change for this long is treated as interrupted
+const STALE_JOB_MINUTES = 10
+
+export async function runAnalysisJob(client: SupabaseClient, job: AnalysisJobRow): Promise<void> {
+  const updateJob = async (fields: Record<string, unknown>) => {
+    const { error } = await client.from('analysis_jobs').update(fields).eq('id', job.id)
+    if (error) console.error(`Error updating analysis job ${job.id}:`, error)
+  }
+
+  try {
+    const repoRef = parseRepoUrl(job.repo_url)
+    if (!repoRef) throw new Error('Unsupported or invalid repository URL')
+
+    await updateJob({
+      status: 'running',
+      stage: 'fetching_repo',
+      error: null,
+      attempts: job.attempts + 1,
+      started_at: new Date().toISOString()
+    })
+
+    const analysis = await analyzeWithCache(client, repoRef, {
+      force: job.force,
+      onStage: stage => updateJob({ stage })
+    })
+
+    await updateJob({
+      status: 'completed',
+      stage: 'done',
+      analysis_id: analysis.id,
+      result: {
+        ...analysis.result,
+        repository: repoRef,
+        analysisId: analysis.id,
+        headSha: analysis.headSha,
+        cached: analysis.cached
+      },
+      completed_at: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error(`Analysis job ${job.id} failed:`, error)
+    await updateJob({
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completed_at: new Date().toISOString()
+    })
+  }
+}
+
+// Re-run jobs whose worker stopped before finishing, one at a time
+export async function recoverStaleJobs(client: SupabaseClient, limit: number): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000).toISOString()
+
+  const { data: jobs, error } = await client
+    .from('analysis_jobs')
+    .select('id, repo_url, force, attempts')
+    .in('status', ['queued', 'running'])
+    .lt('updated_at', cutoff)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  for (const job of jobs || []) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await client
+        .from('analysis_jobs')
+        .update({ status: 'failed', error: 'Analysis was interrupted too many times', completed_at: new Date().toISOString() })
+        .eq('id', job.id)
+      continue
+    }
+
+    console.log(`Resuming stale analysis job ${job.id}`)
+    await runAnalysisJob(client, job)
+  }
+
+  return jobs?.length || 0
+}
@@ -0,0 +1,125 @@
+import { decode } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import { fetchJson } from '../http.ts'
+import { ForgeAdapter, RepoCommit, RepoRef, TreeEntry } from '../types.ts'
+import { isForgeHost } from './hosts.ts'
+
+// Recursive tree listings are paginated; cap pages so huge repositories stay bounded
+const MAX_TREE_PAGES = 10
+// Gitea caps `limit` at the instance's MAX_RESPONSE_ITEMS, 50 by default
+const COMMITS_PER_PAGE = 50
+
+// GITEA_TOKEN is optional for public repositories (also works for Forgejo/Codeberg)
+function giteaHeaders(ref: RepoRef): Record<string, string> {
+  const token = isForgeHost('gitea', ref.host) ? Deno.env.get('GITEA_TOKEN') : undefined
+  return token ? { 'Authorization': `token ${token}` } : {}
+}
+
+function apiBase(ref: RepoRef): string {
+  return `https://${ref.host}/api/v1/repos/${ref.owner}/${ref.name}`
+}
+
+async function fetchDefaultBranch(ref: RepoRef): Promise<string | null> {
+  const repo = await fetchJson<{ default_branch: string }>(apiBase(ref), giteaHeaders(ref), 'Gitea API repository')
+  return repo?.data.default_branch || null
+}
+
+export const giteaAdapter: ForgeAdapter = {
+  kind: 'gitea',
+
+  async fetchTree(ref) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return { entries: [], truncated: false }
+
+    const entries: TreeEntry[] = []
+    let page = 1
+    let truncated = false
+
+    while (page <= MAX_TREE_PAGES) {
+      const result = await fetchJson<{
+        tree: Array<{ path: string; type: string; size: number; sha: string }>
+        truncated: boolean
+      }>(
+        `${apiBase(ref)}/git/trees/${encodeURIComponent(branch)}?recursive=true&per_page=1000&page=${page}`,
+        giteaHeaders(ref),
+        'Gitea API tree'
+      )
+      if (!result) break
+
+      const blobs = (result.data.tree || []).filter(entry => entry.type === 'blob')
+      blobs.forEach(entry => entries.push({ path: entry.path, size: entry.size || 0, sha: entry.sha }))
+
+      // Gitea signals further pages through `truncated`
+      truncated = Boolean(result.data.truncated)
+      if (!truncated) break
+      page++
+    }
+
+    return { entries, truncated }
+  },
+
+  async fetchFileContent(ref, entry) {
+    const blob = await fetchJson<{ content?: string; encoding?: string }>(
+      `${apiBase(ref)}/git/blobs/${entry.sha}`,
+      giteaHeaders(ref),
+      `Gitea API blob ${entry.path}`
+    )
+
+    if (blob?.data.content && blob.data.encoding === 'base64') {
+      const decodedBytes = decode(blob.data.content.replace(/\n/g, ''))
+      return new TextDecoder().decode(decodedBytes)
+    }
+
+    return null
+  },
+
+  async fetchCommitHistory(ref, maxCommits) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return { commits: [], totalCount: 0 }
+
+    const commits: RepoCommit[] = []
+    let page = 1
+    let totalCount = 0
+
+    while (commits.length < maxCommits) {
+      const result = await fetchJson<Array<{
+        commit: { message: string; author: { name: string; date: string } }
+        stats?: { additions: number; deletions: number }
+        files?: unknown[]
+      }>>(
+        `${apiBase(ref)}/commits?sha=${encodeURIComponent(branch)}&stat=true&limit=${COMMITS_PER_PAGE}&page=${page}`,
+        giteaHeaders(ref),
+        'Gitea API commits'
+      )
+      if (!result || result.data.length === 0) break
+
+      totalCount = parseInt(result.headers.get('x-total-count') || '0', 10) || totalCount
+      result.data.forEach(commit => {
+        commits.push({
+          message: commit.commit.message,
+          author: commit.commit.author.name,
+          date: commit.commit.author.date,
+          additions: commit.stats?.additions,
+          deletions: commit.stats?.deletions,
+          filesChanged: commit.files?.length
+        })
+      })
+
+      if (result.data.length < COMMITS_PER_PAGE) break
+      page++
+    }
+
+    return { commits: commits.slice(0, maxCommits), totalCount: Math.max(totalCount, commits.length) }
+  },
+
+  async fetchHeadSha(ref) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return null
+
+    const result = await fetchJson<{ commit: { id: string } }>(
+      `${apiBase(ref)}/branches/${encodeURIComponent(branch)}`,
+      giteaHeaders(ref),
+      'Gitea API branch'
+    )
+    return result?.data.commit.id || null
+  }
+}
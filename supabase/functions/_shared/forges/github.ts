@@ -0,0 +1,210 @@
+import { decode } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import { fetchJson, fetchWithExponentialBackoff } from '../http.ts'
+import { ForgeAdapter, RepoCommit, RepoRef, TreeEntry } from '../types.ts'
+import { isForgeHost } from './hosts.ts'
+
+// GITHUB_PAT is optional for public repositories but raises the rate limit considerably
+function githubToken(ref: RepoRef): string | undefined {
+  return isForgeHost('github', ref.host) ? Deno.env.get('GITHUB_PAT') : undefined
+}
+
+function githubHeaders(ref: RepoRef): Record<string, string> {
+  const token = githubToken(ref)
+  return {
+    ...(token ? { 'Authorization': `token ${token}` } : {}),
+    'User-Agent': 'VibeCoded-App',
+    'Accept': 'application/vnd.github.v3+json'
+  }
+}
+
+function apiBase(ref: RepoRef): string {
+  // GitHub Enterprise Server serves the REST API under /api/v3
+  return ref.host === 'github.com'
+    ? `https://api.github.com/repos/${ref.owner}/${ref.name}`
+    : `https://${ref.host}/api/v3/repos/${ref.owner}/${ref.name}`
+}
+
+function graphqlUrl(ref: RepoRef): string {
+  return ref.host === 'github.com' ? 'https://api.github.com/graphql' : `https://${ref.host}/api/graphql`
+}
+
+const COMMIT_HISTORY_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(first: 100, after: $cursor) {
+              totalCount
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                message
+                committedDate
+                additions
+                deletions
+                changedFilesIfAvailable
+                author { name }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+interface GitHubHistoryNode {
+  message: string
+  committedDate: string
+  additions: number
+  deletions: number
+  changedFilesIfAvailable: number | null
+  author: { name: string } | null
+}
+
+export const githubAdapter: ForgeAdapter = {
+  kind: 'github',
+
+  // Fetch the default branch's full file tree via the Git Trees API
+  async fetchTree(ref) {
+    const repo = await fetchJson<{ default_branch: string }>(apiBase(ref), githubHeaders(ref), 'GitHub API repository')
+    if (!repo) return { entries: [], truncated: false }
+
+    const tree = await fetchJson<{ tree: Array<{ path: string; type: string; size?: number; sha: string }>; truncated: boolean }>(
+      `${apiBase(ref)}/git/trees/${encodeURIComponent(repo.data.default_branch)}?recursive=1`,
+      githubHeaders(ref),
+      'GitHub API tree'
+    )
+    if (!tree) return { entries: [], truncated: false }
+
+    if (tree.data.truncated) {
+      // Very large repositories only return part of the tree; the sample is still useful
+      console.log(`Tree for ${ref.owner}/${ref.name} was truncated by GitHub`)
+    }
+
+    return {
+      entries: (tree.data.tree || [])
+        .filter(entry => entry.type === 'blob')
+        .map(entry => ({ path: entry.path, size: entry.size || 0, sha: entry.sha })),
+      truncated: Boolean(tree.data.truncated)
+    }
+  },
+
+  // Fetch a file's contents by blob SHA
+  async fetchFileContent(ref, entry: TreeEntry) {
+    const blob = await fetchJson<{ content?: string; encoding?: string }>(
+      `${apiBase(ref)}/git/blobs/${entry.sha}`,
+      githubHeaders(ref),
+      `GitHub API blob ${entry.path}`
+    )
+
+    if (blob?.data.content && blob.data.encoding === 'base64') {
+      const decodedBytes = decode(blob.data.content.replace(/\n/g, ''))
+      return new TextDecoder().decode(decodedBytes)
+    }
+
+    return null
+  },
+
+  // Commit history with per-commit diff stats via GraphQL, newest first.
+  // GraphQL requires a token, so fall back to the REST list (no diff stats) without one.
+  async fetchCommitHistory(ref, maxCommits) {
+    const token = githubToken(ref)
+    const history = token ? await fetchHistoryGraphQL(ref, token, maxCommits) : null
+    if (history) return history
+
+    const commits = await fetchCommitsREST(ref, maxCommits)
+    return { commits, totalCount: commits.length }
+  },
+
+  async fetchHeadSha(ref) {
+    const repo = await fetchJson<{ default_branch: string }>(apiBase(ref), githubHeaders(ref), 'GitHub API repository')
+    if (!repo) return null
+
+    const head = await fetchJson<{ sha: string }>(
+      `${apiBase(ref)}/commits/${encodeURIComponent(repo.data.default_branch)}`,
+      githubHeaders(ref),
+      'GitHub API head commit'
+    )
+    return head?.data.sha || null
+  }
+}
+
+async function fetchHistoryGraphQL(
+  ref: RepoRef,
+  token: string,
+  maxCommits: number
+): Promise<{ commits: RepoCommit[]; totalCount: number } | null> {
+  try {
+    const commits: RepoCommit[] = []
+    let cursor: string | null = null
+    let totalCount = 0
+
+    while (commits.length < maxCommits) {
+      const response = await fetchWithExponentialBackoff(
+        graphqlUrl(ref),
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `bearer ${token}`,
+            'User-Agent': 'VibeCoded-App',
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            query: COMMIT_HISTORY_QUERY,
+            variables: { owner: ref.owner, repo: ref.name, cursor }
+          })
+        },
+        2,
+        500
+      )
+
+      if (!response.ok) {
+        console.error('GitHub GraphQL error for commit history:', response.status, await response.text())
+        return commits.length > 0 ? { commits, totalCount } : null
+      }
+
+      const { data, errors } = await response.json()
+      const history = data?.repository?.defaultBranchRef?.target?.history
+
+      if (errors || !history) {
+        console.error('GitHub GraphQL returned no commit history:', errors)
+        return commits.length > 0 ? { commits, totalCount } : null
+      }
+
+      totalCount = history.totalCount
+      history.nodes.forEach((node: GitHubHistoryNode) => {
+        commits.push({
+          message: node.message,
+          author: node.author?.name || 'unknown',
+          date: node.committedDate,
+          additions: node.additions,
+          deletions: node.deletions,
+          filesChanged: node.changedFilesIfAvailable ?? undefined
+        })
+      })
+
+      if (!history.pageInfo.hasNextPage) break
+      cursor = history.pageInfo.endCursor
+    }
+
+    return { commits: commits.slice(0, maxCommits), totalCount }
+  } catch (error) {
+    console.error('Error fetching GitHub commit history:', error)
+    return null
+  }
+}
+
+async function fetchCommitsREST(ref: RepoRef, maxCommits: number): Promise<RepoCommit[]> {
+  const result = await fetchJson<Array<{ commit: { message: string; author: { name: string; date: string } } }>>(
+    `${apiBase(ref)}/commits?per_page=${Math.min(100, maxCommits)}`,
+    githubHeaders(ref),
+    'GitHub API commits'
+  )
+
+  return (result?.data || []).map(commit => ({
+    message: commit.commit.message,
+    author: commit.commit.author.name,
+    date: commit.commit.author.date
+  }))
+}
@@ -0,0 +1,118 @@
+import { fetchJson, fetchText } from '../http.ts'
+import { ForgeAdapter, RepoCommit, RepoRef, TreeEntry } from '../types.ts'
+import { isForgeHost } from './hosts.ts'
+
+// Tree listing is paginated at 100 entries; cap pages so huge monorepos stay bounded
+const MAX_TREE_PAGES = 50
+
+// GITLAB_TOKEN is optional for public projects on gitlab.com and self-managed instances
+function gitlabHeaders(ref: RepoRef): Record<string, string> {
+  const token = isForgeHost('gitlab', ref.host) ? Deno.env.get('GITLAB_TOKEN') : undefined
+  return token ? { 'PRIVATE-TOKEN': token } : {}
+}
+
+function apiBase(ref: RepoRef): string {
+  return `https://${ref.host}/api/v4/projects/${encodeURIComponent(`${ref.owner}/${ref.name}`)}`
+}
+
+async function fetchDefaultBranch(ref: RepoRef): Promise<string | null> {
+  const project = await fetchJson<{ default_branch: string | null }>(apiBase(ref), gitlabHeaders(ref), 'GitLab API project')
+  return project?.data.default_branch || null
+}
+
+export const gitlabAdapter: ForgeAdapter = {
+  kind: 'gitlab',
+
+  // GitLab's tree API does not report file sizes, so entries carry size 0 (unknown)
+  async fetchTree(ref) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return { entries: [], truncated: false }
+
+    const entries: TreeEntry[] = []
+    let page = 1
+    let truncated = false
+
+    while (page) {
+      const result = await fetchJson<Array<{ id: string; path: string; type: string }>>(
+        `${apiBase(ref)}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(branch)}`,
+        gitlabHeaders(ref),
+        'GitLab API tree'
+      )
+      if (!result) break
+
+      result.data
+        .filter(entry => entry.type === 'blob')
+        .forEach(entry => entries.push({ path: entry.path, size: 0, sha: entry.id }))
+
+      const nextPage = parseInt(result.headers.get('x-next-page') || '', 10)
+      if (!nextPage) break
+      if (page >= MAX_TREE_PAGES) {
+        truncated = true
+        break
+      }
+      page = nextPage
+    }
+
+    return { entries, truncated }
+  },
+
+  async fetchFileContent(ref, entry) {
+    return fetchText(
+      `${apiBase(ref)}/repository/blobs/${entry.sha}/raw`,
+      gitlabHeaders(ref),
+      `GitLab API blob ${entry.path}`
+    )
+  },
+
+  async fetchCommitHistory(ref, maxCommits) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return { commits: [], totalCount: 0 }
+
+    const commits: RepoCommit[] = []
+    let page = 1
+    let totalCount = 0
+
+    while (commits.length < maxCommits) {
+      const result = await fetchJson<Array<{
+        message: string
+        author_name: string
+        committed_date: string
+        stats?: { additions: number; deletions: number }
+      }>>(
+        `${apiBase(ref)}/repository/commits?ref_name=${encodeURIComponent(branch)}&with_stats=true&per_page=100&page=${page}`,
+        gitlabHeaders(ref),
+        'GitLab API commits'
+      )
+      if (!result || result.data.length === 0) break
+
+      // X-Total is omitted for very large repositories
+      totalCount = parseInt(result.headers.get('x-total') || '0', 10) || totalCount
+      result.data.forEach(commit => {
+        commits.push({
+          message: commit.message,
+          author: commit.author_name,
+          date: commit.committed_date,
+          additions: commit.stats?.additions,
+          deletions: commit.stats?.deletions
+        })
+      })
+
+      if (result.data.length < 100) break
+      page++
+    }
+
+    return { commits: commits.slice(0, maxCommits), totalCount: Math.max(totalCount, commits.length) }
+  },
+
+  async fetchHeadSha(ref) {
+    const branch = await fetchDefaultBranch(ref)
+    if (!branch) return null
+
+    const result = await fetchJson<{ commit: { id: string } }>(
+      `${apiBase(ref)}/repository/branches/${encodeURIComponent(branch)}`,
+      gitlabHeaders(ref),
+      'GitLab API branch'
+    )
+    return result?.data.commit.id || null
+  }
+}
@@ -0,0 +1,34 @@
+import { ForgeKind } from '../types.ts'
+
+// Public instance of each forge; self-hosted instances must be listed in its host setting
+const PUBLIC_HOSTS: Record<ForgeKind, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+  bitbucket: 'bitbucket.org',
+  gitea: 'codeberg.org'
+}
+
+const HOST_SETTINGS: Partial<Record<ForgeKind, string>> = {
+  github: 'GITHUB_HOSTS',
+  gitlab: 'GITLAB_HOSTS',
+  gitea: 'GITEA_HOSTS'
+}
+
+function configuredHosts(forge: ForgeKind): string[] {
+  const setting = HOST_SETTINGS[forge]
+  return (setting ? Deno.env.get(setting) || '' : '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+// Whether the host is the forge's public instance or one configured for it.
+// Adapters check this before attaching a token, so credentials never leave known hosts.
+export function isForgeHost(forge: ForgeKind, host: string): boolean {
+  return host === PUBLIC_HOSTS[forge] || configuredHosts(forge).includes(host)
+}
+
+export function detectForge(host: string): ForgeKind | null {
+  const forges: ForgeKind[] = ['github', 'bitbucket', 'gitlab', 'gitea']
+  return forges.find(forge => isForgeHost(forge, host)) || null
+}
@@ -0,0 +1,121 @@
+import { AnalysisStageCallback, ForgeAdapter, ForgeKind, RepoData, RepoFile, RepoRef } from '../types.ts'
+import { selectRepresentativeFiles, summarizeLanguages } from '../sampling.ts'
+import { githubAdapter } from './github.ts'
+import { gitlabAdapter } from './gitlab.ts'
+import { bitbucketAdapter } from './bitbucket.ts'
+import { giteaAdapter } from './gitea.ts'
+import { detectForge } from './hosts.ts'
+
+/*
+  Forge adapter layer
+
+  Repository URLs are resolved to a typed RepoRef and served by the matching
+  adapter. Self-hosted instances are recognised through comma-separated host
+  lists: GITHUB_HOSTS (Enterprise Server), GITLAB_HOSTS and GITEA_HOSTS.
+  Any other host is rejected, so server tokens are only ever sent to
+  github.com, gitlab.com, bitbucket.org, codeberg.org or a configured host.
+*/
+
+const ADAPTERS: Record<ForgeKind, ForgeAdapter> = {
+  github: githubAdapter,
+  gitlab: gitlabAdapter,
+  bitbucket: bitbucketAdapter,
+  gitea: giteaAdapter
+}
+
+const MANIFEST_FILES = ['package.json', 'pyproject.toml', 'requirements.txt', 'Cargo.toml', 'go.mod', 'Gemfile', 'pom.xml', 'build.gradle', 'composer.json']
+const README_FILE = /^readme(\.(md|markdown|rst|txt|adoc))?$/i
+
+export function getForgeAdapter(forge: ForgeKind): ForgeAdapter {
+  return ADAPTERS[forge]
+}
+
+// Resolve a repository URL on any supported forge
+export function parseRepoUrl(url: string): RepoRef | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+
+  if (parsed.protocol !== 'https:') return null
+
+  const host = parsed.host.toLowerCase()
+  const forge = detectForge(host)
+  if (!forge) return null
+
+  // Drop ".git", trailing slashes and GitLab's "/-/..." sub-pages
+  const path = parsed.pathname
+    .replace(/\/-\/.*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+  const segments = path.split('/').filter(Boolean)
+
+  // GitLab namespaces can nest subgroups; every other forge is owner/name
+  if (forge === 'gitlab' ? segments.length < 2 : segments.length !== 2) return null
+  if (!segments.every(segment => /^[A-Za-z0-9_.-]+$/.test(segment))) return null
+
+  const owner = segments.slice(0, -1).join('/')
+  const name = segments[segments.length - 1]
+
+  return {
+    forge,
+    host,
+    owner,
+    name,
+    url: `https://${host}/${owner}/${name}`
+  }
+}
+
+// Gather README, root manifests, a representative source sample and commit history
+export async function collectRepoData(ref: RepoRef, onStage?: AnalysisStageCallback): Promise<RepoData> {
+  const adapter = getForgeAdapter(ref.forge)
+  const maxFiles = parseInt(Deno.env.get('ANALYSIS_MAX_FILES') || '12', 10)
+  const maxTotalBytes = parseInt(Deno.env.get('ANALYSIS_MAX_BYTES') || '150000', 10)
+  const maxCommits = parseInt(Deno.env.get('ANALYSIS_MAX_COMMITS') || '1000', 10)
+
+  const [tree, history] = await Promise.all([
+    adapter.fetchTree(ref),
+    adapter.fetchCommitHistory(ref, maxCommits)
+  ])
+
+  const readmeEntry = tree.entries
+    .filter(entry => README_FILE.test(entry.path))
+    .sort((a, b) => Number(/\.md$/i.test(b.path)) - Number(/\.md$/i.test(a.path)))[0]
+  const manifests = tree.entries
+    .filter(entry => MANIFEST_FILES.includes(entry.path))
+    .slice(0, 2)
+  const sample = selectRepresentativeFiles(tree.entries, { maxFiles, maxTotalBytes })
+
+  await onStage?.('sampling_files')
+
+  const sampledEntries = [...manifests.map(entry => ({ ...entry, language: undefined as string | undefined })), ...sample]
+
+  const [readme, contents] = await Promise.all([
+    readmeEntry ? adapter.fetchFileContent(ref, readmeEntry) : Promise.resolve(null),
+    Promise.all(sampledEntries.map(async (entry): Promise<RepoFile | null> => {
+      const content = await adapter.fetchFileContent(ref, entry)
+      return content === null ? null : {
+        name: entry.path.split('/').pop() || entry.path,
+        path: entry.path,
+        content,
+        language: entry.language,
+        size: entry.size || content.length
+      }
+    }))
+  ])
+
+  const files = contents.filter((file): file is RepoFile => file !== null)
+
+  console.log(`Sampled ${files.length} of ${tree.entries.length} files and ${history.commits.length} commits from ${ref.host}/${ref.owner}/${ref.name}`)
+
+  return {
+    readme,
+    files,
+    commits: history.commits,
+    languages: summarizeLanguages(tree.entries),
+    totalFiles: tree.entries.length,
+    totalCommits: history.totalCount || history.commits.length
+  }
+}
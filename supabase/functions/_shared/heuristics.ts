@@ -0,0 +1,355 @@
+import { AnalysisIndicators, AnalysisResponse, RepoCommit, RepoData, RepoFile } from './types.ts'
+
+/*
+  Deterministic, rule-based VCI scorer
+
+  Scores the same signals the LLM prompt describes in prose: commit message
+  templating, commit size and cadence, README formatting, comment density,
+  naming genericity and formatting consistency. Each signal produces a 0-100
+  sub-score plus human-readable evidence; the final score is their weighted
+  average. Used on its own when no LLM is available and as a second opinion
+  blended with the LLM score otherwise.
+*/
+
+interface Signal {
+  score: number
+  weight: number
+  category: keyof AnalysisIndicators
+  evidence: string[]
+}
+
+const CONVENTIONAL_COMMIT = /^(feat|fix|chore|docs|refactor|test|tests|style|perf|build|ci|revert)(\([^)]+\))?!?: /i
+const GENERIC_COMMIT = /^(initial commit|first commit|add files via upload|update [\w./-]+|create [\w./-]+|delete [\w./-]+)$/i
+const CASUAL_COMMIT = /\b(wip|oops|typo|lol|ugh|hmm|asdf|argh|idk|stuff|again|finally|maybe|temp)\b|!!|\?\?|:\)|:\(/i
+
+const STANDARD_README_SECTIONS = /^#{1,3}\s*(?:[\p{Extended_Pictographic}\uFE0F\u200D]+\s*)?(features|installation|getting started|usage|tech stack|built with|contributing|license|prerequisites|project structure|roadmap|acknowledg\w*|deployment|configuration)\b/gimu
+const EMOJI_HEADING = /^#{1,6}\s*\p{Extended_Pictographic}/gmu
+const FIRST_PERSON = /\b(i|i'm|i've|my|me)\b/gi
+const INFORMAL_TEXT = /\b(hacky|honestly|kinda|gonna|wanna|todo|fixme|lol|wip)\b/gi
+
+const GENERIC_IDENTIFIERS = new Set([
+  'data', 'result', 'results', 'item', 'items', 'value', 'values', 'temp', 'tmp', 'obj',
+  'response', 'res', 'info', 'helper', 'helpers', 'utils', 'util', 'handler', 'callback',
+  'handleclick', 'handlechange', 'handlesubmit', 'fetchdata', 'processdata', 'getdata',
+  'element', 'input', 'output', 'config', 'options', 'params', 'payload', 'content'
+])
+
+const SOURCE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs|py|rb|go|rs|java|kt|swift|c|cc|cpp|h|hpp|cs|php|scala|vue|svelte|lua|dart|ex|exs|sh)$/i
+const HASH_COMMENT_EXTENSIONS = /\.(py|rb|sh|ex|exs)$/i
+
+// Score a repository from its commits, README and sampled files
+export function scoreRepositoryHeuristically(repoData: RepoData): AnalysisResponse {
+  const sourceFiles = (repoData.files || []).filter(file => SOURCE_EXTENSIONS.test(file.path))
+
+  const signals = [
+    scoreCommitMessages(repoData.commits || []),
+    scoreCommitCadence(repoData.commits || []),
+    scoreReadme(repoData.readme || null),
+    scoreSourceCode(sourceFiles)
+  ].filter((signal): signal is Signal => signal !== null)
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0)
+  const vciScore = totalWeight > 0
+    ? Math.round(signals.reduce((sum, signal) => sum + signal.score * signal.weight, 0) / totalWeight)
+    : 50
+
+  const indicators: AnalysisIndicators = {
+    codePatterns: [],
+    commitPatterns: [],
+    documentationPatterns: []
+  }
+  signals.forEach(signal => indicators[signal.category].push(...signal.evidence))
+
+  // More independent evidence means more confidence, but rules never match an expert read
+  const evidenceVolume = Math.min(1, (repoData.commits?.length || 0) / 30) + Math.min(1, sourceFiles.length / 10)
+  const confidence = Math.round(Math.min(75, 20 + signals.length * 8 + evidenceVolume * 10))
+
+  return {
+    vciScore: clampScore(vciScore),
+    analysis: describeResult(vciScore, signals, repoData.commits?.length || 0, sourceFiles.length),
+    confidence,
+    indicators
+  }
+}
+
+// Combine an LLM verdict with the heuristic second opinion
+export function blendAnalyses(
+  llmResult: AnalysisResponse,
+  heuristicResult: AnalysisResponse,
+  heuristicWeight: number
+): AnalysisResponse {
+  const weight = Math.max(0, Math.min(1, heuristicWeight))
+  const vciScore = Math.round(llmResult.vciScore * (1 - weight) + heuristicResult.vciScore * weight)
+
+  // Strong disagreement between the two scorers lowers confidence
+  const disagreement = Math.abs(llmResult.vciScore - heuristicResult.vciScore)
+  const baseConfidence = llmResult.confidence * (1 - weight) + heuristicResult.confidence * weight
+  const confidence = Math.round(baseConfidence - (disagreement > 30 ? 15 : disagreement > 15 ? 5 : 0))
+
+  return {
+    vciScore: clampScore(vciScore),
+    analysis: llmResult.analysis,
+    confidence: clampScore(confidence),
+    indicators: {
+      codePatterns: mergeUnique(llmResult.indicators?.codePatterns, heuristicResult.indicators.codePatterns),
+      commitPatterns: mergeUnique(llmResult.indicators?.commitPatterns, heuristicResult.indicators.commitPatterns),
+      documentationPatterns: mergeUnique(llmResult.indicators?.documentationPatterns, heuristicResult.indicators.documentationPatterns)
+    },
+    sources: {
+      llm: llmResult.vciScore,
+      heuristic: heuristicResult.vciScore
+    }
+  }
+}
+
+function scoreCommitMessages(commits: RepoCommit[]): Signal | null {
+  if (commits.length === 0) return null
+
+  const subjects = commits.map(commit => commit.message.split('\n')[0].trim())
+  const conventional = share(subjects, subject => CONVENTIONAL_COMMIT.test(subject))
+  const generic = share(subjects, subject => GENERIC_COMMIT.test(subject))
+  const casual = share(commits, commit => CASUAL_COMMIT.test(commit.message) || isTerseLowercase(commit.message))
+  const bulletBodies = share(commits, commit => /\n\s*[-*] \S/.test(commit.message))
+
+  const score = 50 + conventional * 35 + bulletBodies * 25 + generic * 15 - casual * 45
+  const evidence: string[] = []
+
+  if (conventional >= 0.5) evidence.push(`${percent(conventional)} of commits use Conventional Commit prefixes`)
+  if (bulletBodies >= 0.3) evidence.push(`${percent(bulletBodies)} of commits have bullet-list bodies`)
+  if (generic >= 0.3) evidence.push(`${percent(generic)} of commits use default messages like "Update file"`)
+  if (casual >= 0.2) evidence.push(`${percent(casual)} of commits have casual or terse messages`)
+
+  return { score: clampScore(score), weight: 0.3, category: 'commitPatterns', evidence }
+}
+
+function scoreCommitCadence(commits: RepoCommit[]): Signal | null {
+  if (commits.length === 0) return null
+
+  let score = 50
+  const evidence: string[] = []
+
+  if (commits.length <= 3) {
+    score += 20
+    evidence.push(`Very short history (${commits.length} commit${commits.length !== 1 ? 's' : ''})`)
+  }
+
+  // Lines changed per commit, when diff stats are available
+  const withStats = commits.filter(commit => commit.additions !== undefined)
+  if (withStats.length > 0) {
+    const averageChurn = withStats.reduce((sum, commit) => sum + (commit.additions || 0) + (commit.deletions || 0), 0) / withStats.length
+    if (averageChurn > 800) {
+      score += 25
+      evidence.push(`Large commits averaging ${Math.round(averageChurn)} lines changed`)
+    } else if (averageChurn > 300) {
+      score += 10
+      evidence.push(`Sizeable commits averaging ${Math.round(averageChurn)} lines changed`)
+    } else if (averageChurn < 60) {
+      score -= 20
+      evidence.push(`Small iterative commits averaging ${Math.round(averageChurn)} lines changed`)
+    }
+  }
+
+  // Gaps between consecutive commits
+  const times = commits
+    .map(commit => new Date(commit.date).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b)
+
+  if (times.length >= 5) {
+    const gapsInHours = times.slice(1).map((time, index) => (time - times[index]) / 3600000)
+    const medianGap = median(gapsInHours)
+    if (medianGap < 2) {
+      score -= 15
+      evidence.push('Frequent commits in short bursts')
+    } else if (medianGap > 72) {
+      score += 10
+      evidence.push(`Infrequent commits (median gap ${Math.round(medianGap / 24)} days)`)
+    }
+  }
+
+  return { score: clampScore(score), weight: 0.2, category: 'commitPatterns', evidence }
+}
+
+function scoreReadme(readme: string | null): Signal {
+  if (!readme || readme.trim().length === 0) {
+    return { score: 35, weight: 0.1, category: 'documentationPatterns', evidence: ['No README found'] }
+  }
+
+  const lines = readme.split('\n').filter(line => line.trim().length > 0)
+  const standardSections = (readme.match(STANDARD_README_SECTIONS) || []).length
+  const emojiHeadings = (readme.match(EMOJI_HEADING) || []).length
+  const badges = (readme.match(/!\[[^\]]*\]\(https:\/\/img\.shields\.io/g) || []).length
+  const bulletShare = share(lines, line => /^\s*([-*]|\d+\.) /.test(line))
+  const words = readme.split(/\s+/).length
+  const firstPersonRate = (readme.match(FIRST_PERSON) || []).length / Math.max(words, 1)
+  const informal = (readme.match(INFORMAL_TEXT) || []).length
+
+  let score = 40 + Math.min(standardSections, 6) * 5
+  const evidence: string[] = []
+
+  if (standardSections >= 4) evidence.push(`README follows a template (${standardSections} standard sections)`)
+  if (emojiHeadings >= 3) {
+    score += 15
+    evidence.push(`${emojiHeadings} emoji-prefixed headings`)
+  }
+  if (badges >= 3) {
+    score += 5
+    evidence.push(`${badges} shield badges`)
+  }
+  if (bulletShare > 0.4) {
+    score += 10
+    evidence.push(`${percent(bulletShare)} of README lines are list items`)
+  }
+  if (firstPersonRate > 0.01) {
+    score -= 15
+    evidence.push('Personal first-person voice in README')
+  }
+  if (informal > 0) {
+    score -= 5
+    evidence.push('Informal language or TODO notes in README')
+  }
+
+  return { score: clampScore(score), weight: 0.25, category: 'documentationPatterns', evidence }
+}
+
+function scoreSourceCode(files: RepoFile[]): Signal | null {
+  if (files.length === 0) return null
+
+  let codeLines = 0
+  let commentLines = 0
+  let trailingWhitespace = 0
+  let leftoverMarkers = 0
+  let declarations = 0
+  let documentedDeclarations = 0
+  const identifiers: string[] = []
+  const indentStyles = new Set<string>()
+
+  files.forEach(file => {
+    const lines = file.content.split('\n')
+    const hashComments = HASH_COMMENT_EXTENSIONS.test(file.path)
+    let inBlockComment = false
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim()
+      if (trimmed.length === 0) return
+      codeLines++
+
+      if (inBlockComment || trimmed.startsWith('/*') || trimmed.startsWith('*') || trimmed.startsWith('//') || (hashComments && trimmed.startsWith('#'))) {
+        commentLines++
+      }
+      if (trimmed.startsWith('/*')) inBlockComment = !trimmed.includes('*/')
+      else if (inBlockComment && trimmed.includes('*/')) inBlockComment = false
+
+      if (/\s+$/.test(line)) trailingWhitespace++
+      if (/\b(TODO|FIXME|HACK|XXX)\b/.test(line)) leftoverMarkers++
+
+      const indent = line.match(/^(\t+| +)/)?.[1]
+      if (indent) indentStyles.add(indent.startsWith('\t') ? 'tab' : indent.length % 4 === 0 && indent.length % 8 !== 0 ? 'space4' : 'space2')
+
+      const declaration = trimmed.match(/^(?:export\s+)?(?:async\s+)?(?:function|def|fn|func)\s+([A-Za-z_]\w*)/)
+      if (declaration) {
+        declarations++
+        const previous = lines[index - 1]?.trim() || ''
+        const next = lines[index + 1]?.trim() || ''
+        if (previous.endsWith('*/') || previous.startsWith('///') || next.startsWith('"""')) {
+          documentedDeclarations++
+        }
+      }
+
+      const binding = trimmed.match(/^(?:export\s+)?(?:const|let|var|function|def|fn|func)\s+([A-Za-z_]\w*)/)
+      if (binding) identifiers.push(binding[1])
+    })
+  })
+
+  let score = 50
+  const evidence: string[] = []
+
+  const commentDensity = commentLines / Math.max(codeLines, 1)
+  if (commentDensity > 0.25) {
+    score += 15
+    evidence.push(`High comment density (${percent(commentDensity)} of lines)`)
+  } else if (commentDensity < 0.05) {
+    score -= 10
+    evidence.push(`Sparse comments (${percent(commentDensity)} of lines)`)
+  }
+
+  if (declarations >= 3) {
+    const docCoverage = documentedDeclarations / declarations
+    if (docCoverage > 0.6) {
+      score += 15
+      evidence.push(`${percent(docCoverage)} of functions have doc comments`)
+    }
+  }
+
+  if (identifiers.length >= 5) {
+    const genericShare = share(identifiers, name => GENERIC_IDENTIFIERS.has(name.toLowerCase()))
+    if (genericShare > 0.25) {
+      score += 15
+      evidence.push(`Generic naming (${percent(genericShare)} of identifiers like "data" or "result")`)
+    } else if (genericShare < 0.05) {
+      score -= 5
+      evidence.push('Specific, domain-flavoured identifiers')
+    }
+  }
+
+  if (indentStyles.size > 1 || trailingWhitespace / Math.max(codeLines, 1) > 0.05) {
+    score -= 15
+    evidence.push('Inconsistent indentation or whitespace across files')
+  } else if (codeLines > 200) {
+    score += 5
+    evidence.push('Uniform formatting across all sampled files')
+  }
+
+  if (leftoverMarkers >= 3) {
+    score -= 10
+    evidence.push(`${leftoverMarkers} TODO/FIXME/HACK markers left in code`)
+  }
+
+  return { score: clampScore(score), weight: 0.35, category: 'codePatterns', evidence }
+}
+
+function describeResult(score: number, signals: Signal[], commitCount: number, fileCount: number): string {
+  const label = score >= 80 ? 'predominantly AI-generated'
+    : score >= 60 ? 'heavily AI-assisted'
+    : score >= 40 ? 'a hybrid of AI assistance and hand-written code'
+    : 'mostly human-written'
+
+  const strongest = [...signals]
+    .sort((a, b) => Math.abs(b.score - 50) * b.weight - Math.abs(a.score - 50) * a.weight)
+    .find(signal => signal.evidence.length > 0)
+
+  const scope = `${commitCount} commit${commitCount !== 1 ? 's' : ''} and ${fileCount} source file${fileCount !== 1 ? 's' : ''}`
+  return `Rule-based analysis of ${scope} suggests this repository is ${label}.` +
+    (strongest ? ` Strongest signal: ${strongest.evidence[0]}.` : '')
+}
+
+function isTerseLowercase(message: string): boolean {
+  const subject = message.split('\n')[0].trim()
+  return subject.length > 0 &&
+    !CONVENTIONAL_COMMIT.test(subject) &&
+    subject === subject.toLowerCase() &&
+    subject.split(/\s+/).length <= 3
+}
+
+function share<T>(items: T[], predicate: (item: T) => boolean): number {
+  if (items.length === 0) return 0
+  return items.filter(predicate).length / items.length
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)))
+}
+
+function mergeUnique(primary: string[] = [], secondary: string[] = []): string[] {
+  return [...new Set([...primary, ...secondary])]
+}
@@ -0,0 +1,111 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Exponential backoff helper function
+export async function fetchWithExponentialBackoff(
+  url: string,
+  options: RequestInit,
+  maxRetries: number = 3,
+  initialDelay: number = 1000
+): Promise<Response> {
+  let lastError: Error | null = null;
+  
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      const response = await fetch(url, options);
+      
+      // If successful or client error (4xx except 429), return immediately
+      if (response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429)) {
+        return response;
+      }
+      
+      // If it's a rate limit (429) or server error (5xx), retry with backoff
+      if (response.status === 429 || response.status >= 500) {
+        if (attempt === maxRetries) {
+          // Last attempt failed, return the response
+          return response;
+        }
+        
+        // Calculate exponential backoff delay
+        const delay = initialDelay * Math.pow(2, attempt);
+        const jitter = Math.random() * 0.1 * delay; // Add 10% jitter
+        const totalDelay = delay + jitter;
+        
+        console.log(`Request failed with status ${response.status}, retrying in ${Math.round(totalDelay)}ms (attempt ${attempt + 1}/${maxRetries + 1})`);
+        
+        // Wait before retrying
+        await new Promise(resolve => setTimeout(resolve, totalDelay));
+        continue;
+      }
+      
+      // For other status codes, return the response
+      return response;
+      
+    } catch (error) {
+      lastError = error as Error;
+      
+      if (attempt === maxRetries) {
+        // Last attempt failed, throw the error
+        throw lastError;
+      }
+      
+      // Calculate exponential backoff delay for network errors
+      const delay = initialDelay * Math.pow(2, attempt);
+      const jitter = Math.random() * 0.1 * delay;
+      const totalDelay = delay + jitter;
+      
+      console.log(`Network error occurred, retrying in ${Math.round(totalDelay)}ms (attempt ${attempt + 1}/${maxRetries + 1}):`, error.message);
+      
+      // Wait before retrying
+      await new Promise(resolve => setTimeout(resolve, totalDelay));
+    }
+  }
+  
+  // This should never be reached, but just in case
+  throw lastError || new Error('Max retries exceeded');
+}
+
+// GET a JSON resource with retries; logs and returns null on failure
+export async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string>,
+  label: string
+): Promise<{ data: T; headers: Headers } | null> {
+  try {
+    const response = await fetchWithExponentialBackoff(url, { headers }, 2, 500)
+
+    if (!response.ok) {
+      console.error(`${label} error:`, response.status, await response.text())
+      return null
+    }
+
+    return { data: await response.json() as T, headers: response.headers }
+  } catch (error) {
+    console.error(`Error fetching ${label}:`, error)
+    return null
+  }
+}
+
+// GET a raw text resource with retries; logs and returns null on failure
+export async function fetchText(
+  url: string,
+  headers: Record<string, string>,
+  label: string
+): Promise<string | null> {
+  try {
+    const response = await fetchWithExponentialBackoff(url, { headers }, 2, 500)
+
+    if (!response.ok) {
+      console.error(`${label} error:`, response.status, await response.text())
+      return null
+    }
+
+    return await response.text()
+  } catch (error) {
+    console.error(`Error fetching ${label}:`, error)
+    return null
+  }
+}
@@ -0,0 +1,210 @@
+import { fetchWithExponentialBackoff } from './http.ts'
+
+/*
+  LLM provider abstraction
+
+  The provider is chosen with LLM_PROVIDER (defaults to `openai`):
+    - openai     OPENAI_API_KEY, optional OPENAI_BASE_URL
+    - anthropic  ANTHROPIC_API_KEY
+    - azure      AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT,
+                 optional AZURE_OPENAI_API_VERSION
+    - local      LOCAL_LLM_BASE_URL (any OpenAI-compatible server, e.g. Ollama or
+                 llama.cpp), optional LOCAL_LLM_API_KEY
+
+  LLM_MODEL overrides the provider's default model.
+*/
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'azure' | 'local'
+
+export interface LLMCompletionRequest {
+  system: string
+  user: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  complete(request: LLMCompletionRequest): Promise<string>
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-haiku-20240307',
+  azure: 'gpt-35-turbo',
+  local: 'llama3',
+}
+
+// Build the provider configured by the environment
+export function createLLMProviderFromEnv(): LLMProvider {
+  const name = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase() as LLMProviderName
+  const model = Deno.env.get('LLM_MODEL') || DEFAULT_MODELS[name]
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = requireEnv('OPENAI_API_KEY', 'OpenAI API key not configured')
+      const baseUrl = Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1'
+      return createOpenAICompatibleProvider('openai', model, `${trimSlash(baseUrl)}/chat/completions`, {
+        'Authorization': `Bearer ${apiKey}`,
+      })
+    }
+
+    case 'azure': {
+      const endpoint = requireEnv('AZURE_OPENAI_ENDPOINT', 'Azure OpenAI endpoint not configured')
+      const apiKey = requireEnv('AZURE_OPENAI_API_KEY', 'Azure OpenAI API key not configured')
+      const deployment = Deno.env.get('AZURE_OPENAI_DEPLOYMENT') || model
+      const apiVersion = Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-02-01'
+      const url = `${trimSlash(endpoint)}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`
+      return createOpenAICompatibleProvider('azure', deployment, url, {
+        'api-key': apiKey,
+      })
+    }
+
+    case 'local': {
+      const baseUrl = requireEnv('LOCAL_LLM_BASE_URL', 'Local LLM base URL not configured')
+      const apiKey = Deno.env.get('LOCAL_LLM_API_KEY')
+      return createOpenAICompatibleProvider('local', model, `${trimSlash(baseUrl)}/chat/completions`,
+        apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        // Local inference can be slow to warm up; fewer, longer-spaced retries
+        { maxRetries: 1, initialDelay: 3000 }
+      )
+    }
+
+    case 'anthropic': {
+      const apiKey = requireEnv('ANTHROPIC_API_KEY', 'Anthropic API key not configured')
+      return createAnthropicProvider(model, apiKey)
+    }
+
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
+
+// Chat Completions API shared by OpenAI, Azure OpenAI and local servers
+function createOpenAICompatibleProvider(
+  name: LLMProviderName,
+  model: string,
+  url: string,
+  authHeaders: Record<string, string>,
+  retry: { maxRetries: number; initialDelay: number } = { maxRetries: 3, initialDelay: 1000 }
+): LLMProvider {
+  return {
+    name,
+    model,
+    async complete({ system, user, temperature = 0.3, maxTokens = 1000 }) {
+      const response = await fetchWithExponentialBackoff(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...authHeaders,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user }
+            ],
+            temperature,
+            max_tokens: maxTokens
+          })
+        },
+        retry.maxRetries,
+        retry.initialDelay
+      )
+
+      if (!response.ok) {
+        const errorData = await response.text()
+        console.error(`${name} API error:`, errorData)
+        throw new Error(`${name} API error: ${response.status} - ${errorData}`)
+      }
+
+      const data = await response.json()
+      const content = data.choices?.[0]?.message?.content
+
+      if (!content) {
+        throw new Error(`No response from ${name}`)
+      }
+
+      return content
+    }
+  }
+}
+
+// Anthropic Messages API
+function createAnthropicProvider(model: string, apiKey: string): LLMProvider {
+  return {
+    name: 'anthropic',
+    model,
+    async complete({ system, user, temperature = 0.3, maxTokens = 1000 }) {
+      const response = await fetchWithExponentialBackoff(
+        'https://api.anthropic.com/v1/messages',
+        {
+          method: 'POST',
+          headers: {
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            system,
+            messages: [
+              { role: 'user', content: user }
+            ],
+            temperature,
+            max_tokens: maxTokens
+          })
+        },
+        3,
+        1000
+      )
+
+      if (!response.ok) {
+        const errorData = await response.text()
+        console.error('anthropic API error:', errorData)
+        throw new Error(`anthropic API error: ${response.status} - ${errorData}`)
+      }
+
+      const data = await response.json()
+      const content = data.content
+        ?.filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('')
+
+      if (!content) {
+        throw new Error('No response from anthropic')
+      }
+
+      return content
+    }
+  }
+}
+
+// Pull the JSON object out of a completion that may be wrapped in prose or code fences
+export function extractJsonObject(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+
+  if (start === -1 || end <= start) {
+    return candidate.trim()
+  }
+
+  return candidate.slice(start, end + 1)
+}
+
+function requireEnv(key: string, message: string): string {
+  const value = Deno.env.get(key)
+  if (!value) {
+    throw new Error(message)
+  }
+  return value
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
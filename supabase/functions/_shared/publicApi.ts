@@ -0,0 +1,242 @@
+/*
+  Public API resource shapes and helpers
+
+  Resources mirror the app's transformProjectFromDB, transformCommentFromDB and
+  transformUserFromDB shapes (camelCase, same defaults) so dashboards can use the
+  same field names as the web client. Dates are ISO 8601 strings, and fields that
+  only make sense inside the app (prompt logs, development notes, edit history)
+  are left out.
+*/
+
+export const API_VERSION = 'v1'
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export const apiCorsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, retry-after',
+}
+
+export interface ApiProject {
+  id: string
+  title: string
+  description: string
+  repoName: string
+  repository?: { forge: string; host: string; owner: string; name: string; url: string }
+  liveUrl: string | null
+  screenshots: string[]
+  technologies: string[]
+  tags: string[]
+  aiTools: { name: string; usage?: string; percentage?: number }[]
+  vciScore: number
+  communityVciScore: number | null
+  communityVciVoteCount: number
+  confidence: string | null
+  submittedBy: string
+  submittedAt: string
+  upvotes: number
+  downvotes: number
+  commentCount: number
+  isVerified: boolean
+  lastAnalyzedAt: string | null
+  url: string // Project page in the web app
+}
+
+export interface ApiComment {
+  id: string
+  projectId: string
+  parentId: string | null
+  author: string
+  content: string
+  createdAt: string
+  editedAt: string | null
+  isDeleted: boolean
+  upvotes: number
+  downvotes: number
+}
+
+export interface ApiUser {
+  username: string
+  avatar: string | null
+  karma: number
+  projectsSubmitted: number
+  joinedAt: string
+  specialization: string | null
+  aiToolsUsed: string[]
+  followerCount: number
+  followingCount: number
+}
+
+// Columns read from the database; only the fields the API exposes are listed
+export interface ProjectRow {
+  id: string
+  title: string
+  description: string | null
+  repo_name: string | null
+  repo_url: string | null
+  repo_forge: string | null
+  repo_host: string | null
+  repo_owner: string | null
+  live_url: string | null
+  screenshots: string[] | null
+  technologies: string[] | null
+  tags: string[] | null
+  ai_tools: (string | { name: string; usage?: string; percentage?: number })[] | null
+  vci_score: number | null
+  hot_score: number
+  wilson_score: number
+  community_vci_score: number | null
+  community_vci_vote_count: number | null
+  confidence: string | null
+  submitted_at: string | null
+  created_at: string
+  upvotes: number | null
+  downvotes: number | null
+  comment_count: number | null
+  is_verified: boolean | null
+  last_analyzed_at: string | null
+  profiles?: { username: string } | null
+}
+
+export interface CommentRow {
+  id: string
+  project_id: string
+  parent_id: string | null
+  content: string
+  created_at: string
+  edited_at: string | null
+  deleted_at: string | null
+  upvotes: number | null
+  downvotes: number | null
+  profiles?: { username: string } | null
+}
+
+export interface ProfileRow {
+  username: string
+  avatar_url: string | null
+  karma: number | null
+  projects_submitted: number | null
+  joined_at: string | null
+  created_at: string
+  specialization: string | null
+  ai_tools_used: string[] | null
+  follower_count: number | null
+  following_count: number | null
+}
+
+export function toApiProject(dbProject: ProjectRow, siteUrl: string): ApiProject {
+  return {
+    id: dbProject.id,
+    title: dbProject.title,
+    description: dbProject.description || '',
+    repoName: dbProject.repo_name || '',
+    repository: dbProject.repo_url && dbProject.repo_forge
+      ? {
+        forge: dbProject.repo_forge,
+        host: dbProject.repo_host || '',
+        owner: dbProject.repo_owner || '',
+        name: dbProject.repo_name || '',
+        url: dbProject.repo_url
+      }
+      : undefined,
+    liveUrl: dbProject.live_url || null,
+    screenshots: dbProject.screenshots || [],
+    technologies: dbProject.technologies || [],
+    tags: dbProject.tags || [],
+    aiTools: (dbProject.ai_tools || []).map(tool => typeof tool === 'string' ? { name: tool } : tool),
+    vciScore: dbProject.vci_score || 50,
+    communityVciScore: dbProject.community_vci_score ?? null,
+    communityVciVoteCount: dbProject.community_vci_vote_count || 0,
+    confidence: dbProject.confidence || null,
+    submittedBy: dbProject.profiles?.username || 'unknown',
+    submittedAt: new Date(dbProject.submitted_at || dbProject.created_at).toISOString(),
+    upvotes: dbProject.upvotes || 0,
+    downvotes: dbProject.downvotes || 0,
+    commentCount: dbProject.comment_count || 0,
+    isVerified: dbProject.is_verified || false,
+    lastAnalyzedAt: dbProject.last_analyzed_at ? new Date(dbProject.last_analyzed_at).toISOString() : null,
+    url: `${siteUrl}/project/${dbProject.id}`
+  }
+}
+
+export function toApiComment(dbComment: CommentRow): ApiComment {
+  const isDeleted = Boolean(dbComment.deleted_at)
+
+  return {
+    id: dbComment.id,
+    projectId: dbComment.project_id,
+    parentId: dbComment.parent_id || null,
+    // Deleted comments no longer show who wrote them
+    author: isDeleted ? '[deleted]' : dbComment.profiles?.username || 'unknown',
+    content: isDeleted ? '' : dbComment.content,
+    createdAt: new Date(dbComment.created_at).toISOString(),
+    editedAt: dbComment.edited_at ? new Date(dbComment.edited_at).toISOString() : null,
+    isDeleted,
+    upvotes: dbComment.upvotes || 0,
+    downvotes: dbComment.downvotes || 0
+  }
+}
+
+export function toApiUser(dbUser: ProfileRow): ApiUser {
+  return {
+    username: dbUser.username,
+    avatar: dbUser.avatar_url || null,
+    karma: dbUser.karma || 0,
+    projectsSubmitted: dbUser.projects_submitted || 0,
+    joinedAt: new Date(dbUser.joined_at || dbUser.created_at).toISOString(),
+    specialization: dbUser.specialization || null,
+    aiToolsUsed: dbUser.ai_tools_used || [],
+    followerCount: dbUser.follower_count || 0,
+    followingCount: dbUser.following_count || 0
+  }
+}
+
+// Opaque keyset cursor: the sort column value and id of the last item on the page
+export interface Cursor {
+  value: string | number
+  id: string
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify([cursor.value, cursor.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+export function decodeCursor(raw: string): Cursor | null {
+  try {
+    const [value, id] = JSON.parse(atob(raw.replace(/-/g, '+').replace(/_/g, '/')))
+    if ((typeof value !== 'string' && typeof value !== 'number') || typeof id !== 'string') return null
+    return { value, id }
+  } catch {
+    return null
+  }
+}
+
+// Page size from ?limit=, clamped to 1..MAX_PAGE_SIZE
+export function parseLimit(params: URLSearchParams): number {
+  const limit = parseInt(params.get('limit') || '', 10)
+  return Number.isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...apiCorsHeaders, ...headers, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+export function errorResponse(status: number, message: string, headers: Record<string, string> = {}): Response {
+  return jsonResponse({ error: message }, status, headers)
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,180 @@
+import { TreeEntry } from './types.ts'
+
+/*
+  Representative source file sampling
+
+  Picks a bounded set of files from a repository tree so analysis sees real
+  code in every significant language, not just the README and a manifest.
+  Slots are shared out between languages by byte volume (like GitHub's
+  language bar), and within a language files are taken round-robin across
+  top-level directories so each package of a monorepo is represented.
+  Forges that do not report file sizes (size 0) are treated as if every
+  file had a typical size, so the language share becomes a file count.
+*/
+
+export interface SampleOptions {
+  maxFiles: number
+  maxTotalBytes: number
+}
+
+export interface SampledEntry extends TreeEntry {
+  language: string
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', rb: 'Ruby', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', swift: 'Swift',
+  c: 'C', h: 'C', cc: 'C++', cpp: 'C++', hpp: 'C++', cs: 'C#', php: 'PHP', scala: 'Scala',
+  vue: 'Vue', svelte: 'Svelte', lua: 'Lua', dart: 'Dart', ex: 'Elixir', exs: 'Elixir', sh: 'Shell'
+}
+
+const EXCLUDED_DIRECTORIES = /(^|\/)(node_modules|vendor|third_party|dist|build|out|target|coverage|\.git|\.next|\.nuxt|__pycache__|venv|\.venv|Pods|generated|__generated__)\//
+const EXCLUDED_FILES = /(\.min\.(js|css)|\.d\.ts|\.pb\.go|_pb2\.py|\.generated\.\w+|\.lock)$/
+
+const MONOREPO_CONTAINERS = /^(packages|apps|libs|services|crates|modules|plugins)$/
+
+const MIN_FILE_BYTES = 200
+const MAX_FILE_BYTES = 100_000
+const ASSUMED_FILE_BYTES = 4_000
+
+// Language name for a path, or null when it is not a recognised source file
+export function detectLanguage(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return LANGUAGES[extension] || null
+}
+
+// Bytes of source code per language across the whole tree
+export function summarizeLanguages(entries: TreeEntry[]): Record<string, number> {
+  const totals: Record<string, number> = {}
+  entries.forEach(entry => {
+    const language = detectLanguage(entry.path)
+    if (language && !EXCLUDED_DIRECTORIES.test(entry.path)) {
+      totals[language] = (totals[language] || 0) + effectiveSize(entry)
+    }
+  })
+  return totals
+}
+
+// Choose a representative, deterministic sample of source files
+export function selectRepresentativeFiles(entries: TreeEntry[], options: SampleOptions): SampledEntry[] {
+  const candidates: SampledEntry[] = entries
+    .filter(entry =>
+      (entry.size === 0 || (entry.size >= MIN_FILE_BYTES && entry.size <= MAX_FILE_BYTES)) &&
+      !EXCLUDED_DIRECTORIES.test(entry.path) &&
+      !EXCLUDED_FILES.test(entry.path)
+    )
+    .map(entry => ({ ...entry, language: detectLanguage(entry.path) || '' }))
+    .filter(entry => entry.language !== '')
+
+  if (candidates.length === 0) return []
+
+  // Group candidates by language
+  const byLanguage = new Map<string, SampledEntry[]>()
+  candidates.forEach(entry => {
+    const group = byLanguage.get(entry.language) || []
+    group.push(entry)
+    byLanguage.set(entry.language, group)
+  })
+
+  const slots = allocateSlots(byLanguage, options.maxFiles)
+  const picked: SampledEntry[] = []
+
+  slots.forEach((count, language) => {
+    picked.push(...pickAcrossDirectories(byLanguage.get(language) || [], count))
+  })
+
+  // Respect the byte budget, keeping the earliest (highest priority) picks
+  const sample: SampledEntry[] = []
+  let totalBytes = 0
+  picked.forEach(entry => {
+    if (totalBytes + effectiveSize(entry) <= options.maxTotalBytes) {
+      sample.push(entry)
+      totalBytes += effectiveSize(entry)
+    }
+  })
+
+  return sample
+}
+
+// Split file slots between languages in proportion to their byte share
+function allocateSlots(byLanguage: Map<string, SampledEntry[]>, maxFiles: number): Map<string, number> {
+  const totals = [...byLanguage.entries()]
+    .map(([language, files]) => ({
+      language,
+      bytes: files.reduce((sum, file) => sum + effectiveSize(file), 0),
+      available: files.length
+    }))
+    .sort((a, b) => b.bytes - a.bytes || a.language.localeCompare(b.language))
+
+  const totalBytes = totals.reduce((sum, total) => sum + total.bytes, 0)
+  const slots = new Map<string, number>()
+  let remaining = maxFiles
+
+  // Every language with at least 5% of the code gets one file
+  totals.forEach(total => {
+    if (remaining > 0 && total.bytes / totalBytes >= 0.05) {
+      slots.set(total.language, 1)
+      remaining--
+    }
+  })
+
+  // Hand out the rest by largest remainder of the proportional share
+  while (remaining > 0) {
+    const next = totals
+      .filter(total => (slots.get(total.language) || 0) < total.available)
+      .map(total => ({
+        language: total.language,
+        deficit: (total.bytes / totalBytes) * maxFiles - (slots.get(total.language) || 0)
+      }))
+      .sort((a, b) => b.deficit - a.deficit)[0]
+
+    if (!next) break
+    slots.set(next.language, (slots.get(next.language) || 0) + 1)
+    remaining--
+  }
+
+  return slots
+}
+
+// Take files round-robin across top-level directories, most typical sizes first
+function pickAcrossDirectories(files: SampledEntry[], count: number): SampledEntry[] {
+  const sizes = files.map(effectiveSize).sort((a, b) => a - b)
+  const medianSize = sizes[Math.floor(sizes.length / 2)]
+
+  const byDirectory = new Map<string, SampledEntry[]>()
+  files.forEach(file => {
+    const directory = directoryKey(file.path)
+    const group = byDirectory.get(directory) || []
+    group.push(file)
+    byDirectory.set(directory, group)
+  })
+
+  const queues = [...byDirectory.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .map(([, group]) => group.sort((a, b) =>
+      Math.abs(effectiveSize(a) - medianSize) - Math.abs(effectiveSize(b) - medianSize) || a.path.localeCompare(b.path)
+    ))
+
+  const picked: SampledEntry[] = []
+  while (picked.length < count && queues.some(queue => queue.length > 0)) {
+    queues.forEach(queue => {
+      const next = queue.shift()
+      if (next && picked.length < count) picked.push(next)
+    })
+  }
+
+  return picked
+}
+
+// Top-level directory, or the package directory inside a monorepo container
+function directoryKey(path: string): string {
+  const segments = path.split('/')
+  if (segments.length > 2 && MONOREPO_CONTAINERS.test(segments[0])) {
+    return `${segments[0]}/${segments[1]}`
+  }
+  return segments.length > 1 ? segments[0] : '.'
+}
+
+function effectiveSize(entry: TreeEntry): number {
+  return entry.size > 0 ? entry.size : ASSUMED_FILE_BYTES
+}
@@ -0,0 +1,78 @@
+export interface RepoFile {
+  name: string
+  content: string
+  path: string
+  language?: string
+  size?: number
+}
+
+export interface TreeEntry {
+  path: string
+  size: number // 0 when the forge does not report sizes
+  sha: string
+}
+
+export type ForgeKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea'
+
+// Typed reference to a repository on any supported forge
+export interface RepoRef {
+  forge: ForgeKind
+  host: string
+  owner: string // GitLab owners may be nested group paths
+  name: string
+  url: string
+}
+
+// Per-forge fetchers used to gather analysis input
+export interface ForgeAdapter {
+  kind: ForgeKind
+  fetchTree(ref: RepoRef): Promise<{ entries: TreeEntry[]; truncated: boolean }>
+  fetchFileContent(ref: RepoRef, entry: TreeEntry): Promise<string | null>
+  fetchCommitHistory(ref: RepoRef, maxCommits: number): Promise<{ commits: RepoCommit[]; totalCount: number }>
+  // Commit SHA at the head of the default branch, used as the analysis cache key
+  fetchHeadSha(ref: RepoRef): Promise<string | null>
+}
+
+export interface RepoCommit {
+  message: string
+  author: string
+  date: string
+  additions?: number
+  deletions?: number
+  filesChanged?: number
+}
+
+export interface RepoData {
+  files: RepoFile[]
+  commits: RepoCommit[]
+  readme?: string | null
+  // Repository-wide context gathered alongside the sample
+  languages?: Record<string, number>
+  totalFiles?: number
+  totalCommits?: number
+}
+
+// Progress stages reported while an analysis runs
+export type AnalysisStage = 'fetching_repo' | 'sampling_files' | 'scoring'
+
+export type AnalysisStageCallback = (stage: AnalysisStage) => Promise<void> | void
+
+export interface AnalysisIndicators {
+  codePatterns: string[]
+  commitPatterns: string[]
+  documentationPatterns: string[]
+}
+
+export interface AnalysisResponse {
+  vciScore: number
+  analysis: string
+  confidence: number
+  indicators: AnalysisIndicators
+  // Canonical reference for the analyzed repository
+  repository?: RepoRef
+  // Component scores, present when more than one scorer contributed
+  sources?: {
+    llm?: number
+    heuristic?: number
+  }
+}
@@ -0,0 +1,103 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders } from '../_shared/http.ts'
+import { parseRepoUrl } from '../_shared/forges/index.ts'
+import { createServiceClient } from '../_shared/analysisCache.ts'
+import { runAnalysisJob } from '../_shared/analysisJobs.ts'
+
+// Supabase Edge Runtime keeps the worker alive for promises passed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+interface EnqueueRequest {
+  repoUrl?: string
+  force?: boolean // Bypass the cache for the current HEAD
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    if (!serviceClient) {
+      throw new Error('Service role client is not configured')
+    }
+
+    // Jobs belong to the signed-in user, who is notified when they finish
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+    const { data: { user } } = await serviceClient.auth.getUser(token)
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in to analyze a repository' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Parse the request body
+    const { repoUrl, force }: EnqueueRequest = await req.json()
+
+    if (!repoUrl) {
+      return new Response(
+        JSON.stringify({ error: 'Repository URL is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const repoRef = parseRepoUrl(repoUrl)
+    if (!repoRef) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported or invalid repository URL. Use a GitHub, GitLab, Bitbucket or Gitea repository URL.' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Enqueue the job
+    const { data: job, error } = await serviceClient
+      .from('analysis_jobs')
+      .insert({
+        requested_by: user.id,
+        repo_url: repoRef.url,
+        force: Boolean(force)
+      })
+      .select('id, repo_url, force, attempts')
+      .single()
+
+    if (error) throw error
+
+    // Process after responding so the client can follow progress over Realtime
+    EdgeRuntime.waitUntil(runAnalysisJob(serviceClient, job))
+
+    return new Response(
+      JSON.stringify({ jobId: job.id }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in analysis-jobs function:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
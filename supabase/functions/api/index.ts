@@ -0,0 +1,349 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createServiceClient } from '../_shared/analysisCache.ts'
+import {
+  API_VERSION,
+  apiCorsHeaders,
+  decodeCursor,
+  encodeCursor,
+  errorResponse,
+  jsonResponse,
+  parseLimit,
+  sha256Hex,
+  CommentRow,
+  ProfileRow,
+  ProjectRow,
+  toApiComment,
+  toApiProject,
+  toApiUser
+} from '../_shared/publicApi.ts'
+import { openApiDocument } from './openapi.ts'
+
+/*
+  Public read-only API
+
+  Routes (all GET, under /functions/v1/api):
+    /v1/openapi.json              OpenAPI document (no key required)
+    /v1/projects                  Projects, newest first by default
+    /v1/projects/:id              One project
+    /v1/projects/:id/comments     Comments on a project, oldest first
+    /v1/users/:username           Public profile
+    /v1/stats                     Community statistics
+
+  Requests authenticate with an API key created on the settings page, sent as
+  `x-api-key: vci_...` or `Authorization: Bearer vci_...`. Each key has a
+  per-minute request limit enforced by consume_api_request(). Lists use opaque
+  cursors: pass `nextCursor` from one page as `cursor` to get the next.
+
+  Deploy with `--no-verify-jwt` so requests do not need a Supabase session.
+*/
+
+// Inner join so that projects by banned and shadow-banned users can be filtered out
+const PROJECT_SELECT = `
+  *,
+  profiles:submitted_by!inner (
+    username,
+    avatar_url,
+    user_shadow_bans (user_id)
+  )
+`
+
+// Sort orders for /projects and the column each one pages by (descending)
+const PROJECT_SORTS: Record<string, 'created_at' | 'hot_score' | 'wilson_score' | 'vci_score'> = {
+  recent: 'created_at',
+  hot: 'hot_score',
+  top: 'wilson_score',
+  vci: 'vci_score'
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: apiCorsHeaders })
+  }
+
+  if (req.method !== 'GET') {
+    return errorResponse(405, 'Method not allowed')
+  }
+
+  const url = new URL(req.url)
+  const segments = url.pathname.replace(/^.*?\/api(?=\/|$)/, '').split('/').filter(Boolean)
+  const [version, resource, id, subresource, ...rest] = segments
+
+  if (version !== API_VERSION) {
+    return errorResponse(404, `Unknown API version; use /${API_VERSION}`)
+  }
+
+  if (resource === 'openapi.json' && !id) {
+    return jsonResponse(openApiDocument(`${url.origin}${url.pathname.replace(/\/openapi\.json$/, '')}`))
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    if (!serviceClient) {
+      throw new Error('Service role client is not configured')
+    }
+
+    // Authenticate and count the request against the key's rate limit
+    const apiKey = req.headers.get('x-api-key') || (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+    if (!apiKey.startsWith('vci_')) {
+      return errorResponse(401, 'An API key is required. Create one in your account settings.')
+    }
+
+    const { data: usage, error: usageError } = await serviceClient
+      .rpc('consume_api_request', { api_key_hash: await sha256Hex(apiKey) })
+      .maybeSingle()
+
+    if (usageError) throw usageError
+    if (!usage) {
+      return errorResponse(401, 'Invalid or revoked API key')
+    }
+
+    const resetSeconds = Math.max(Math.ceil((new Date(usage.reset_at).getTime() - Date.now()) / 1000), 0)
+    const rateLimitHeaders = {
+      'X-RateLimit-Limit': String(usage.request_limit),
+      'X-RateLimit-Remaining': String(usage.remaining),
+      'X-RateLimit-Reset': String(Math.floor(new Date(usage.reset_at).getTime() / 1000))
+    }
+
+    if (!usage.allowed) {
+      return errorResponse(429, 'Rate limit exceeded', { ...rateLimitHeaders, 'Retry-After': String(resetSeconds) })
+    }
+
+    const response = await route(serviceClient, url, resource, id, subresource, rest.length > 0)
+    Object.entries(rateLimitHeaders).forEach(([name, value]) => response.headers.set(name, value))
+    return response
+
+  } catch (error) {
+    console.error('Error in api function:', error)
+
+    return jsonResponse(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      500
+    )
+  }
+})
+
+function route(
+  client: SupabaseClient,
+  url: URL,
+  resource: string | undefined,
+  id: string | undefined,
+  subresource: string | undefined,
+  hasExtraSegments: boolean
+): Promise<Response> | Response {
+  if (hasExtraSegments) return errorResponse(404, 'Not found')
+
+  switch (resource) {
+    case 'projects':
+      if (!id) return listProjects(client, url.searchParams)
+      if (!UUID.test(id)) return errorResponse(404, 'Project not found')
+      if (!subresource) return getProject(client, id)
+      if (subresource === 'comments') return listComments(client, id, url.searchParams)
+      break
+    case 'users':
+      if (id && !subresource) return getUser(client, decodeURIComponent(id))
+      break
+    case 'stats':
+      if (!id) return getStats(client)
+      break
+  }
+
+  return errorResponse(404, 'Not found')
+}
+
+function siteUrl(): string {
+  return (Deno.env.get('SITE_URL') || '').replace(/\/$/, '')
+}
+
+async function listProjects(client: SupabaseClient, params: URLSearchParams): Promise<Response> {
+  const limit = parseLimit(params)
+  const sort = params.get('sort') || 'recent'
+  const column = PROJECT_SORTS[sort]
+
+  if (!column) {
+    return errorResponse(400, `Invalid sort "${sort}"; use one of ${Object.keys(PROJECT_SORTS).join(', ')}`)
+  }
+
+  const author = params.get('author')
+  let query = client
+    .from('projects')
+    .select(PROJECT_SELECT)
+    .eq('is_hidden', false)
+    .eq('profiles.is_banned', false)
+    .is('profiles.user_shadow_bans', null)
+
+  if (author) query = query.eq('profiles.username', author)
+
+  const technology = params.get('technology')
+  if (technology) query = query.contains('technologies', JSON.stringify([technology]))
+
+  const verified = params.get('verified')
+  if (verified === 'true' || verified === 'false') query = query.eq('is_verified', verified === 'true')
+
+  for (const [param, apply] of [['vci_min', 'gte'], ['vci_max', 'lte']] as const) {
+    const value = params.get(param)
+    if (value === null) continue
+    if (!/^\d+$/.test(value)) return errorResponse(400, `${param} must be a whole number`)
+    query = query[apply]('vci_score', parseInt(value, 10))
+  }
+
+  const rawCursor = params.get('cursor')
+  if (rawCursor) {
+    const cursor = decodeCursor(rawCursor)
+    if (!cursor || !UUID.test(cursor.id)) return errorResponse(400, 'Invalid cursor')
+    const value = JSON.stringify(cursor.value)
+    query = query.or(`${column}.lt.${value},and(${column}.eq.${value},id.lt.${cursor.id})`)
+  }
+
+  // One extra row tells us whether there is another page
+  const { data, error } = await query
+    .order(column, { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) throw error
+
+  const rows = (data || []) as ProjectRow[]
+  const page = rows.slice(0, limit)
+  const last = page[page.length - 1]
+
+  return jsonResponse({
+    data: page.map(row => toApiProject(row, siteUrl())),
+    pagination: {
+      limit,
+      nextCursor: rows.length > limit && last ? encodeCursor({ value: last[column] ?? 0, id: last.id }) : null
+    }
+  })
+}
+
+async function getProject(client: SupabaseClient, id: string): Promise<Response> {
+  const { data, error } = await client
+    .from('projects')
+    .select(PROJECT_SELECT)
+    .eq('id', id)
+    .eq('is_hidden', false)
+    .eq('profiles.is_banned', false)
+    .is('profiles.user_shadow_bans', null)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return errorResponse(404, 'Project not found')
+
+  return jsonResponse({ data: toApiProject(data as ProjectRow, siteUrl()) })
+}
+
+async function listComments(client: SupabaseClient, projectId: string, params: URLSearchParams): Promise<Response> {
+  const limit = parseLimit(params)
+
+  const { count: projectCount, error: projectError } = await client
+    .from('projects')
+    .select('id, profiles:submitted_by!inner (id, user_shadow_bans (user_id))', { count: 'exact', head: true })
+    .eq('id', projectId)
+    .eq('is_hidden', false)
+    .eq('profiles.is_banned', false)
+    .is('profiles.user_shadow_bans', null)
+
+  if (projectError) throw projectError
+  if (!projectCount) return errorResponse(404, 'Project not found')
+
+  let query = client
+    .from('comments')
+    .select(`
+      *,
+      profiles:author_id!inner (
+        username,
+        user_shadow_bans (user_id)
+      )
+    `)
+    .eq('project_id', projectId)
+    .eq('is_hidden', false)
+    .eq('profiles.is_banned', false)
+    .is('profiles.user_shadow_bans', null)
+
+  const rawCursor = params.get('cursor')
+  if (rawCursor) {
+    const cursor = decodeCursor(rawCursor)
+    if (!cursor || !UUID.test(cursor.id)) return errorResponse(400, 'Invalid cursor')
+    const value = JSON.stringify(cursor.value)
+    query = query.or(`created_at.gt.${value},and(created_at.eq.${value},id.gt.${cursor.id})`)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit + 1)
+
+  if (error) throw error
+
+  const rows = (data || []) as CommentRow[]
+  const page = rows.slice(0, limit)
+  const last = page[page.length - 1]
+
+  return jsonResponse({
+    data: page.map(toApiComment),
+    pagination: {
+      limit,
+      nextCursor: rows.length > limit && last ? encodeCursor({ value: last.created_at, id: last.id }) : null
+    }
+  })
+}
+
+async function getUser(client: SupabaseClient, username: string): Promise<Response> {
+  const { data, error } = await client
+    .from('profiles')
+    .select('*, user_shadow_bans (user_id)')
+    .eq('username', username)
+    .eq('is_banned', false)
+    .is('user_shadow_bans', null)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return errorResponse(404, 'User not found')
+
+  return jsonResponse({ data: toApiUser(data as ProfileRow) })
+}
+
+async function getStats(client: SupabaseClient): Promise<Response> {
+  // Count only what /projects would list
+  const countProjects = () => client
+    .from('projects')
+    .select('id, profiles:submitted_by!inner (id, user_shadow_bans (user_id))', { count: 'exact', head: true })
+    .eq('is_hidden', false)
+    .eq('profiles.is_banned', false)
+    .is('profiles.user_shadow_bans', null)
+
+  const [total, aiAssisted, verified, developers, facets] = await Promise.all([
+    countProjects(),
+    // Same threshold the app uses for "AI-assisted"
+    countProjects().gte('vci_score', 60),
+    countProjects().eq('is_verified', true),
+    client
+      .from('profiles')
+      .select('id, user_shadow_bans (user_id)', { count: 'exact', head: true })
+      .gt('projects_submitted', 0)
+      .eq('is_banned', false)
+      .is('user_shadow_bans', null),
+    client.rpc('public_project_facets', { facet_limit: 10 })
+  ])
+
+  for (const result of [total, aiAssisted, verified, developers, facets]) {
+    if (result.error) throw result.error
+  }
+
+  return jsonResponse({
+    data: {
+      totalProjects: total.count || 0,
+      aiAssistedProjects: aiAssisted.count || 0,
+      verifiedProjects: verified.count || 0,
+      activeDevelopers: developers.count || 0,
+      popularAiTools: facets.data?.aiTools || [],
+      vciBands: facets.data?.vciBands || []
+    }
+  })
+}
@@ -0,0 +1,249 @@
+import { API_VERSION, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../_shared/publicApi.ts'
+
+// OpenAPI 3 description of the public API, served at /v1/openapi.json
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type, nullable: true, ...extra })
+
+const pageOf = (item: string) => ({
+  type: 'object',
+  required: ['data', 'pagination'],
+  properties: {
+    data: { type: 'array', items: ref(item) },
+    pagination: ref('Pagination')
+  }
+})
+
+const dataOf = (item: string) => ({
+  type: 'object',
+  required: ['data'],
+  properties: { data: ref(item) }
+})
+
+const jsonContent = (schema: unknown) => ({ 'application/json': { schema } })
+
+const paginationParameters = [
+  {
+    name: 'limit',
+    in: 'query',
+    description: `Items per page (1-${MAX_PAGE_SIZE})`,
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }
+  },
+  {
+    name: 'cursor',
+    in: 'query',
+    description: '`nextCursor` from the previous page',
+    schema: { type: 'string' }
+  }
+]
+
+const errorResponses = {
+  401: { description: 'Missing, invalid or revoked API key', content: jsonContent(ref('Error')) },
+  429: {
+    description: 'Rate limit exceeded; retry after the number of seconds in `Retry-After`',
+    content: jsonContent(ref('Error'))
+  }
+}
+
+const notFound = { description: 'Not found', content: jsonContent(ref('Error')) }
+
+export function openApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Was This Vibe Coded? API',
+      version: API_VERSION,
+      description:
+        'Read-only access to projects, comments, profiles and community statistics. ' +
+        'Create an API key in your account settings and send it in the `x-api-key` header. ' +
+        'Every response includes `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers.'
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/projects': {
+        get: {
+          summary: 'List projects',
+          parameters: [
+            {
+              name: 'sort',
+              in: 'query',
+              schema: { type: 'string', enum: ['recent', 'hot', 'top', 'vci'], default: 'recent' }
+            },
+            { name: 'technology', in: 'query', description: 'Exact technology name', schema: { type: 'string' } },
+            { name: 'author', in: 'query', description: 'Submitter username', schema: { type: 'string' } },
+            { name: 'verified', in: 'query', schema: { type: 'boolean' } },
+            { name: 'vci_min', in: 'query', schema: { type: 'integer', minimum: 0, maximum: 100 } },
+            { name: 'vci_max', in: 'query', schema: { type: 'integer', minimum: 0, maximum: 100 } },
+            ...paginationParameters
+          ],
+          responses: {
+            200: { description: 'A page of projects', content: jsonContent(pageOf('Project')) },
+            400: { description: 'Invalid parameter', content: jsonContent(ref('Error')) },
+            ...errorResponses
+          }
+        }
+      },
+      '/projects/{id}': {
+        get: {
+          summary: 'Get a project',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          responses: {
+            200: { description: 'The project', content: jsonContent(dataOf('Project')) },
+            404: notFound,
+            ...errorResponses
+          }
+        }
+      },
+      '/projects/{id}/comments': {
+        get: {
+          summary: "List a project's comments, oldest first",
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            ...paginationParameters
+          ],
+          responses: {
+            200: { description: 'A page of comments', content: jsonContent(pageOf('Comment')) },
+            404: notFound,
+            ...errorResponses
+          }
+        }
+      },
+      '/users/{username}': {
+        get: {
+          summary: 'Get a public profile',
+          parameters: [{ name: 'username', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'The profile', content: jsonContent(dataOf('User')) },
+            404: notFound,
+            ...errorResponses
+          }
+        }
+      },
+      '/stats': {
+        get: {
+          summary: 'Community statistics',
+          responses: {
+            200: { description: 'Current statistics', content: jsonContent(dataOf('Stats')) },
+            ...errorResponses
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' } }
+        },
+        Pagination: {
+          type: 'object',
+          required: ['limit', 'nextCursor'],
+          properties: {
+            limit: { type: 'integer' },
+            nextCursor: nullable('string', { description: 'Pass as `cursor` to fetch the next page; null on the last page' })
+          }
+        },
+        Project: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            repoName: { type: 'string' },
+            repository: {
+              type: 'object',
+              properties: {
+                forge: { type: 'string', enum: ['github', 'gitlab', 'bitbucket', 'gitea'] },
+                host: { type: 'string' },
+                owner: { type: 'string' },
+                name: { type: 'string' },
+                url: { type: 'string', format: 'uri' }
+              }
+            },
+            liveUrl: nullable('string', { format: 'uri' }),
+            screenshots: { type: 'array', items: { type: 'string', format: 'uri' } },
+            technologies: { type: 'array', items: { type: 'string' } },
+            tags: { type: 'array', items: { type: 'string' } },
+            aiTools: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  name: { type: 'string' },
+                  usage: { type: 'string' },
+                  percentage: { type: 'number' }
+                }
+              }
+            },
+            vciScore: { type: 'integer', minimum: 0, maximum: 100 },
+            communityVciScore: nullable('number'),
+            communityVciVoteCount: { type: 'integer' },
+            confidence: nullable('string', { enum: ['low', 'medium', 'high', null] }),
+            submittedBy: { type: 'string' },
+            submittedAt: { type: 'string', format: 'date-time' },
+            upvotes: { type: 'integer' },
+            downvotes: { type: 'integer' },
+            commentCount: { type: 'integer' },
+            isVerified: { type: 'boolean' },
+            lastAnalyzedAt: nullable('string', { format: 'date-time' }),
+            url: { type: 'string', format: 'uri', description: 'Project page in the web app' }
+          }
+        },
+        Comment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            projectId: { type: 'string', format: 'uuid' },
+            parentId: nullable('string', { format: 'uuid' }),
+            author: { type: 'string', description: '"[deleted]" for deleted comments' },
+            content: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            editedAt: nullable('string', { format: 'date-time' }),
+            isDeleted: { type: 'boolean' },
+            upvotes: { type: 'integer' },
+            downvotes: { type: 'integer' }
+          }
+        },
+        User: {
+          type: 'object',
+          properties: {
+            username: { type: 'string' },
+            avatar: nullable('string', { format: 'uri' }),
+            karma: { type: 'integer' },
+            projectsSubmitted: { type: 'integer' },
+            joinedAt: { type: 'string', format: 'date-time' },
+            specialization: nullable('string'),
+            aiToolsUsed: { type: 'array', items: { type: 'string' } },
+            followerCount: { type: 'integer' },
+            followingCount: { type: 'integer' }
+          }
+        },
+        Facet: {
+          type: 'object',
+          properties: {
+            value: { type: 'string' },
+            count: { type: 'integer' }
+          }
+        },
+        Stats: {
+          type: 'object',
+          properties: {
+            totalProjects: { type: 'integer' },
+            aiAssistedProjects: { type: 'integer', description: 'Projects with a VCI score of 60 or more' },
+            verifiedProjects: { type: 'integer' },
+            activeDevelopers: { type: 'integer' },
+            popularAiTools: { type: 'array', items: ref('Facet') },
+            vciBands: { type: 'array', items: ref('Facet') }
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders } from '../_shared/http.ts'
+import { parseRepoUrl } from '../_shared/forges/index.ts'
+import { analyzeWithCache, applyAnalysisToProject, createServiceClient } from '../_shared/analysisCache.ts'
+import { recoverStaleJobs } from '../_shared/analysisJobs.ts'
+
+/*
+  Scheduled re-analysis
+
+  Invoked by cron with the `x-cron-secret` header matching CRON_SECRET.
+  Each run re-analyzes the projects analyzed longest ago, up to
+  REANALYZE_BATCH_SIZE (default 10) projects not analyzed within
+  REANALYZE_INTERVAL_DAYS (default 7). Projects whose HEAD has not moved
+  hit the cache and only have their last_analyzed_at bumped. Every attempt
+  is recorded in last_analysis_attempt_at, so a repository that keeps
+  failing is retried once per interval instead of heading every batch.
+  Analysis jobs interrupted mid-run are resumed first.
+*/
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const cronSecret = Deno.env.get('CRON_SECRET')
+  if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    if (!serviceClient) {
+      throw new Error('Service role client is not configured')
+    }
+
+    const intervalDays = parseInt(Deno.env.get('REANALYZE_INTERVAL_DAYS') || '7', 10)
+    const batchSize = parseInt(Deno.env.get('REANALYZE_BATCH_SIZE') || '10', 10)
+
+    const resumedJobs = await recoverStaleJobs(serviceClient, batchSize)
+
+    const cutoff = new Date(Date.now() - intervalDays * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: projects, error } = await serviceClient
+      .from('projects')
+      .select('id, repo_url')
+      .not('repo_url', 'is', null)
+      .or(`last_analyzed_at.is.null,last_analyzed_at.lt.${cutoff}`)
+      .or(`last_analysis_attempt_at.is.null,last_analysis_attempt_at.lt.${cutoff}`)
+      .order('last_analysis_attempt_at', { ascending: true, nullsFirst: true })
+      .order('last_analyzed_at', { ascending: true, nullsFirst: true })
+      .limit(batchSize)
+
+    if (error) throw error
+
+    const summary = { resumedJobs, processed: 0, updated: 0, failed: 0 }
+
+    // One project at a time to stay within forge and LLM rate limits
+    for (const project of projects || []) {
+      summary.processed++
+
+      const { error: attemptError } = await serviceClient
+        .from('projects')
+        .update({ last_analysis_attempt_at: new Date().toISOString() })
+        .eq('id', project.id)
+
+      if (attemptError) throw attemptError
+
+      const repoRef = parseRepoUrl(project.repo_url)
+      if (!repoRef) {
+        console.error(`Skipping project ${project.id} with unsupported repository URL ${project.repo_url}`)
+        summary.failed++
+        continue
+      }
+
+      try {
+        const analysis = await analyzeWithCache(serviceClient, repoRef)
+        if (await applyAnalysisToProject(serviceClient, project.id, analysis, 'scheduled', null)) {
+          summary.updated++
+        }
+      } catch (projectError) {
+        console.error(`Error re-analyzing project ${project.id}:`, projectError)
+        summary.failed++
+      }
+    }
+
+    console.log(`Scheduled re-analysis finished: ${JSON.stringify(summary)}`)
+
+    return new Response(
+      JSON.stringify(summary),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in reanalyze-projects function:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,247 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, fetchJson } from '../_shared/http.ts'
+import { getForgeAdapter, parseRepoUrl } from '../_shared/forges/index.ts'
+import { createServiceClient } from '../_shared/analysisCache.ts'
+import { RepoRef } from '../_shared/types.ts'
+
+/*
+  Repository ownership verification
+
+  A project owner proves control of the submitted repository in one of two ways:
+  - `file`: commit the challenge token from create_verification_challenge()
+    to CHALLENGE_FILE at the root of the default branch (any supported forge)
+  - `github`: sign in with a linked GitHub account whose OAuth token has push,
+    maintain or admin access to the repository (github.com only)
+
+  Every attempt is recorded in project_verification_events.
+*/
+
+const CHALLENGE_FILE = '.vibecoded-verify'
+
+type VerificationMethod = 'challenge_file' | 'github_oauth'
+
+interface VerifyRequest {
+  projectId?: string
+  method?: 'file' | 'github'
+  providerToken?: string // GitHub OAuth token from the client session
+}
+
+interface ProjectRow {
+  id: string
+  repo_url: string | null
+  submitted_by: string
+  is_verified: boolean
+}
+
+interface ChallengeRow {
+  token: string
+  expires_at: string
+}
+
+interface GitHubRepository {
+  full_name: string
+  permissions?: { admin?: boolean; maintain?: boolean; push?: boolean }
+}
+
+interface CheckResult {
+  verified: boolean
+  reason?: string
+  details?: Record<string, unknown>
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+// Look for the owner's challenge token in CHALLENGE_FILE at the repository root
+async function checkChallengeFile(client: SupabaseClient, projectId: string, ref: RepoRef): Promise<CheckResult> {
+  const { data: challenge, error } = await client
+    .from('project_verification_challenges')
+    .select('token, expires_at')
+    .eq('project_id', projectId)
+    .maybeSingle<ChallengeRow>()
+
+  if (error) throw error
+
+  if (!challenge) {
+    return { verified: false, reason: 'Generate a verification token first' }
+  }
+
+  if (new Date(challenge.expires_at).getTime() < Date.now()) {
+    return { verified: false, reason: 'The verification token has expired. Generate a new one.' }
+  }
+
+  const adapter = getForgeAdapter(ref.forge)
+  const tree = await adapter.fetchTree(ref)
+  const entry = tree.entries.find(candidate => candidate.path === CHALLENGE_FILE)
+
+  if (!entry) {
+    return { verified: false, reason: `${CHALLENGE_FILE} was not found at the root of the default branch` }
+  }
+
+  const content = await adapter.fetchFileContent(ref, entry)
+  if (content === null || !content.split(/\r?\n/).some(line => line.trim() === challenge.token)) {
+    return { verified: false, reason: `${CHALLENGE_FILE} does not contain the current verification token` }
+  }
+
+  return { verified: true, details: { file: CHALLENGE_FILE } }
+}
+
+// Ask GitHub whether the user's linked account can push to the repository
+async function checkGitHubAccess(providerToken: string, linkedLogins: string[], ref: RepoRef): Promise<CheckResult> {
+  if (ref.host !== 'github.com') {
+    return { verified: false, reason: 'GitHub account verification is only available for github.com repositories' }
+  }
+
+  const headers = {
+    'Authorization': `token ${providerToken}`,
+    'User-Agent': 'VibeCoded-App',
+    'Accept': 'application/vnd.github.v3+json'
+  }
+
+  const [viewer, repo] = await Promise.all([
+    fetchJson<{ login: string }>('https://api.github.com/user', headers, 'GitHub API user'),
+    fetchJson<GitHubRepository>(`https://api.github.com/repos/${ref.owner}/${ref.name}`, headers, 'GitHub API repository')
+  ])
+
+  if (!viewer) {
+    return { verified: false, reason: 'Could not read your GitHub account. Please reconnect GitHub and try again.' }
+  }
+
+  const login = viewer.data.login
+  if (!linkedLogins.includes(login.toLowerCase())) {
+    return { verified: false, reason: 'The GitHub account is not linked to your profile', details: { login } }
+  }
+
+  if (!repo) {
+    return { verified: false, reason: 'Your GitHub account cannot access this repository', details: { login } }
+  }
+
+  const permissions = repo.data.permissions || {}
+  if (!permissions.admin && !permissions.maintain && !permissions.push) {
+    return { verified: false, reason: `${login} is not an owner or collaborator on ${repo.data.full_name}`, details: { login } }
+  }
+
+  return {
+    verified: true,
+    details: { login, permission: permissions.admin ? 'admin' : permissions.maintain ? 'maintain' : 'push' }
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    if (!serviceClient) {
+      throw new Error('Service role client is not configured')
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+    const { data: { user } } = await serviceClient.auth.getUser(token)
+
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to verify a project' }, 401)
+    }
+
+    // Parse the request body
+    const { projectId, method, providerToken }: VerifyRequest = await req.json()
+
+    if (!projectId || (method !== 'file' && method !== 'github')) {
+      return jsonResponse({ error: 'Project ID and a verification method of "file" or "github" are required' }, 400)
+    }
+
+    if (method === 'github' && !providerToken) {
+      return jsonResponse({ error: 'Connect your GitHub account to verify with GitHub' }, 400)
+    }
+
+    const { data: project, error: projectError } = await serviceClient
+      .from('projects')
+      .select('id, repo_url, submitted_by, is_verified')
+      .eq('id', projectId)
+      .maybeSingle<ProjectRow>()
+
+    if (projectError) throw projectError
+
+    if (!project || project.submitted_by !== user.id) {
+      return jsonResponse({ error: 'Only the project owner can verify this project' }, 403)
+    }
+
+    if (project.is_verified) {
+      return jsonResponse({ verified: true })
+    }
+
+    const repoRef = project.repo_url ? parseRepoUrl(project.repo_url) : null
+    if (!repoRef) {
+      return jsonResponse({ error: 'This project has no supported repository URL to verify' }, 400)
+    }
+
+    const verificationMethod: VerificationMethod = method === 'file' ? 'challenge_file' : 'github_oauth'
+    const linkedLogins = (user.identities || [])
+      .filter(identity => identity.provider === 'github')
+      .map(identity => String(identity.identity_data?.user_name || '').toLowerCase())
+      .filter(Boolean)
+
+    const result = method === 'file'
+      ? await checkChallengeFile(serviceClient, project.id, repoRef)
+      : await checkGitHubAccess(providerToken as string, linkedLogins, repoRef)
+
+    const { error: eventError } = await serviceClient
+      .from('project_verification_events')
+      .insert({
+        project_id: project.id,
+        actor_id: user.id,
+        method: verificationMethod,
+        event: result.verified ? 'verified' : 'failed',
+        details: { repo_url: repoRef.url, reason: result.reason, ...result.details }
+      })
+
+    if (eventError) {
+      console.error('Error recording verification event:', eventError)
+    }
+
+    if (!result.verified) {
+      return jsonResponse({ verified: false, error: result.reason })
+    }
+
+    const { error: updateError } = await serviceClient
+      .from('projects')
+      .update({
+        is_verified: true,
+        verified_at: new Date().toISOString(),
+        verified_by: user.id,
+        verification_method: verificationMethod
+      })
+      .eq('id', project.id)
+
+    if (updateError) throw updateError
+
+    // The challenge has served its purpose
+    await serviceClient
+      .from('project_verification_challenges')
+      .delete()
+      .eq('project_id', project.id)
+
+    console.log(`Verified project ${project.id} via ${verificationMethod}`)
+
+    return jsonResponse({ verified: true })
+
+  } catch (error) {
+    console.error('Error in verify-project function:', error)
+
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error.message
+    }, 500)
+  }
+})
@@ -0,0 +1,133 @@
+/*
+  # Saved Projects and Collections
+
+  1. New Tables
+    - `saved_project_folders` - User-defined collections for organizing bookmarks
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id)
+      - `name` (text) - Collection name, unique per user
+      - `description` (text, nullable)
+      - `created_at` (timestamptz, default now)
+
+    - `saved_projects` - Individual user bookmarks
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id)
+      - `project_id` (uuid, references projects.id)
+      - `folder_id` (uuid, references saved_project_folders.id, nullable)
+      - `created_at` (timestamptz, default now)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only view and manage their own bookmarks and folders
+
+  3. Notes
+    - Deleting a folder keeps its bookmarks and moves them back to "Unsorted"
+    - One bookmark per user per project
+*/
+
+-- Create saved_project_folders table
+CREATE TABLE IF NOT EXISTS saved_project_folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  description text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+
+  -- Ensure folder names are unique per user
+  UNIQUE(user_id, name)
+);
+
+-- Create saved_projects table
+CREATE TABLE IF NOT EXISTS saved_projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  folder_id uuid REFERENCES saved_project_folders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+
+  -- Ensure one bookmark per user per project
+  UNIQUE(user_id, project_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_saved_project_folders_user_id ON saved_project_folders(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_projects_user_id ON saved_projects(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_projects_project_id ON saved_projects(project_id);
+CREATE INDEX IF NOT EXISTS idx_saved_projects_folder_id ON saved_projects(folder_id);
+CREATE INDEX IF NOT EXISTS idx_saved_projects_user_created ON saved_projects(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE saved_project_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_projects ENABLE ROW LEVEL SECURITY;
+
+-- Saved project folders policies
+CREATE POLICY "Users can view their own saved folders"
+  ON saved_project_folders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved folders"
+  ON saved_project_folders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved folders"
+  ON saved_project_folders
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved folders"
+  ON saved_project_folders
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Saved projects policies
+CREATE POLICY "Users can view their own saved projects"
+  ON saved_projects
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save projects"
+  ON saved_projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      folder_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM saved_project_folders f
+        WHERE f.id = saved_projects.folder_id
+        AND f.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own saved projects"
+  ON saved_projects
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      folder_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM saved_project_folders f
+        WHERE f.id = saved_projects.folder_id
+        AND f.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own saved projects"
+  ON saved_projects
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,183 @@
+/*
+  # Community VCI Voting
+
+  1. New Tables
+    - `project_vci_votes` - Each user's own 0-100 VCI estimate for a project
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users)
+      - `score` (integer, 0-100)
+      - `created_at` (timestamptz, default now)
+      - `updated_at` (timestamptz, default now)
+
+  2. Changes to Existing Tables
+    - `projects.community_vci_trimmed_mean` (numeric) - Mean with the top and bottom 10% of votes removed
+    - `projects.community_vci_vote_count` (integer) - Number of community VCI votes
+
+  3. Security
+    - Enable RLS on `project_vci_votes`
+    - Everyone authenticated can read votes (needed for the distribution chart)
+    - Users can only create, change and remove their own vote
+    - The aggregate columns on `projects` can only be written by the vote triggers or the
+      service role; "Users can update own projects" would otherwise let owners set their own
+
+  4. Functions and Triggers
+    - `update_project_community_vci()` recalculates the aggregate on every vote change
+    - `community_vci_score` holds the rounded median, which is robust to brigading
+    - Aggregates are cleared back to NULL when the last vote is removed
+    - `protect_project_community_vci()` resets the aggregate on insert and keeps it unchanged on
+      update unless the write comes from `update_project_community_vci()`
+*/
+
+-- Create project_vci_votes table
+CREATE TABLE IF NOT EXISTS project_vci_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  score integer NOT NULL CHECK (score >= 0 AND score <= 100),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+
+  -- Ensure one VCI estimate per user per project
+  UNIQUE(project_id, user_id)
+);
+
+-- Add aggregate columns to projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS community_vci_trimmed_mean numeric(5,2);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS community_vci_vote_count integer DEFAULT 0 NOT NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_project_vci_votes_project_id ON project_vci_votes(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_vci_votes_user_id ON project_vci_votes(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE project_vci_votes ENABLE ROW LEVEL SECURITY;
+
+-- Project VCI votes policies
+CREATE POLICY "Users can view all project VCI votes"
+  ON project_vci_votes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert their own project VCI votes"
+  ON project_vci_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own project VCI votes"
+  ON project_vci_votes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own project VCI votes"
+  ON project_vci_votes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Function to recalculate a project's community VCI aggregate
+CREATE OR REPLACE FUNCTION update_project_community_vci()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_project_id uuid;
+  vote_median numeric;
+  vote_trimmed_mean numeric;
+  vote_count integer;
+BEGIN
+  target_project_id := COALESCE(NEW.project_id, OLD.project_id);
+
+  SELECT
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY score),
+    COUNT(*)
+  INTO vote_median, vote_count
+  FROM project_vci_votes
+  WHERE project_id = target_project_id;
+
+  -- Drop the lowest and highest 10% of votes before averaging
+  SELECT AVG(score)
+  INTO vote_trimmed_mean
+  FROM (
+    SELECT
+      score,
+      row_number() OVER (ORDER BY score) AS position,
+      COUNT(*) OVER () AS total
+    FROM project_vci_votes
+    WHERE project_id = target_project_id
+  ) ranked
+  WHERE position > floor(total * 0.1)
+  AND position <= total - floor(total * 0.1);
+
+  UPDATE projects
+  SET
+    community_vci_score = ROUND(vote_median)::integer,
+    community_vci_trimmed_mean = ROUND(vote_trimmed_mean, 2),
+    community_vci_vote_count = vote_count
+  WHERE id = target_project_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for community VCI updates
+DROP TRIGGER IF EXISTS update_community_vci_on_insert ON project_vci_votes;
+CREATE TRIGGER update_community_vci_on_insert
+  AFTER INSERT ON project_vci_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_community_vci();
+
+DROP TRIGGER IF EXISTS update_community_vci_on_update ON project_vci_votes;
+CREATE TRIGGER update_community_vci_on_update
+  AFTER UPDATE ON project_vci_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_community_vci();
+
+DROP TRIGGER IF EXISTS update_community_vci_on_delete ON project_vci_votes;
+CREATE TRIGGER update_community_vci_on_delete
+  AFTER DELETE ON project_vci_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_community_vci();
+
+-- Keep updated_at current when a user changes their estimate
+DROP TRIGGER IF EXISTS update_project_vci_votes_updated_at ON project_vci_votes;
+CREATE TRIGGER update_project_vci_votes_updated_at
+  BEFORE UPDATE ON project_vci_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to keep the community VCI aggregate in the hands of the vote triggers
+CREATE OR REPLACE FUNCTION protect_project_community_vci()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- The service role (edge functions) has no auth.uid(); update_project_community_vci() writes
+  -- from inside the trigger on project_vci_votes, one trigger level down
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.community_vci_score := NULL;
+    NEW.community_vci_trimmed_mean := NULL;
+    NEW.community_vci_vote_count := 0;
+  ELSE
+    NEW.community_vci_score := OLD.community_vci_score;
+    NEW.community_vci_trimmed_mean := OLD.community_vci_trimmed_mean;
+    NEW.community_vci_vote_count := OLD.community_vci_vote_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_project_community_vci_trigger ON projects;
+CREATE TRIGGER protect_project_community_vci_trigger
+  BEFORE INSERT OR UPDATE OF community_vci_score, community_vci_trimmed_mean, community_vci_vote_count ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_project_community_vci();
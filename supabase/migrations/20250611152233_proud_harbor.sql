@@ -0,0 +1,40 @@
+/*
+  # Typed Repository References
+
+  1. Changes to Existing Tables
+    - `projects.repo_forge` (text) - Hosting forge: github, gitlab, bitbucket or gitea
+    - `projects.repo_host` (text) - Forge host, e.g. github.com or a self-hosted domain
+    - `projects.repo_owner` (text) - Owner, organisation or GitLab group path
+    - `projects.repo_url` (text) - Canonical repository URL on any forge
+    - `repo_name` already exists and is reused as the repository name
+
+  2. Data Migration
+    - Backfill the new columns from `github_url` for existing GitHub projects
+
+  3. Notes
+    - `github_url` is kept for existing readers and only populated for GitHub projects
+*/
+
+-- Add repository reference columns to projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS repo_forge text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS repo_host text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS repo_owner text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS repo_url text;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_repo_forge_check;
+ALTER TABLE projects ADD CONSTRAINT projects_repo_forge_check
+  CHECK (repo_forge IS NULL OR repo_forge IN ('github', 'gitlab', 'bitbucket', 'gitea'));
+
+-- Backfill from existing GitHub URLs
+UPDATE projects
+SET
+  repo_forge = 'github',
+  repo_host = 'github.com',
+  repo_owner = substring(github_url from '^https://github\.com/([^/]+)/'),
+  repo_name = COALESCE(repo_name, regexp_replace(substring(github_url from '^https://github\.com/[^/]+/([^/]+)'), '\.git$', '')),
+  repo_url = regexp_replace(regexp_replace(github_url, '/+$', ''), '\.git$', '')
+WHERE github_url ~ '^https://github\.com/[^/]+/[^/]+'
+AND repo_url IS NULL;
+
+-- Create index for looking projects up by repository
+CREATE INDEX IF NOT EXISTS idx_projects_repo_url ON projects(repo_url);
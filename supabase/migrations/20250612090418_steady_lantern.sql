@@ -0,0 +1,182 @@
+/*
+  # Repository Analysis Cache and History
+
+  1. New Tables
+    - `repo_analyses` - Analysis results cached per repository revision
+      - `id` (uuid, primary key)
+      - `repo_url` (text) - Canonical repository URL
+      - `repo_forge` (text) - Hosting forge
+      - `head_sha` (text) - Default branch HEAD commit the analysis ran against
+      - `vci_score` (integer, 0-100)
+      - `confidence` (integer, 0-100)
+      - `analysis` (text) - Written assessment
+      - `indicators` (jsonb) - Code, commit and documentation patterns
+      - `sources` (jsonb) - Component LLM and heuristic scores
+      - `created_at` (timestamptz, default now)
+    - `project_analysis_history` - Timeline of analysis snapshots per project
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `analysis_id` (uuid, references repo_analyses)
+      - `head_sha` (text)
+      - `vci_score`, `confidence`, `indicators` - Copied so the timeline survives cache pruning
+      - `trigger` (text) - submission, manual or scheduled
+      - `triggered_by` (uuid, references profiles) - NULL for scheduled runs
+      - `created_at` (timestamptz, default now)
+
+  2. Changes to Existing Tables
+    - `projects.analysis`, `projects.confidence`, `projects.indicators` - Ensured to exist;
+      the client already writes them on submission
+    - `projects.analysis_id` (uuid) - Cached analysis the current scores came from
+    - `projects.head_sha` (text) - Revision the current scores describe
+    - `projects.last_analyzed_at` (timestamptz) - Used to pick projects for scheduled re-analysis
+    - `projects.last_analysis_attempt_at` (timestamptz) - When scheduled re-analysis last tried
+      the project, whether or not it succeeded, so failing repositories wait their turn
+
+  3. Security
+    - Enable RLS on both tables
+    - Authenticated users can read cached analyses and project history
+    - Writes happen through the analyze-repo and reanalyze-projects edge functions (service role)
+      and the submission trigger below
+
+  4. Functions and Triggers
+    - `record_initial_analysis_snapshot()` adds the first history entry when a project is
+      submitted with a cached analysis
+    - Existing analyzed projects are backfilled with a single submission snapshot
+
+  5. Notes
+    - Scheduled re-analysis is driven by calling the reanalyze-projects function from cron
+      (e.g. pg_cron with pg_net) with the CRON_SECRET header
+*/
+
+-- Create repo_analyses table
+CREATE TABLE IF NOT EXISTS repo_analyses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repo_url text NOT NULL,
+  repo_forge text NOT NULL CHECK (repo_forge IN ('github', 'gitlab', 'bitbucket', 'gitea')),
+  head_sha text NOT NULL,
+  vci_score integer NOT NULL CHECK (vci_score >= 0 AND vci_score <= 100),
+  confidence integer CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 100)),
+  analysis text,
+  indicators jsonb DEFAULT '{}'::jsonb NOT NULL,
+  sources jsonb,
+  created_at timestamptz DEFAULT now() NOT NULL,
+
+  -- One cached result per repository revision
+  UNIQUE(repo_url, head_sha)
+);
+
+-- Create project_analysis_history table
+CREATE TABLE IF NOT EXISTS project_analysis_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  analysis_id uuid REFERENCES repo_analyses(id) ON DELETE SET NULL,
+  head_sha text,
+  vci_score integer NOT NULL CHECK (vci_score >= 0 AND vci_score <= 100),
+  confidence integer CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 100)),
+  indicators jsonb DEFAULT '{}'::jsonb NOT NULL,
+  trigger text NOT NULL CHECK (trigger IN ('submission', 'manual', 'scheduled')),
+  triggered_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Analysis columns written by the submission form
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS analysis text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS confidence integer;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS indicators jsonb;
+
+-- Link projects to the analysis behind their current scores
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS analysis_id uuid REFERENCES repo_analyses(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS head_sha text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_analyzed_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_analysis_attempt_at timestamptz;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_repo_analyses_repo_url ON repo_analyses(repo_url, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_project_analysis_history_project_id ON project_analysis_history(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_projects_last_analyzed_at ON projects(last_analyzed_at);
+CREATE INDEX IF NOT EXISTS idx_projects_last_analysis_attempt_at ON projects(last_analysis_attempt_at);
+
+-- Enable Row Level Security
+ALTER TABLE repo_analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_analysis_history ENABLE ROW LEVEL SECURITY;
+
+-- Repo analyses policies
+CREATE POLICY "Users can view repo analyses"
+  ON repo_analyses
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Project analysis history policies
+CREATE POLICY "Users can view project analysis history"
+  ON project_analysis_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Function to record the first snapshot when a project is submitted with a cached analysis
+CREATE OR REPLACE FUNCTION record_initial_analysis_snapshot()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO project_analysis_history (
+    project_id,
+    analysis_id,
+    head_sha,
+    vci_score,
+    confidence,
+    indicators,
+    trigger,
+    triggered_by
+  )
+  SELECT
+    NEW.id,
+    ra.id,
+    ra.head_sha,
+    ra.vci_score,
+    ra.confidence,
+    ra.indicators,
+    'submission',
+    NEW.submitted_by
+  FROM repo_analyses ra
+  WHERE ra.id = NEW.analysis_id;
+
+  UPDATE projects
+  SET
+    head_sha = (SELECT head_sha FROM repo_analyses WHERE id = NEW.analysis_id),
+    last_analyzed_at = now()
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger for submission snapshots
+DROP TRIGGER IF EXISTS record_initial_analysis_snapshot_on_insert ON projects;
+CREATE TRIGGER record_initial_analysis_snapshot_on_insert
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  WHEN (NEW.analysis_id IS NOT NULL)
+  EXECUTE FUNCTION record_initial_analysis_snapshot();
+
+-- Backfill a submission snapshot for projects analyzed before history was kept
+INSERT INTO project_analysis_history (project_id, vci_score, confidence, indicators, trigger, triggered_by, created_at)
+SELECT
+  p.id,
+  p.vci_score,
+  p.confidence,
+  COALESCE(p.indicators, '{}'::jsonb),
+  'submission',
+  p.submitted_by,
+  p.created_at
+FROM projects p
+WHERE p.analysis IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM project_analysis_history h WHERE h.project_id = p.id
+);
+
+UPDATE projects
+SET last_analyzed_at = created_at
+WHERE analysis IS NOT NULL
+AND last_analyzed_at IS NULL;
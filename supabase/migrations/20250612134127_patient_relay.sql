@@ -0,0 +1,138 @@
+/*
+  # Asynchronous Analysis Jobs
+
+  1. New Tables
+    - `analysis_jobs` - Queued repository analyses processed in the background
+      - `id` (uuid, primary key)
+      - `requested_by` (uuid, references profiles) - User notified when the job finishes
+      - `repo_url` (text) - Canonical repository URL
+      - `force` (boolean) - Bypass the analysis cache
+      - `status` (text) - queued, running, completed or failed
+      - `stage` (text) - queued, fetching_repo, sampling_files, scoring or done
+      - `analysis_id` (uuid, references repo_analyses) - Stored result, when cached
+      - `result` (jsonb) - Analysis response returned to the client
+      - `error` (text) - Failure reason
+      - `attempts` (integer) - Number of times processing was started
+      - `created_at`, `started_at`, `completed_at`, `updated_at` (timestamptz)
+
+  2. Changes to Existing Tables
+    - `notifications.type` accepts `analysis_completed` and `analysis_failed`
+    - `notifications.entity_type` accepts `analysis_job`
+
+  3. Security
+    - Enable RLS on `analysis_jobs`
+    - Users can only view their own jobs
+    - Jobs are created and updated by the analysis-jobs edge function (service role)
+
+  4. Realtime
+    - `analysis_jobs` is added to the `supabase_realtime` publication so clients
+      can follow stage updates
+
+  5. Functions and Triggers
+    - `create_analysis_job_notification()` notifies the requester when a job
+      completes or fails
+*/
+
+-- Create analysis_jobs table
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requested_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  repo_url text NOT NULL,
+  force boolean DEFAULT false NOT NULL,
+  status text DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage text DEFAULT 'queued' NOT NULL CHECK (stage IN ('queued', 'fetching_repo', 'sampling_files', 'scoring', 'done')),
+  analysis_id uuid REFERENCES repo_analyses(id) ON DELETE SET NULL,
+  result jsonb,
+  error text,
+  attempts integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  started_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_requested_by ON analysis_jobs(requested_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_pending ON analysis_jobs(updated_at) WHERE status IN ('queued', 'running');
+
+-- Enable Row Level Security
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Analysis jobs policies
+CREATE POLICY "Users can view their own analysis jobs"
+  ON analysis_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = requested_by);
+
+-- Stream stage updates to the requesting client
+ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
+
+-- Keep updated_at current on every stage change
+DROP TRIGGER IF EXISTS update_analysis_jobs_updated_at ON analysis_jobs;
+CREATE TRIGGER update_analysis_jobs_updated_at
+  BEFORE UPDATE ON analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow analysis notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'project_upvote',
+    'project_downvote',
+    'project_comment',
+    'comment_reply',
+    'comment_upvote',
+    'comment_downvote',
+    'analysis_completed',
+    'analysis_failed'
+  ));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_entity_type_check
+  CHECK (entity_type IN ('project', 'comment', 'analysis_job'));
+
+-- Function to notify the requester when an analysis job finishes
+CREATE OR REPLACE FUNCTION create_analysis_job_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  repo_label text;
+BEGIN
+  repo_label := regexp_replace(NEW.repo_url, '^https://[^/]+/', '');
+
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  ) VALUES (
+    NEW.requested_by,
+    NULL,
+    CASE WHEN NEW.status = 'completed' THEN 'analysis_completed' ELSE 'analysis_failed' END,
+    NEW.id,
+    'analysis_job',
+    CASE
+      WHEN NEW.status = 'completed'
+        THEN 'Analysis of ' || repo_label || ' finished with a VCI score of ' || COALESCE(NEW.result->>'vciScore', '?') || '%'
+      ELSE 'Analysis of ' || repo_label || ' failed'
+    END,
+    '/submit?job=' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger for analysis job notifications
+DROP TRIGGER IF EXISTS create_analysis_job_notification_trigger ON analysis_jobs;
+CREATE TRIGGER create_analysis_job_notification_trigger
+  AFTER UPDATE OF status ON analysis_jobs
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'failed') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION create_analysis_job_notification();
@@ -0,0 +1,21 @@
+/*
+  # Development Process Hours
+
+  1. Changes to Existing Tables
+    - `projects.total_hours` (numeric) - Total hours spent building the project
+    - `projects.ai_assisted_hours` (numeric) - Hours spent working with AI tools
+    - `projects.manual_hours` (numeric) - Hours spent coding without AI assistance
+
+  2. Notes
+    - Challenges and learnings stay in `development_process`
+    - The prompt log stays in `prompts`; entries are `{ tool, prompt, result, date? }`
+*/
+
+-- Add hour columns to projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS total_hours numeric(7,1) DEFAULT 0 NOT NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS ai_assisted_hours numeric(7,1) DEFAULT 0 NOT NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS manual_hours numeric(7,1) DEFAULT 0 NOT NULL;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_hours_check;
+ALTER TABLE projects ADD CONSTRAINT projects_hours_check
+  CHECK (total_hours >= 0 AND ai_assisted_hours >= 0 AND manual_hours >= 0);
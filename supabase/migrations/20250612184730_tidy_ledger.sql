@@ -0,0 +1,136 @@
+/*
+  # Project Editing and Revision History
+
+  1. New Tables
+    - `project_revisions` - One row per edit of a submitted project
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `revision_number` (integer) - 1 for the first edit, increasing per project
+      - `edited_by` (uuid, references profiles)
+      - `changed_fields` (text[]) - Column names that changed
+      - `before_values` (jsonb) - Previous values of the changed columns
+      - `after_values` (jsonb) - New values of the changed columns
+      - `created_at` (timestamptz, default now)
+
+  2. Changes to Existing Tables
+    - `projects.edited_at` (timestamptz) - Last time the author changed the project's content
+    - `projects.revision_count` (integer) - Number of recorded edits
+
+  3. Security
+    - Enable RLS on `project_revisions`
+    - Authenticated users can read the revisions of projects they can see, so earlier versions
+      of a project are hidden wherever the project itself is; rows are only written by the
+      trigger below
+    - "Users can update own projects" now also checks the updated row so ownership
+      cannot be handed to someone else
+
+  4. Functions and Triggers
+    - `record_project_revision()` compares the editable columns before each update and,
+      when any changed, stores a revision and bumps `edited_at` and `revision_count`
+    - Vote, comment count and analysis updates do not touch the editable columns and are
+      not recorded
+*/
+
+-- Create project_revisions table
+CREATE TABLE IF NOT EXISTS project_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  edited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_fields text[] NOT NULL,
+  before_values jsonb DEFAULT '{}'::jsonb NOT NULL,
+  after_values jsonb DEFAULT '{}'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+
+  UNIQUE(project_id, revision_number)
+);
+
+-- Edit tracking columns
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS revision_count integer DEFAULT 0 NOT NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_project_revisions_project_id ON project_revisions(project_id, revision_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE project_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Project revisions policies
+CREATE POLICY "Users can view project revisions"
+  ON project_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    -- Subject to the projects SELECT policies
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = project_revisions.project_id
+    )
+  );
+
+-- Owners may edit their projects but not reassign them
+DROP POLICY IF EXISTS "Users can update own projects" ON projects;
+CREATE POLICY "Users can update own projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = submitted_by)
+  WITH CHECK (auth.uid() = submitted_by);
+
+-- Function to record a revision when editable project content changes
+CREATE OR REPLACE FUNCTION record_project_revision()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  old_row jsonb := to_jsonb(OLD);
+  new_row jsonb := to_jsonb(NEW);
+  field text;
+  changed text[] := '{}';
+  before_values jsonb := '{}'::jsonb;
+  after_values jsonb := '{}'::jsonb;
+BEGIN
+  FOREACH field IN ARRAY ARRAY[
+    'title', 'description', 'live_url', 'screenshots', 'technologies', 'tags', 'ai_tools',
+    'total_hours', 'ai_assisted_hours', 'manual_hours', 'development_process', 'prompts'
+  ] LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      changed := array_append(changed, field);
+      before_values := before_values || jsonb_build_object(field, old_row -> field);
+      after_values := after_values || jsonb_build_object(field, new_row -> field);
+    END IF;
+  END LOOP;
+
+  IF array_length(changed, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.revision_count := OLD.revision_count + 1;
+  NEW.edited_at := now();
+
+  INSERT INTO project_revisions (
+    project_id,
+    revision_number,
+    edited_by,
+    changed_fields,
+    before_values,
+    after_values
+  ) VALUES (
+    NEW.id,
+    NEW.revision_count,
+    auth.uid(),
+    changed,
+    before_values,
+    after_values
+  );
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger for project revisions
+DROP TRIGGER IF EXISTS record_project_revision_on_update ON projects;
+CREATE TRIGGER record_project_revision_on_update
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION record_project_revision();
@@ -0,0 +1,139 @@
+/*
+  # Comment Editing and Soft Deletion
+
+  1. New Tables
+    - `comment_revisions` - Previous versions of edited comments
+      - `id` (uuid, primary key)
+      - `comment_id` (uuid, references comments)
+      - `revision_number` (integer) - 1 for the first edit, increasing per comment
+      - `content` (text) - Comment text before the edit
+      - `created_at` (timestamptz, default now) - When the edit was made
+
+  2. Changes to Existing Tables
+    - `comments.edited_at` (timestamptz) - Last time the author changed the text
+    - `comments.revision_count` (integer) - Number of recorded edits
+    - `comments.deleted_at` (timestamptz) - Set when the author deletes the comment
+
+  3. Security
+    - Enable RLS on `comment_revisions`
+    - Authenticated users can read the revisions of comments they can see, so the earlier text of
+      a hidden comment stays hidden; rows are only written by the trigger below
+    - "Users can update own comments" now also checks the updated row
+
+  4. Functions and Triggers
+    - `handle_comment_update()` records the previous text when a comment is edited, and on
+      deletion clears the text and its revisions and lowers the project's comment count
+    - Deleted comments stay in place so their replies keep their thread; the client shows
+      them as "[deleted]"
+*/
+
+-- Create comment_revisions table
+CREATE TABLE IF NOT EXISTS comment_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+
+  UNIQUE(comment_id, revision_number)
+);
+
+-- Edit and deletion tracking columns
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS revision_count integer DEFAULT 0 NOT NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_comment_revisions_comment_id ON comment_revisions(comment_id, revision_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE comment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Comment revisions policies
+CREATE POLICY "Users can view comment revisions"
+  ON comment_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    -- Subject to the comments SELECT policies
+    EXISTS (
+      SELECT 1 FROM comments c
+      WHERE c.id = comment_revisions.comment_id
+    )
+  );
+
+-- Authors may edit their comments but not reassign them
+DROP POLICY IF EXISTS "Users can update own comments" ON comments;
+CREATE POLICY "Users can update own comments"
+  ON comments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = author_id)
+  WITH CHECK (auth.uid() = author_id);
+
+-- Function to record edits and apply soft deletion
+CREATE OR REPLACE FUNCTION handle_comment_update()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Deleted comments are final
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.content IS DISTINCT FROM OLD.content OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+      RAISE EXCEPTION 'Deleted comments cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.content := '';
+    NEW.deleted_at := now();
+
+    DELETE FROM comment_revisions WHERE comment_id = NEW.id;
+
+    UPDATE projects
+    SET comment_count = GREATEST(comment_count - 1, 0)
+    WHERE id = NEW.project_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.revision_count := OLD.revision_count + 1;
+    NEW.edited_at := now();
+
+    INSERT INTO comment_revisions (comment_id, revision_number, content)
+    VALUES (NEW.id, NEW.revision_count, OLD.content);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger for comment edits and deletion
+DROP TRIGGER IF EXISTS handle_comment_update_trigger ON comments;
+CREATE TRIGGER handle_comment_update_trigger
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_comment_update();
+
+-- Removing a soft-deleted comment must not lower the count a second time
+CREATE OR REPLACE FUNCTION update_project_comment_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE projects
+    SET comment_count = comment_count + 1
+    WHERE id = NEW.project_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL THEN
+      UPDATE projects
+      SET comment_count = GREATEST(comment_count - 1, 0)
+      WHERE id = OLD.project_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
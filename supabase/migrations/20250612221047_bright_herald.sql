@@ -0,0 +1,195 @@
+/*
+  # Mention Notifications
+
+  1. Changes to Existing Tables
+    - `notifications.type` now also allows 'mention'
+
+  2. Functions and Triggers
+    - `extract_mentions(content)` returns the lower-cased `@username` mentions in Markdown text,
+      ignoring code blocks and inline code
+    - `mention_recipients(...)` returns the users to notify, skipping the author, users that were
+      already mentioned in the previous text and any explicitly excluded users
+    - `create_comment_mention_notifications()` runs when a comment is posted or edited; the
+      parent comment author and project owner are skipped because they already get reply and
+      comment notifications
+    - `create_project_mention_notifications()` runs when a project description is written or edited
+
+  3. Security
+    - `mention_recipients()` can only be called by the trigger functions; the triggers build the
+      notification message and link themselves, so clients cannot send mentions with a forged
+      sender or link
+
+  4. Notes
+    - At most 10 users are notified per comment or description change
+*/
+
+-- Allow mention notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'project_upvote',
+    'project_downvote',
+    'project_comment',
+    'comment_reply',
+    'comment_upvote',
+    'comment_downvote',
+    'analysis_completed',
+    'analysis_failed',
+    'mention'
+  ));
+
+-- Function to find @username mentions outside of code
+CREATE OR REPLACE FUNCTION extract_mentions(content text)
+RETURNS TABLE(username text)
+AS $$
+  SELECT DISTINCT lower(m[2])
+  FROM regexp_matches(
+    regexp_replace(
+      regexp_replace(COALESCE(content, ''), '```.*?(```|$)', ' ', 'g'),
+      '`[^`\n]*`', ' ', 'g'
+    ),
+    '(^|[^A-Za-z0-9_@/.-])@([A-Za-z0-9_-]{1,40})',
+    'g'
+  ) AS m
+$$ language 'sql' IMMUTABLE;
+
+-- Function to find the users newly mentioned in a piece of content
+CREATE OR REPLACE FUNCTION mention_recipients(
+  new_content text,
+  old_content text,
+  sender uuid,
+  excluded uuid[]
+)
+RETURNS TABLE(user_id uuid)
+AS $$
+  SELECT pr.id
+  FROM extract_mentions(new_content) m
+  JOIN profiles pr ON lower(pr.username) = m.username
+  WHERE pr.id IS DISTINCT FROM sender
+  AND pr.id <> ALL(excluded)
+  AND m.username NOT IN (SELECT username FROM extract_mentions(old_content))
+  LIMIT 10
+$$ language 'sql' STABLE;
+
+REVOKE EXECUTE ON FUNCTION mention_recipients(text, text, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- Function to create mention notifications for comments
+CREATE OR REPLACE FUNCTION create_comment_mention_notifications()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  project_record RECORD;
+  sender_username text;
+  parent_author_id uuid;
+  previous_content text;
+BEGIN
+  IF NEW.author_id IS NULL OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, title, submitted_by INTO project_record
+  FROM projects
+  WHERE id = NEW.project_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO sender_username FROM profiles WHERE id = NEW.author_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO parent_author_id FROM comments WHERE id = NEW.parent_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    previous_content := OLD.content;
+  END IF;
+
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  )
+  SELECT
+    r.user_id,
+    NEW.author_id,
+    'mention',
+    NEW.id,
+    'comment',
+    COALESCE(sender_username, 'Someone') || ' mentioned you in a comment on "' || project_record.title || '"',
+    '/project/' || NEW.project_id || '#comment-' || NEW.id
+  FROM mention_recipients(
+    NEW.content,
+    previous_content,
+    NEW.author_id,
+    array_remove(ARRAY[parent_author_id, project_record.submitted_by], NULL)
+  ) r;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Function to create mention notifications for project descriptions
+CREATE OR REPLACE FUNCTION create_project_mention_notifications()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  sender_username text;
+  previous_description text;
+BEGIN
+  IF NEW.submitted_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO sender_username FROM profiles WHERE id = NEW.submitted_by;
+
+  IF TG_OP = 'UPDATE' THEN
+    previous_description := OLD.description;
+  END IF;
+
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  )
+  SELECT
+    r.user_id,
+    NEW.submitted_by,
+    'mention',
+    NEW.id,
+    'project',
+    COALESCE(sender_username, 'Someone') || ' mentioned you in "' || NEW.title || '"',
+    '/project/' || NEW.id
+  FROM mention_recipients(
+    NEW.description,
+    previous_description,
+    NEW.submitted_by,
+    '{}'::uuid[]
+  ) r;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for mention notifications
+DROP TRIGGER IF EXISTS create_comment_mention_notifications_trigger ON comments;
+CREATE TRIGGER create_comment_mention_notifications_trigger
+  AFTER INSERT OR UPDATE OF content ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION create_comment_mention_notifications();
+
+DROP TRIGGER IF EXISTS create_project_mention_notifications_trigger ON projects;
+CREATE TRIGGER create_project_mention_notifications_trigger
+  AFTER INSERT OR UPDATE OF description ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION create_project_mention_notifications();
@@ -0,0 +1,20 @@
+/*
+  # Realtime Comments, Votes and Notifications
+
+  1. Realtime
+    - `comments` is added to the `supabase_realtime` publication so open project pages
+      receive new comments, edits and comment vote counts
+    - `projects` is added so vote and comment counts update on cards and project pages
+    - `notifications` is added so the unread badge updates as soon as a notification
+      is created or marked as read
+
+  2. Notes
+    - Realtime applies the existing SELECT policies, so clients only receive rows they can read
+    - Vote counts are maintained on `projects` and `comments` by triggers, so the vote
+      tables themselves are not published
+*/
+
+-- Stream comment, project and notification changes to clients
+ALTER PUBLICATION supabase_realtime ADD TABLE comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE projects;
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,177 @@
+/*
+  # User Follows
+
+  1. New Tables
+    - `follows` - Users following other users
+      - `id` (uuid, primary key)
+      - `follower_id` (uuid, references profiles) - User who follows
+      - `following_id` (uuid, references profiles) - User being followed
+      - `created_at` (timestamptz)
+      - Unique per (follower_id, following_id); users cannot follow themselves
+
+  2. Changes to Existing Tables
+    - `profiles.follower_count` and `profiles.following_count` (integer), kept up to date by trigger
+    - `notifications.type` accepts `new_project_from_followed`
+
+  3. Security
+    - Enable RLS on `follows`
+    - Authenticated users can view all follows
+    - Users can only follow and unfollow as themselves
+    - The follow counts can only be written by `update_follow_counts()` or the service role;
+      "Users can update own profile" would otherwise let users set their own
+
+  4. Functions and Triggers
+    - `update_follow_counts()` maintains the profile counts when a follow is added or removed
+    - `protect_follow_counts()` resets the counts on insert and keeps them unchanged on update
+      unless the write comes from `update_follow_counts()`
+    - `create_followed_project_notifications()` notifies followers when a user submits a project
+*/
+
+-- Create follows table
+CREATE TABLE IF NOT EXISTS follows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON follows(follower_id);
+CREATE INDEX IF NOT EXISTS idx_follows_following_id ON follows(following_id);
+
+-- Add follow counts to profiles
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS follower_count integer DEFAULT 0 NOT NULL;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS following_count integer DEFAULT 0 NOT NULL;
+
+-- Enable RLS
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all follows"
+  ON follows
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can follow as themselves"
+  ON follows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow as themselves"
+  ON follows
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = follower_id);
+
+-- Function to keep follow counts on profiles
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+    UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE profiles SET follower_count = GREATEST(follower_count - 1, 0) WHERE id = OLD.following_id;
+    UPDATE profiles SET following_count = GREATEST(following_count - 1, 0) WHERE id = OLD.follower_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_follow_counts_trigger ON follows;
+CREATE TRIGGER update_follow_counts_trigger
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION update_follow_counts();
+
+-- Function to keep follow counts in the hands of update_follow_counts()
+CREATE OR REPLACE FUNCTION protect_follow_counts()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- The service role (edge functions) has no auth.uid(); update_follow_counts() writes from
+  -- inside the trigger on follows, one trigger level down
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.follower_count := 0;
+    NEW.following_count := 0;
+  ELSE
+    NEW.follower_count := OLD.follower_count;
+    NEW.following_count := OLD.following_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_follow_counts_trigger ON profiles;
+CREATE TRIGGER protect_follow_counts_trigger
+  BEFORE INSERT OR UPDATE OF follower_count, following_count ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_follow_counts();
+
+-- Allow followed project notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'project_upvote',
+    'project_downvote',
+    'project_comment',
+    'comment_reply',
+    'comment_upvote',
+    'comment_downvote',
+    'analysis_completed',
+    'analysis_failed',
+    'mention',
+    'new_project_from_followed'
+  ));
+
+-- Function to notify followers about a new project
+CREATE OR REPLACE FUNCTION create_followed_project_notifications()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.submitted_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  )
+  SELECT
+    f.follower_id,
+    NEW.submitted_by,
+    'new_project_from_followed',
+    NEW.id,
+    'project',
+    'submitted a new project: "' || NEW.title || '"',
+    '/project/' || NEW.id::text
+  FROM follows f
+  WHERE f.following_id = NEW.submitted_by;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS create_followed_project_notifications_trigger ON projects;
+CREATE TRIGGER create_followed_project_notifications_trigger
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION create_followed_project_notifications();
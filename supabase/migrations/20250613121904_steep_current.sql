@@ -0,0 +1,153 @@
+/*
+  # Server-Side Project Ranking
+
+  1. Changes to Existing Tables
+    - `projects.hot_score` (double precision) - Net votes on a log scale plus a submission-time
+      bonus, so newer projects outrank older ones with the same votes (time-decayed "hot")
+    - `projects.rising_score` (double precision) - Net votes and comments from the last 24 hours
+      divided by the project's age, i.e. how fast a new project is gaining traction
+    - `projects.controversy_score` (double precision) - High when a project has many votes that
+      are evenly split between up and down
+    - `projects.wilson_score` (double precision) - Lower bound of the Wilson score interval for
+      the share of upvotes, used for "top"
+    - Indexes on each score for paginated ordering
+
+  2. Functions and Triggers
+    - `project_hot_score()`, `project_rising_score()`, `project_controversy_score()` and
+      `project_wilson_score()` compute the individual scores
+    - `update_project_ranking_scores()` recomputes all scores whenever a project is created or
+      its vote or comment counts change (the vote and comment triggers update those counts)
+    - `refresh_project_rising_scores()` recomputes rising scores for recent projects so they
+      decay between votes; pg_cron runs it every 15 minutes
+
+  3. Security
+    - Writing a score directly also recomputes all of them, so "Users can update own projects"
+      cannot be used to pin a project to the top of a feed
+    - `refresh_project_rising_scores()` updates the whole table, so only the scheduler (and the
+      service role) may run it
+
+  4. Notes
+    - Hot, controversy and Wilson scores do not change with time on their own; only the rising
+      score ages, and clients only rank projects from the last 3 days as rising
+*/
+
+-- Add ranking scores to projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS hot_score double precision DEFAULT 0 NOT NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS rising_score double precision DEFAULT 0 NOT NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS controversy_score double precision DEFAULT 0 NOT NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS wilson_score double precision DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_hot_score ON projects(hot_score DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_rising_score ON projects(rising_score DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_controversy_score ON projects(controversy_score DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_wilson_score ON projects(wilson_score DESC);
+
+-- Hot: every 12.5 hours of recency is worth ten times the net votes
+CREATE OR REPLACE FUNCTION project_hot_score(upvotes integer, downvotes integer, submitted_at timestamptz)
+RETURNS double precision
+AS $$
+  SELECT sign(upvotes - downvotes)::double precision * log(greatest(abs(upvotes - downvotes), 1)::double precision)
+    + extract(epoch FROM submitted_at - '2025-01-01 00:00:00+00'::timestamptz) / 45000
+$$ language 'sql' IMMUTABLE;
+
+-- Rising: recent engagement per hour of age, weighted towards the first hours
+CREATE OR REPLACE FUNCTION project_rising_score(target_project_id uuid, submitted_at timestamptz)
+RETURNS double precision
+AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE -1 END)
+      FROM project_votes
+      WHERE project_id = target_project_id
+      AND updated_at >= now() - interval '24 hours'
+    ), 0)
+    + 0.5 * (
+      SELECT COUNT(*)
+      FROM comments
+      WHERE project_id = target_project_id
+      AND deleted_at IS NULL
+      AND created_at >= now() - interval '24 hours'
+    )
+  )::double precision / power(greatest(extract(epoch FROM now() - submitted_at) / 3600, 0) + 2, 1.5)
+$$ language 'sql' STABLE;
+
+-- Controversy: total votes raised to the balance between up and down votes
+CREATE OR REPLACE FUNCTION project_controversy_score(upvotes integer, downvotes integer)
+RETURNS double precision
+AS $$
+  SELECT CASE
+    WHEN upvotes <= 0 OR downvotes <= 0 THEN 0
+    ELSE power((upvotes + downvotes)::double precision, least(upvotes, downvotes)::double precision / greatest(upvotes, downvotes))
+  END
+$$ language 'sql' IMMUTABLE;
+
+-- Wilson: lower bound of the 95% confidence interval for the upvote share
+CREATE OR REPLACE FUNCTION project_wilson_score(upvotes integer, downvotes integer)
+RETURNS double precision
+AS $$
+DECLARE
+  n double precision := upvotes + downvotes;
+  z constant double precision := 1.96;
+  p double precision;
+BEGIN
+  IF n <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  p := upvotes / n;
+  RETURN (p + z * z / (2 * n) - z * sqrt((p * (1 - p) + z * z / (4 * n)) / n)) / (1 + z * z / n);
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Function to recompute ranking scores when counts change
+CREATE OR REPLACE FUNCTION update_project_ranking_scores()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  NEW.hot_score := project_hot_score(COALESCE(NEW.upvotes, 0), COALESCE(NEW.downvotes, 0), COALESCE(NEW.created_at, now()));
+  NEW.rising_score := project_rising_score(NEW.id, COALESCE(NEW.created_at, now()));
+  NEW.controversy_score := project_controversy_score(COALESCE(NEW.upvotes, 0), COALESCE(NEW.downvotes, 0));
+  NEW.wilson_score := project_wilson_score(COALESCE(NEW.upvotes, 0), COALESCE(NEW.downvotes, 0));
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_project_ranking_scores_trigger ON projects;
+CREATE TRIGGER update_project_ranking_scores_trigger
+  BEFORE INSERT OR UPDATE OF upvotes, downvotes, comment_count, hot_score, rising_score, controversy_score, wilson_score ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_ranking_scores();
+
+-- Function to let rising scores decay for projects that stopped receiving votes
+CREATE OR REPLACE FUNCTION refresh_project_rising_scores()
+RETURNS void
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE projects
+  SET rising_score = project_rising_score(id, created_at)
+  WHERE (created_at >= now() - interval '3 days' OR rising_score <> 0)
+  AND rising_score IS DISTINCT FROM project_rising_score(id, created_at);
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION refresh_project_rising_scores() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_project_rising_scores() TO service_role;
+
+-- Let rising scores decay every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-project-rising-scores',
+  '*/15 * * * *',
+  'SELECT refresh_project_rising_scores()'
+);
+
+-- Backfill scores for existing projects
+UPDATE projects
+SET
+  hot_score = project_hot_score(COALESCE(upvotes, 0), COALESCE(downvotes, 0), created_at),
+  rising_score = project_rising_score(id, created_at),
+  controversy_score = project_controversy_score(COALESCE(upvotes, 0), COALESCE(downvotes, 0)),
+  wilson_score = project_wilson_score(COALESCE(upvotes, 0), COALESCE(downvotes, 0));
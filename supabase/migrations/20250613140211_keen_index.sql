@@ -0,0 +1,287 @@
+/*
+  # Full-Text Project Search
+
+  1. Extensions
+    - `pg_trgm` for typo-tolerant matching
+
+  2. Changes to Existing Tables
+    - `projects.search_vector` (tsvector) - Weighted document: title (A); tags, technologies and
+      AI tool names (B); author and repository name (C); description (D)
+    - `projects.search_terms` (text) - Lower-cased title, keywords, author and repository name
+      used for trigram matching
+    - GIN indexes on both columns
+
+  3. Functions and Triggers
+    - `project_search_keywords()`, `project_search_vector()` and `project_search_terms()` build
+      the search columns
+    - `update_project_search()` keeps them current when a project's searchable fields change
+    - `update_project_search_author()` refreshes a user's projects when their username changes
+    - `project_vci_band()` buckets VCI scores into low (0-39), medium (40-79) and high (80-100)
+    - `search_project_matches()` returns matching project ids with a relevance rank, combining
+      `ts_rank_cd` with trigram word similarity
+    - `search_projects()` returns one page of matches in the requested order plus the total count
+    - `search_project_facets()` returns technology, AI tool and VCI band counts for a search;
+      each facet ignores its own filter so other values stay selectable
+
+  4. Notes
+    - All search functions run with the caller's permissions, so project RLS still applies
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Add search columns to projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_terms text DEFAULT '' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON projects USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_search_terms ON projects USING gin(search_terms gin_trgm_ops);
+
+-- Tags, technologies and AI tool names as one space-separated string
+CREATE OR REPLACE FUNCTION project_search_keywords(tags jsonb, technologies jsonb, ai_tools jsonb)
+RETURNS text
+AS $$
+  SELECT COALESCE(string_agg(keyword, ' '), '')
+  FROM (
+    SELECT value #>> '{}' AS keyword
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(tags) = 'array' THEN tags ELSE '[]'::jsonb END)
+    UNION ALL
+    SELECT value #>> '{}'
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(technologies) = 'array' THEN technologies ELSE '[]'::jsonb END)
+    UNION ALL
+    SELECT CASE WHEN jsonb_typeof(value) = 'string' THEN value #>> '{}' ELSE value->>'name' END
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(ai_tools) = 'array' THEN ai_tools ELSE '[]'::jsonb END)
+  ) keywords
+  WHERE keyword IS NOT NULL
+$$ language 'sql' IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION project_search_vector(
+  title text,
+  description text,
+  tags jsonb,
+  technologies jsonb,
+  ai_tools jsonb,
+  repo_name text,
+  author text
+)
+RETURNS tsvector
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', project_search_keywords(tags, technologies, ai_tools)), 'B') ||
+    setweight(to_tsvector('english', COALESCE(author, '') || ' ' || COALESCE(repo_name, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'D')
+$$ language 'sql' IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION project_search_terms(
+  title text,
+  tags jsonb,
+  technologies jsonb,
+  ai_tools jsonb,
+  repo_name text,
+  author text
+)
+RETURNS text
+AS $$
+  SELECT lower(concat_ws(' ', title, project_search_keywords(tags, technologies, ai_tools), author, repo_name))
+$$ language 'sql' IMMUTABLE;
+
+-- Function to keep search columns current
+CREATE OR REPLACE FUNCTION update_project_search()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  author_username text;
+BEGIN
+  SELECT username INTO author_username FROM profiles WHERE id = NEW.submitted_by;
+
+  NEW.search_vector := project_search_vector(
+    NEW.title, NEW.description, NEW.tags, NEW.technologies, NEW.ai_tools, NEW.repo_name, author_username
+  );
+  NEW.search_terms := project_search_terms(
+    NEW.title, NEW.tags, NEW.technologies, NEW.ai_tools, NEW.repo_name, author_username
+  );
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_project_search_trigger ON projects;
+CREATE TRIGGER update_project_search_trigger
+  BEFORE INSERT OR UPDATE OF title, description, tags, technologies, ai_tools, repo_name, submitted_by ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_search();
+
+-- Function to refresh a user's projects when their username changes
+CREATE OR REPLACE FUNCTION update_project_search_author()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.username IS DISTINCT FROM OLD.username THEN
+    UPDATE projects
+    SET
+      search_vector = project_search_vector(title, description, tags, technologies, ai_tools, repo_name, NEW.username),
+      search_terms = project_search_terms(title, tags, technologies, ai_tools, repo_name, NEW.username)
+    WHERE submitted_by = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_project_search_author_trigger ON profiles;
+CREATE TRIGGER update_project_search_author_trigger
+  AFTER UPDATE OF username ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_search_author();
+
+-- Backfill search columns for existing projects
+UPDATE projects p
+SET
+  search_vector = project_search_vector(p.title, p.description, p.tags, p.technologies, p.ai_tools, p.repo_name, pr.username),
+  search_terms = project_search_terms(p.title, p.tags, p.technologies, p.ai_tools, p.repo_name, pr.username)
+FROM profiles pr
+WHERE pr.id = p.submitted_by;
+
+UPDATE projects
+SET
+  search_vector = project_search_vector(title, description, tags, technologies, ai_tools, repo_name, NULL),
+  search_terms = project_search_terms(title, tags, technologies, ai_tools, repo_name, NULL)
+WHERE search_vector IS NULL;
+
+-- VCI score bands used by search filters and facets
+CREATE OR REPLACE FUNCTION project_vci_band(score integer)
+RETURNS text
+AS $$
+  SELECT CASE
+    WHEN score >= 80 THEN 'high'
+    WHEN score >= 40 THEN 'medium'
+    ELSE 'low'
+  END
+$$ language 'sql' IMMUTABLE;
+
+-- Function to find projects matching a search and its filters
+CREATE OR REPLACE FUNCTION search_project_matches(
+  search_query text DEFAULT '',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL
+)
+RETURNS TABLE(project_id uuid, rank real)
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', COALESCE(search_query, '')) AS ts,
+      lower(trim(COALESCE(search_query, ''))) AS raw
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN q.raw = '' THEN 0
+      ELSE ts_rank_cd(p.search_vector, q.ts, 32) + 0.5 * word_similarity(q.raw, p.search_terms)
+    END::real
+  FROM projects p, q
+  WHERE (q.raw = '' OR p.search_vector @@ q.ts OR q.raw <% p.search_terms)
+  AND (vci_band IS NULL OR project_vci_band(p.vci_score) = vci_band)
+  AND (verified_filter IS NULL OR COALESCE(p.is_verified, false) = verified_filter)
+  AND (has_ai_tools IS NULL OR (jsonb_typeof(p.ai_tools) = 'array' AND jsonb_array_length(p.ai_tools) > 0) = has_ai_tools)
+  AND (technology_filter IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(p.technologies) = 'array' THEN p.technologies ELSE '[]'::jsonb END) tech
+    WHERE lower(tech) = lower(technology_filter)
+  ))
+  AND (ai_tool_filter IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p.ai_tools) = 'array' THEN p.ai_tools ELSE '[]'::jsonb END) tool
+    WHERE lower(CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END) = lower(ai_tool_filter)
+  ))
+$$ language 'sql' STABLE;
+
+-- Function to return one page of search results
+CREATE OR REPLACE FUNCTION search_projects(
+  search_query text DEFAULT '',
+  sort_by text DEFAULT 'relevance',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(project_id uuid, rank real, total_count bigint)
+AS $$
+  SELECT m.project_id, m.rank, COUNT(*) OVER () AS total_count
+  FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, technology_filter, ai_tool_filter) m
+  JOIN projects p ON p.id = m.project_id
+  ORDER BY
+    CASE WHEN sort_by = 'recent' THEN p.created_at END DESC NULLS LAST,
+    CASE WHEN sort_by = 'vci-high' THEN p.vci_score END DESC NULLS LAST,
+    CASE WHEN sort_by = 'vci-low' THEN p.vci_score END ASC NULLS LAST,
+    CASE WHEN sort_by = 'trending' THEN p.hot_score END DESC NULLS LAST,
+    m.rank DESC,
+    p.hot_score DESC,
+    p.id
+  LIMIT LEAST(GREATEST(result_limit, 1), 100)
+  OFFSET GREATEST(result_offset, 0)
+$$ language 'sql' STABLE;
+
+-- Function to count technologies, AI tools and VCI bands across a search
+CREATE OR REPLACE FUNCTION search_project_facets(
+  search_query text DEFAULT '',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL,
+  facet_limit integer DEFAULT 10
+)
+RETURNS jsonb
+AS $$
+  SELECT jsonb_build_object(
+    'technologies', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tech) AS value, COUNT(DISTINCT p.id) AS count
+        FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, NULL, ai_tool_filter) m
+        JOIN projects p ON p.id = m.project_id
+        CROSS JOIN LATERAL jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(p.technologies) = 'array' THEN p.technologies ELSE '[]'::jsonb END
+        ) tech
+        GROUP BY lower(tech)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) technology_counts
+    ), '[]'::jsonb),
+    'aiTools', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tool_name) AS value, COUNT(DISTINCT p.id) AS count
+        FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, technology_filter, NULL) m
+        JOIN projects p ON p.id = m.project_id
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(p.ai_tools) = 'array' THEN p.ai_tools ELSE '[]'::jsonb END
+        ) tool
+        CROSS JOIN LATERAL (
+          SELECT CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END AS tool_name
+        ) names
+        WHERE tool_name IS NOT NULL
+        GROUP BY lower(tool_name)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) tool_counts
+    ), '[]'::jsonb),
+    'vciBands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value)
+      FROM (
+        SELECT project_vci_band(p.vci_score) AS value, COUNT(*) AS count
+        FROM search_project_matches(search_query, NULL, verified_filter, has_ai_tools, technology_filter, ai_tool_filter) m
+        JOIN projects p ON p.id = m.project_id
+        GROUP BY project_vci_band(p.vci_score)
+      ) band_counts
+    ), '[]'::jsonb)
+  )
+$$ language 'sql' STABLE;
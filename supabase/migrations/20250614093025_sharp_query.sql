@@ -0,0 +1,204 @@
+/*
+  # Advanced Search Filters
+
+  1. Functions
+    - `search_project_matches()`, `search_projects()` and `search_project_facets()` accept
+      additional filters used by the search query syntax (`author:`, `vci:>70`, `votes:>=10`,
+      `created:2025-01-01..2025-01-31`, `has:live`, `has:screenshots`)
+      - `author_filter` (text) - Submitter username, case-insensitive
+      - `vci_min` / `vci_max` (integer) - Inclusive VCI score range
+      - `votes_min` / `votes_max` (integer) - Inclusive net vote range
+      - `submitted_after` (inclusive) / `submitted_before` (exclusive) (timestamptz)
+      - `has_live_url` / `has_screenshots` (boolean)
+    - The trigram (typo-tolerant) fallback of `search_project_matches()` only compares the
+      positive terms and skips projects containing any `-excluded` word or "-quoted phrase"
+
+  2. Notes
+    - The previous signatures are dropped so calls with named arguments stay unambiguous
+*/
+
+DROP FUNCTION IF EXISTS search_projects(text, text, text, boolean, boolean, text, text, integer, integer);
+DROP FUNCTION IF EXISTS search_project_facets(text, text, boolean, boolean, text, text, integer);
+DROP FUNCTION IF EXISTS search_project_matches(text, text, boolean, boolean, text, text);
+
+-- Function to find projects matching a search and its filters
+CREATE OR REPLACE FUNCTION search_project_matches(
+  search_query text DEFAULT '',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL,
+  author_filter text DEFAULT NULL,
+  vci_min integer DEFAULT NULL,
+  vci_max integer DEFAULT NULL,
+  votes_min integer DEFAULT NULL,
+  votes_max integer DEFAULT NULL,
+  submitted_after timestamptz DEFAULT NULL,
+  submitted_before timestamptz DEFAULT NULL,
+  has_live_url boolean DEFAULT NULL,
+  has_screenshots boolean DEFAULT NULL
+)
+RETURNS TABLE(project_id uuid, rank real)
+AS $$
+  WITH raw_q AS (
+    SELECT lower(trim(COALESCE(search_query, ''))) AS raw
+  ),
+  q AS (
+    SELECT
+      websearch_to_tsquery('english', raw_q.raw) AS ts,
+      raw_q.raw,
+      -- The query without its -excluded words and "-quoted phrases", for fuzzy matching
+      trim(regexp_replace(raw_q.raw, '(^|\s)-("[^"]*"|[^\s"]+)', ' ', 'g')) AS positive,
+      -- Matches a project containing any excluded term; NULL when nothing is excluded
+      (
+        SELECT websearch_to_tsquery('english', string_agg(m[1], ' or '))
+        FROM regexp_matches(raw_q.raw, '(?:^|\s)-("[^"]*"|[^\s"]+)', 'g') AS m
+      ) AS excluded
+    FROM raw_q
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN q.raw = '' THEN 0
+      ELSE ts_rank_cd(p.search_vector, q.ts, 32) + 0.5 * word_similarity(q.positive, p.search_terms)
+    END::real
+  FROM projects p, q
+  WHERE (
+    q.raw = ''
+    OR p.search_vector @@ q.ts
+    OR (
+      q.positive <> ''
+      AND q.positive <% p.search_terms
+      AND (q.excluded IS NULL OR NOT p.search_vector @@ q.excluded)
+    )
+  )
+  AND (vci_band IS NULL OR project_vci_band(p.vci_score) = vci_band)
+  AND (verified_filter IS NULL OR COALESCE(p.is_verified, false) = verified_filter)
+  AND (has_ai_tools IS NULL OR (jsonb_typeof(p.ai_tools) = 'array' AND jsonb_array_length(p.ai_tools) > 0) = has_ai_tools)
+  AND (technology_filter IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(p.technologies) = 'array' THEN p.technologies ELSE '[]'::jsonb END) tech
+    WHERE lower(tech) = lower(technology_filter)
+  ))
+  AND (ai_tool_filter IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p.ai_tools) = 'array' THEN p.ai_tools ELSE '[]'::jsonb END) tool
+    WHERE lower(CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END) = lower(ai_tool_filter)
+  ))
+  AND (author_filter IS NULL OR EXISTS (
+    SELECT 1 FROM profiles pr WHERE pr.id = p.submitted_by AND lower(pr.username) = lower(author_filter)
+  ))
+  AND (vci_min IS NULL OR p.vci_score >= vci_min)
+  AND (vci_max IS NULL OR p.vci_score <= vci_max)
+  AND (votes_min IS NULL OR COALESCE(p.upvotes, 0) - COALESCE(p.downvotes, 0) >= votes_min)
+  AND (votes_max IS NULL OR COALESCE(p.upvotes, 0) - COALESCE(p.downvotes, 0) <= votes_max)
+  AND (submitted_after IS NULL OR p.created_at >= submitted_after)
+  AND (submitted_before IS NULL OR p.created_at < submitted_before)
+  AND (has_live_url IS NULL OR (COALESCE(p.live_url, '') <> '') = has_live_url)
+  AND (has_screenshots IS NULL OR (jsonb_typeof(p.screenshots) = 'array' AND jsonb_array_length(p.screenshots) > 0) = has_screenshots)
+$$ language 'sql' STABLE;
+
+-- Function to return one page of search results
+CREATE OR REPLACE FUNCTION search_projects(
+  search_query text DEFAULT '',
+  sort_by text DEFAULT 'relevance',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL,
+  author_filter text DEFAULT NULL,
+  vci_min integer DEFAULT NULL,
+  vci_max integer DEFAULT NULL,
+  votes_min integer DEFAULT NULL,
+  votes_max integer DEFAULT NULL,
+  submitted_after timestamptz DEFAULT NULL,
+  submitted_before timestamptz DEFAULT NULL,
+  has_live_url boolean DEFAULT NULL,
+  has_screenshots boolean DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(project_id uuid, rank real, total_count bigint)
+AS $$
+  SELECT m.project_id, m.rank, COUNT(*) OVER () AS total_count
+  FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, technology_filter, ai_tool_filter, author_filter, vci_min, vci_max, votes_min, votes_max, submitted_after, submitted_before, has_live_url, has_screenshots) m
+  JOIN projects p ON p.id = m.project_id
+  ORDER BY
+    CASE WHEN sort_by = 'recent' THEN p.created_at END DESC NULLS LAST,
+    CASE WHEN sort_by = 'vci-high' THEN p.vci_score END DESC NULLS LAST,
+    CASE WHEN sort_by = 'vci-low' THEN p.vci_score END ASC NULLS LAST,
+    CASE WHEN sort_by = 'trending' THEN p.hot_score END DESC NULLS LAST,
+    m.rank DESC,
+    p.hot_score DESC,
+    p.id
+  LIMIT LEAST(GREATEST(result_limit, 1), 100)
+  OFFSET GREATEST(result_offset, 0)
+$$ language 'sql' STABLE;
+
+-- Function to count technologies, AI tools and VCI bands across a search
+CREATE OR REPLACE FUNCTION search_project_facets(
+  search_query text DEFAULT '',
+  vci_band text DEFAULT NULL,
+  verified_filter boolean DEFAULT NULL,
+  has_ai_tools boolean DEFAULT NULL,
+  technology_filter text DEFAULT NULL,
+  ai_tool_filter text DEFAULT NULL,
+  author_filter text DEFAULT NULL,
+  vci_min integer DEFAULT NULL,
+  vci_max integer DEFAULT NULL,
+  votes_min integer DEFAULT NULL,
+  votes_max integer DEFAULT NULL,
+  submitted_after timestamptz DEFAULT NULL,
+  submitted_before timestamptz DEFAULT NULL,
+  has_live_url boolean DEFAULT NULL,
+  has_screenshots boolean DEFAULT NULL,
+  facet_limit integer DEFAULT 10
+)
+RETURNS jsonb
+AS $$
+  SELECT jsonb_build_object(
+    'technologies', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tech) AS value, COUNT(DISTINCT p.id) AS count
+        FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, NULL, ai_tool_filter, author_filter, vci_min, vci_max, votes_min, votes_max, submitted_after, submitted_before, has_live_url, has_screenshots) m
+        JOIN projects p ON p.id = m.project_id
+        CROSS JOIN LATERAL jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(p.technologies) = 'array' THEN p.technologies ELSE '[]'::jsonb END
+        ) tech
+        GROUP BY lower(tech)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) technology_counts
+    ), '[]'::jsonb),
+    'aiTools', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tool_name) AS value, COUNT(DISTINCT p.id) AS count
+        FROM search_project_matches(search_query, vci_band, verified_filter, has_ai_tools, technology_filter, NULL, author_filter, vci_min, vci_max, votes_min, votes_max, submitted_after, submitted_before, has_live_url, has_screenshots) m
+        JOIN projects p ON p.id = m.project_id
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(p.ai_tools) = 'array' THEN p.ai_tools ELSE '[]'::jsonb END
+        ) tool
+        CROSS JOIN LATERAL (
+          SELECT CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END AS tool_name
+        ) names
+        WHERE tool_name IS NOT NULL
+        GROUP BY lower(tool_name)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) tool_counts
+    ), '[]'::jsonb),
+    'vciBands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value)
+      FROM (
+        SELECT project_vci_band(p.vci_score) AS value, COUNT(*) AS count
+        FROM search_project_matches(search_query, NULL, verified_filter, has_ai_tools, technology_filter, ai_tool_filter, author_filter, vci_min, vci_max, votes_min, votes_max, submitted_after, submitted_before, has_live_url, has_screenshots) m
+        JOIN projects p ON p.id = m.project_id
+        GROUP BY project_vci_band(p.vci_score)
+      ) band_counts
+    ), '[]'::jsonb)
+  )
+$$ language 'sql' STABLE;
@@ -0,0 +1,318 @@
+/*
+  # Saved Searches and Search Alerts
+
+  1. New Tables
+    - `saved_searches` - Searches saved by a user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id)
+      - `name` (text) - Display name, unique per user
+      - `query` (text) - Query as typed in the search box, including filter operators
+      - `sort_by` (text) - Result order used when the search is opened
+      - `filters` (jsonb) - Free text and filters parsed from `query`, keyed by the
+        `search_project_matches()` argument names
+      - `alert_frequency` (text) - `off`, `instant` (one notification per matching project)
+        or `daily` (one digest per day)
+      - `last_notified_at` (timestamptz, nullable) - When the last alert or digest was sent
+      - `created_at`, `updated_at` (timestamptz)
+
+    - `saved_search_matches` - New projects that matched a saved search
+      - `id` (uuid, primary key)
+      - `saved_search_id` (uuid, references saved_searches.id)
+      - `project_id` (uuid, references projects.id)
+      - `created_at` (timestamptz)
+      - `notified_at` (timestamptz, nullable) - Set once the match was included in an alert
+
+  2. Changes to Existing Tables
+    - `notifications.type` accepts `saved_search_match`
+    - `notifications.entity_type` accepts `saved_search` (used by daily digests)
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can only view and manage their own saved searches and their matches
+    - Only the scheduler (and the service role) may run `send_saved_search_digests()`
+
+  4. Functions and Triggers
+    - `saved_search_matches_project()` checks a project against saved search filters
+    - `create_saved_search_matches()` records matches when a project is submitted and sends
+      instant alerts
+    - `send_saved_search_digests()` sends one notification per daily saved search with pending
+      matches, linking to the search limited to the new projects; pg_cron runs it daily at
+      08:00 UTC
+    - `url_encode()` builds digest links
+
+  5. Notes
+    - Projects are matched once, when they are submitted; users are not alerted about their own
+      projects, and receive at most one instant alert per project
+*/
+
+-- Create saved_searches table
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  query text NOT NULL CHECK (char_length(query) BETWEEN 1 AND 500),
+  sort_by text DEFAULT 'relevance' NOT NULL CHECK (sort_by IN ('relevance', 'recent', 'vci-high', 'vci-low', 'trending')),
+  filters jsonb DEFAULT '{}'::jsonb NOT NULL,
+  alert_frequency text DEFAULT 'instant' NOT NULL CHECK (alert_frequency IN ('off', 'instant', 'daily')),
+  last_notified_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+
+  -- Ensure saved search names are unique per user
+  UNIQUE(user_id, name)
+);
+
+-- Create saved_search_matches table
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  notified_at timestamptz,
+  UNIQUE(saved_search_id, project_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alert_frequency ON saved_searches(alert_frequency) WHERE alert_frequency <> 'off';
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending ON saved_search_matches(saved_search_id) WHERE notified_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_project_id ON saved_search_matches(project_id);
+
+-- Enable Row Level Security
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Saved searches policies
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Saved search matches policies (rows are only written by triggers)
+CREATE POLICY "Users can view matches for their own saved searches"
+  ON saved_search_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM saved_searches s
+      WHERE s.id = saved_search_matches.saved_search_id
+      AND s.user_id = auth.uid()
+    )
+  );
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow saved search notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'project_upvote',
+    'project_downvote',
+    'project_comment',
+    'comment_reply',
+    'comment_upvote',
+    'comment_downvote',
+    'analysis_completed',
+    'analysis_failed',
+    'mention',
+    'new_project_from_followed',
+    'saved_search_match'
+  ));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_entity_type_check
+  CHECK (entity_type IN ('project', 'comment', 'analysis_job', 'saved_search'));
+
+-- Percent-encode text for use in a link
+CREATE OR REPLACE FUNCTION url_encode(value text)
+RETURNS text
+AS $$
+  SELECT COALESCE(string_agg(
+    CASE
+      WHEN ch ~ '^[A-Za-z0-9_.~-]$' THEN ch
+      ELSE regexp_replace(upper(encode(convert_to(ch, 'UTF8'), 'hex')), '(..)', '%\1', 'g')
+    END,
+    '' ORDER BY position
+  ), '')
+  FROM regexp_split_to_table(value, '') WITH ORDINALITY AS chars(ch, position)
+$$ language 'sql' IMMUTABLE;
+
+-- Function to check whether a project matches saved search filters
+CREATE OR REPLACE FUNCTION saved_search_matches_project(filters jsonb, target_project_id uuid)
+RETURNS boolean
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM search_project_matches(
+      search_query => COALESCE(filters->>'search_query', ''),
+      vci_band => filters->>'vci_band',
+      verified_filter => (filters->>'verified_filter')::boolean,
+      has_ai_tools => (filters->>'has_ai_tools')::boolean,
+      technology_filter => filters->>'technology_filter',
+      ai_tool_filter => filters->>'ai_tool_filter',
+      author_filter => filters->>'author_filter',
+      vci_min => (filters->>'vci_min')::integer,
+      vci_max => (filters->>'vci_max')::integer,
+      votes_min => (filters->>'votes_min')::integer,
+      votes_max => (filters->>'votes_max')::integer,
+      submitted_after => (filters->>'submitted_after')::timestamptz,
+      submitted_before => (filters->>'submitted_before')::timestamptz,
+      has_live_url => (filters->>'has_live_url')::boolean,
+      has_screenshots => (filters->>'has_screenshots')::boolean
+    ) m
+    WHERE m.project_id = target_project_id
+  )
+$$ language 'sql' STABLE;
+
+-- Function to record saved search matches for a new project and send instant alerts
+CREATE OR REPLACE FUNCTION create_saved_search_matches()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  WITH matched AS (
+    INSERT INTO saved_search_matches (saved_search_id, project_id, notified_at)
+    SELECT s.id, NEW.id, CASE WHEN s.alert_frequency = 'instant' THEN now() END
+    FROM saved_searches s
+    WHERE s.alert_frequency <> 'off'
+    AND s.user_id IS DISTINCT FROM NEW.submitted_by
+    AND saved_search_matches_project(s.filters, NEW.id)
+    ON CONFLICT (saved_search_id, project_id) DO NOTHING
+    RETURNING saved_search_id, notified_at
+  ),
+  alerted AS (
+    UPDATE saved_searches s
+    SET last_notified_at = matched.notified_at
+    FROM matched
+    WHERE s.id = matched.saved_search_id
+    AND matched.notified_at IS NOT NULL
+    RETURNING s.user_id, s.name, s.created_at
+  )
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  )
+  SELECT DISTINCT ON (a.user_id)
+    a.user_id,
+    NEW.submitted_by,
+    'saved_search_match',
+    NEW.id,
+    'project',
+    'submitted "' || NEW.title || '", which matches your saved search "' || a.name || '"',
+    '/project/' || NEW.id::text
+  FROM alerted a
+  ORDER BY a.user_id, a.created_at;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS create_saved_search_matches_trigger ON projects;
+CREATE TRIGGER create_saved_search_matches_trigger
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION create_saved_search_matches();
+
+-- Function to send daily digests for saved searches with pending matches
+CREATE OR REPLACE FUNCTION send_saved_search_digests()
+RETURNS integer
+SECURITY DEFINER
+AS $$
+DECLARE
+  digest_count integer;
+BEGIN
+  WITH pending AS (
+    SELECT
+      s.id,
+      s.user_id,
+      s.name,
+      s.query,
+      s.sort_by,
+      COUNT(*) AS match_count,
+      MIN(p.created_at) AS first_submitted_at
+    FROM saved_searches s
+    JOIN saved_search_matches m ON m.saved_search_id = s.id AND m.notified_at IS NULL
+    JOIN projects p ON p.id = m.project_id
+    WHERE s.alert_frequency = 'daily'
+    GROUP BY s.id
+  ),
+  sent AS (
+    INSERT INTO notifications (
+      recipient_id,
+      sender_id,
+      type,
+      entity_id,
+      entity_type,
+      message,
+      link
+    )
+    SELECT
+      pending.user_id,
+      NULL,
+      'saved_search_match',
+      pending.id,
+      'saved_search',
+      pending.match_count || CASE WHEN pending.match_count = 1 THEN ' new project matches' ELSE ' new projects match' END
+        || ' your saved search "' || pending.name || '"',
+      '/search?q=' || url_encode(
+        pending.query || ' created:>=' || to_char(pending.first_submitted_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')
+      ) || CASE WHEN pending.sort_by = 'relevance' THEN '' ELSE '&sort=' || pending.sort_by END
+    FROM pending
+    RETURNING entity_id
+  ),
+  marked AS (
+    UPDATE saved_search_matches m
+    SET notified_at = now()
+    FROM sent
+    WHERE m.saved_search_id = sent.entity_id
+    AND m.notified_at IS NULL
+  )
+  UPDATE saved_searches s
+  SET last_notified_at = now()
+  FROM sent
+  WHERE s.id = sent.entity_id;
+
+  GET DIAGNOSTICS digest_count = ROW_COUNT;
+  RETURN digest_count;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION send_saved_search_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_saved_search_digests() TO service_role;
+
+-- Send daily digests at 08:00 UTC
+SELECT cron.schedule(
+  'send-saved-search-digests',
+  '0 8 * * *',
+  'SELECT send_saved_search_digests()'
+);
@@ -0,0 +1,200 @@
+/*
+  # Public API Keys and Rate Limits
+
+  1. New Tables
+    - `api_keys` - Keys for the public read-only API (`api` edge function)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id) - Owner of the key
+      - `name` (text) - Label chosen by the owner, e.g. the dashboard using it
+      - `key_prefix` (text) - First characters of the key, shown so owners can tell keys apart
+      - `key_hash` (text, unique) - SHA-256 of the key; the key itself is never stored
+      - `rate_limit_per_minute` (integer) - Requests allowed per minute, default 60
+      - `last_used_at` (timestamptz, nullable)
+      - `revoked_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+    - `api_rate_limits` - Request counts per key and one-minute window
+      - `api_key_id` (uuid, references api_keys.id)
+      - `window_start` (timestamptz)
+      - `request_count` (integer)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can view their own keys; keys are created and revoked through functions so the
+      hash and rate limit cannot be chosen by the client
+    - `api_rate_limits` has no client policies
+
+  3. Functions
+    - `create_api_key()` generates a key for the current user and returns it once
+    - `revoke_api_key()` revokes one of the current user's keys
+    - `consume_api_request()` counts a request against a key's rate limit; only the service
+      role (used by the edge function) can call it
+    - `public_project_facets()` counts AI tools and VCI bands across the projects the API
+      exposes, i.e. not submitted by a banned user
+
+  4. Notes
+    - Users can hold at most 5 active keys
+    - Rate limit windows older than an hour are cleared out occasionally as requests arrive
+    - The edge function runs with the service role, which bypasses the row level security that
+      hides banned users' projects, so `/stats` cannot use `search_project_facets()`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Create api_keys table
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  rate_limit_per_minute integer DEFAULT 60 NOT NULL CHECK (rate_limit_per_minute > 0),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create api_rate_limits table
+CREATE TABLE IF NOT EXISTS api_rate_limits (
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  request_count integer DEFAULT 0 NOT NULL,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_rate_limits_window_start ON api_rate_limits(window_start);
+
+-- Enable Row Level Security
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+  ON api_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Function to create an API key for the current user
+CREATE OR REPLACE FUNCTION create_api_key(key_name text)
+RETURNS TABLE(id uuid, api_key text)
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_key text;
+  new_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to create API keys';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM api_keys k WHERE k.user_id = auth.uid() AND k.revoked_at IS NULL) >= 5 THEN
+    RAISE EXCEPTION 'You can have at most 5 active API keys';
+  END IF;
+
+  new_key := 'vci_' || encode(gen_random_bytes(24), 'hex');
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+  VALUES (auth.uid(), trim(key_name), left(new_key, 12), encode(digest(new_key, 'sha256'), 'hex'))
+  RETURNING api_keys.id INTO new_id;
+
+  RETURN QUERY SELECT new_id, new_key;
+END;
+$$ language 'plpgsql';
+
+-- Function to revoke one of the current user's API keys
+CREATE OR REPLACE FUNCTION revoke_api_key(target_key_id uuid)
+RETURNS void
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE api_keys
+  SET revoked_at = now()
+  WHERE id = target_key_id
+  AND user_id = auth.uid()
+  AND revoked_at IS NULL;
+END;
+$$ language 'plpgsql';
+
+-- Function to count a request against an API key's per-minute limit
+CREATE OR REPLACE FUNCTION consume_api_request(api_key_hash text)
+RETURNS TABLE(api_key_id uuid, allowed boolean, request_limit integer, remaining integer, reset_at timestamptz)
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys%ROWTYPE;
+  current_window timestamptz := date_trunc('minute', now());
+  current_count integer;
+BEGIN
+  SELECT * INTO key_record
+  FROM api_keys
+  WHERE key_hash = api_key_hash
+  AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api_rate_limits (api_key_id, window_start, request_count)
+  VALUES (key_record.id, current_window, 1)
+  ON CONFLICT ON CONSTRAINT api_rate_limits_pkey
+  DO UPDATE SET request_count = api_rate_limits.request_count + 1
+  RETURNING request_count INTO current_count;
+
+  UPDATE api_keys SET last_used_at = now() WHERE id = key_record.id;
+
+  -- Occasionally clear out old windows
+  IF random() < 0.01 THEN
+    DELETE FROM api_rate_limits WHERE window_start < now() - interval '1 hour';
+  END IF;
+
+  RETURN QUERY SELECT
+    key_record.id,
+    current_count <= key_record.rate_limit_per_minute,
+    key_record.rate_limit_per_minute,
+    GREATEST(key_record.rate_limit_per_minute - current_count, 0),
+    current_window + interval '1 minute';
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION consume_api_request(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_request(text) TO service_role;
+
+-- Function to count AI tools and VCI bands across publicly visible projects
+CREATE OR REPLACE FUNCTION public_project_facets(facet_limit integer DEFAULT 10)
+RETURNS jsonb
+AS $$
+  WITH visible AS (
+    SELECT p.*
+    FROM projects p
+    JOIN profiles pr ON pr.id = p.submitted_by
+    WHERE COALESCE(pr.is_banned, false) = false
+  )
+  SELECT jsonb_build_object(
+    'aiTools', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tool_name) AS value, COUNT(DISTINCT v.id) AS count
+        FROM visible v
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(v.ai_tools) = 'array' THEN v.ai_tools ELSE '[]'::jsonb END
+        ) tool
+        CROSS JOIN LATERAL (
+          SELECT CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END AS tool_name
+        ) names
+        WHERE tool_name IS NOT NULL
+        GROUP BY lower(tool_name)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) tool_counts
+    ), '[]'::jsonb),
+    'vciBands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value)
+      FROM (
+        SELECT project_vci_band(v.vci_score) AS value, COUNT(*) AS count
+        FROM visible v
+        GROUP BY project_vci_band(v.vci_score)
+      ) band_counts
+    ), '[]'::jsonb)
+  )
+$$ language 'sql' STABLE;
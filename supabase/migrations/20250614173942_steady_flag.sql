@@ -0,0 +1,453 @@
+/*
+  # Content Reports and Moderation Queue
+
+  1. New Tables
+    - `reports` - Flags raised by users against projects, comments or users
+      - `id` (uuid, primary key)
+      - `reporter_id` (uuid, references profiles.id)
+      - `target_type` (text) - 'project', 'comment' or 'user'
+      - `target_id` (uuid) - Id of the reported project, comment or profile
+      - `target_owner_id` (uuid, references profiles.id) - Author of the reported content, set by trigger
+      - `reason` (text) - 'spam', 'plagiarism', 'fake_repository', 'harassment', 'inappropriate' or 'other'
+      - `details` (text, nullable) - Optional explanation from the reporter
+      - `status` (text) - 'open' until a moderator resolves it as 'dismissed', 'hidden' or 'banned'
+      - `resolution_note` (text, nullable) - Moderator's note
+      - `resolved_by` (uuid, references profiles.id, nullable)
+      - `resolved_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. Changes to Existing Tables
+    - `projects.is_hidden`, `moderation_reason`, `moderated_by`, `moderated_at` - Same moderation
+      fields comments already have, so reported projects can be hidden
+    - "Anyone can view projects" now also hides hidden projects from everyone but their submitter
+
+  3. Security
+    - Enable RLS on `reports`
+    - Users can file reports as themselves and view their own reports
+    - Users with `moderate_content` can view all reports; reports are only resolved through
+      `resolve_reports()`
+    - The project moderation fields can only be changed by users with `moderate_content` (which
+      `moderate_project_visibility()` and `resolve_reports()` require) or the service role, so
+      submitters cannot undo a moderator hiding their project through "Users can update own
+      projects"
+
+  4. Functions and Triggers
+    - `validate_report()` checks the reported content exists, is not the reporter's own, and that
+      the reporter has not filed more than 20 reports in the last day
+    - `moderate_project_visibility()` hides or unhides a project, like `moderate_comment()`
+    - `protect_project_moderation()` resets the moderation fields on insert and keeps them
+      unchanged on update for everyone else
+    - `get_moderation_queue()` groups open reports by target, ordered by priority
+    - `resolve_reports()` dismisses the open reports on a target, or hides the content or bans its
+      author first, and logs the outcome with `log_admin_action()`
+    - `public_project_facets()` also leaves out hidden projects, like the public API now does
+
+  5. Notes
+    - A user can have one open report per target; reporting again after it is resolved is allowed
+    - Priority adds up a weight per report reason (fake repositories, plagiarism and harassment
+      count most) plus 2 for each earlier report against the same author that led to action
+*/
+
+-- Create reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('project', 'comment', 'user')),
+  target_id uuid NOT NULL,
+  target_owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'plagiarism', 'fake_repository', 'harassment', 'inappropriate', 'other')),
+  details text CHECK (char_length(details) <= 1000),
+  status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'dismissed', 'hidden', 'banned')),
+  resolution_note text,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Moderation fields for projects, matching comments
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS is_hidden boolean DEFAULT false;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS moderation_reason text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS moderated_by uuid REFERENCES profiles(id);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_per_reporter ON reports(reporter_id, target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_open_target ON reports(target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_target_owner_id ON reports(target_owner_id, status);
+CREATE INDEX IF NOT EXISTS idx_reports_resolved_at ON reports(resolved_at DESC) WHERE status <> 'open';
+CREATE INDEX IF NOT EXISTS idx_projects_is_hidden ON projects(is_hidden) WHERE is_hidden = true;
+
+-- Enable Row Level Security
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create their own reports"
+  ON reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reporter_id);
+
+CREATE POLICY "Users can view their own reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view all reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('moderate_content'));
+
+-- Hidden projects stay visible to their submitter (and to admins through "Admins can view all projects")
+DROP POLICY IF EXISTS "Anyone can view projects" ON projects;
+CREATE POLICY "Anyone can view projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (
+    (is_hidden = false OR auth.uid() = submitted_by)
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = projects.submitted_by
+      AND is_banned = true
+    )
+  );
+
+-- Function to validate new reports and record who owns the reported content
+CREATE OR REPLACE FUNCTION validate_report()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.target_type = 'project' THEN
+    SELECT submitted_by INTO NEW.target_owner_id FROM projects WHERE id = NEW.target_id;
+  ELSIF NEW.target_type = 'comment' THEN
+    SELECT author_id INTO NEW.target_owner_id FROM comments WHERE id = NEW.target_id AND deleted_at IS NULL;
+  ELSE
+    SELECT id INTO NEW.target_owner_id FROM profiles WHERE id = NEW.target_id;
+  END IF;
+
+  IF NEW.target_owner_id IS NULL THEN
+    RAISE EXCEPTION 'The reported content no longer exists';
+  END IF;
+
+  IF NEW.target_owner_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own content';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM reports
+    WHERE reporter_id = NEW.reporter_id
+    AND created_at > now() - interval '1 day'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'You have filed too many reports today. Please try again tomorrow.';
+  END IF;
+
+  -- Reports always start open
+  NEW.details := NULLIF(trim(NEW.details), '');
+  NEW.status := 'open';
+  NEW.resolution_note := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS validate_report_trigger ON reports;
+CREATE TRIGGER validate_report_trigger
+  BEFORE INSERT ON reports
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_report();
+
+-- Function to hide or unhide a project
+CREATE OR REPLACE FUNCTION moderate_project_visibility(
+  project_id uuid,
+  hide_project boolean,
+  reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('moderate_content') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  -- Update project
+  UPDATE projects
+  SET
+    is_hidden = hide_project,
+    moderation_reason = reason,
+    moderated_by = auth.uid(),
+    moderated_at = now()
+  WHERE id = project_id;
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE WHEN hide_project THEN 'hide_project' ELSE 'unhide_project' END,
+    'project',
+    project_id,
+    jsonb_build_object('reason', reason)
+  );
+END;
+$$;
+
+-- Function to keep project moderation fields in moderators' hands
+CREATE OR REPLACE FUNCTION protect_project_moderation()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- The service role (edge functions) has no auth.uid() and may change anything
+  IF auth.uid() IS NULL OR has_permission('moderate_content') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_hidden := false;
+    NEW.moderation_reason := NULL;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+  ELSE
+    NEW.is_hidden := OLD.is_hidden;
+    NEW.moderation_reason := OLD.moderation_reason;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.moderated_at := OLD.moderated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_project_moderation_trigger ON projects;
+CREATE TRIGGER protect_project_moderation_trigger
+  BEFORE INSERT OR UPDATE OF is_hidden, moderation_reason, moderated_by, moderated_at ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_project_moderation();
+
+-- Weight of a report reason when ranking the moderation queue
+CREATE OR REPLACE FUNCTION report_reason_weight(reason text)
+RETURNS integer
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN CASE reason
+    WHEN 'fake_repository' THEN 3
+    WHEN 'plagiarism' THEN 3
+    WHEN 'harassment' THEN 3
+    WHEN 'spam' THEN 2
+    WHEN 'inappropriate' THEN 2
+    ELSE 1
+  END;
+END;
+$$ language 'plpgsql';
+
+-- Function to list reported content, one row per target, highest priority first
+CREATE OR REPLACE FUNCTION get_moderation_queue(
+  type_filter text DEFAULT NULL,
+  result_limit integer DEFAULT 25,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  target_type text,
+  target_id uuid,
+  target_owner_id uuid,
+  owner_username text,
+  owner_banned boolean,
+  project_id uuid,
+  target_title text,
+  target_excerpt text,
+  target_hidden boolean,
+  report_count integer,
+  reasons jsonb,
+  priority integer,
+  first_reported_at timestamptz,
+  last_reported_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+BEGIN
+  IF NOT has_permission('moderate_content') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  RETURN QUERY
+  WITH open_reports AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      r.target_owner_id,
+      COUNT(*)::integer AS report_count,
+      SUM(report_reason_weight(r.reason))::integer AS reason_weight,
+      MIN(r.created_at) AS first_reported_at,
+      MAX(r.created_at) AS last_reported_at
+    FROM reports r
+    WHERE r.status = 'open'
+    AND (type_filter IS NULL OR r.target_type = type_filter)
+    GROUP BY r.target_type, r.target_id, r.target_owner_id
+  ),
+  reason_counts AS (
+    SELECT r.target_type, r.target_id, jsonb_object_agg(r.reason, r.count) AS reasons
+    FROM (
+      SELECT reports.target_type, reports.target_id, reports.reason, COUNT(*) AS count
+      FROM reports
+      WHERE reports.status = 'open'
+      GROUP BY reports.target_type, reports.target_id, reports.reason
+    ) r
+    GROUP BY r.target_type, r.target_id
+  )
+  SELECT
+    o.target_type,
+    o.target_id,
+    o.target_owner_id,
+    owner.username,
+    COALESCE(owner.is_banned, false),
+    COALESCE(p.id, c.project_id),
+    CASE o.target_type
+      WHEN 'project' THEN p.title
+      WHEN 'comment' THEN cp.title
+      ELSE owner.username
+    END,
+    CASE o.target_type
+      WHEN 'project' THEN left(p.description, 200)
+      WHEN 'comment' THEN left(c.content, 200)
+      ELSE left(owner.specialization, 200)
+    END,
+    COALESCE(p.is_hidden, c.is_hidden, false),
+    o.report_count,
+    rc.reasons,
+    o.reason_weight + 2 * (
+      SELECT COUNT(*)::integer FROM reports prior
+      WHERE prior.target_owner_id = o.target_owner_id
+      AND prior.status IN ('hidden', 'banned')
+    ),
+    o.first_reported_at,
+    o.last_reported_at,
+    COUNT(*) OVER ()
+  FROM open_reports o
+  JOIN reason_counts rc ON rc.target_type = o.target_type AND rc.target_id = o.target_id
+  LEFT JOIN profiles owner ON owner.id = o.target_owner_id
+  LEFT JOIN projects p ON o.target_type = 'project' AND p.id = o.target_id
+  LEFT JOIN comments c ON o.target_type = 'comment' AND c.id = o.target_id
+  LEFT JOIN projects cp ON cp.id = c.project_id
+  ORDER BY 12 DESC, o.first_reported_at ASC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$;
+
+-- Function to resolve every open report on a target
+CREATE OR REPLACE FUNCTION resolve_reports(
+  report_target_type text,
+  report_target_id uuid,
+  resolution text,
+  note text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  owner_id uuid;
+  resolved_count integer;
+BEGIN
+  IF NOT has_permission('moderate_content') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF resolution NOT IN ('dismissed', 'hidden', 'banned') THEN
+    RAISE EXCEPTION 'Invalid resolution: %', resolution;
+  END IF;
+
+  SELECT r.target_owner_id INTO owner_id
+  FROM reports r
+  WHERE r.target_type = report_target_type
+  AND r.target_id = report_target_id
+  AND r.status = 'open'
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There are no open reports for this content';
+  END IF;
+
+  -- Apply the moderation action first; each of these checks its own permission and logs itself
+  IF resolution = 'hidden' THEN
+    IF report_target_type = 'project' THEN
+      PERFORM moderate_project_visibility(report_target_id, true, note);
+    ELSIF report_target_type = 'comment' THEN
+      PERFORM moderate_comment(report_target_id, true, note);
+    ELSE
+      RAISE EXCEPTION 'Users cannot be hidden; ban them instead';
+    END IF;
+  ELSIF resolution = 'banned' THEN
+    PERFORM moderate_user(owner_id, true, note);
+  END IF;
+
+  UPDATE reports
+  SET
+    status = resolution,
+    resolution_note = note,
+    resolved_by = auth.uid(),
+    resolved_at = now()
+  WHERE target_type = report_target_type
+  AND target_id = report_target_id
+  AND status = 'open';
+
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  PERFORM log_admin_action(
+    CASE WHEN resolution = 'dismissed' THEN 'dismiss_reports' ELSE 'resolve_reports' END,
+    report_target_type,
+    report_target_id,
+    jsonb_build_object('resolution', resolution, 'note', note, 'report_count', resolved_count)
+  );
+
+  RETURN resolved_count;
+END;
+$$;
+
+-- Function to count AI tools and VCI bands across publicly visible projects
+CREATE OR REPLACE FUNCTION public_project_facets(facet_limit integer DEFAULT 10)
+RETURNS jsonb
+AS $$
+  WITH visible AS (
+    SELECT p.*
+    FROM projects p
+    JOIN profiles pr ON pr.id = p.submitted_by
+    WHERE COALESCE(p.is_hidden, false) = false
+    AND COALESCE(pr.is_banned, false) = false
+  )
+  SELECT jsonb_build_object(
+    'aiTools', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tool_name) AS value, COUNT(DISTINCT v.id) AS count
+        FROM visible v
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(v.ai_tools) = 'array' THEN v.ai_tools ELSE '[]'::jsonb END
+        ) tool
+        CROSS JOIN LATERAL (
+          SELECT CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END AS tool_name
+        ) names
+        WHERE tool_name IS NOT NULL
+        GROUP BY lower(tool_name)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) tool_counts
+    ), '[]'::jsonb),
+    'vciBands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value)
+      FROM (
+        SELECT project_vci_band(v.vci_score) AS value, COUNT(*) AS count
+        FROM visible v
+        GROUP BY project_vci_band(v.vci_score)
+      ) band_counts
+    ), '[]'::jsonb)
+  )
+$$ language 'sql' STABLE;
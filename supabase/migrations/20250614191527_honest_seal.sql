@@ -0,0 +1,236 @@
+/*
+  # Repository Ownership Verification
+
+  1. New Tables
+    - `project_verification_challenges` - Pending challenge tokens, one per project
+      - `project_id` (uuid, primary key, references projects.id)
+      - `token` (text) - Value the owner places in `.vibecoded-verify` at the repository root
+      - `created_by` (uuid, references profiles.id)
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz) - Challenges are valid for 7 days
+
+    - `project_verification_events` - Audit trail of every verification attempt and change
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects.id)
+      - `actor_id` (uuid, references profiles.id, nullable)
+      - `method` (text) - 'challenge_file', 'github_oauth' or 'admin'
+      - `event` (text) - 'challenge_created', 'verified', 'failed' or 'revoked'
+      - `details` (jsonb) - e.g. the GitHub login used, or why a check failed
+      - `created_at` (timestamptz)
+
+  2. Changes to Existing Tables
+    - `projects.verified_at` (timestamptz), `verified_by` (uuid) and `verification_method` (text)
+
+  3. Security
+    - Enable RLS on both tables
+    - Owners can view their project's challenge; challenges are created through a function
+    - Owners can view their project's verification events, and admins can view all of them
+    - Events are only written by functions and the `verify-project` edge function (service role)
+
+  4. Functions and Triggers
+    - `protect_project_verification()` stops submitters from setting `is_verified` or the other
+      verification columns themselves; only admins with `manage_projects` and the service role can
+    - Changing the repository (`repo_url`, `github_url`, `repo_forge`, `repo_host`, `repo_owner`
+      or `repo_name`) unverifies the project and drops any pending challenge, recording a
+      `revoked` event if it was verified, so a verified project cannot be pointed at someone
+      else's repository
+    - `create_verification_challenge()` issues (or reissues) a challenge token for the owner
+    - `set_project_verification()` is the admin override; it records an event and logs the action
+
+  5. Notes
+    - The ownership checks run in the `verify-project` edge function, which reads the challenge
+      file through the forge adapters or asks GitHub whether the owner's linked account can push
+*/
+
+-- Verification columns on projects
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS verified_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS verification_method text
+  CHECK (verification_method IS NULL OR verification_method IN ('challenge_file', 'github_oauth', 'admin'));
+
+-- Create project_verification_challenges table
+CREATE TABLE IF NOT EXISTS project_verification_challenges (
+  project_id uuid PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  token text NOT NULL,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  expires_at timestamptz DEFAULT (now() + interval '7 days') NOT NULL
+);
+
+-- Create project_verification_events table
+CREATE TABLE IF NOT EXISTS project_verification_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  method text NOT NULL CHECK (method IN ('challenge_file', 'github_oauth', 'admin')),
+  event text NOT NULL CHECK (event IN ('challenge_created', 'verified', 'failed', 'revoked')),
+  details jsonb DEFAULT '{}'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_project_verification_events_project_id ON project_verification_events(project_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE project_verification_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_verification_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verification challenges"
+  ON project_verification_challenges
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can view their own projects' verification events"
+  ON project_verification_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_verification_events.project_id
+      AND projects.submitted_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all verification events"
+  ON project_verification_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Function to keep verification under the control of the checks and admins
+CREATE OR REPLACE FUNCTION protect_project_verification()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- The service role (edge functions) has no auth.uid() and may change anything
+  IF auth.uid() IS NULL OR has_permission('manage_projects') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_verified := false;
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+    NEW.verification_method := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.repo_url, NEW.github_url, NEW.repo_forge, NEW.repo_host, NEW.repo_owner, NEW.repo_name)
+    IS DISTINCT FROM (OLD.repo_url, OLD.github_url, OLD.repo_forge, OLD.repo_host, OLD.repo_owner, OLD.repo_name)
+  THEN
+    IF OLD.is_verified AND OLD.verification_method IS NOT NULL THEN
+      INSERT INTO project_verification_events (project_id, actor_id, method, event, details)
+      VALUES (
+        OLD.id,
+        auth.uid(),
+        OLD.verification_method,
+        'revoked',
+        jsonb_build_object('reason', 'repository_changed', 'previous_repo_url', COALESCE(OLD.repo_url, OLD.github_url))
+      );
+    END IF;
+
+    DELETE FROM project_verification_challenges WHERE project_id = OLD.id;
+
+    NEW.is_verified := false;
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+    NEW.verification_method := NULL;
+  ELSE
+    NEW.is_verified := OLD.is_verified;
+    NEW.verified_at := OLD.verified_at;
+    NEW.verified_by := OLD.verified_by;
+    NEW.verification_method := OLD.verification_method;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_project_verification_trigger ON projects;
+CREATE TRIGGER protect_project_verification_trigger
+  BEFORE INSERT OR UPDATE OF
+    is_verified, verified_at, verified_by, verification_method,
+    repo_url, github_url, repo_forge, repo_host, repo_owner, repo_name
+  ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_project_verification();
+
+-- Function to issue a challenge token for one of the current user's projects
+CREATE OR REPLACE FUNCTION create_verification_challenge(target_project_id uuid)
+RETURNS text
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_token text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = target_project_id
+    AND submitted_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the project owner can verify this project';
+  END IF;
+
+  new_token := 'vibecoded-verify=' || encode(gen_random_bytes(16), 'hex');
+
+  INSERT INTO project_verification_challenges (project_id, token, created_by)
+  VALUES (target_project_id, new_token, auth.uid())
+  ON CONFLICT (project_id) DO UPDATE
+  SET
+    token = EXCLUDED.token,
+    created_by = EXCLUDED.created_by,
+    created_at = now(),
+    expires_at = now() + interval '7 days';
+
+  INSERT INTO project_verification_events (project_id, actor_id, method, event)
+  VALUES (target_project_id, auth.uid(), 'challenge_file', 'challenge_created');
+
+  RETURN new_token;
+END;
+$$ language 'plpgsql';
+
+-- Function for admins to verify or unverify a project by hand
+CREATE OR REPLACE FUNCTION set_project_verification(
+  project_id uuid,
+  verified boolean,
+  reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('manage_projects') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  UPDATE projects
+  SET
+    is_verified = verified,
+    verified_at = CASE WHEN verified THEN now() ELSE NULL END,
+    verified_by = CASE WHEN verified THEN auth.uid() ELSE NULL END,
+    verification_method = CASE WHEN verified THEN 'admin' ELSE NULL END
+  WHERE id = project_id;
+
+  INSERT INTO project_verification_events (project_id, actor_id, method, event, details)
+  VALUES (
+    project_id,
+    auth.uid(),
+    'admin',
+    CASE WHEN verified THEN 'verified' ELSE 'revoked' END,
+    jsonb_build_object('reason', reason)
+  );
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE WHEN verified THEN 'verify_project' ELSE 'unverify_project' END,
+    'project',
+    project_id,
+    jsonb_build_object('reason', reason)
+  );
+END;
+$$;
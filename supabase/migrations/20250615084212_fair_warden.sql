@@ -0,0 +1,698 @@
+/*
+  # Graduated User Sanctions and Appeals
+
+  1. New Tables
+    - `user_sanctions` - Every warning, suspension, shadow-ban and ban issued to a user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id)
+      - `type` (text) - 'warning', 'suspension', 'shadow_ban' or 'ban'
+      - `reason` (text) - Shown to the user for everything except shadow-bans
+      - `issued_by` (uuid, references profiles.id)
+      - `expires_at` (timestamptz) - End of a suspension; NULL for the other types
+      - `revoked_at` (timestamptz), `revoked_by` (uuid), `revoke_reason` (text)
+      - `created_at` (timestamptz)
+
+    - `sanction_appeals` - A user's request to lift a sanction, one per sanction
+      - `id` (uuid, primary key)
+      - `sanction_id` (uuid, references user_sanctions.id)
+      - `user_id` (uuid, references profiles.id)
+      - `message` (text)
+      - `status` (text) - 'pending', 'accepted' or 'rejected'
+      - `response` (text) - Moderator's answer, sent to the user
+      - `reviewed_by` (uuid, references profiles.id)
+      - `reviewed_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+    - `user_shadow_bans` - Users who are currently shadow-banned. Kept apart from `profiles`,
+      which every user can read, so shadow-banned users cannot find out.
+      - `user_id` (uuid, primary key, references profiles.id)
+      - `created_at` (timestamptz)
+
+  2. Changes to Existing Tables
+    - `profiles.suspended_until` (timestamptz) - Latest end of an active suspension
+    - Existing bans are backfilled as `ban` sanctions
+    - Notifications gain the `account_sanction` and `appeal_resolved` types and the `sanction` entity type
+
+  3. Security
+    - Enable RLS on all three tables
+    - Users can view their own sanctions, except shadow-bans; admins with `manage_users` can view all
+      sanctions and shadow-bans
+    - Users can appeal their own active, visible sanctions and view their own appeals
+    - Banned and currently suspended users can no longer submit projects, comment or vote
+      (project, comment and VCI votes), enforced in the INSERT and UPDATE policies
+    - Projects and comments by shadow-banned users are hidden from everyone but their author
+    - The ban and suspension columns on `profiles` can only be changed by users with
+      `manage_users` (which every sanction function requires) or the service role, so sanctioned
+      users cannot lift them through "Users can update own profile"
+
+  4. Functions
+    - `can_participate()` - Whether the current user may submit, comment and vote
+    - `sync_user_sanctions()` - Recomputes the profile flags and shadow-ban from the active sanctions
+    - `protect_profile_sanctions()` - Resets the ban and suspension columns on insert and keeps them
+      unchanged on update for everyone else
+    - `hidden_by_shadow_ban()` - Whether content by an author is hidden from the current user; always
+      false for the user's own content
+    - `issue_sanction()` - Records a sanction, applies it, notifies the user and logs the action
+    - `revoke_sanction()` - Lifts a sanction early
+    - `resolve_appeal()` - Accepts (lifting the sanction) or rejects an appeal and notifies the user
+    - `moderate_user()` now records bans as sanctions so existing callers keep working
+    - `suppress_shadow_banned_notifications()` drops the vote, comment and mention notifications
+      sent by shadow-banned users
+    - `public_project_facets()` also leaves out projects by shadow-banned users
+
+  5. Notes
+    - Suspensions expire on their own: `can_participate()` compares `suspended_until` with now(),
+      so no scheduled job is needed
+    - Shadow-banned users are not notified and cannot see the sanction
+*/
+
+-- Sanction state on profiles
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS suspended_until timestamptz;
+
+-- Create user_sanctions table
+CREATE TABLE IF NOT EXISTS user_sanctions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('warning', 'suspension', 'shadow_ban', 'ban')),
+  reason text NOT NULL CHECK (char_length(trim(reason)) > 0),
+  issued_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  revoke_reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK ((type = 'suspension') = (expires_at IS NOT NULL))
+);
+
+-- Create sanction_appeals table
+CREATE TABLE IF NOT EXISTS sanction_appeals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sanction_id uuid NOT NULL UNIQUE REFERENCES user_sanctions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message text NOT NULL CHECK (char_length(trim(message)) BETWEEN 10 AND 2000),
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted', 'rejected')),
+  response text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create user_shadow_bans table
+CREATE TABLE IF NOT EXISTS user_shadow_bans (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user_id ON user_sanctions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_active ON user_sanctions(user_id, type) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_sanction_appeals_pending ON sanction_appeals(created_at) WHERE status = 'pending';
+
+-- Record existing bans so that syncing sanctions keeps them in place
+INSERT INTO user_sanctions (user_id, type, reason, issued_by, created_at)
+SELECT id, 'ban', COALESCE(NULLIF(trim(ban_reason), ''), 'No reason recorded'), banned_by, COALESCE(banned_at, now())
+FROM profiles
+WHERE is_banned = true;
+
+-- Enable Row Level Security
+ALTER TABLE user_sanctions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sanction_appeals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_shadow_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sanctions"
+  ON user_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND type <> 'shadow_ban');
+
+CREATE POLICY "Admins can view all sanctions"
+  ON user_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('manage_users'));
+
+CREATE POLICY "Users can appeal their own sanctions"
+  ON sanction_appeals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND response IS NULL
+    AND reviewed_by IS NULL
+    AND EXISTS (
+      SELECT 1 FROM user_sanctions
+      WHERE user_sanctions.id = sanction_appeals.sanction_id
+      AND user_sanctions.user_id = auth.uid()
+      AND user_sanctions.type <> 'shadow_ban'
+      AND user_sanctions.revoked_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can view their own appeals"
+  ON sanction_appeals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all appeals"
+  ON sanction_appeals
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('manage_users'));
+
+CREATE POLICY "Admins can view shadow bans"
+  ON user_shadow_bans
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('manage_users'));
+
+-- Allow sanction notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'project_upvote',
+    'project_downvote',
+    'project_comment',
+    'comment_reply',
+    'comment_upvote',
+    'comment_downvote',
+    'analysis_completed',
+    'analysis_failed',
+    'mention',
+    'new_project_from_followed',
+    'saved_search_match',
+    'account_sanction',
+    'appeal_resolved'
+  ));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_entity_type_check
+  CHECK (entity_type IN ('project', 'comment', 'analysis_job', 'saved_search', 'sanction'));
+
+-- Function to check whether the current user may submit, comment and vote
+CREATE OR REPLACE FUNCTION can_participate()
+RETURNS boolean
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND COALESCE(is_banned, false) = false
+    AND (suspended_until IS NULL OR suspended_until <= now())
+  );
+$$ language 'sql' STABLE;
+
+-- Banned and suspended users cannot submit projects
+DROP POLICY IF EXISTS "Users can create projects" ON projects;
+CREATE POLICY "Users can create projects"
+  ON projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = submitted_by AND can_participate());
+
+-- Banned and suspended users cannot comment
+DROP POLICY IF EXISTS "Users can create comments" ON comments;
+CREATE POLICY "Users can create comments"
+  ON comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = author_id AND can_participate());
+
+-- Banned and suspended users cannot vote; removing an existing vote is still allowed
+DROP POLICY IF EXISTS "Users can insert their own project votes" ON project_votes;
+CREATE POLICY "Users can insert their own project votes"
+  ON project_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+DROP POLICY IF EXISTS "Users can update their own project votes" ON project_votes;
+CREATE POLICY "Users can update their own project votes"
+  ON project_votes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+DROP POLICY IF EXISTS "Users can insert their own comment votes" ON comment_votes;
+CREATE POLICY "Users can insert their own comment votes"
+  ON comment_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+DROP POLICY IF EXISTS "Users can update their own comment votes" ON comment_votes;
+CREATE POLICY "Users can update their own comment votes"
+  ON comment_votes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+DROP POLICY IF EXISTS "Users can insert their own project VCI votes" ON project_vci_votes;
+CREATE POLICY "Users can insert their own project VCI votes"
+  ON project_vci_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+DROP POLICY IF EXISTS "Users can update their own project VCI votes" ON project_vci_votes;
+CREATE POLICY "Users can update their own project VCI votes"
+  ON project_vci_votes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_participate());
+
+-- Function to tell whether content by an author is hidden from the current user by a shadow-ban
+CREATE OR REPLACE FUNCTION hidden_by_shadow_ban(author_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+AS $$
+  SELECT author_id IS DISTINCT FROM auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM user_shadow_bans
+    WHERE user_id = author_id
+  );
+$$ language 'sql' STABLE;
+
+-- Shadow-banned users still see their own projects and comments; nobody else does
+DROP POLICY IF EXISTS "Anyone can view projects" ON projects;
+CREATE POLICY "Anyone can view projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (
+    (is_hidden = false OR auth.uid() = submitted_by)
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = projects.submitted_by
+      AND is_banned = true
+    )
+    AND NOT hidden_by_shadow_ban(submitted_by)
+  );
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON comments;
+CREATE POLICY "Anyone can view comments"
+  ON comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_hidden = false
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = comments.author_id
+      AND is_banned = true
+    )
+    AND NOT hidden_by_shadow_ban(author_id)
+  );
+
+-- Function to drop notifications caused by shadow-banned users, which would otherwise reveal their activity
+CREATE OR REPLACE FUNCTION suppress_shadow_banned_notifications()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.sender_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM user_shadow_bans
+    WHERE user_id = NEW.sender_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS suppress_shadow_banned_notifications_trigger ON notifications;
+CREATE TRIGGER suppress_shadow_banned_notifications_trigger
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION suppress_shadow_banned_notifications();
+
+-- Function to recompute a user's profile flags from their active sanctions
+CREATE OR REPLACE FUNCTION sync_user_sanctions(target_user_id uuid)
+RETURNS void
+SECURITY DEFINER
+AS $$
+DECLARE
+  active_ban user_sanctions%ROWTYPE;
+BEGIN
+  SELECT * INTO active_ban
+  FROM user_sanctions
+  WHERE user_id = target_user_id
+  AND type = 'ban'
+  AND revoked_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  UPDATE profiles
+  SET
+    is_banned = active_ban.id IS NOT NULL,
+    ban_reason = active_ban.reason,
+    banned_by = active_ban.issued_by,
+    banned_at = active_ban.created_at,
+    suspended_until = (
+      SELECT max(expires_at) FROM user_sanctions
+      WHERE user_id = target_user_id
+      AND type = 'suspension'
+      AND revoked_at IS NULL
+      AND expires_at > now()
+    )
+  WHERE id = target_user_id;
+
+  IF EXISTS (
+    SELECT 1 FROM user_sanctions
+    WHERE user_id = target_user_id
+    AND type = 'shadow_ban'
+    AND revoked_at IS NULL
+  ) THEN
+    INSERT INTO user_shadow_bans (user_id)
+    VALUES (target_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+  ELSE
+    DELETE FROM user_shadow_bans WHERE user_id = target_user_id;
+  END IF;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION sync_user_sanctions(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to warn, suspend, shadow-ban or ban a user
+CREATE OR REPLACE FUNCTION issue_sanction(
+  target_user_id uuid,
+  sanction_type text,
+  reason text,
+  duration_hours integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_sanction_id uuid;
+  sanction_expires_at timestamptz;
+  notification_message text;
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF sanction_type NOT IN ('warning', 'suspension', 'shadow_ban', 'ban') THEN
+    RAISE EXCEPTION 'Invalid sanction type: %', sanction_type;
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot sanction yourself';
+  END IF;
+
+  IF reason IS NULL OR trim(reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF sanction_type = 'suspension' THEN
+    IF duration_hours IS NULL OR duration_hours <= 0 THEN
+      RAISE EXCEPTION 'Suspensions need a duration';
+    END IF;
+    sanction_expires_at := now() + make_interval(hours => duration_hours);
+  END IF;
+
+  INSERT INTO user_sanctions (user_id, type, reason, issued_by, expires_at)
+  VALUES (target_user_id, sanction_type, trim(reason), auth.uid(), sanction_expires_at)
+  RETURNING id INTO new_sanction_id;
+
+  PERFORM sync_user_sanctions(target_user_id);
+
+  -- Shadow-bans are deliberately silent
+  IF sanction_type <> 'shadow_ban' THEN
+    notification_message := CASE sanction_type
+      WHEN 'warning' THEN 'You received a warning from the moderators: ' || trim(reason)
+      WHEN 'suspension' THEN 'Your account is suspended until ' || to_char(sanction_expires_at, 'Mon DD, YYYY HH24:MI "UTC"') || ': ' || trim(reason)
+      ELSE 'Your account has been banned: ' || trim(reason)
+    END;
+
+    INSERT INTO notifications (
+      recipient_id,
+      sender_id,
+      type,
+      entity_id,
+      entity_type,
+      message,
+      link
+    )
+    VALUES (
+      target_user_id,
+      NULL,
+      'account_sanction',
+      new_sanction_id,
+      'sanction',
+      notification_message,
+      '/settings#account-standing'
+    );
+  END IF;
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE sanction_type
+      WHEN 'warning' THEN 'warn_user'
+      WHEN 'suspension' THEN 'suspend_user'
+      WHEN 'shadow_ban' THEN 'shadow_ban_user'
+      ELSE 'ban_user'
+    END,
+    'user',
+    target_user_id,
+    jsonb_build_object('reason', trim(reason), 'sanction_id', new_sanction_id, 'expires_at', sanction_expires_at)
+  );
+
+  RETURN new_sanction_id;
+END;
+$$;
+
+-- Function to lift a sanction before it ends
+CREATE OR REPLACE FUNCTION revoke_sanction(
+  target_sanction_id uuid,
+  reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  sanction user_sanctions%ROWTYPE;
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  UPDATE user_sanctions
+  SET
+    revoked_at = now(),
+    revoked_by = auth.uid(),
+    revoke_reason = revoke_sanction.reason
+  WHERE id = target_sanction_id
+  AND revoked_at IS NULL
+  RETURNING * INTO sanction;
+
+  IF sanction.id IS NULL THEN
+    RAISE EXCEPTION 'Sanction not found or already revoked';
+  END IF;
+
+  PERFORM sync_user_sanctions(sanction.user_id);
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE WHEN sanction.type = 'ban' THEN 'unban_user' ELSE 'revoke_sanction' END,
+    'user',
+    sanction.user_id,
+    jsonb_build_object('reason', revoke_sanction.reason, 'sanction_id', sanction.id, 'sanction_type', sanction.type)
+  );
+END;
+$$;
+
+-- Function to accept or reject an appeal; accepting lifts the sanction
+CREATE OR REPLACE FUNCTION resolve_appeal(
+  target_appeal_id uuid,
+  accept boolean,
+  response text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  appeal sanction_appeals%ROWTYPE;
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  UPDATE sanction_appeals
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END,
+    response = resolve_appeal.response,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = target_appeal_id
+  AND status = 'pending'
+  RETURNING * INTO appeal;
+
+  IF appeal.id IS NULL THEN
+    RAISE EXCEPTION 'Appeal not found or already resolved';
+  END IF;
+
+  IF accept THEN
+    UPDATE user_sanctions
+    SET
+      revoked_at = now(),
+      revoked_by = auth.uid(),
+      revoke_reason = 'Appeal accepted'
+    WHERE id = appeal.sanction_id
+    AND revoked_at IS NULL;
+
+    PERFORM sync_user_sanctions(appeal.user_id);
+  END IF;
+
+  INSERT INTO notifications (
+    recipient_id,
+    sender_id,
+    type,
+    entity_id,
+    entity_type,
+    message,
+    link
+  )
+  VALUES (
+    appeal.user_id,
+    NULL,
+    'appeal_resolved',
+    appeal.sanction_id,
+    'sanction',
+    CASE WHEN accept
+      THEN 'Your appeal was accepted and the sanction has been lifted'
+      ELSE 'Your appeal was reviewed and the sanction stands'
+    END || COALESCE(': ' || NULLIF(trim(resolve_appeal.response), ''), ''),
+    '/settings#account-standing'
+  );
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE WHEN accept THEN 'accept_appeal' ELSE 'reject_appeal' END,
+    'user',
+    appeal.user_id,
+    jsonb_build_object('appeal_id', appeal.id, 'sanction_id', appeal.sanction_id, 'response', resolve_appeal.response)
+  );
+END;
+$$;
+
+-- Bans from the user table and the moderation queue are now recorded as sanctions
+CREATE OR REPLACE FUNCTION moderate_user(
+  target_user_id uuid,
+  ban_user boolean,
+  reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  active_ban_id uuid;
+BEGIN
+  -- Check if user has permission
+  IF NOT has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF ban_user THEN
+    PERFORM issue_sanction(target_user_id, 'ban', COALESCE(NULLIF(trim(reason), ''), 'No reason given'));
+  ELSE
+    FOR active_ban_id IN
+      SELECT id FROM user_sanctions
+      WHERE user_id = target_user_id
+      AND type = 'ban'
+      AND revoked_at IS NULL
+    LOOP
+      PERFORM revoke_sanction(active_ban_id, reason);
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- Function to count AI tools and VCI bands across publicly visible projects
+CREATE OR REPLACE FUNCTION public_project_facets(facet_limit integer DEFAULT 10)
+RETURNS jsonb
+AS $$
+  WITH visible AS (
+    SELECT p.*
+    FROM projects p
+    JOIN profiles pr ON pr.id = p.submitted_by
+    WHERE COALESCE(p.is_hidden, false) = false
+    AND COALESCE(pr.is_banned, false) = false
+    AND NOT EXISTS (SELECT 1 FROM user_shadow_bans sb WHERE sb.user_id = p.submitted_by)
+  )
+  SELECT jsonb_build_object(
+    'aiTools', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+      FROM (
+        SELECT min(tool_name) AS value, COUNT(DISTINCT v.id) AS count
+        FROM visible v
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(v.ai_tools) = 'array' THEN v.ai_tools ELSE '[]'::jsonb END
+        ) tool
+        CROSS JOIN LATERAL (
+          SELECT CASE WHEN jsonb_typeof(tool) = 'string' THEN tool #>> '{}' ELSE tool->>'name' END AS tool_name
+        ) names
+        WHERE tool_name IS NOT NULL
+        GROUP BY lower(tool_name)
+        ORDER BY count DESC, value
+        LIMIT facet_limit
+      ) tool_counts
+    ), '[]'::jsonb),
+    'vciBands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value)
+      FROM (
+        SELECT project_vci_band(v.vci_score) AS value, COUNT(*) AS count
+        FROM visible v
+        GROUP BY project_vci_band(v.vci_score)
+      ) band_counts
+    ), '[]'::jsonb)
+  )
+$$ language 'sql' STABLE;
+
+-- Function to keep ban and suspension state in the hands of the sanction functions
+CREATE OR REPLACE FUNCTION protect_profile_sanctions()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- The service role (edge functions) has no auth.uid() and may change anything
+  IF auth.uid() IS NULL OR has_permission('manage_users') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_banned := false;
+    NEW.ban_reason := NULL;
+    NEW.banned_by := NULL;
+    NEW.banned_at := NULL;
+    NEW.suspended_until := NULL;
+  ELSE
+    NEW.is_banned := OLD.is_banned;
+    NEW.ban_reason := OLD.ban_reason;
+    NEW.banned_by := OLD.banned_by;
+    NEW.banned_at := OLD.banned_at;
+    NEW.suspended_until := OLD.suspended_until;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_profile_sanctions_trigger ON profiles;
+CREATE TRIGGER protect_profile_sanctions_trigger
+  BEFORE INSERT OR UPDATE OF is_banned, ban_reason, banned_by, banned_at, suspended_until ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_sanctions();
@@ -0,0 +1,109 @@
+/*
+  # Admin Table Search and Bulk Moderation
+
+  1. New Tables
+    - None
+
+  2. Changes
+    - Trigram indexes on `projects.title` and `profiles.username` for substring search in the
+      admin tables
+    - Indexes on the admin table sort columns that were not indexed yet
+
+  3. Security
+    - `bulk_moderate()` checks the same permissions as the single-target functions it calls
+
+  4. Functions
+    - `bulk_moderate()` applies one action to up to 100 users or projects in a single transaction.
+      Each target is handled by the existing single-target function, so every change is logged
+      against its target as before, and one `bulk_moderate` entry records the batch as a whole
+
+  5. Notes
+    - If any target fails (for example a permission check or an attempt to ban yourself) the
+      whole batch is rolled back
+*/
+
+-- Substring search for the admin tables
+CREATE INDEX IF NOT EXISTS idx_projects_title_trgm ON projects USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_profiles_username_trgm ON profiles USING gin(username gin_trgm_ops);
+
+-- Admin table sort columns
+CREATE INDEX IF NOT EXISTS idx_profiles_joined_at ON profiles(joined_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_profiles_karma ON profiles(karma DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_comment_count ON projects(comment_count DESC);
+
+-- Function to apply one moderation action to many users or projects
+CREATE OR REPLACE FUNCTION bulk_moderate(
+  bulk_target_type text,
+  target_ids uuid[],
+  bulk_action text,
+  reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target uuid;
+  affected integer := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF target_ids IS NULL OR cardinality(target_ids) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF cardinality(target_ids) > 100 THEN
+    RAISE EXCEPTION 'Bulk actions are limited to 100 items at a time';
+  END IF;
+
+  IF bulk_target_type = 'user' THEN
+    IF bulk_action NOT IN ('ban', 'unban') THEN
+      RAISE EXCEPTION 'Invalid bulk action for users: %', bulk_action;
+    END IF;
+
+    IF bulk_action = 'ban' AND (reason IS NULL OR trim(reason) = '') THEN
+      RAISE EXCEPTION 'A reason is required to ban users';
+    END IF;
+  ELSIF bulk_target_type = 'project' THEN
+    IF bulk_action NOT IN ('feature', 'unfeature', 'pin', 'unpin', 'hide', 'unhide', 'verify', 'unverify') THEN
+      RAISE EXCEPTION 'Invalid bulk action for projects: %', bulk_action;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid bulk target type: %', bulk_target_type;
+  END IF;
+
+  FOREACH target IN ARRAY (SELECT array_agg(DISTINCT id) FROM unnest(target_ids) AS ids(id))
+  LOOP
+    IF bulk_target_type = 'user' THEN
+      PERFORM moderate_user(target, bulk_action = 'ban', reason);
+    ELSIF bulk_action IN ('feature', 'unfeature') THEN
+      PERFORM moderate_project(target, is_featured => bulk_action = 'feature');
+    ELSIF bulk_action IN ('pin', 'unpin') THEN
+      PERFORM moderate_project(target, is_pinned => bulk_action = 'pin');
+    ELSIF bulk_action IN ('hide', 'unhide') THEN
+      PERFORM moderate_project_visibility(target, bulk_action = 'hide', reason);
+    ELSE
+      PERFORM set_project_verification(target, bulk_action = 'verify', reason);
+    END IF;
+
+    affected := affected + 1;
+  END LOOP;
+
+  -- Log action
+  PERFORM log_admin_action(
+    'bulk_moderate',
+    bulk_target_type,
+    NULL,
+    jsonb_build_object(
+      'action', bulk_action,
+      'target_ids', to_jsonb(target_ids),
+      'count', affected,
+      'reason', reason
+    )
+  );
+
+  RETURN affected;
+END;
+$$;
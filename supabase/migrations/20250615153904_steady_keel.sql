@@ -0,0 +1,331 @@
+/*
+  # Role and Permission Management
+
+  1. New Tables
+    - `admin_permissions` - The catalogue of permissions a role can grant
+      - `name` (text, primary key) - e.g. 'manage_users', as checked by `has_permission()`
+      - `description` (text)
+
+  2. Changes to Existing Tables
+    - `admin_roles.is_system` (boolean) - Marks the seeded `super_admin`, `moderator` and
+      `analyst` roles, which cannot be renamed or deleted
+    - `admin_roles.name` must be a lowercase identifier such as `support_lead`
+
+  3. Security
+    - Enable RLS on `admin_permissions`; admins can view the catalogue
+    - Assigning and removing roles now requires `manage_roles` instead of `manage_users`, so an
+      account manager can no longer grant themselves `super_admin`
+    - Roles may only grant permissions from the catalogue
+    - `super_admin` keeps every permission in the catalogue
+    - The last holder of `super_admin` cannot lose the role
+
+  4. Functions and Triggers
+    - `validate_admin_role()` enforces the catalogue, system role and `super_admin` rules
+    - `protect_last_super_admin()` blocks removing the last `super_admin` assignment
+    - `save_admin_role()` creates or updates a custom role and logs the change
+    - `delete_admin_role()` deletes a custom role (and its assignments) and logs the change
+    - `assign_admin_role()` and `remove_admin_role()` change a user's roles and log the change
+*/
+
+-- Permission catalogue
+CREATE TABLE IF NOT EXISTS admin_permissions (
+  name text PRIMARY KEY,
+  description text NOT NULL
+);
+
+ALTER TABLE admin_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view admin permissions"
+  ON admin_permissions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO admin_permissions (name, description) VALUES
+  ('manage_users', 'Warn, suspend, shadow-ban and ban users'),
+  ('manage_roles', 'Create roles and assign them to users'),
+  ('manage_projects', 'Feature, pin and verify projects'),
+  ('manage_comments', 'Manage comments across the site'),
+  ('moderate_content', 'Review reports and hide projects and comments'),
+  ('view_analytics', 'View platform analytics')
+ON CONFLICT (name) DO NOTHING;
+
+-- System roles
+ALTER TABLE admin_roles ADD COLUMN IF NOT EXISTS is_system boolean NOT NULL DEFAULT false;
+
+UPDATE admin_roles
+SET is_system = true
+WHERE name IN ('super_admin', 'moderator', 'analyst');
+
+ALTER TABLE admin_roles DROP CONSTRAINT IF EXISTS admin_roles_name_format;
+ALTER TABLE admin_roles ADD CONSTRAINT admin_roles_name_format
+  CHECK (name ~ '^[a-z][a-z0-9_]{2,39}$');
+
+-- Only role managers can change who holds which role
+DROP POLICY IF EXISTS "Admins can manage user roles" ON user_roles;
+CREATE POLICY "Admins can manage user roles"
+  ON user_roles
+  FOR ALL
+  TO authenticated
+  USING (has_permission('manage_roles'))
+  WITH CHECK (has_permission('manage_roles'));
+
+-- Function to keep roles within the catalogue and protect the system roles
+CREATE OR REPLACE FUNCTION validate_admin_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  unknown_permission text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_system THEN
+      RAISE EXCEPTION 'The % role is built in and cannot be deleted', OLD.name;
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF jsonb_typeof(NEW.permissions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Role permissions must be a list';
+  END IF;
+
+  SELECT p.value INTO unknown_permission
+  FROM jsonb_array_elements_text(NEW.permissions) AS p(value)
+  WHERE NOT EXISTS (SELECT 1 FROM admin_permissions ap WHERE ap.name = p.value)
+  LIMIT 1;
+
+  IF unknown_permission IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown permission: %', unknown_permission;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.is_system AND NEW.name IS DISTINCT FROM OLD.name THEN
+      RAISE EXCEPTION 'The % role is built in and cannot be renamed', OLD.name;
+    END IF;
+
+    NEW.is_system := OLD.is_system;
+  ELSE
+    NEW.is_system := false;
+  END IF;
+
+  -- Losing a permission here could lock everyone out of role management
+  IF NEW.name = 'super_admin' AND EXISTS (
+    SELECT 1 FROM admin_permissions ap WHERE NOT NEW.permissions ? ap.name
+  ) THEN
+    RAISE EXCEPTION 'The super_admin role must keep every permission';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_admin_role_trigger ON admin_roles;
+CREATE TRIGGER validate_admin_role_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON admin_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_admin_role();
+
+-- Function to stop the last super admin from losing the role
+CREATE OR REPLACE FUNCTION protect_last_super_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  super_admin_role_id uuid;
+BEGIN
+  SELECT id INTO super_admin_role_id
+  FROM admin_roles
+  WHERE name = 'super_admin'
+  -- Serialize concurrent removals so two of them can't each leave the other as the last one
+  FOR UPDATE;
+
+  IF OLD.role_id = super_admin_role_id
+    AND (TG_OP = 'DELETE' OR NEW.role_id IS DISTINCT FROM OLD.role_id OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE role_id = super_admin_role_id
+      AND id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'Cannot remove the last super admin';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_last_super_admin_trigger ON user_roles;
+CREATE TRIGGER protect_last_super_admin_trigger
+  BEFORE UPDATE OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_last_super_admin();
+
+-- Function to create (target_role_id NULL) or update a role
+CREATE OR REPLACE FUNCTION save_admin_role(
+  target_role_id uuid,
+  role_name text,
+  role_description text,
+  role_permissions text[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  saved_role_id uuid;
+  cleaned_permissions jsonb;
+BEGIN
+  IF NOT has_permission('manage_roles') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT p ORDER BY p), '[]'::jsonb) INTO cleaned_permissions
+  FROM unnest(COALESCE(role_permissions, '{}')) AS p;
+
+  IF target_role_id IS NULL THEN
+    INSERT INTO admin_roles (name, description, permissions)
+    VALUES (lower(trim(role_name)), NULLIF(trim(role_description), ''), cleaned_permissions)
+    RETURNING id INTO saved_role_id;
+  ELSE
+    UPDATE admin_roles
+    SET
+      name = lower(trim(role_name)),
+      description = NULLIF(trim(role_description), ''),
+      permissions = cleaned_permissions
+    WHERE id = target_role_id
+    RETURNING id INTO saved_role_id;
+
+    IF saved_role_id IS NULL THEN
+      RAISE EXCEPTION 'Role not found';
+    END IF;
+  END IF;
+
+  -- Log action
+  PERFORM log_admin_action(
+    CASE WHEN target_role_id IS NULL THEN 'create_role' ELSE 'update_role' END,
+    'role',
+    saved_role_id,
+    jsonb_build_object(
+      'name', lower(trim(role_name)),
+      'permissions', cleaned_permissions
+    )
+  );
+
+  RETURN saved_role_id;
+END;
+$$;
+
+-- Function to delete a custom role
+CREATE OR REPLACE FUNCTION delete_admin_role(target_role_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  deleted_name text;
+  holder_count integer;
+BEGIN
+  IF NOT has_permission('manage_roles') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  SELECT count(*) INTO holder_count FROM user_roles WHERE role_id = target_role_id;
+
+  DELETE FROM admin_roles
+  WHERE id = target_role_id
+  RETURNING name INTO deleted_name;
+
+  IF deleted_name IS NULL THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  -- Log action
+  PERFORM log_admin_action(
+    'delete_role',
+    'role',
+    target_role_id,
+    jsonb_build_object('name', deleted_name, 'holders', holder_count)
+  );
+END;
+$$;
+
+-- Function to give a user a role
+CREATE OR REPLACE FUNCTION assign_admin_role(target_user_id uuid, target_role_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  assigned_name text;
+BEGIN
+  IF NOT has_permission('manage_roles') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  SELECT name INTO assigned_name FROM admin_roles WHERE id = target_role_id;
+
+  IF assigned_name IS NULL THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = target_user_id AND is_banned = true) THEN
+    RAISE EXCEPTION 'Banned users cannot be given admin roles';
+  END IF;
+
+  INSERT INTO user_roles (user_id, role_id, assigned_by)
+  VALUES (target_user_id, target_role_id, auth.uid())
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Log action
+  PERFORM log_admin_action(
+    'assign_role',
+    'user',
+    target_user_id,
+    jsonb_build_object('role_id', target_role_id, 'role', assigned_name)
+  );
+END;
+$$;
+
+-- Function to take a role away from a user
+CREATE OR REPLACE FUNCTION remove_admin_role(target_user_id uuid, target_role_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  removed_name text;
+BEGIN
+  IF NOT has_permission('manage_roles') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  SELECT name INTO removed_name FROM admin_roles WHERE id = target_role_id;
+
+  DELETE FROM user_roles
+  WHERE user_id = target_user_id
+  AND role_id = target_role_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Log action
+  PERFORM log_admin_action(
+    'remove_role',
+    'user',
+    target_user_id,
+    jsonb_build_object('role_id', target_role_id, 'role', removed_name)
+  );
+END;
+$$;